@@ -0,0 +1,18 @@
+/**
+ * EXPLANATION: Feature Gates
+ *
+ * Names of the plan features (Feature.name) that unlock parts of the product.
+ * Read per request so they can come from config loaded after import.
+ * An unset gate is open, so a deployment only enforces features its plans define.
+ */
+
+export type FeatureName = string | (() => string | undefined);
+
+export const featureGates = {
+  voiceSessions: () => process.env.VOICE_SESSION_FEATURE || undefined,
+  textChat: () => process.env.TEXT_CHAT_FEATURE || undefined,
+};
+
+export function resolveFeatureName(feature?: FeatureName): string | undefined {
+  return typeof feature === 'function' ? feature() : feature;
+}
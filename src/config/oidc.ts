@@ -0,0 +1,76 @@
+/**
+ * EXPLANATION: Social / OIDC Sign-in Providers
+ *
+ * Identity providers whose ID tokens the app accepts (Sign in with Google,
+ * Sign in with Apple). The mobile app signs in with the provider's SDK and
+ * sends us the ID token; we check its signature against the provider's
+ * published keys (JWKS), its issuer, and that it was issued to one of our
+ * client ids.
+ *
+ * - GOOGLE_CLIENT_IDS / APPLE_CLIENT_IDS: comma-separated client ids the token
+ *   may be issued to (web, iOS and Android client ids; Apple bundle or service id).
+ *   A provider is enabled once it has at least one.
+ * - GOOGLE_JWKS_URI / APPLE_JWKS_URI: where the signing keys are published
+ * - GOOGLE_JWKS_FILE / APPLE_JWKS_FILE: read the keys from a local JSON file
+ *   instead (a JWKS fixture for local development and tests)
+ * - OIDC_JWKS_CACHE_SECONDS (default 3600): how long fetched keys are reused;
+ *   a token with an unknown key id triggers an early refresh
+ *
+ * Apple tokens must be bound to a nonce (requireNonce), so one captured token
+ * can't be replayed; Google's SDKs don't always set one. Issuers are fixed per
+ * provider; only the client ids and the key source are configurable.
+ */
+
+export type OidcProviderName = 'google' | 'apple';
+
+export const OIDC_PROVIDERS: OidcProviderName[] = ['google', 'apple'];
+
+export interface OidcProviderConfig {
+  name: OidcProviderName;
+  issuers: string[];
+  clientIds: string[];
+  jwksUri: string;
+  jwksFile?: string;
+  requireNonce: boolean;
+}
+
+const DEFAULTS: Record<OidcProviderName, { issuers: string[]; jwksUri: string; requireNonce: boolean }> = {
+  google: {
+    issuers: ['https://accounts.google.com', 'accounts.google.com'],
+    jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+    requireNonce: false,
+  },
+  apple: {
+    issuers: ['https://appleid.apple.com'],
+    jwksUri: 'https://appleid.apple.com/auth/keys',
+    requireNonce: true,
+  },
+};
+
+/**
+ * Settings for a provider, or null when it isn't enabled
+ */
+export function getOidcProviderConfig(name: OidcProviderName): OidcProviderConfig | null {
+  const prefix = name.toUpperCase();
+  const clientIds = (process.env[`${prefix}_CLIENT_IDS`] || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (clientIds.length === 0) {
+    return null;
+  }
+
+  return {
+    name,
+    issuers: DEFAULTS[name].issuers,
+    clientIds,
+    jwksUri: process.env[`${prefix}_JWKS_URI`] || DEFAULTS[name].jwksUri,
+    jwksFile: process.env[`${prefix}_JWKS_FILE`] || undefined,
+    requireNonce: DEFAULTS[name].requireNonce,
+  };
+}
+
+export function getJwksCacheSeconds(): number {
+  return parseInt(process.env.OIDC_JWKS_CACHE_SECONDS || '3600', 10);
+}
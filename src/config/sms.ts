@@ -0,0 +1,32 @@
+/**
+ * EXPLANATION: SMS Policy
+ *
+ * Limits on text messages and the one-time codes sent by SMS.
+ *
+ * - SMS_SENDER_NAME: brand name used in message templates
+ * - SMS_RATE_LIMIT_PER_HOUR (default 5): code messages to one number per rolling hour
+ * - SMS_RESEND_INTERVAL_SECONDS (default 30): minimum wait between two code messages to one number
+ * - PHONE_CODE_TTL_SECONDS (default 300): how long a login or verification code is valid
+ * - PHONE_CODE_MAX_ATTEMPTS (default 5): wrong guesses before a code is thrown away
+ *
+ * The rate limit and resend interval count messages to a phone number, whichever
+ * account asked for them. Crisis alerts to emergency contacts are never rate limited.
+ */
+
+export interface SmsPolicy {
+  senderName: string;
+  maxPerHour: number;
+  resendIntervalSeconds: number;
+  codeTtlSeconds: number;
+  maxCodeAttempts: number;
+}
+
+export function getSmsPolicy(): SmsPolicy {
+  return {
+    senderName: process.env.SMS_SENDER_NAME || 'AVA',
+    maxPerHour: parseInt(process.env.SMS_RATE_LIMIT_PER_HOUR || '5', 10),
+    resendIntervalSeconds: parseInt(process.env.SMS_RESEND_INTERVAL_SECONDS || '30', 10),
+    codeTtlSeconds: parseInt(process.env.PHONE_CODE_TTL_SECONDS || '300', 10),
+    maxCodeAttempts: parseInt(process.env.PHONE_CODE_MAX_ATTEMPTS || '5', 10),
+  };
+}
@@ -179,21 +179,77 @@ const options = {
           properties: {
             phone: {
               type: 'string',
-              description: 'Phone number for OTP delivery'
+              description: 'Phone number to verify, E.164 (defaults to the account\'s current number)',
+              example: '+14155550123'
             }
           }
         },
         OTPVerificationRequest: {
           type: 'object',
-          required: ['otpId', 'code'],
+          required: ['code'],
           properties: {
-            otpId: {
+            code: {
+              type: 'string',
+              description: '6-digit code texted to the phone',
+              example: '482913'
+            }
+          }
+        },
+        OidcLoginRequest: {
+          type: 'object',
+          required: ['idToken'],
+          properties: {
+            idToken: {
+              type: 'string',
+              description: 'ID token from the Google / Apple sign-in SDK'
+            },
+            nonce: {
+              type: 'string',
+              description: 'Raw nonce passed to the SDK (the token may carry it or its SHA-256). Required for Apple and whenever the token carries a nonce'
+            },
+            name: {
+              type: 'string',
+              description: 'Display name for a new account (Apple only shares it with the app on the first sign-in)'
+            }
+          }
+        },
+        ConnectIdentityRequest: {
+          type: 'object',
+          required: ['idToken'],
+          properties: {
+            idToken: {
+              type: 'string',
+              description: 'ID token from the Google / Apple sign-in SDK'
+            },
+            nonce: {
+              type: 'string',
+              description: 'Raw nonce passed to the SDK; required for Apple and whenever the token carries a nonce'
+            }
+          }
+        },
+        PhoneLoginRequest: {
+          type: 'object',
+          required: ['phone'],
+          properties: {
+            phone: {
               type: 'string',
-              description: 'OTP identifier'
+              description: 'Verified phone number, E.164',
+              example: '+14155550123'
+            }
+          }
+        },
+        PhoneLoginVerifyRequest: {
+          type: 'object',
+          required: ['phone', 'code'],
+          properties: {
+            phone: {
+              type: 'string',
+              example: '+14155550123'
             },
             code: {
               type: 'string',
-              description: 'OTP verification code'
+              description: '6-digit code texted to the phone',
+              example: '482913'
             }
           }
         },
@@ -234,6 +290,46 @@ const options = {
             }
           }
         },
+        TwoFactorLoginRequest: {
+          type: 'object',
+          required: ['challengeToken', 'code'],
+          properties: {
+            challengeToken: { type: 'string', description: 'From the login response' },
+            code: { type: 'string', description: '6-digit authenticator code or a recovery code', example: '492039' }
+          }
+        },
+        TwoFactorEnrollment: {
+          type: 'object',
+          properties: {
+            secret: { type: 'string', description: 'Base32 TOTP secret for manual entry', example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' },
+            otpauthUri: {
+              type: 'string',
+              description: 'Render as a QR code for the authenticator app',
+              example: 'otpauth://totp/AVA%3Aadmin%40ava-support.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=AVA&algorithm=SHA1&digits=6&period=30'
+            },
+            expiresAt: { type: 'string', format: 'date-time', description: 'Confirm before this time' }
+          }
+        },
+        TwoFactorChallenge: {
+          type: 'object',
+          description: 'Login response while a second factor is needed',
+          properties: {
+            twoFactorRequired: { type: 'boolean', example: true },
+            challengeToken: { type: 'string' },
+            expiresAt: { type: 'string', format: 'date-time' },
+            setupRequired: { type: 'boolean', description: 'Policy requires 2FA and the account has none yet' },
+            enrollment: { $ref: '#/components/schemas/TwoFactorEnrollment' }
+          }
+        },
+        TwoFactorStatus: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            required: { type: 'boolean', description: 'Whether the policy requires 2FA for this kind of account' },
+            enabledAt: { type: 'string', format: 'date-time' },
+            recoveryCodesRemaining: { type: 'integer', example: 10 }
+          }
+        },
         Admin: {
           type: 'object',
           properties: {
@@ -316,6 +412,154 @@ const options = {
               description: 'Timestamp when the entry was created'
             }
           }
+        },
+        PlanUsageLimits: {
+          type: 'object',
+          description: 'Voice usage caps for a plan; omitted fields are unlimited',
+          properties: {
+            dailyVoiceMinutes: { type: 'integer', minimum: 0 },
+            monthlyVoiceMinutes: { type: 'integer', minimum: 0 },
+            dailyTurns: { type: 'integer', minimum: 0 },
+            monthlyTurns: { type: 'integer', minimum: 0 }
+          }
+        },
+        PlanPrice: {
+          type: 'object',
+          description: 'A purchasable price; amounts are fixed once created',
+          properties: {
+            id: { type: 'string' },
+            interval: { type: 'string', enum: ['month', 'year'] },
+            currency: { type: 'string', example: 'eur', description: 'ISO 4217, lowercase' },
+            amount: { type: 'integer', example: 9900, description: 'Minor units (cents)' },
+            isActive: { type: 'boolean' }
+          }
+        },
+        ArchivedBy: {
+          type: 'object',
+          properties: {
+            adminId: { type: 'string' },
+            adminEmail: { type: 'string' }
+          }
+        },
+        ArchiveImpact: {
+          type: 'object',
+          description: 'Subscribers (not yet expired) that block archiving; users lists at most 100',
+          properties: {
+            canArchive: { type: 'boolean' },
+            activeSubscribers: { type: 'integer' },
+            plans: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  activeSubscribers: { type: 'integer' }
+                }
+              }
+            },
+            users: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'string' },
+                  planId: { type: 'string' },
+                  status: { type: 'string', enum: ['trialing', 'active', 'past_due', 'canceled'] }
+                }
+              }
+            }
+          }
+        },
+        Localizations: {
+          type: 'object',
+          description: 'Translated display text keyed by locale ("de", "pt-BR"); missing fields fall back to the default text',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', maxLength: 100 },
+              description: { type: 'string', maxLength: 1000 }
+            }
+          },
+          example: { de: { name: 'Premium', description: 'Unbegrenzte Sitzungen' } }
+        },
+        PublicPlan: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string', description: 'Localized when a translation exists' },
+            description: { type: 'string', nullable: true },
+            recommended: { type: 'boolean' },
+            monthlyPrice: { type: 'number', description: 'Display price in major units' },
+            trialDays: { type: 'integer', nullable: true },
+            prices: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  interval: { type: 'string', enum: ['month', 'year'] },
+                  currency: { type: 'string', example: 'eur' },
+                  amount: { type: 'integer', example: 999 }
+                }
+              }
+            },
+            usageLimits: { $ref: '#/components/schemas/PlanUsageLimits' },
+            features: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  description: { type: 'string', nullable: true }
+                }
+              }
+            }
+          }
+        },
+        Coupon: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            code: { type: 'string', example: 'SPRING25' },
+            description: { type: 'string', nullable: true },
+            discountType: { type: 'string', enum: ['percent', 'fixed'] },
+            percentOff: { type: 'integer', nullable: true, example: 25 },
+            amountOff: { type: 'integer', nullable: true, description: 'Minor units' },
+            currency: { type: 'string', nullable: true, description: 'Fixed coupons only' },
+            planIds: { type: 'array', items: { type: 'string' }, description: 'Empty = every plan' },
+            maxRedemptions: { type: 'integer', nullable: true },
+            timesRedeemed: { type: 'integer' },
+            expiresAt: { type: 'string', format: 'date-time', nullable: true },
+            isActive: { type: 'boolean' }
+          }
+        },
+        UsageTotals: {
+          type: 'object',
+          properties: {
+            audioInSeconds: { type: 'number', description: 'Seconds of user audio streamed to the assistant' },
+            audioOutSeconds: { type: 'number', description: 'Seconds of assistant audio generated' },
+            voiceMinutes: { type: 'number', description: 'Audio in and out combined, in minutes' },
+            turns: { type: 'integer', description: 'User turns (spoken or typed) in voice sessions' }
+          }
+        },
+        UsageSummary: {
+          type: 'object',
+          properties: {
+            day: { type: 'string', example: '2026-10-19', description: 'Current UTC day' },
+            month: { type: 'string', example: '2026-10', description: 'Current UTC month' },
+            daily: { $ref: '#/components/schemas/UsageTotals' },
+            monthly: { $ref: '#/components/schemas/UsageTotals' },
+            limits: { $ref: '#/components/schemas/PlanUsageLimits' },
+            remaining: { $ref: '#/components/schemas/PlanUsageLimits' },
+            exceeded: {
+              type: 'string',
+              nullable: true,
+              description: 'Limit that currently blocks voice sessions',
+              example: 'dailyVoiceMinutes'
+            }
+          }
         }
       }
     },
@@ -331,10 +575,38 @@ const options = {
       {
         name: 'Waitlist',
         description: 'Manage the application waitlist'
+      },
+      {
+        name: 'Admin - Crisis Escalations',
+        description: 'Review and act on escalated crisis cases'
+      },
+      {
+        name: 'Admin - Personas',
+        description: 'Manage versioned assistant personas (prompt, voice, turn detection)'
+      },
+      {
+        name: 'Users',
+        description: 'User profile and preferences'
+      },
+      {
+        name: 'Admin - Usage',
+        description: 'Voice usage reports'
+      },
+      {
+        name: 'Billing',
+        description: 'Checkout, customer portal and payment provider webhooks'
+      },
+      {
+        name: 'Plans',
+        description: 'Public plan catalog for pricing pages'
+      },
+      {
+        name: 'SMS',
+        description: 'SMS provider delivery status callbacks'
       }
     ]
   },
-  apis: ['./src/routes/auth.ts', './src/routes/admin.ts', './src/routes/waitlist.ts'], // Path to the API docs
+  apis: ['./src/routes/auth.ts', './src/routes/admin.ts', './src/routes/waitlist.ts', './src/routes/crises.ts', './src/routes/personas.ts', './src/routes/users.ts', './src/routes/usage.ts', './src/routes/billing.ts', './src/routes/plans.ts', './src/routes/sms.ts'], // Path to the API docs
   };
   
   const specs = swaggerJsdoc(options) as any;
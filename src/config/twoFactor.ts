@@ -0,0 +1,43 @@
+/**
+ * EXPLANATION: Two-Factor Authentication Policy
+ *
+ * Who must use a TOTP second factor and how codes are checked.
+ *
+ * - TWO_FACTOR_REQUIRED_FOR_ADMINS (default true): admins without 2FA have to
+ *   enroll as part of their next login before they get a token, and can't turn it off
+ * - TWO_FACTOR_REQUIRED_FOR_USERS (default false): the same for app users
+ * - TWO_FACTOR_ISSUER: name shown in authenticator apps
+ * - TWO_FACTOR_WINDOW: accepted clock drift, in 30 second steps either side
+ * - TWO_FACTOR_CHALLENGE_TTL_SECONDS: time to enter the code after the password
+ * - TWO_FACTOR_ENCRYPTION_KEY: encrypts stored TOTP secrets (falls back to JWT_SECRET)
+ *
+ * Changing the encryption key (or JWT_SECRET while it is the fallback) makes the
+ * stored secrets unreadable, so every enrolled account would have to enroll again.
+ */
+
+export type TwoFactorAccountType = 'user' | 'admin';
+
+export interface TwoFactorPolicy {
+  issuer: string;
+  requiredFor: Record<TwoFactorAccountType, boolean>;
+  window: number;
+  challengeTtlSeconds: number;
+  recoveryCodeCount: number;
+}
+
+export function getTwoFactorPolicy(): TwoFactorPolicy {
+  return {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'AVA',
+    requiredFor: {
+      admin: process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS !== 'false',
+      user: process.env.TWO_FACTOR_REQUIRED_FOR_USERS === 'true',
+    },
+    window: parseInt(process.env.TWO_FACTOR_WINDOW || '1', 10),
+    challengeTtlSeconds: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300', 10),
+    recoveryCodeCount: 10,
+  };
+}
+
+export function getTwoFactorEncryptionKey(): string {
+  return process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key';
+}
@@ -0,0 +1,76 @@
+/**
+ * EXPLANATION: Voice Cluster Configuration
+ *
+ * Lets several server replicas run the voice gateway behind a load balancer.
+ *
+ * SESSION_REGISTRY selects the backend:
+ * - memory (default): single node, nothing shared
+ * - redis: session registry and Socket.IO adapter share REDIS_URL, so every node
+ *   sees every live session and can emit to sockets connected to other nodes
+ *
+ * NODE_ID names this replica in the registry (defaults to hostname + pid).
+ */
+
+import os from 'os';
+import { Server } from 'socket.io';
+import { createClient } from 'redis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import {
+  SessionRegistry,
+  MemorySessionRegistry,
+  RedisSessionRegistry
+} from '../services/sessionRegistry';
+import { logInfo, logError } from '../utils/logger';
+
+export interface VoiceCluster {
+  nodeId: string;
+  registry: SessionRegistry;
+  close(): Promise<void>;
+}
+
+export function resolveNodeId(): string {
+  return process.env.NODE_ID || `${os.hostname()}-${process.pid}`;
+}
+
+/**
+ * EXPLANATION: Set up the session registry and, for redis, the Socket.IO adapter
+ * Redis connections are opened here; commands issued before they are ready are queued.
+ */
+export function setupVoiceCluster(io: Server, driver: string = process.env.SESSION_REGISTRY || 'memory'): VoiceCluster {
+  const nodeId = resolveNodeId();
+
+  switch (driver) {
+    case 'memory': {
+      const registry = new MemorySessionRegistry();
+      return { nodeId, registry, close: () => registry.close() };
+    }
+
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://localhost:6379';
+      const client = createClient({ url });
+      const registrySubscriber = client.duplicate();
+      const adapterSubscriber = client.duplicate();
+
+      for (const connection of [client, registrySubscriber, adapterSubscriber]) {
+        connection.on('error', (error) => logError('[VoiceCluster] Redis connection error', error));
+        connection.connect().catch((error) => logError('[VoiceCluster] Redis connect failed', error));
+      }
+
+      io.adapter(createAdapter(client, adapterSubscriber));
+      const registry = new RedisSessionRegistry(client, registrySubscriber);
+
+      logInfo(`[VoiceCluster] Node ${nodeId} using redis session registry`);
+      return {
+        nodeId,
+        registry,
+        close: async () => {
+          await registry.close();
+          await adapterSubscriber.quit();
+        }
+      };
+    }
+
+    default:
+      throw new Error(`Unknown session registry: ${driver}`);
+  }
+}
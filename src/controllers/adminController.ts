@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { authService } from '../services/authService';
 import { adminUserService } from '../services/adminUserService';
+import { twoFactorService } from '../services/twoFactorService';
+import { sendTwoFactorError } from './authController';
 
 export class AdminController {
   /**
@@ -90,13 +92,19 @@ export class AdminController {
 
       const authResponse = await authService.adminLogin({ email, password });
 
+      if ('twoFactorRequired' in authResponse) {
+        res.json({
+          success: true,
+          message: authResponse.setupRequired
+            ? 'Two-factor authentication must be set up to continue'
+            : 'Two-factor authentication required',
+          data: authResponse
+        });
+        return;
+      }
+
       // Set refresh token as httpOnly cookie
-      res.cookie('adminRefreshToken', authResponse.tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-      });
+      setAdminRefreshTokenCookie(res, authResponse.tokens.refreshToken);
 
       res.json({
         success: true,
@@ -123,6 +131,169 @@ export class AdminController {
     }
   }
 
+  /**
+   * POST /api/admin/login/2fa
+   * Complete an admin login with the second factor (or the first code of a new authenticator)
+   */
+  async verifyTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code } = req.body;
+
+      const authResponse = await authService.verifyAdminTwoFactorLogin(challengeToken, code);
+      setAdminRefreshTokenCookie(res, authResponse.tokens.refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Admin login successful',
+        data: {
+          user: authResponse.user,
+          accessToken: authResponse.tokens.accessToken,
+          recoveryCodes: authResponse.recoveryCodes
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Login failed';
+
+      res.status(message.includes('locked') ? 429 : 401).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/2fa
+   * Two-factor status of the current admin
+   */
+  async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required'
+        });
+        return;
+      }
+
+      const admin = await twoFactorService.findAccount('admin', req.admin.adminId);
+
+      res.json({
+        success: true,
+        message: 'Two-factor status retrieved successfully',
+        data: twoFactorService.getStatus(admin, 'admin')
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to retrieve two-factor status');
+    }
+  }
+
+  /**
+   * POST /api/admin/2fa/setup
+   * Start enrolling an authenticator app (admins without 2FA are also enrolled at login when it is required)
+   */
+  async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required'
+        });
+        return;
+      }
+
+      const admin = await twoFactorService.findAccount('admin', req.admin.adminId);
+      const enrollment = await twoFactorService.beginEnrollment(admin);
+
+      res.json({
+        success: true,
+        message: 'Scan the QR code and confirm with a code from the app',
+        data: enrollment
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to start two-factor setup');
+    }
+  }
+
+  /**
+   * POST /api/admin/2fa/confirm
+   * Enable 2FA with the first code; returns recovery codes once
+   */
+  async confirmTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required'
+        });
+        return;
+      }
+
+      const admin = await twoFactorService.findAccount('admin', req.admin.adminId);
+      const recoveryCodes = await twoFactorService.confirmEnrollment(admin, req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+    }
+  }
+
+  /**
+   * POST /api/admin/2fa/recovery-codes
+   * Replace the current admin's recovery codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required'
+        });
+        return;
+      }
+
+      const admin = await twoFactorService.findAccount('admin', req.admin.adminId);
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(admin, req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+    }
+  }
+
+  /**
+   * POST /api/admin/2fa/disable
+   * Only allowed when TWO_FACTOR_REQUIRED_FOR_ADMINS=false
+   */
+  async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required'
+        });
+        return;
+      }
+
+      const admin = await twoFactorService.findAccount('admin', req.admin.adminId);
+      await twoFactorService.disable(admin, 'admin', req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+    }
+  }
+
   /**
    * POST /api/admin/verify-email
    * Verify admin email with token
@@ -489,4 +660,13 @@ export class AdminController {
   }
 }
 
+function setAdminRefreshTokenCookie(res: Response, refreshToken: string): void {
+  res.cookie('adminRefreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+  });
+}
+
 export const adminController = new AdminController();
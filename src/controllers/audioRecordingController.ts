@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { audioRecordingService } from '../services/audioRecordingService';
+import { parseByteRange } from '../utils/audio';
+import { logError } from '../utils/logger';
+
+export class AudioRecordingController {
+  /**
+   * GET /api/users/me/recording-consent
+   * Current audio recording consent
+   */
+  async getConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const consent = await audioRecordingService.getConsent(userId);
+
+      res.json({
+        success: true,
+        message: 'Recording consent retrieved successfully',
+        data: consent,
+      });
+    } catch (error) {
+      handleRecordingError(res, error, 'Failed to retrieve recording consent');
+    }
+  }
+
+  /**
+   * PUT /api/users/me/recording-consent
+   * Opt in to or out of audio recording
+   */
+  async setConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { enabled, deleteRecordings } = req.body as { enabled: boolean; deleteRecordings?: boolean };
+      const consent = await audioRecordingService.setConsent(userId, enabled, { deleteRecordings });
+
+      res.json({
+        success: true,
+        message: enabled ? 'Audio recording enabled' : 'Audio recording disabled',
+        data: consent,
+      });
+    } catch (error) {
+      handleRecordingError(res, error, 'Failed to update recording consent');
+    }
+  }
+
+  /**
+   * GET /api/sessions/:sessionId/messages/:messageId/audio
+   * Stream a recorded turn; honours Range requests for seeking
+   */
+  async streamMessageAudio(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { sessionId, messageId } = req.params;
+      const file = await audioRecordingService.getMessageAudio(userId, sessionId, messageId);
+      const range = parseByteRange(req.headers.range, file.size);
+
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+
+      if (range === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${file.size}`);
+        res.status(416).end();
+        return;
+      }
+
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+      } else {
+        res.status(200);
+        res.setHeader('Content-Length', file.size);
+      }
+
+      const stream = audioRecordingService.createReadStream(file.storageKey, range || undefined);
+      stream.on('error', (error) => {
+        logError(`[AudioRecording] Failed to stream ${file.storageKey}`, error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      handleRecordingError(res, error, 'Failed to stream recording');
+    }
+  }
+}
+
+function handleRecordingError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: fallback,
+    });
+  }
+}
+
+export const audioRecordingController = new AudioRecordingController();
@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
 import { authService } from '../services/authService';
+import { refreshTokenService } from '../services/refreshTokenService';
+import { twoFactorService } from '../services/twoFactorService';
+import { oidcService } from '../services/oidcService';
+import { ILinkedIdentity } from '../models/schemas/LinkedIdentity';
 import { User } from '../models/schemas/User';
 
 export class AuthController {
@@ -113,15 +117,22 @@ export class AuthController {
         return;
       }
 
-      const authResponse = await authService.login({ email, password });
+      const authResponse = await authService.login(
+        { email, password },
+        { userAgent: req.get('user-agent'), ip: req.ip }
+      );
+
+      if ('twoFactorRequired' in authResponse) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication required',
+          data: authResponse
+        });
+        return;
+      }
 
       // Set refresh token as httpOnly cookie
-      res.cookie('refreshToken', authResponse.tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-      });
+      setRefreshTokenCookie(res, authResponse.tokens.refreshToken);
 
       res.json({
         success: true,
@@ -139,6 +150,146 @@ export class AuthController {
     }
   }
 
+  /**
+   * POST /auth/login/2fa
+   * Complete a login with the second factor
+   */
+  async verifyTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code } = req.body;
+
+      const authResponse = await authService.verifyTwoFactorLogin(
+        challengeToken,
+        code,
+        { userAgent: req.get('user-agent'), ip: req.ip }
+      );
+
+      setRefreshTokenCookie(res, authResponse.tokens.refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          user: authResponse.user,
+          accessToken: authResponse.tokens.accessToken,
+          recoveryCodes: authResponse.recoveryCodes
+        }
+      });
+    } catch (error) {
+      res.status(401).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Login failed'
+      });
+    }
+  }
+
+  /**
+   * GET /auth/2fa
+   * Two-factor status of the current user
+   */
+  async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Two-factor status retrieved successfully',
+      data: twoFactorService.getStatus(req.user, 'user')
+    });
+  }
+
+  /**
+   * POST /auth/2fa/setup
+   * Start enrolling an authenticator app
+   */
+  async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const enrollment = await twoFactorService.beginEnrollment(req.user);
+
+      res.json({
+        success: true,
+        message: 'Scan the QR code and confirm with a code from the app',
+        data: enrollment
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to start two-factor setup');
+    }
+  }
+
+  /**
+   * POST /auth/2fa/confirm
+   * Enable 2FA with the first code; returns recovery codes once
+   */
+  async confirmTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.confirmEnrollment(req.user, req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to enable two-factor authentication');
+    }
+  }
+
+  /**
+   * POST /auth/2fa/disable
+   */
+  async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await twoFactorService.disable(req.user, 'user', req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to disable two-factor authentication');
+    }
+  }
+
+  /**
+   * POST /auth/2fa/recovery-codes
+   * Replace the recovery codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user, req.body.code);
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+    }
+  }
+
   /**
    * POST /auth/set-password
    * Set or update user password
@@ -204,13 +355,8 @@ export class AuthController {
 
       const tokens = await authService.refreshToken(refreshToken);
 
-      // Update refresh token cookie
-      res.cookie('refreshToken', tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-      });
+      // The old refresh token is spent; replace the cookie
+      setRefreshTokenCookie(res, tokens.refreshToken);
 
       res.json({
         success: true,
@@ -297,10 +443,12 @@ export class AuthController {
 
   /**
    * POST /auth/logout
-   * User logout
+   * User logout (revokes this device's refresh token)
    */
   async logout(req: Request, res: Response): Promise<void> {
     try {
+      await authService.logout(req.cookies.refreshToken);
+
       // Clear refresh token cookie
       res.clearCookie('refreshToken');
 
@@ -316,9 +464,103 @@ export class AuthController {
     }
   }
 
+  /**
+   * POST /auth/logout-all
+   * Revoke every login of the current user
+   */
+  async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const revoked = await authService.logoutAllDevices(userId);
+      res.clearCookie('refreshToken');
+
+      res.json({
+        success: true,
+        message: 'Logged out of all devices',
+        data: { revokedSessions: revoked }
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Logout failed'
+      });
+    }
+  }
+
+  /**
+   * GET /auth/sessions
+   * Active logins of the current user
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const sessions = await authService.getActiveSessions(userId, req.authSessionId);
+
+      res.json({
+        success: true,
+        message: 'Sessions retrieved successfully',
+        data: sessions
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve sessions'
+      });
+    }
+  }
+
+  /**
+   * DELETE /auth/sessions/:sessionId
+   * Log out one device
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await authService.revokeSession(userId, req.params.sessionId);
+
+      if (req.params.sessionId === req.authSessionId) {
+        res.clearCookie('refreshToken');
+      }
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to revoke session';
+
+      if (message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          message: 'Failed to revoke session'
+        });
+      }
+    }
+  }
+
   /**
    * POST /auth/send-otp
-   * Send OTP for additional security
+   * Text a code to verify a phone number for the current user
    */
   async sendOTP(req: Request, res: Response): Promise<void> {
     try {
@@ -333,55 +575,240 @@ export class AuthController {
         return;
       }
 
-      const { otpId } = await authService.sendOTP(userId, phone);
+      const { otpId, expiresAt } = await authService.sendOTP(userId, phone);
 
       res.json({
         success: true,
         message: 'OTP sent successfully',
-        data: { otpId }
+        data: { otpId, expiresAt }
       });
     } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'OTP send failed'
-      });
+      sendSmsError(res, error, 'OTP send failed');
     }
   }
 
   /**
    * POST /auth/verify-otp
-   * Verify OTP code
+   * Confirm the phone number with the texted code
    */
   async verifyOTP(req: Request, res: Response): Promise<void> {
     try {
-      const { otpId, code } = req.body;
+      const { code } = req.body;
+      const userId = req.user?._id?.toString();
 
-      if (!otpId || !code) {
-        res.status(400).json({
+      if (!userId) {
+        res.status(401).json({
           success: false,
-          message: 'OTP ID and code are required'
+          message: 'Authentication required'
         });
         return;
       }
 
-      const isValid = await authService.verifyOTP(otpId, code);
+      const isValid = await authService.verifyOTP(userId, code);
 
       if (isValid) {
         res.json({
           success: true,
-          message: 'OTP verified successfully'
+          message: 'Phone number verified successfully'
         });
       } else {
         res.status(400).json({
           success: false,
-          message: 'Invalid OTP code'
+          message: 'Invalid or expired code'
         });
       }
     } catch (error) {
-      res.status(400).json({
+      sendSmsError(res, error, 'OTP verification failed');
+    }
+  }
+
+  /**
+   * POST /auth/login/phone
+   * Text a login code to a verified phone number
+   */
+  async requestPhoneLoginCode(req: Request, res: Response): Promise<void> {
+    try {
+      await authService.requestPhoneLoginCode(req.body.phone);
+
+      res.json({
+        success: true,
+        message: 'If this phone number belongs to an account, a login code has been sent.'
+      });
+    } catch (error) {
+      sendSmsError(res, error, 'Login code request failed');
+    }
+  }
+
+  /**
+   * POST /auth/login/phone/verify
+   * Log in with the texted code
+   */
+  async loginWithPhoneCode(req: Request, res: Response): Promise<void> {
+    try {
+      const { phone, code } = req.body;
+
+      const authResponse = await authService.loginWithPhoneCode(
+        phone,
+        code,
+        { userAgent: req.get('user-agent'), ip: req.ip }
+      );
+
+      if ('twoFactorRequired' in authResponse) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication required',
+          data: authResponse
+        });
+        return;
+      }
+
+      setRefreshTokenCookie(res, authResponse.tokens.refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          user: authResponse.user,
+          accessToken: authResponse.tokens.accessToken
+        }
+      });
+    } catch (error) {
+      res.status(401).json({
         success: false,
-        message: error instanceof Error ? error.message : 'OTP verification failed'
+        message: error instanceof Error ? error.message : 'Login failed'
+      });
+    }
+  }
+
+  /**
+   * GET /auth/oidc/providers
+   * Social sign-in providers enabled on this server
+   */
+  async getOidcProviders(req: Request, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      message: 'Sign-in providers retrieved successfully',
+      data: { providers: oidcService.enabledProviders() }
+    });
+  }
+
+  /**
+   * POST /auth/oidc/:provider
+   * Sign in with a Google / Apple ID token
+   */
+  async loginWithIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const { idToken, nonce, name } = req.body;
+
+      const authResponse = await authService.loginWithIdentity(
+        req.params.provider,
+        idToken,
+        { nonce, name },
+        { userAgent: req.get('user-agent'), ip: req.ip }
+      );
+
+      if ('twoFactorRequired' in authResponse) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication required',
+          data: authResponse
+        });
+        return;
+      }
+
+      setRefreshTokenCookie(res, authResponse.tokens.refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          user: authResponse.user,
+          accessToken: authResponse.tokens.accessToken
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Login failed';
+      res.status(message.endsWith('is not available') ? 400 : 401).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  /**
+   * GET /auth/identities
+   * Sign-in identities connected to the current user
+   */
+  async listIdentities(req: Request, res: Response): Promise<void> {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Connected identities retrieved successfully',
+      data: {
+        identities: req.user.identities.map(toIdentityResponse),
+        hasPassword: !!req.user.password
+      }
+    });
+  }
+
+  /**
+   * POST /auth/identities/:provider
+   * Connect a Google / Apple account to the current user
+   */
+  async connectIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const identities = await oidcService.connect(userId, req.params.provider, req.body.idToken, req.body.nonce);
+
+      res.json({
+        success: true,
+        message: 'Identity connected successfully',
+        data: { identities: identities.map(toIdentityResponse) }
+      });
+    } catch (error) {
+      sendIdentityError(res, error, 'Failed to connect identity');
+    }
+  }
+
+  /**
+   * DELETE /auth/identities/:provider
+   * Disconnect a Google / Apple account from the current user
+   */
+  async disconnectIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const identities = await oidcService.disconnect(userId, req.params.provider);
+
+      res.json({
+        success: true,
+        message: 'Identity disconnected successfully',
+        data: { identities: identities.map(toIdentityResponse) }
       });
+    } catch (error) {
+      sendIdentityError(res, error, 'Failed to disconnect identity');
     }
   }
 
@@ -409,6 +836,7 @@ export class AuthController {
           email: user.email,
           name: user.name,
           emailVerified: user.emailVerified,
+          phone: user.phone,
           lastLogin: user.lastLogin,
           createdAt: user.createdAt
         }
@@ -713,4 +1141,72 @@ export class AuthController {
   }
 }
 
+function setRefreshTokenCookie(res: Response, refreshToken: string): void {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: refreshTokenService.ttlDays * 24 * 60 * 60 * 1000
+  });
+}
+
+/**
+ * Status for two-factor management errors (shared with the admin endpoints)
+ */
+export function sendTwoFactorError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({ success: false, message });
+  } else if (message.includes('already') || message.includes('not enabled') || message.startsWith('Cannot')) {
+    res.status(409).json({ success: false, message });
+  } else if (message.startsWith('Invalid') || message.startsWith('No two-factor')) {
+    res.status(400).json({ success: false, message });
+  } else {
+    res.status(500).json({ success: false, message: fallback });
+  }
+}
+
+/**
+ * Status for errors from the endpoints that send SMS codes
+ */
+function sendSmsError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.startsWith('Too many')) {
+    res.status(429).json({ success: false, message });
+  } else if (message.includes('not found')) {
+    res.status(404).json({ success: false, message });
+  } else if (message.includes('already in use')) {
+    res.status(409).json({ success: false, message });
+  } else if (message === 'Failed to send SMS') {
+    res.status(502).json({ success: false, message });
+  } else {
+    res.status(400).json({ success: false, message });
+  }
+}
+
+function toIdentityResponse(identity: ILinkedIdentity) {
+  return {
+    provider: identity.provider,
+    email: identity.email,
+    linkedAt: identity.linkedAt,
+    lastUsedAt: identity.lastUsedAt
+  };
+}
+
+function sendIdentityError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({ success: false, message });
+  } else if (message.includes('already') || message.startsWith('Cannot')) {
+    res.status(409).json({ success: false, message });
+  } else if (message.startsWith('Invalid') || message.endsWith('is not available')) {
+    res.status(400).json({ success: false, message });
+  } else {
+    res.status(500).json({ success: false, message: fallback });
+  }
+}
+
 export const authController = new AuthController();
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import { billingService } from '../services/billingService';
+import { logWarn, logError } from '../utils/logger';
+
+export class BillingController {
+  /**
+   * Runs before every billing route: without a usable payment provider
+   * billing answers 503 instead of failing each request
+   */
+  requireProvider(_req: Request, res: Response, next: NextFunction): void {
+    if (!billingService.isAvailable()) {
+      res.status(503).json({
+        success: false,
+        message: 'Billing is not available',
+      });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * POST /api/billing/checkout
+   * Start a hosted checkout for a plan
+   */
+  async createCheckout(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { planId, priceId, couponCode } = req.body;
+      const checkout = await billingService.createCheckout(userId, planId, { priceId, couponCode });
+
+      res.status(201).json({
+        success: true,
+        message: 'Checkout created successfully',
+        data: checkout,
+      });
+    } catch (error) {
+      handleBillingError(res, error, 'Failed to create checkout');
+    }
+  }
+
+  /**
+   * POST /api/billing/portal
+   * Link to the payment provider's customer portal
+   */
+  async createPortal(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const portal = await billingService.createPortal(userId);
+
+      res.json({
+        success: true,
+        message: 'Portal link created successfully',
+        data: portal,
+      });
+    } catch (error) {
+      handleBillingError(res, error, 'Failed to create portal link');
+    }
+  }
+
+  /**
+   * POST /api/billing/webhook
+   * Payment provider events; the body is the raw, signed payload
+   */
+  async handleWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+      const result = await billingService.handleWebhook(rawBody, req.headers);
+
+      res.json({
+        success: true,
+        message: 'Webhook received',
+        data: result,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.startsWith('Invalid webhook')) {
+        logWarn(`BILLING: Rejected webhook: ${message}`);
+        res.status(400).json({
+          success: false,
+          message,
+        });
+        return;
+      }
+
+      // Anything else is answered with 500 so the provider delivers the event again
+      logError('BILLING: Webhook processing failed', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to process webhook',
+      });
+    }
+  }
+
+  /**
+   * POST /api/billing/fake/events
+   * Play a fake provider event for the current user (PAYMENT_PROVIDER=fake, outside production)
+   */
+  async simulateFakeEvent(req: Request, res: Response): Promise<void> {
+    try {
+      if (process.env.NODE_ENV === 'production') {
+        res.status(404).json({ error: 'Route not found' });
+        return;
+      }
+
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await billingService.simulateFakeEvent(userId, req.body.type, req.body.checkoutId);
+
+      res.json({
+        success: true,
+        message: 'Fake payment event processed',
+        data: result,
+      });
+    } catch (error) {
+      handleBillingError(res, error, 'Failed to process fake payment event');
+    }
+  }
+}
+
+function handleBillingError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('already')) {
+    res.status(409).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('Invalid') || message.includes('Cannot')) {
+    res.status(400).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: fallback,
+    });
+  }
+}
+
+export const billingController = new BillingController();
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { couponService } from '../services/couponService';
+import { ICoupon } from '../models/schemas/Coupon';
+
+export class CouponController {
+  /**
+   * POST /api/admin/coupons
+   * Create a promo code
+   */
+  async createCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const coupon = await couponService.createCoupon(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Coupon created successfully',
+        data: toCouponResponse(coupon),
+      });
+    } catch (error) {
+      handleCouponError(res, error, 'Failed to create coupon');
+    }
+  }
+
+  /**
+   * GET /api/admin/coupons
+   * All coupons (active only unless includeInactive=true)
+   */
+  async getAllCoupons(req: Request, res: Response): Promise<void> {
+    try {
+      const coupons = await couponService.getAllCoupons(req.query.includeInactive === 'true');
+
+      res.json({
+        success: true,
+        message: 'Coupons retrieved successfully',
+        data: coupons.map(toCouponResponse),
+      });
+    } catch (error) {
+      handleCouponError(res, error, 'Failed to fetch coupons');
+    }
+  }
+
+  /**
+   * GET /api/admin/coupons/:id
+   */
+  async getCouponById(req: Request, res: Response): Promise<void> {
+    try {
+      const coupon = await couponService.getCouponById(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Coupon retrieved successfully',
+        data: toCouponResponse(coupon),
+      });
+    } catch (error) {
+      handleCouponError(res, error, 'Failed to fetch coupon');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/coupons/:id
+   * Change availability; the discount itself is fixed
+   */
+  async updateCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const coupon = await couponService.updateCoupon(req.params.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Coupon updated successfully',
+        data: toCouponResponse(coupon),
+      });
+    } catch (error) {
+      handleCouponError(res, error, 'Failed to update coupon');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/coupons/:id
+   * Only coupons that were never redeemed
+   */
+  async deleteCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      await couponService.deleteCoupon(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Coupon deleted successfully',
+      });
+    } catch (error) {
+      handleCouponError(res, error, 'Failed to delete coupon');
+    }
+  }
+}
+
+function toCouponResponse(coupon: ICoupon) {
+  return {
+    id: coupon._id.toString(),
+    code: coupon.code,
+    description: coupon.description || null,
+    discountType: coupon.discountType,
+    percentOff: coupon.percentOff ?? null,
+    amountOff: coupon.amountOff ?? null,
+    currency: coupon.currency || null,
+    planIds: coupon.planIds.map((id) => id.toString()),
+    maxRedemptions: coupon.maxRedemptions ?? null,
+    timesRedeemed: coupon.timesRedeemed,
+    expiresAt: coupon.expiresAt || null,
+    isActive: coupon.isActive,
+    createdAt: coupon.createdAt,
+    updatedAt: coupon.updatedAt,
+  };
+}
+
+function handleCouponError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('already exists')) {
+    res.status(409).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('Invalid') || message.includes('Cannot')) {
+    res.status(400).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: fallback,
+    });
+  }
+}
+
+export const couponController = new CouponController();
@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { crisisEscalationService, GetEscalationsOptions } from '../services/crisisEscalationService';
+
+export class CrisisController {
+  /**
+   * GET /api/admin/crises
+   * List crisis escalations
+   */
+  async getEscalations(req: Request, res: Response): Promise<void> {
+    try {
+      // Validated and converted by crisisValidationSchemas.listEscalations
+      const { page, limit, status, severity } = req.query as GetEscalationsOptions;
+
+      const result = await crisisEscalationService.getEscalations({
+        page: page || 1,
+        limit: limit || 20,
+        status,
+        severity,
+      });
+
+      res.json({
+        success: true,
+        message: 'Escalations retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch escalations',
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/crises/:escalationId
+   * Get a single escalation with its step history
+   */
+  async getEscalationById(req: Request, res: Response): Promise<void> {
+    try {
+      const escalation = await crisisEscalationService.getEscalationById(req.params.escalationId);
+
+      res.json({
+        success: true,
+        message: 'Escalation retrieved successfully',
+        data: escalation,
+      });
+    } catch (error) {
+      handleEscalationError(res, error, 'Failed to fetch escalation');
+    }
+  }
+
+  /**
+   * POST /api/admin/crises/:escalationId/acknowledge
+   * Acknowledge an escalation
+   */
+  async acknowledge(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const escalation = await crisisEscalationService.acknowledge(
+        req.params.escalationId,
+        { adminId: req.admin.adminId, email: req.admin.email },
+        req.body.note
+      );
+
+      res.json({
+        success: true,
+        message: 'Escalation acknowledged',
+        data: escalation,
+      });
+    } catch (error) {
+      handleEscalationError(res, error, 'Failed to acknowledge escalation');
+    }
+  }
+
+  /**
+   * POST /api/admin/crises/:escalationId/assign
+   * Assign an escalation to an admin
+   */
+  async assign(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const escalation = await crisisEscalationService.assign(
+        req.params.escalationId,
+        req.body.adminId,
+        { adminId: req.admin.adminId, email: req.admin.email }
+      );
+
+      res.json({
+        success: true,
+        message: 'Escalation assigned',
+        data: escalation,
+      });
+    } catch (error) {
+      handleEscalationError(res, error, 'Failed to assign escalation');
+    }
+  }
+
+  /**
+   * POST /api/admin/crises/:escalationId/resolve
+   * Resolve an escalation
+   */
+  async resolve(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const escalation = await crisisEscalationService.resolve(
+        req.params.escalationId,
+        { adminId: req.admin.adminId, email: req.admin.email },
+        req.body.resolutionNotes
+      );
+
+      res.json({
+        success: true,
+        message: 'Escalation resolved',
+        data: escalation,
+      });
+    } catch (error) {
+      handleEscalationError(res, error, 'Failed to resolve escalation');
+    }
+  }
+}
+
+function handleEscalationError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('already resolved')) {
+    res.status(409).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message,
+    });
+  }
+}
+
+export const crisisController = new CrisisController();
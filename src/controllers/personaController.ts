@@ -0,0 +1,304 @@
+import { Request, Response } from 'express';
+import { personaService } from '../services/personaService';
+import { IPersona } from '../models/schemas/Persona';
+
+export class PersonaController {
+  /**
+   * POST /api/admin/personas
+   * Create a persona with its first version
+   */
+  async createPersona(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const persona = await personaService.createPersona(req.body, {
+        adminId: req.admin.adminId,
+        email: req.admin.email,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Persona created successfully',
+        data: toPersonaResponse(persona),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to create persona');
+    }
+  }
+
+  /**
+   * GET /api/admin/personas
+   * List personas
+   */
+  async getAllPersonas(req: Request, res: Response): Promise<void> {
+    try {
+      const includeInactive = String(req.query.includeInactive) === 'true';
+      const personas = await personaService.getAllPersonas(includeInactive);
+
+      res.json({
+        success: true,
+        message: 'Personas retrieved successfully',
+        data: personas.map((p) => toPersonaResponse(p, false)),
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch personas',
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/personas/:personaId
+   * Get a persona with its versions and publish history
+   */
+  async getPersonaById(req: Request, res: Response): Promise<void> {
+    try {
+      const persona = await personaService.getPersonaById(req.params.personaId);
+
+      res.json({
+        success: true,
+        message: 'Persona retrieved successfully',
+        data: toPersonaResponse(persona),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to fetch persona');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/personas/:personaId
+   * Update persona metadata
+   */
+  async updatePersona(req: Request, res: Response): Promise<void> {
+    try {
+      const persona = await personaService.updatePersona(req.params.personaId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Persona updated successfully',
+        data: toPersonaResponse(persona),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to update persona');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/personas/:personaId
+   * Deactivate a persona (versions are retained)
+   */
+  async deactivatePersona(req: Request, res: Response): Promise<void> {
+    try {
+      const persona = await personaService.deactivatePersona(req.params.personaId);
+
+      res.json({
+        success: true,
+        message: 'Persona deactivated successfully',
+        data: toPersonaResponse(persona, false),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to deactivate persona');
+    }
+  }
+
+  /**
+   * POST /api/admin/personas/:personaId/versions
+   * Create a new draft version
+   */
+  async createVersion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const persona = await personaService.createVersion(req.params.personaId, req.body, {
+        adminId: req.admin.adminId,
+        email: req.admin.email,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Persona version created successfully',
+        data: toPersonaResponse(persona),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to create persona version');
+    }
+  }
+
+  /**
+   * POST /api/admin/personas/:personaId/versions/:version/publish
+   * Publish a version
+   */
+  async publishVersion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const persona = await personaService.publishVersion(req.params.personaId, Number(req.params.version), {
+        adminId: req.admin.adminId,
+        email: req.admin.email,
+      });
+
+      res.json({
+        success: true,
+        message: 'Persona version published',
+        data: toPersonaResponse(persona),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to publish persona version');
+    }
+  }
+
+  /**
+   * POST /api/admin/personas/:personaId/rollback
+   * Roll back to an earlier version
+   */
+  async rollback(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json({
+          success: false,
+          message: 'Admin authentication required',
+        });
+        return;
+      }
+
+      const persona = await personaService.rollback(
+        req.params.personaId,
+        { adminId: req.admin.adminId, email: req.admin.email },
+        req.body.version
+      );
+
+      res.json({
+        success: true,
+        message: `Persona rolled back to version ${persona.publishedVersion}`,
+        data: toPersonaResponse(persona),
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to roll back persona');
+    }
+  }
+
+  /**
+   * GET /api/users/personas
+   * Personas a user can choose from
+   */
+  async getAvailablePersonas(req: Request, res: Response): Promise<void> {
+    try {
+      const personas = await personaService.getAvailablePersonas();
+
+      res.json({
+        success: true,
+        message: 'Personas retrieved successfully',
+        data: {
+          selectedPersonaId: req.user?.preferences?.personaId || null,
+          personas: personas.map((p) => ({
+            id: p._id.toString(),
+            name: p.name,
+            description: p.description,
+            isDefault: p.isDefault,
+          })),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch personas',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/users/me/persona
+   * Choose a persona (null clears the choice)
+   */
+  async selectPersona(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const personaId = await personaService.setUserPersona(userId, req.body.personaId);
+
+      res.json({
+        success: true,
+        message: personaId ? 'Persona selected' : 'Persona selection cleared',
+        data: { personaId },
+      });
+    } catch (error) {
+      handlePersonaError(res, error, 'Failed to select persona');
+    }
+  }
+}
+
+function toPersonaResponse(persona: IPersona, includeVersions: boolean = true) {
+  return {
+    id: persona._id.toString(),
+    name: persona.name,
+    description: persona.description,
+    isActive: persona.isActive,
+    isDefault: persona.isDefault,
+    publishedVersion: persona.publishedVersion ?? null,
+    latestVersion: persona.versions[persona.versions.length - 1]?.version ?? null,
+    ...(includeVersions && {
+      versions: persona.versions.map((v) => ({
+        id: v._id.toString(),
+        version: v.version,
+        instructions: v.instructions,
+        voice: v.voice,
+        turnDetection: v.turnDetection,
+        notes: v.notes,
+        createdBy: v.createdBy,
+        createdAt: v.createdAt,
+      })),
+      publishHistory: persona.publishHistory,
+    }),
+    createdAt: persona.createdAt,
+    updatedAt: persona.updatedAt,
+  };
+}
+
+function handlePersonaError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('already')) {
+    res.status(409).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(400).json({
+      success: false,
+      message,
+    });
+  }
+}
+
+export const personaController = new PersonaController();
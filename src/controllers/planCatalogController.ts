@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { planCatalogService } from '../services/planCatalogService';
+
+export class PlanCatalogController {
+  /**
+   * GET /api/plans
+   * Public plan catalog; ?locale= overrides Accept-Language
+   */
+  async getCatalog(req: Request, res: Response): Promise<void> {
+    try {
+      const requested = typeof req.query.locale === 'string' ? [req.query.locale] : req.acceptsLanguages();
+      const catalog = await planCatalogService.getCatalog(requested);
+      const maxAge = parseInt(process.env.PLAN_CATALOG_MAX_AGE_SECONDS || '300', 10);
+
+      res.set({
+        'Cache-Control': `public, max-age=${maxAge}`,
+        'Content-Language': catalog.locale,
+        Vary: 'Accept-Language',
+        ETag: planCatalogService.computeEtag(catalog),
+      });
+
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Plans retrieved successfully',
+        data: catalog,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch plans',
+      });
+    }
+  }
+}
+
+export const planCatalogController = new PlanCatalogController();
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { Session, Message } from '../models/schemas';
+import { sessionSummaryService } from '../services/sessionSummaryService';
+import { textChatService } from '../services/textChatService';
 
 export class SessionsController {
   /**
@@ -81,12 +83,15 @@ export class SessionsController {
         .sort({ timestamp: 1 })
         .select('-__v');
 
+      const summary = await sessionSummaryService.getSummary(session, sessionId);
+
       res.json({
         success: true,
         message: 'Session retrieved successfully',
         data: {
           session,
-          messages
+          messages,
+          summary
         }
       });
     } catch (error) {
@@ -154,6 +159,7 @@ export class SessionsController {
         data: {
           session: {
             id: session._id.toString(),
+            sessionId: session.sessionId,
             startTime: session.startTime,
             endTime: session.endTime,
             status: session.status,
@@ -175,6 +181,120 @@ export class SessionsController {
     }
   }
 
+  /**
+   * POST /api/sessions/:sessionId/messages
+   * Send a text chat message. Streams the reply as server-sent events when the
+   * client accepts text/event-stream, otherwise responds once the reply is complete.
+   */
+  async sendMessage(req: Request, res: Response): Promise<void> {
+    const { sessionId } = req.params;
+    const { text } = req.body as { text: string };
+    const userId = req.user?._id?.toString();
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const streaming = req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream';
+    let streamStarted = false;
+
+    // Headers are sent with the first event so errors before that still get a normal status code
+    const sendEvent = (event: string, data: unknown) => {
+      if (!streamStarted) {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-Accel-Buffering', 'no');
+        res.flushHeaders();
+        streamStarted = true;
+      }
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      const result = await textChatService.sendMessage(userId, sessionId, text, streaming ? {
+        onUserMessage: (data) => sendEvent('user-message', data),
+        onDelta: (delta) => sendEvent('delta', { delta })
+      } : {});
+
+      if (streaming) {
+        sendEvent('done', result);
+        res.end();
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Message sent successfully',
+        data: result
+      });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+
+      if (streamStarted) {
+        sendEvent('error', { message: errMsg });
+        res.end();
+        return;
+      }
+
+      if (errMsg.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to send message'
+      });
+    }
+  }
+
+  /**
+   * POST /api/sessions/:sessionId/end
+   * End a text chat session and return its summary
+   */
+  async endSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?._id?.toString();
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const summary = await textChatService.endSession(userId, sessionId);
+
+      res.json({
+        success: true,
+        message: 'Session ended successfully',
+        data: {
+          sessionId,
+          summary
+        }
+      });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      res.status(errMsg.includes('not found') ? 404 : 500).json({
+        success: false,
+        message: errMsg.includes('not found') ? 'Session not found' : 'Failed to end session'
+      });
+    }
+  }
+
   /**
    * GET /api/sessions/stats
    * Get user's session statistics
@@ -190,8 +310,9 @@ export class SessionsController {
         return;
       }
 
+      // Aggregations skip schema casting, so match Session.userId as an ObjectId
       const stats = await Session.aggregate([
-        { $match: { userId } },
+        { $match: { userId: new Types.ObjectId(userId) } },
         {
           $group: {
             _id: null,
@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import { smsService } from '../services/smsService';
+import { logWarn, logError } from '../utils/logger';
+
+export class SmsController {
+  /**
+   * POST /api/sms/status
+   * Delivery status callback from the SMS provider
+   */
+  async handleStatusCallback(req: Request, res: Response): Promise<void> {
+    try {
+      const message = await smsService.handleStatusCallback(req.body, req.headers);
+
+      res.json({
+        success: true,
+        message: 'Status received',
+        data: { id: message._id.toString(), status: message.status },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.startsWith('Invalid status callback')) {
+        logWarn(`SMS: Rejected status callback: ${message}`);
+        res.status(400).json({
+          success: false,
+          message,
+        });
+        return;
+      }
+      if (message === 'SMS message not found') {
+        res.status(404).json({
+          success: false,
+          message,
+        });
+        return;
+      }
+
+      // Anything else is answered with 500 so the provider sends the receipt again
+      logError('SMS: Status callback processing failed', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to process status callback',
+      });
+    }
+  }
+}
+
+export const smsController = new SmsController();
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { subscriptionService } from '../services/subscriptionService';
+import { AdminActor } from '../types';
 
 export class SubscriptionController {
   /**
@@ -8,7 +9,7 @@ export class SubscriptionController {
    */
   async createFeature(req: Request, res: Response): Promise<void> {
     try {
-      const { name, description } = req.body;
+      const { name, displayName, description, localizations } = req.body;
 
       if (!name) {
         res.status(400).json({
@@ -20,7 +21,9 @@ export class SubscriptionController {
 
       const feature = await subscriptionService.createFeature({
         name,
+        displayName,
         description,
+        localizations,
       });
 
       res.status(201).json({
@@ -29,7 +32,9 @@ export class SubscriptionController {
         data: {
           id: feature._id.toString(),
           name: feature.name,
+          displayName: feature.displayName || null,
           description: feature.description,
+          localizations: subscriptionService.toLocalizations(feature.localizations),
           isActive: feature.isActive,
           createdAt: feature.createdAt,
         },
@@ -66,8 +71,11 @@ export class SubscriptionController {
         data: features.map((f) => ({
           id: f._id.toString(),
           name: f.name,
+          displayName: f.displayName || null,
           description: f.description,
+          localizations: subscriptionService.toLocalizations(f.localizations),
           isActive: f.isActive,
+          archivedAt: f.archivedAt || null,
           createdAt: f.createdAt,
           updatedAt: f.updatedAt,
         })),
@@ -104,8 +112,12 @@ export class SubscriptionController {
         data: {
           id: feature._id.toString(),
           name: feature.name,
+          displayName: feature.displayName || null,
           description: feature.description,
+          localizations: subscriptionService.toLocalizations(feature.localizations),
           isActive: feature.isActive,
+          archivedAt: feature.archivedAt || null,
+          archivedBy: feature.archivedBy || null,
           createdAt: feature.createdAt,
           updatedAt: feature.updatedAt,
         },
@@ -134,7 +146,7 @@ export class SubscriptionController {
   async updateFeature(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { name, description, isActive } = req.body;
+      const { name, displayName, description, localizations, isActive } = req.body;
 
       if (!id) {
         res.status(400).json({
@@ -146,7 +158,9 @@ export class SubscriptionController {
 
       const feature = await subscriptionService.updateFeature(id, {
         name,
+        displayName,
         description,
+        localizations,
         isActive,
       });
 
@@ -156,7 +170,9 @@ export class SubscriptionController {
         data: {
           id: feature._id.toString(),
           name: feature.name,
+          displayName: feature.displayName || null,
           description: feature.description,
+          localizations: subscriptionService.toLocalizations(feature.localizations),
           isActive: feature.isActive,
           updatedAt: feature.updatedAt,
         },
@@ -185,45 +201,63 @@ export class SubscriptionController {
 
   /**
    * DELETE /api/admin/features/:id
-   * Delete feature
+   * Archive feature (?dryRun=true reports the affected plans and subscribers instead)
    */
-  async deleteFeature(req: Request, res: Response): Promise<void> {
+  async archiveFeature(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
 
-      if (!id) {
-        res.status(400).json({
-          success: false,
-          message: 'Feature ID is required',
+      const result = await subscriptionService.archiveFeature(req.params.id, admin, req.query.dryRun === 'true');
+
+      if (result.dryRun) {
+        res.json({
+          success: true,
+          message: result.impact.canArchive
+            ? 'Dry run: feature can be archived'
+            : 'Dry run: feature is used by active subscribers and cannot be archived',
+          data: { dryRun: true, impact: result.impact },
         });
         return;
       }
 
-      await subscriptionService.deleteFeature(id);
-
       res.json({
         success: true,
-        message: 'Feature deleted successfully',
+        message: 'Feature archived successfully',
+        data: {
+          id: result.target!._id.toString(),
+          archivedAt: result.target!.archivedAt,
+          archivedBy: result.target!.archivedBy,
+          impact: result.impact,
+        },
       });
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to delete feature';
+      handleArchiveError(res, error, 'Failed to archive feature');
+    }
+  }
 
-      if (message.includes('not found')) {
-        res.status(404).json({
-          success: false,
-          message,
-        });
-      } else if (message.includes('Cannot delete')) {
-        res.status(409).json({
-          success: false,
-          message,
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message,
-        });
-      }
+  /**
+   * POST /api/admin/features/:id/unarchive
+   * Restore an archived feature (inactive until updated)
+   */
+  async unarchiveFeature(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
+
+      const feature = await subscriptionService.unarchiveFeature(req.params.id, admin);
+
+      res.json({
+        success: true,
+        message: 'Feature unarchived successfully',
+        data: {
+          id: feature._id.toString(),
+          name: feature.name,
+          isActive: feature.isActive,
+        },
+      });
+    } catch (error) {
+      handleArchiveError(res, error, 'Failed to unarchive feature');
     }
   }
 
@@ -233,7 +267,19 @@ export class SubscriptionController {
    */
   async createSubscriptionPlan(req: Request, res: Response): Promise<void> {
     try {
-      const { name, monthlyPrice, features } = req.body;
+      const {
+        name,
+        description,
+        localizations,
+        sortOrder,
+        isRecommended,
+        monthlyPrice,
+        features,
+        personaId,
+        usageLimits,
+        prices,
+        trialDays,
+      } = req.body;
 
       if (!name) {
         res.status(400).json({
@@ -261,8 +307,16 @@ export class SubscriptionController {
 
       const plan = await subscriptionService.createSubscriptionPlan({
         name,
+        description,
+        localizations,
+        sortOrder,
+        isRecommended,
         monthlyPrice,
         features,
+        personaId,
+        usageLimits,
+        prices,
+        trialDays,
       });
 
       res.status(201).json({
@@ -271,8 +325,16 @@ export class SubscriptionController {
         data: {
           id: plan._id.toString(),
           name: plan.name,
+          description: plan.description || null,
+          localizations: subscriptionService.toLocalizations(plan.localizations),
+          sortOrder: plan.sortOrder,
+          isRecommended: plan.isRecommended,
           monthlyPrice: plan.monthlyPrice,
           features: plan.features,
+          personaId: plan.personaId?.toString() || null,
+          usageLimits: subscriptionService.toUsageLimits(plan.usageLimits),
+          prices: subscriptionService.toPlanPrices(plan),
+          trialDays: plan.trialDays || null,
           isActive: plan.isActive,
           createdAt: plan.createdAt,
         },
@@ -371,7 +433,19 @@ export class SubscriptionController {
   async updateSubscriptionPlan(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { name, monthlyPrice, features, isActive } = req.body;
+      const {
+        name,
+        description,
+        localizations,
+        sortOrder,
+        isRecommended,
+        monthlyPrice,
+        features,
+        isActive,
+        personaId,
+        usageLimits,
+        trialDays,
+      } = req.body;
 
       if (!id) {
         res.status(400).json({
@@ -391,9 +465,16 @@ export class SubscriptionController {
 
       const plan = await subscriptionService.updateSubscriptionPlan(id, {
         name,
+        description,
+        localizations,
+        sortOrder,
+        isRecommended,
         monthlyPrice,
         features,
         isActive,
+        personaId,
+        usageLimits,
+        trialDays,
       });
 
       res.json({
@@ -402,8 +483,16 @@ export class SubscriptionController {
         data: {
           id: plan._id.toString(),
           name: plan.name,
+          description: plan.description || null,
+          localizations: subscriptionService.toLocalizations(plan.localizations),
+          sortOrder: plan.sortOrder,
+          isRecommended: plan.isRecommended,
           monthlyPrice: plan.monthlyPrice,
           features: plan.features,
+          personaId: plan.personaId?.toString() || null,
+          usageLimits: subscriptionService.toUsageLimits(plan.usageLimits),
+          prices: subscriptionService.toPlanPrices(plan),
+          trialDays: plan.trialDays || null,
           isActive: plan.isActive,
           updatedAt: plan.updatedAt,
         },
@@ -496,44 +585,184 @@ export class SubscriptionController {
   }
 
   /**
-   * DELETE /api/admin/subscription-plans/:id
-   * Delete subscription plan
+   * POST /api/admin/subscription-plans/:id/prices
+   * Add a price (interval, currency, amount in minor units)
    */
-  async deleteSubscriptionPlan(req: Request, res: Response): Promise<void> {
+  async addPlanPrice(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const { interval, currency, amount } = req.body;
+      const plan = await subscriptionService.addPlanPrice(req.params.id, { interval, currency, amount });
 
-      if (!id) {
+      res.status(201).json({
+        success: true,
+        message: 'Price added successfully',
+        data: {
+          id: plan._id.toString(),
+          name: plan.name,
+          prices: subscriptionService.toPlanPrices(plan),
+          updatedAt: plan.updatedAt,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to add price';
+
+      if (message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message,
+        });
+      } else if (message.includes('already')) {
+        res.status(409).json({
+          success: false,
+          message,
+        });
+      } else {
         res.status(400).json({
           success: false,
-          message: 'Plan ID is required',
+          message,
         });
-        return;
       }
+    }
+  }
 
-      await subscriptionService.deleteSubscriptionPlan(id);
+  /**
+   * PATCH /api/admin/subscription-plans/:id/prices/:priceId
+   * Activate or deactivate a price
+   */
+  async updatePlanPrice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, priceId } = req.params;
+      const plan = await subscriptionService.setPlanPriceActive(id, priceId, req.body.isActive);
 
       res.json({
         success: true,
-        message: 'Subscription plan deleted successfully',
+        message: 'Price updated successfully',
+        data: {
+          id: plan._id.toString(),
+          name: plan.name,
+          prices: subscriptionService.toPlanPrices(plan),
+          updatedAt: plan.updatedAt,
+        },
       });
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Failed to delete subscription plan';
+      const message = error instanceof Error ? error.message : 'Failed to update price';
 
       if (message.includes('not found')) {
         res.status(404).json({
           success: false,
           message,
         });
+      } else if (message.includes('already')) {
+        res.status(409).json({
+          success: false,
+          message,
+        });
       } else {
-        res.status(500).json({
+        res.status(400).json({
           success: false,
           message,
         });
       }
     }
   }
+
+  /**
+   * DELETE /api/admin/subscription-plans/:id
+   * Archive subscription plan (?dryRun=true reports the affected subscribers instead)
+   */
+  async archiveSubscriptionPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
+
+      const result = await subscriptionService.archiveSubscriptionPlan(
+        req.params.id,
+        admin,
+        req.query.dryRun === 'true'
+      );
+
+      if (result.dryRun) {
+        res.json({
+          success: true,
+          message: result.impact.canArchive
+            ? 'Dry run: subscription plan can be archived'
+            : 'Dry run: subscription plan has active subscribers and cannot be archived',
+          data: { dryRun: true, impact: result.impact },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Subscription plan archived successfully',
+        data: {
+          id: result.target!._id.toString(),
+          archivedAt: result.target!.archivedAt,
+          archivedBy: result.target!.archivedBy,
+          impact: result.impact,
+        },
+      });
+    } catch (error) {
+      handleArchiveError(res, error, 'Failed to archive subscription plan');
+    }
+  }
+
+  /**
+   * POST /api/admin/subscription-plans/:id/unarchive
+   * Restore an archived plan (inactive until updated)
+   */
+  async unarchiveSubscriptionPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
+
+      const plan = await subscriptionService.unarchiveSubscriptionPlan(req.params.id, admin);
+
+      res.json({
+        success: true,
+        message: 'Subscription plan unarchived successfully',
+        data: {
+          id: plan._id.toString(),
+          name: plan.name,
+          isActive: plan.isActive,
+        },
+      });
+    } catch (error) {
+      handleArchiveError(res, error, 'Failed to unarchive subscription plan');
+    }
+  }
+}
+
+function requireAdmin(req: Request, res: Response): AdminActor | null {
+  if (!req.admin) {
+    res.status(401).json({
+      success: false,
+      message: 'Admin authentication required',
+    });
+    return null;
+  }
+  return { adminId: req.admin.adminId, email: req.admin.email };
+}
+
+function handleArchiveError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('already') || message.includes('Cannot')) {
+    res.status(409).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: fallback,
+    });
+  }
 }
 
 export const subscriptionController = new SubscriptionController();
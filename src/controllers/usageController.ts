@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { usageService, UsageReportOptions } from '../services/usageService';
+
+export class UsageController {
+  /**
+   * GET /api/users/me/usage
+   * Voice usage for the current day and month, with plan limits
+   */
+  async getMyUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const summary = await usageService.getUsageSummary(userId);
+
+      res.json({
+        success: true,
+        message: 'Usage retrieved successfully',
+        data: summary,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch usage',
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/usage
+   * Per-user voice usage report
+   */
+  async getUsageReport(req: Request, res: Response): Promise<void> {
+    try {
+      // Validated and converted by usageValidationSchemas.usageReport
+      const { from, to, page, limit } = req.query as UsageReportOptions;
+
+      const report = await usageService.getUsageReport({
+        from,
+        to,
+        page: page || 1,
+        limit: limit || 20,
+      });
+
+      res.json({
+        success: true,
+        message: 'Usage report retrieved successfully',
+        data: report,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch usage report',
+      });
+    }
+  }
+
+  /**
+   * GET /api/admin/usage/users/:userId
+   * Daily voice usage for one user
+   */
+  async getUserUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query as Pick<UsageReportOptions, 'from' | 'to'>;
+
+      const [history, summary] = await Promise.all([
+        usageService.getUserUsageHistory(req.params.userId, { from, to }),
+        usageService.getUsageSummary(req.params.userId),
+      ]);
+
+      res.json({
+        success: true,
+        message: 'User usage retrieved successfully',
+        data: { ...history, current: summary },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch user usage',
+      });
+    }
+  }
+}
+
+export const usageController = new UsageController();
@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { userSubscriptionService } from '../services/userSubscriptionService';
+import { billingService } from '../services/billingService';
+import { IUserSubscription } from '../models/schemas/UserSubscription';
+import { AdminActor } from '../types';
+
+export class UserSubscriptionController {
+  /**
+   * GET /api/users/me/subscription
+   * Current subscription and what it includes
+   */
+  async getMySubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const [subscription, entitlements] = await Promise.all([
+        userSubscriptionService.getCurrentSubscription(userId),
+        userSubscriptionService.getEntitlements(userId),
+      ]);
+
+      res.json({
+        success: true,
+        message: subscription ? 'Subscription retrieved successfully' : 'No active subscription',
+        data: {
+          subscription: subscription ? toSubscriptionResponse(subscription) : null,
+          entitlements,
+        },
+      });
+    } catch (error) {
+      handleSubscriptionError(res, error, 'Failed to retrieve subscription');
+    }
+  }
+
+  /**
+   * POST /api/users/me/subscription/cancel
+   * Cancel at the end of the current period
+   */
+  async cancelMySubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?._id?.toString();
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const subscription = await billingService.cancelSubscription(userId, req.body.reason || undefined);
+
+      res.json({
+        success: true,
+        message: 'Subscription canceled',
+        data: toSubscriptionResponse(subscription),
+      });
+    } catch (error) {
+      handleSubscriptionError(res, error, 'Failed to cancel subscription');
+    }
+  }
+
+  /**
+   * GET /api/admin/users/:userId/subscription
+   * Current subscription, entitlements and full history
+   */
+  async getUserSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const [subscription, entitlements, history] = await Promise.all([
+        userSubscriptionService.getCurrentSubscription(userId),
+        userSubscriptionService.getEntitlements(userId),
+        userSubscriptionService.getSubscriptionHistory(userId),
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Subscription retrieved successfully',
+        data: {
+          subscription: subscription ? toSubscriptionResponse(subscription, true) : null,
+          entitlements,
+          history: history.map((entry) => toSubscriptionResponse(entry, true)),
+        },
+      });
+    } catch (error) {
+      handleSubscriptionError(res, error, 'Failed to retrieve subscription');
+    }
+  }
+
+  /**
+   * POST /api/admin/users/:userId/subscription
+   * Grant a plan
+   */
+  async grantSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
+
+      const subscription = await userSubscriptionService.grantSubscription(req.params.userId, req.body, admin);
+
+      res.status(201).json({
+        success: true,
+        message: 'Subscription granted successfully',
+        data: toSubscriptionResponse(subscription, true),
+      });
+    } catch (error) {
+      handleSubscriptionError(res, error, 'Failed to grant subscription');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/users/:userId/subscription
+   * Move the user to another plan
+   */
+  async changeSubscriptionPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
+
+      const subscription = await userSubscriptionService.changePlan(
+        req.params.userId,
+        req.body.planId,
+        admin,
+        req.body.note || undefined
+      );
+
+      res.json({
+        success: true,
+        message: 'Subscription plan changed successfully',
+        data: toSubscriptionResponse(subscription, true),
+      });
+    } catch (error) {
+      handleSubscriptionError(res, error, 'Failed to change subscription plan');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/users/:userId/subscription
+   * Revoke the subscription immediately
+   */
+  async revokeSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = requireAdmin(req, res);
+      if (!admin) return;
+
+      const subscription = await userSubscriptionService.revokeSubscription(
+        req.params.userId,
+        admin,
+        req.body?.reason || undefined
+      );
+
+      res.json({
+        success: true,
+        message: 'Subscription revoked successfully',
+        data: toSubscriptionResponse(subscription, true),
+      });
+    } catch (error) {
+      handleSubscriptionError(res, error, 'Failed to revoke subscription');
+    }
+  }
+}
+
+function requireAdmin(req: Request, res: Response): AdminActor | null {
+  if (!req.admin) {
+    res.status(401).json({
+      success: false,
+      message: 'Admin authentication required',
+    });
+    return null;
+  }
+  return { adminId: req.admin.adminId, email: req.admin.email };
+}
+
+/**
+ * Users see their own dates and status; the event log (with admin details) is admin-only
+ */
+function toSubscriptionResponse(subscription: IUserSubscription, includeEvents: boolean = false) {
+  return {
+    id: subscription._id.toString(),
+    userId: subscription.userId.toString(),
+    planId: subscription.planId.toString(),
+    status: subscription.status,
+    startedAt: subscription.startedAt,
+    trialEndsAt: subscription.trialEndsAt || null,
+    currentPeriodStart: subscription.currentPeriodStart,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    canceledAt: subscription.canceledAt || null,
+    cancelReason: subscription.cancelReason || null,
+    endedAt: subscription.endedAt || null,
+    ...(includeEvents ? { billing: subscription.billing || null, events: subscription.events } : {}),
+  };
+}
+
+function handleSubscriptionError(res: Response, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('already')) {
+    res.status(409).json({
+      success: false,
+      message,
+    });
+  } else if (message.includes('Invalid') || message.includes('Cannot')) {
+    res.status(400).json({
+      success: false,
+      message,
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: fallback,
+    });
+  }
+}
+
+export const userSubscriptionController = new UserSubscriptionController();
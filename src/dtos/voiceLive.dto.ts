@@ -19,6 +19,7 @@
  * {
  *   userId: "user123",
  *   sessionId: undefined,  // For new session
+ *   resumeToken: undefined,  // Required with sessionId to reattach to a live session
  *   userPreferences: {
  *     voicePreference: "en-US-Ava:DragonHDLatestNeural",
  *     temperatureLevel: 0.7
@@ -34,6 +35,10 @@ export class VoiceConnectDto {
   // Optional - if provided, reconnects to existing session
   sessionId?: string;
 
+  // EXPLANATION: Proof that this client owns the live session
+  // The resumeToken from the last voice:connected; each one works once
+  resumeToken?: string;
+
   // EXPLANATION: User's voice and response preferences
   // Optional - uses defaults if not provided
   userPreferences?: {
@@ -110,6 +115,23 @@ export class VoiceHeartbeatDto {
   sessionId!: string;
 }
 
+/**
+ * EXPLANATION: Playback Acknowledgement DTO
+ * Sent by client to report how much of an assistant response it has played.
+ * Send periodically while playing, and once with flushed: true after a
+ * voice:playback-flush so the server can truncate the saved reply.
+ */
+export class VoicePlaybackAckDto {
+  // EXPLANATION: Which response this is about (from voice:audio / voice:response-started)
+  responseId!: string;
+
+  // EXPLANATION: Milliseconds of the response's audio actually played
+  playedMs!: number;
+
+  // EXPLANATION: true when acknowledging a flush (final position)
+  flushed?: boolean;
+}
+
 // ============================================================================
 // SERVER RESPONSE DTOs (what server sends to client)
 // ============================================================================
@@ -136,6 +158,11 @@ export class VoiceConnectedResponseDto {
     sampleRate: number; // 24000 Hz
     channels: number; // 1 (mono)
   };
+
+  // EXPLANATION: Send back with sessionId to resume after a dropped connection
+  // Short-lived and replaced on every (re)connect
+  resumeToken!: string;
+  resumeTokenExpiresAt!: string;
 }
 
 /**
@@ -272,13 +299,13 @@ export class VoiceSessionEndedDto {
     // Helps track engagement
     duration: number;
 
-    // EXPLANATION: How many message exchanges
-    // User message + AI response = 1 exchange
+    // EXPLANATION: How many messages were persisted
+    // Counts both user and AI messages
     messageCount: number;
 
-    // EXPLANATION: Most common emotion detected
+    // EXPLANATION: Emotion with the highest average score across user turns
     // Useful for understanding overall mood
-    topEmotion: string;
+    averageEmotion: string;
 
     // EXPLANATION: Was any crisis detected?
     // true = crisis was detected during session
@@ -379,6 +406,10 @@ export function validateVoiceConnect(dto: VoiceConnectDto): {
     return { valid: false, error: "userId is required" };
   }
 
+  if (dto.resumeToken !== undefined && typeof dto.resumeToken !== "string") {
+    return { valid: false, error: "resumeToken must be a string" };
+  }
+
   if (dto.userPreferences?.temperatureLevel !== undefined) {
     const temp = dto.userPreferences.temperatureLevel;
     if (typeof temp !== "number" || temp < 0 || temp > 1) {
@@ -391,3 +422,18 @@ export function validateVoiceConnect(dto: VoiceConnectDto): {
 
   return { valid: true };
 }
+
+export function validatePlaybackAck(dto: VoicePlaybackAckDto): {
+  valid: boolean;
+  error?: string;
+} {
+  if (!dto || typeof dto.responseId !== "string" || !dto.responseId) {
+    return { valid: false, error: "responseId is required" };
+  }
+
+  if (typeof dto.playedMs !== "number" || !Number.isFinite(dto.playedMs) || dto.playedMs < 0) {
+    return { valid: false, error: "playedMs must be a non-negative number" };
+  }
+
+  return { valid: true };
+}
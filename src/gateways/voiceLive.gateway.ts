@@ -2,22 +2,55 @@
  * EXPLANATION: Voice Live Gateway
  *
  * WebSocket gateway for real-time voice conversations using Socket.IO.
- * Handles client connections, audio streaming, and coordinates with VoiceLiveService.
+ * Handles client connections, audio streaming, and coordinates with a RealtimeVoiceProvider
+ * (Azure Voice Live by default, or the offline mock provider).
  *
  * Key responsibilities:
  * 1. Manage Socket.IO connections for voice sessions
- * 2. Route audio data between clients and Azure Voice Live API
+ * 2. Route audio data between clients and the voice provider
  * 3. Handle session lifecycle (connect/disconnect)
  * 4. Integrate with emotion detection and crisis detection services
  * 5. Forward real-time responses back to clients
+ * 6. Record each turn's audio for users who opted in (see AudioRecordingService)
+ * 7. Barge-in: cancel the reply when the user talks over it, and keep only what was heard
+ * 8. Publish session ownership to the SessionRegistry so a client reconnecting to
+ *    another replica gets its session handed over from the owning node
+ * 9. Only reattach a live session for its owner presenting the latest resume token
+ * 10. Meter audio and turns into the usage ledger and enforce the plan's voice limits
+ * 11. Only start sessions for plans that include the voice feature (VOICE_SESSION_FEATURE)
+ * 12. End a user's sessions and sockets on every node once their tokens are revoked
+ *     (suspension, deactivation, password change, logout from all devices)
  */
 
 import { Server, Socket } from 'socket.io';
-import { VoiceLiveService } from '../services/voiceLiveService';
-import { logInfo, logError, logWarn } from '../utils/logger';
-import { Session, Message } from '../models/schemas';
-import { authService } from '../services/authService';
-import jwt from 'jsonwebtoken';
+import {
+  RealtimeVoiceProvider,
+  RealtimeVoiceProviderFactory,
+  createVoiceProvider
+} from '../services/realtimeVoiceProvider';
+import { logInfo, logError, logWarn, logAuth } from '../utils/logger';
+import { tokenPolicyService } from '../services/tokenPolicyService';
+import { crisisDetectionService } from '../services/crisisDetection';
+import { sessionSummaryService } from '../services/sessionSummaryService';
+import { conversationPipelineService } from '../services/conversationPipelineService';
+import { audioRecordingService, SessionRecorder, CompletedTurnAudio } from '../services/audioRecordingService';
+import { ResponsePlayback } from '../services/responsePlayback';
+import {
+  SessionRegistry,
+  SessionRegistryMessage,
+  MemorySessionRegistry
+} from '../services/sessionRegistry';
+import { resolveNodeId } from '../config/voiceCluster';
+import { featureGates } from '../config/featureGates';
+import { socketFeatureGuard } from '../middleware/featureMiddleware';
+import { voiceResumeTokenService } from '../services/voiceResumeTokenService';
+import {
+  usageService,
+  SessionUsageTracker,
+  UsageLimitKey,
+  UsageQuotaStatus
+} from '../services/usageService';
+import { pcmBytesForMs } from '../utils/audio';
 import {
   VoiceGatewayEvents,
   VoiceServerEvents,
@@ -29,8 +62,10 @@ import {
   VoiceTextInputDto,
   VoiceDisconnectDto,
   VoiceHeartbeatDto,
+  VoicePlaybackAckDto,
   validateVoiceConnect,
-  validateAudioChunk
+  validateAudioChunk,
+  validatePlaybackAck
 } from '../dtos/voiceLive.dto';
 
 export class VoiceLiveGateway {
@@ -38,13 +73,70 @@ export class VoiceLiveGateway {
   // pending cleanups for sessions after socket disconnect - gives client time to reconnect
   private pendingDisconnects: Map<string, NodeJS.Timeout> = new Map();
   private reconnectGraceMs: number = parseInt(process.env.SESSION_RECONNECT_GRACE_MS || '30000', 10); // 30s default
-  private activeSessions: Map<string, { socket: Socket; userId: string; service: VoiceLiveService }> = new Map();
+  private activeSessions: Map<string, {
+    socket: Socket;
+    userId: string;
+    service: RealtimeVoiceProvider;
+    crisisKeywords: string[];
+    recorder?: SessionRecorder; // only when the user consented to recording
+    resumeTokenId: string; // id of the only resume token currently accepted
+    resumeTokenExpiresAt: string;
+    playback?: ResponsePlayback; // latest assistant response
+    pendingTruncation?: { playback: ResponsePlayback; timer: NodeJS.Timeout }; // waiting for the client's flush ack
+    usage: SessionUsageTracker;
+  }> = new Map();
   private assistantMessages: Map<string, { content: string; responseId: string }> = new Map();
-
-  constructor(io: Server) {
+  private createProvider: RealtimeVoiceProviderFactory;
+  // how long to wait for the client to report its playback position after a flush
+  private playbackAckTimeoutMs: number = parseInt(process.env.VOICE_PLAYBACK_ACK_TIMEOUT_MS || '1500', 10);
+  // cluster membership: which node owns which session
+  private registry: SessionRegistry;
+  private nodeId: string;
+  private nodeHeartbeat?: NodeJS.Timeout;
+  private nodeHeartbeatMs: number = parseInt(process.env.NODE_HEARTBEAT_MS || '5000', 10);
+  private handoffTimeoutMs: number = parseInt(process.env.SESSION_HANDOFF_TIMEOUT_MS || '3000', 10);
+  private pendingHandoffs: Map<string, () => void> = new Map();
+  // usage is flushed to the ledger and checked against limits on this interval
+  private usageCheck?: NodeJS.Timeout;
+  private usageCheckMs: number = parseInt(process.env.USAGE_CHECK_INTERVAL_MS || '10000', 10);
+  private checkingUsage = false;
+  private stopRevocationListener: () => void;
+
+  constructor(
+    io: Server,
+    options: { providerFactory?: RealtimeVoiceProviderFactory; registry?: SessionRegistry; nodeId?: string } = {}
+  ) {
     this.io = io;
+    this.createProvider = options.providerFactory || (() => createVoiceProvider());
+    this.registry = options.registry || new MemorySessionRegistry();
+    this.nodeId = options.nodeId || resolveNodeId();
     // per-session services are created on connect; only set up namespace
     this.setupVoiceNamespace();
+    this.joinCluster();
+    this.usageCheck = setInterval(() => this.checkUsage(), this.usageCheckMs);
+    this.usageCheck.unref();
+    this.stopRevocationListener = tokenPolicyService.onAccessRevoked(({ userId, reason }) => {
+      this.endUserSessions(userId, reason)
+        .catch((error) => logError(`[VoiceLiveGateway] Failed to end sessions of user ${userId}`, error));
+    });
+  }
+
+  /**
+   * EXPLANATION: Announce this node and listen for handoff requests from other nodes
+   * The heartbeat expires after three missed beats, so sessions of a crashed node
+   * are taken over instead of waiting for a release that never comes.
+   */
+  private joinCluster(): void {
+    const beat = () => {
+      this.registry.heartbeat(this.nodeId, this.nodeHeartbeatMs * 3)
+        .catch((error) => logError('[VoiceLiveGateway] Node heartbeat failed', error));
+    };
+    beat();
+    this.nodeHeartbeat = setInterval(beat, this.nodeHeartbeatMs);
+    this.nodeHeartbeat.unref();
+
+    this.registry.subscribe(this.nodeId, (message) => this.handleRegistryMessage(message))
+      .catch((error) => logError('[VoiceLiveGateway] Failed to subscribe to session registry', error));
   }
 
   /**
@@ -66,38 +158,34 @@ export class VoiceLiveGateway {
         return next(new Error('AUTH_REQUIRED'));
       }
 
-      // Try authService.verifyToken first, fallback to JWT verify
-      if (authService && typeof (authService as any).verifyToken === 'function') {
-        (authService as any).verifyToken(authToken)
-          .then((user: any) => {
-            socket.data.user = user;
-            logInfo(`[VoiceLiveGateway] Socket authenticated: ${user?.email || user?.userId} (socket=${socket.id})`);
-            next();
-          })
-          .catch((err: any) => {
-            logWarn(`[VoiceLiveGateway] Token validation failed (socket=${socket.id}): ${err?.message || err}`);
-            next(new Error('AUTH_INVALID'));
-          });
-      } else {
-        try {
-          const secret = process.env.JWT_SECRET || '';
-          const user = jwt.verify(authToken, secret);
-          socket.data.user = user;
-          logInfo(`[VoiceLiveGateway] Socket JWT authenticated (socket=${socket.id})`);
+      // Same token policy as the REST API (revoked, suspended and deactivated users are refused)
+      tokenPolicyService.authenticate(authToken)
+        .then((result) => {
+          if (!result.ok) {
+            logWarn(`[VoiceLiveGateway] Socket auth failed (socket=${socket.id}): ${result.code}`);
+            // Account state is reported as is; token problems stay AUTH_INVALID
+            next(new Error(result.code.startsWith('ACCOUNT_') ? result.code : 'AUTH_INVALID'));
+            return;
+          }
+
+          socket.data.user = { userId: result.claims.userId, email: result.user.email, sid: result.claims.sid };
+          socket.join(this.userRoom(result.claims.userId));
+          logInfo(`[VoiceLiveGateway] Socket authenticated: ${result.user.email} (socket=${socket.id})`);
           next();
-        } catch (e) {
-          // Normalize the caught error (catch binding is 'unknown' in TS)
-          const errMsg = e instanceof Error ? e.message : String(e);
-          logWarn(`[VoiceLiveGateway] JWT auth failed (socket=${socket.id}): ${errMsg}`);
+        })
+        .catch((err) => {
+          logError(`[VoiceLiveGateway] Socket auth error (socket=${socket.id})`, err);
           next(new Error('AUTH_INVALID'));
-        }
-      }
+        });
     });
 
     voiceNamespace.on('connection', (socket: Socket) => {
       const authUser = (socket as any).data?.user;
       logInfo(`[VoiceLiveGateway] Client connected: ${socket.id} user=${authUser?.email || authUser?.userId || 'anonymous'}`);
 
+      // Starting a session needs the voice feature; events of a running session pass through
+      socket.use(socketFeatureGuard(socket, { 'voice:connect': featureGates.voiceSessions }, 'voice:error'));
+
       // Log more details about disconnect reason for debugging
        // Handle voice connection request
        socket.on('voice:connect', (data: VoiceConnectDto) => {
@@ -116,6 +204,10 @@ export class VoiceLiveGateway {
       });
 
       // Handle heartbeat
+      socket.on('voice:playback-ack', (data: VoicePlaybackAckDto) => {
+        this.handlePlaybackAck(socket, data);
+      });
+
       socket.on('voice:heartbeat', (data: VoiceHeartbeatDto) => {
         this.handleVoiceHeartbeat(socket, data);
       });
@@ -149,7 +241,7 @@ export class VoiceLiveGateway {
         return;
       }
 
-      const { userId, sessionId, userPreferences } = data;
+      const { userId, sessionId, userPreferences, resumeToken } = data;
       // Ensure authenticated user (if present) is used
       const authUser = (socket as any).data?.user;
       let effectiveUserId = userId;
@@ -166,6 +258,10 @@ export class VoiceLiveGateway {
       // If session already exists, reattach socket (cancel pending cleanup)
       const existing = this.activeSessions.get(finalSessionId);
       if (existing) {
+        if (!this.authorizeResume(socket, finalSessionId, effectiveUserId, resumeToken, existing)) {
+          return;
+        }
+
         // cancel scheduled cleanup if any
         const pending = this.pendingDisconnects.get(finalSessionId);
         if (pending) {
@@ -174,9 +270,12 @@ export class VoiceLiveGateway {
           logInfo(`[VoiceLiveGateway] Cancelled cleanup for session ${finalSessionId} due to reconnect`);
         }
 
-        // attach new socket
+        // attach new socket; the token just used is replaced
+        const rotated = voiceResumeTokenService.issue(finalSessionId, effectiveUserId);
         existing.socket = socket;
-        existing.userId = effectiveUserId;
+        existing.resumeTokenId = rotated.tokenId;
+        existing.resumeTokenExpiresAt = rotated.expiresAt;
+        this.publishSession(finalSessionId, true);
 
         // echo ready and re-initialize handlers from this socket perspective
         socket.emit('voice:connected', {
@@ -186,8 +285,11 @@ export class VoiceLiveGateway {
           metadata: {
             connectedAt: new Date().toISOString(),
             sampleRate: 24000,
-            channels: 1
-          }
+            channels: 1,
+            recording: !!existing.recorder
+          },
+          resumeToken: rotated.token,
+          resumeTokenExpiresAt: rotated.expiresAt
         });
         logInfo(`[VoiceLiveGateway] Session ${finalSessionId} reattached to socket ${socket.id}`);
         return;
@@ -195,41 +297,76 @@ export class VoiceLiveGateway {
 
       logInfo(`[VoiceLiveGateway] Connecting session: ${finalSessionId} for user: ${userId}`);
 
-      // Create new VoiceLiveService instance for this session
-      const sessionService = new VoiceLiveService();
-
-      // Connect to Azure
-      await sessionService.connect(finalSessionId, effectiveUserId, userPreferences);
+      // The session may still be live on another node (client reconnected through the load balancer)
+      if (sessionId && !(await this.takeOverSession(socket, sessionId, effectiveUserId, resumeToken))) {
+        return;
+      }
 
-      // Store session info
-      this.activeSessions.set(finalSessionId, {
-        socket,
-        userId,
-        service: sessionService
-      });
+      // A client-supplied session id must not collide with another user's session
+      if (sessionId && !(await conversationPipelineService.isSessionIdAvailable(sessionId, effectiveUserId))) {
+        socket.emit('voice:error', {
+          error: 'Session id belongs to another user',
+          code: 'SESSION_CONFLICT',
+          recoverable: false
+        });
+        return;
+      }
 
-      // Save session to database
-      try {
-        await Session.create({
-          userId,
-          status: 'active',
-          startTime: new Date(), // ensure start time is set for duration calculations
-          userPreferences,
-          metadata: {
-            connectedAt: new Date().toISOString(),
-            sampleRate: 24000,
-            channels: 1,
-            userAgent: socket.handshake.headers['user-agent']
-          }
+      // Refuse the session before opening a provider connection if a limit is used up
+      const usage = await usageService.startSession(effectiveUserId, finalSessionId);
+      const quota = usage.check();
+      if (quota.exceeded) {
+        socket.emit('voice:error', {
+          error: `Voice usage limit reached (${quota.exceeded})`,
+          code: 'USAGE_LIMIT_REACHED',
+          recoverable: false
         });
-        logInfo(`[VoiceLiveGateway] Session ${finalSessionId} saved to database`);
-      } catch (dbError) {
-        logError(`[VoiceLiveGateway] Failed to save session ${finalSessionId} to database`, dbError);
-        // Continue anyway - don't block the connection
+        return;
       }
 
-      // Set up event handlers for this session's service
+      // Create a voice provider instance for this session
+      const sessionService = this.createProvider();
+
+      // Resolve the published persona and recall earlier sessions so returning users are remembered
+      const { persona, memory, crisisKeywords } = await conversationPipelineService.prepare(effectiveUserId, finalSessionId);
+      const recordAudio = await audioRecordingService.isEnabledForUser(effectiveUserId);
+
+      // Connect to the voice backend
+      await sessionService.connect(finalSessionId, effectiveUserId, userPreferences, {
+        memory,
+        persona: persona?.settings
+      });
+
+      // Store session info and listen to the provider before anything else awaits,
+      // so early events (e.g. session-ready) aren't missed
+      const resume = voiceResumeTokenService.issue(finalSessionId, effectiveUserId);
+      this.activeSessions.set(finalSessionId, {
+        socket,
+        userId: effectiveUserId,
+        service: sessionService,
+        crisisKeywords,
+        recorder: recordAudio ? audioRecordingService.createRecorder() : undefined,
+        resumeTokenId: resume.tokenId,
+        resumeTokenExpiresAt: resume.expiresAt,
+        usage
+      });
       this.setupSessionServiceHandlers(sessionService, finalSessionId);
+      this.publishSession(finalSessionId, true);
+
+      // Save session to database under the same id used for messages (failures don't block the connection)
+      await conversationPipelineService.openSession({
+        sessionId: finalSessionId,
+        userId: effectiveUserId,
+        channel: 'voice',
+        persona,
+        userPreferences,
+        metadata: {
+          connectedAt: new Date().toISOString(),
+          sampleRate: 24000,
+          channels: 1,
+          userAgent: socket.handshake.headers['user-agent']
+        }
+      });
 
       // Send success response
       const response = {
@@ -239,11 +376,15 @@ export class VoiceLiveGateway {
         metadata: {
           connectedAt: new Date().toISOString(),
           sampleRate: 24000,
-          channels: 1
-        }
+          channels: 1,
+          recording: recordAudio
+        },
+        resumeToken: resume.token,
+        resumeTokenExpiresAt: resume.expiresAt
       };
 
       socket.emit('voice:connected', response);
+      this.emitUsageWarnings(socket, quota.newWarnings, quota.remaining);
       logInfo(`[VoiceLiveGateway] Session ${finalSessionId} connected successfully`);
 
     } catch (error) {
@@ -289,6 +430,14 @@ export class VoiceLiveGateway {
       // Pass audio data to service (string or Buffer)
       // Optimization: If it's already a base64 string, pass it directly to avoid Buffer conversion overhead
       sessionEntry.service.sendAudio(data.audio);
+      sessionEntry.usage.addAudioIn(
+        typeof data.audio === 'string' ? Buffer.byteLength(data.audio, 'base64') : data.audio.byteLength
+      );
+
+      // Keep a copy for the per-turn recording
+      sessionEntry.recorder?.appendInput(
+        typeof data.audio === 'string' ? Buffer.from(data.audio, 'base64') : Buffer.from(data.audio)
+      );
 
       // Reset session timeout
       sessionEntry.service.resetSessionTimeout();
@@ -320,8 +469,9 @@ export class VoiceLiveGateway {
         return;
       }
 
-      // Send text to Azure
+      // Send text to the voice provider
       sessionEntry.service.sendTextInput(data.text);
+      sessionEntry.usage.addTurn();
 
       // Reset session timeout
       sessionEntry.service.resetSessionTimeout();
@@ -350,6 +500,52 @@ export class VoiceLiveGateway {
         timestamp: Date.now(),
         sessionId: data.sessionId
       });
+
+      // Sessions can outlast the resume token; replace it before it expires
+      if (voiceResumeTokenService.needsRefresh(sessionEntry.resumeTokenExpiresAt)) {
+        const refreshed = voiceResumeTokenService.issue(data.sessionId, sessionEntry.userId);
+        sessionEntry.resumeTokenId = refreshed.tokenId;
+        sessionEntry.resumeTokenExpiresAt = refreshed.expiresAt;
+        this.publishSession(data.sessionId, true);
+
+        socket.emit('voice:session-resume-token', {
+          sessionId: data.sessionId,
+          resumeToken: refreshed.token,
+          resumeTokenExpiresAt: refreshed.expiresAt
+        });
+      }
+    }
+  }
+
+  /**
+   * EXPLANATION: Handle playback position reports from client
+   * Acks only matter for the current or an interrupted response; a flushed ack
+   * is the client's final position and completes the truncation right away.
+   */
+  private handlePlaybackAck(socket: Socket, data: VoicePlaybackAckDto): void {
+    const validation = validatePlaybackAck(data);
+    if (!validation.valid) {
+      socket.emit('voice:error', {
+        error: validation.error,
+        code: 'INVALID_PLAYBACK_ACK',
+        recoverable: true
+      });
+      return;
+    }
+
+    const match = Array.from(this.activeSessions.entries())
+      .find(([, entry]) => entry.socket === socket);
+    if (!match) return;
+
+    const [sessionId, session] = match;
+    const pending = session.pendingTruncation?.playback;
+    const playback = [pending, session.playback].find(p => p?.responseId === data.responseId);
+    if (!playback) return;
+
+    playback.ack(data.playedMs);
+
+    if (playback === pending && data.flushed) {
+      this.finalizeInterruptedResponse(sessionId, playback);
     }
   }
 
@@ -357,11 +553,11 @@ export class VoiceLiveGateway {
    * EXPLANATION: Handle voice disconnect request
    */
   private handleVoiceDisconnect(socket: Socket, data: VoiceDisconnectDto): void {
-    const sessionEntry = Array.from(this.activeSessions.values())
-      .find(entry => entry.socket === socket);
+    const match = Array.from(this.activeSessions.entries())
+      .find(([, entry]) => entry.socket === socket);
 
-    if (sessionEntry) {
-      const sid = sessionEntry.service['state'].sessionId!;
+    if (match) {
+      const [sid, sessionEntry] = match;
       logInfo(`[VoiceLiveGateway] User-initiated disconnect for session: ${sid}`);
 
       sessionEntry.service.disconnect();
@@ -380,28 +576,13 @@ export class VoiceLiveGateway {
 
         // Don't schedule multiple timers for same session
         if (this.pendingDisconnects.has(sessionId)) continue;
+        this.publishSession(sessionId, false);
 
-        const timeout = setTimeout(async () => {
+        const timeout = setTimeout(() => {
           try {
             logInfo(`[VoiceLiveGateway] Grace period expired; cleaning up session ${sessionId}`);
-            // Perform same cleanup as service disconnected
+            // The provider reports 'disconnected', which finalizes the session and its summary
             sessionEntry.service.disconnect();
-
-            // Update DB session end info
-            try {
-              const sessionDoc = await Session.findOne({ sessionId });
-              if (sessionDoc) {
-                const endTime = new Date();
-                sessionDoc.endTime = endTime;
-                sessionDoc.status = 'ended';
-                sessionDoc.duration = endTime.getTime() - sessionDoc.startTime.getTime();
-                await sessionDoc.save();
-                logInfo(`[VoiceLiveGateway] Session ${sessionId} ended and updated in database (grace cleanup)`);
-              }
-            } catch (dbError) {
-              logError(`[VoiceLiveGateway] Failed to update session ${sessionId} during grace cleanup`, dbError);
-            }
-
             this.cleanupSession(sessionId);
           } catch (error) {
             logError(`[VoiceLiveGateway] Error during session cleanup`, error);
@@ -416,9 +597,25 @@ export class VoiceLiveGateway {
   /**
    * EXPLANATION: Set up event handlers for a session's service
    */
-  private setupSessionServiceHandlers(service: VoiceLiveService, sessionId: string): void {
-    service.on('message', (message) => {
-      this.handleAzureMessage(message, sessionId);
+  private setupSessionServiceHandlers(service: RealtimeVoiceProvider, sessionId: string): void {
+    service.on('session-ready', () => {
+      this.activeSessions.get(sessionId)?.socket.emit('voice:session-ready');
+    });
+
+    service.on('response-started', (message) => {
+      const session = this.activeSessions.get(sessionId);
+      if (!session) return;
+
+      const responseId = message?.response_id || 'unknown';
+      session.playback = new ResponsePlayback(responseId);
+      session.socket.emit('voice:response-started', { responseId });
+    });
+
+    service.on('response-done', (message) => {
+      const playback = this.getPlayback(sessionId, message?.response_id);
+      if (playback) {
+        playback.generating = false;
+      }
     });
 
     service.on('audio-delta', (message) => {
@@ -445,8 +642,8 @@ export class VoiceLiveGateway {
       this.handleSpeechStopped(sessionId);
     });
 
-    service.on('disconnected', (data) => {
-      this.handleServiceDisconnected(data.sessionId);
+    service.on('disconnected', () => {
+      this.handleServiceDisconnected(sessionId);
     });
 
     service.on('error', (error) => {
@@ -455,58 +652,47 @@ export class VoiceLiveGateway {
   }
 
   /**
-   * EXPLANATION: Handle messages from Azure Voice Live API
+   * EXPLANATION: Handle audio delta from the voice provider
    */
-  private handleAzureMessage(message: any, sessionId?: string): void {
+  private handleAudioDelta(message: any, sessionId?: string): void {
     const session = sessionId ? this.activeSessions.get(sessionId) : null;
     if (!session) return;
 
-    // Forward relevant events to client
-    switch (message.type) {
-      case 'session.created':
-        session.socket.emit('voice:session-ready');
-        break;
-
-      case 'session.updated':
-        // Session configuration acknowledged
-        break;
-
-      case 'conversation.item.created':
-        // Conversation item acknowledged
-        break;
-
-      case 'response.created':
-        session.socket.emit('voice:response-started');
-        break;
-
-      case 'error':
-        session.socket.emit('voice:error', {
-          error: message.error?.message || 'Azure API error',
-          code: 'AZURE_ERROR',
-          recoverable: true
-        });
-        break;
+    const responseId = message.response_id || 'unknown';
+    // Generated audio is billed by the provider even when the client never plays it
+    if (message.delta) {
+      session.usage.addAudioOut(Buffer.byteLength(message.delta, 'base64'));
     }
-  }
 
-  /**
-   * EXPLANATION: Handle audio delta from Azure
-   */
-  private handleAudioDelta(message: any, sessionId?: string): void {
-    const session = sessionId ? this.activeSessions.get(sessionId) : null;
-    if (!session) return;
+    const playback = this.getPlayback(sessionId, responseId);
+    // Already flushed on the client; anything still in flight from the provider is dropped
+    if (playback?.interrupted) return;
 
     if (message.delta) {
       session.socket.emit('voice:audio', {
         audio: message.delta,
         sequenceNumber: message.sequenceNumber || 1,
-        isLastChunk: message.type === 'response.audio.done'
+        isLastChunk: message.type === 'response.audio.done',
+        responseId
       });
+
+      if (playback) {
+        playback.itemId = playback.itemId || message.item_id;
+        playback.addAudio(Buffer.byteLength(message.delta, 'base64'));
+      }
+    }
+
+    if (session.recorder && sessionId) {
+      if (message.delta) {
+        session.recorder.appendOutput(responseId, Buffer.from(message.delta, 'base64'));
+      } else if (message.type === 'response.audio.done') {
+        this.storeTurnAudio(sessionId, session.userId, session.recorder.endOutput(responseId));
+      }
     }
   }
 
   /**
-   * EXPLANATION: Handle transcript delta from Azure
+   * EXPLANATION: Handle transcript delta from the voice provider
    */
   private async handleTranscriptDelta(message: any, sessionId?: string): Promise<void> {
     const session = sessionId ? this.activeSessions.get(sessionId) : null;
@@ -514,6 +700,10 @@ export class VoiceLiveGateway {
 
     if (message.delta) {
       const responseId = message.response_id || 'unknown';
+      const playback = this.getPlayback(sessionId, responseId);
+      if (playback?.interrupted) return;
+
+      playback?.addText(message.delta);
       session.socket.emit('voice:assistant-transcript', {
         transcript: message.delta,
         isFinal: false,
@@ -533,7 +723,7 @@ export class VoiceLiveGateway {
   }
 
   /**
-   * EXPLANATION: Handle transcript completion from Azure
+   * EXPLANATION: Handle transcript completion from the voice provider
    */
   private async handleTranscriptDone(message: any, sessionId?: string): Promise<void> {
     const session = sessionId ? this.activeSessions.get(sessionId) : null;
@@ -541,6 +731,10 @@ export class VoiceLiveGateway {
 
     // Send final accumulated assistant transcript to client (so they can display it)
     const responseId = message.response_id || 'unknown';
+    const playback = this.getPlayback(sessionId, responseId);
+    // Interrupted replies get their final transcript from finalizeInterruptedResponse
+    if (playback?.interrupted) return;
+
     const key = `${sessionId}_${responseId}`;
     const msgBuffer = this.assistantMessages.get(key);
     const finalTranscript = (msgBuffer && msgBuffer.content.trim()) ? msgBuffer.content.trim() : (message.transcript || '');
@@ -553,22 +747,25 @@ export class VoiceLiveGateway {
     });
 
     // Save accumulated assistant message to database (if present)
-    if (msgBuffer && msgBuffer.content.trim()) {
-      try {
-        await Message.create({
-          sessionId,
-          userId: session.userId,
-          role: 'assistant',
-          content: msgBuffer.content.trim(),
-          timestamp: new Date(),
-          metadata: {
-            responseId,
-            source: 'voice_synthesis'
-          }
-        });
-        logInfo(`[VoiceLiveGateway] Assistant message saved for session ${sessionId}`);
-      } catch (dbError) {
-        logError(`[VoiceLiveGateway] Failed to save assistant message for session ${sessionId}`, dbError);
+    if (sessionId && msgBuffer && msgBuffer.content.trim()) {
+      const saving = conversationPipelineService.saveAssistantMessage({
+        sessionId,
+        userId: session.userId,
+        content: msgBuffer.content.trim(),
+        source: 'voice',
+        metadata: {
+          responseId,
+          source: 'voice_synthesis'
+        }
+      });
+      // The user may still barge in while this reply is playing
+      if (playback) {
+        playback.savedMessage = saving;
+      }
+      const messageId = await saving;
+
+      if (session.recorder && messageId) {
+        this.storeTurnAudio(sessionId, session.userId, session.recorder.attachAssistantMessage(responseId, messageId));
       }
 
       // Clean up the buffer
@@ -577,55 +774,201 @@ export class VoiceLiveGateway {
   }
 
   /**
-   * EXPLANATION: Handle user transcript from Azure
+   * EXPLANATION: Handle user transcript from the voice provider
    */
   private async handleUserTranscript(message: any, sessionId?: string): Promise<void> {
     const session = sessionId ? this.activeSessions.get(sessionId) : null;
     if (!session) return;
 
     if (message.transcript) {
+      session.usage.addTurn();
       session.socket.emit('voice:user-transcript', {
         transcript: message.transcript,
         isFinal: true,
         confidence: message.confidence || 0.9
       });
 
-      // Save user message to database
-      try {
-        await Message.create({
+      // Analyse emotion and crisis indicators locally before persisting the transcript
+      const analysis = await conversationPipelineService.analyzeUserMessage(message.transcript, session.crisisKeywords);
+      const { emotion, crisis } = analysis;
+
+      if (emotion) {
+        session.socket.emit('voice:emotion', {
+          emotion: {
+            ...emotion,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (crisis?.isCrisis) {
+        session.socket.emit('voice:crisis-alert', {
+          severity: crisis.severity,
+          keywords: crisis.keywords,
+          message: crisisDetectionService.getGuidanceMessage(crisis.severity),
+          escalated: analysis.shouldEscalate
+        });
+      }
+
+      // Save user message to database; high/critical detections are escalated after saving
+      if (sessionId) {
+        const messageId = await conversationPipelineService.saveUserMessage({
           sessionId,
           userId: session.userId,
-          role: 'user',
           content: message.transcript,
-          timestamp: new Date(),
+          source: 'voice',
+          analysis,
           metadata: {
             confidence: message.confidence || 0.9,
             source: 'voice_transcription'
           }
         });
-        logInfo(`[VoiceLiveGateway] User message saved for session ${sessionId}`);
-      } catch (dbError) {
-        logError(`[VoiceLiveGateway] Failed to save user message for session ${sessionId}`, dbError);
+
+        const turnAudio = session.recorder?.takeUserTurn();
+        if (messageId && turnAudio) {
+          this.storeTurnAudio(sessionId, session.userId, { messageId, pcm: turnAudio });
+        }
       }
     }
   }
 
+  /**
+   * EXPLANATION: Store a recorded turn and tell the client where to replay it (non-blocking)
+   */
+  private storeTurnAudio(sessionId: string, userId: string, turn: CompletedTurnAudio | null): void {
+    if (!turn) return;
+
+    audioRecordingService.storeMessageAudio({ userId, sessionId, ...turn })
+      .then((audioUrl) => {
+        if (audioUrl) {
+          this.activeSessions.get(sessionId)?.socket.emit('voice:message-audio', {
+            messageId: turn.messageId,
+            audioUrl
+          });
+        }
+      });
+  }
+
   /**
    * EXPLANATION: Handle speech started event
    */
   private handleSpeechStarted(sessionId?: string): void {
     const session = sessionId ? this.activeSessions.get(sessionId) : null;
     if (session) {
+      session.recorder?.startUserTurn();
       session.socket.emit('voice:speech-started');
+
+      if (sessionId && session.playback?.isAudible()) {
+        this.interruptResponse(sessionId, session.playback);
+      }
     }
   }
 
+  /**
+   * EXPLANATION: Barge-in
+   * The user started talking over the assistant: stop generation upstream, tell the
+   * client to drop its queued audio, then wait briefly for its final playback position.
+   */
+  private interruptResponse(sessionId: string, playback: ResponsePlayback): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    // A previous interruption still waiting for its ack is settled with what we know
+    if (session.pendingTruncation) {
+      this.finalizeInterruptedResponse(sessionId, session.pendingTruncation.playback);
+    }
+
+    playback.interrupted = true;
+    if (playback.generating) {
+      session.service.cancelResponse();
+    }
+    logInfo(`[VoiceLiveGateway] User interrupted response ${playback.responseId} in session ${sessionId}`);
+
+    session.socket.emit('voice:playback-flush', { responseId: playback.responseId });
+
+    const timer = setTimeout(() => {
+      this.finalizeInterruptedResponse(sessionId, playback);
+    }, this.playbackAckTimeoutMs);
+    session.pendingTruncation = { playback, timer };
+  }
+
+  /**
+   * EXPLANATION: Settle an interrupted response
+   * Truncates the provider's conversation item and the saved message to what was
+   * played, and keeps only the heard part of the recorded audio.
+   */
+  private async finalizeInterruptedResponse(sessionId: string, playback: ResponsePlayback): Promise<void> {
+    if (playback.finalized) return;
+    playback.finalized = true;
+
+    const session = this.activeSessions.get(sessionId);
+    if (session?.pendingTruncation?.playback === playback) {
+      clearTimeout(session.pendingTruncation.timer);
+      session.pendingTruncation = undefined;
+    }
+    this.assistantMessages.delete(`${sessionId}_${playback.responseId}`);
+    if (!session) return;
+
+    const playedMs = playback.playedMs();
+    const playedText = playback.playedText();
+
+    // Keep the provider's memory of the reply in line with what the user heard
+    if (playback.itemId) {
+      session.service.truncateResponse(playback.itemId, playedMs);
+    }
+
+    session.socket.emit('voice:assistant-transcript', {
+      transcript: playedText,
+      isFinal: true,
+      responseId: playback.responseId,
+      interrupted: true
+    });
+
+    const messageId = await conversationPipelineService.saveInterruptedAssistantMessage({
+      sessionId,
+      userId: session.userId,
+      messageId: await playback.savedMessage,
+      content: playedText,
+      generatedContent: playback.text.trim(),
+      playedMs,
+      source: 'voice',
+      metadata: {
+        responseId: playback.responseId,
+        source: 'voice_synthesis'
+      }
+    });
+
+    if (session.recorder) {
+      if (messageId) {
+        session.recorder.truncateOutput(playback.responseId, pcmBytesForMs(playedMs));
+        session.recorder.attachAssistantMessage(playback.responseId, messageId);
+        this.storeTurnAudio(sessionId, session.userId, session.recorder.endOutput(playback.responseId));
+      } else {
+        session.recorder.discardOutput(playback.responseId);
+      }
+    }
+
+    logInfo(`[VoiceLiveGateway] Response ${playback.responseId} truncated to ${playedMs}ms in session ${sessionId}`);
+  }
+
+  /**
+   * EXPLANATION: Playback tracker for a response (current one, or one awaiting truncation)
+   */
+  private getPlayback(sessionId: string | undefined, responseId?: string): ResponsePlayback | undefined {
+    const session = sessionId ? this.activeSessions.get(sessionId) : undefined;
+    if (!session) return undefined;
+
+    const id = responseId || 'unknown';
+    return [session.playback, session.pendingTruncation?.playback].find(p => p?.responseId === id);
+  }
+
   /**
    * EXPLANATION: Handle speech stopped event
    */
   private handleSpeechStopped(sessionId?: string): void {
     const session = sessionId ? this.activeSessions.get(sessionId) : null;
     if (session) {
+      session.recorder?.endUserTurn();
       session.socket.emit('voice:speech-stopped');
     }
   }
@@ -637,24 +980,21 @@ export class VoiceLiveGateway {
     const session = this.activeSessions.get(sessionId);
     if (session) {
       const endTime = new Date();
+
+      // Update session in database and compute the end-of-session summary
+      const summary = await sessionSummaryService.finalizeSession(sessionId, endTime);
+
       session.socket.emit('voice:session-ended', {
         sessionId,
-        endedAt: endTime.toISOString()
+        endedAt: endTime.toISOString(),
+        summary: summary ? {
+          duration: summary.duration,
+          messageCount: summary.messageCount,
+          averageEmotion: summary.averageEmotion,
+          crisisDetected: summary.crisisDetected
+        } : undefined
       });
-
-      // Update session in database
-      try {
-        const sessionDoc = await Session.findOne({ sessionId });
-        if (sessionDoc) {
-          sessionDoc.endTime = endTime;
-          sessionDoc.status = 'ended';
-          sessionDoc.duration = endTime.getTime() - sessionDoc.startTime.getTime();
-          await sessionDoc.save();
-          logInfo(`[VoiceLiveGateway] Session ${sessionId} ended and updated in database`);
-        }
-      } catch (dbError) {
-        logError(`[VoiceLiveGateway] Failed to update session ${sessionId} in database`, dbError);
-      }
+      logInfo(`[VoiceLiveGateway] Session ${sessionId} ended and updated in database`);
 
       this.cleanupSession(sessionId);
     }
@@ -675,18 +1015,299 @@ export class VoiceLiveGateway {
   }
 
   /**
-   * EXPLANATION: Get active session count
+   * EXPLANATION: Flush metered usage and enforce limits for every live session
+   * Warnings go out once per limit; a used-up limit ends the session the same
+   * way a provider disconnect does, so it is finalized and summarized.
+   */
+  private async checkUsage(): Promise<void> {
+    if (this.checkingUsage) return;
+    this.checkingUsage = true;
+
+    try {
+      for (const [sessionId, session] of Array.from(this.activeSessions.entries())) {
+        await session.usage.flush();
+        // The session may have ended while the ledger was written
+        if (this.activeSessions.get(sessionId) !== session) continue;
+
+        const quota = session.usage.check();
+        this.emitUsageWarnings(session.socket, quota.newWarnings, quota.remaining);
+
+        if (quota.exceeded) {
+          logInfo(`[VoiceLiveGateway] Ending session ${sessionId}: ${quota.exceeded} reached`);
+          session.socket.emit('voice:usage-limit-reached', { limit: quota.exceeded });
+          session.service.disconnect();
+        }
+      }
+    } catch (error) {
+      logError('[VoiceLiveGateway] Usage check failed', error);
+    } finally {
+      this.checkingUsage = false;
+    }
+  }
+
+  private emitUsageWarnings(socket: Socket, limits: UsageLimitKey[], remaining: UsageQuotaStatus['remaining']): void {
+    for (const limit of limits) {
+      socket.emit('voice:usage-warning', { limit, remaining: remaining[limit] ?? 0 });
+    }
+  }
+
+  /**
+   * EXPLANATION: Get active session count (this node only)
    */
   public getActiveSessionCount(): number {
     return this.activeSessions.size;
   }
 
+  /**
+   * EXPLANATION: Get active session count across all nodes
+   * Records left behind by nodes that stopped heartbeating are pruned on the way.
+   */
+  public async getClusterSessionCount(): Promise<number> {
+    const records = await this.registry.list();
+    const alive = new Map<string, boolean>();
+    let count = 0;
+
+    for (const record of records) {
+      if (!alive.has(record.nodeId)) {
+        alive.set(record.nodeId, await this.registry.isNodeAlive(record.nodeId));
+      }
+      if (alive.get(record.nodeId)) {
+        count++;
+      } else {
+        await this.registry.remove(record.sessionId, record.nodeId);
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * EXPLANATION: Record this node as the session's owner
+   */
+  private publishSession(sessionId: string, connected: boolean): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    this.registry.register({
+      sessionId,
+      userId: session.userId,
+      nodeId: this.nodeId,
+      connected,
+      resumeTokenId: session.resumeTokenId,
+      updatedAt: Date.now()
+    }).catch((error) => logError(`[VoiceLiveGateway] Failed to register session ${sessionId}`, error));
+  }
+
+  /**
+   * EXPLANATION: Take over a session owned by another node
+   * Asks the owner to release it and waits (up to SESSION_HANDOFF_TIMEOUT_MS) so the
+   * old provider connection is closed before this node opens a new one. The new
+   * connection continues the conversation from the messages saved so far.
+   * Returns false (after telling the client) if the resume is not authorized.
+   */
+  private async takeOverSession(
+    socket: Socket,
+    sessionId: string,
+    userId: string,
+    resumeToken: string | undefined
+  ): Promise<boolean> {
+    let record;
+    try {
+      record = await this.registry.get(sessionId);
+    } catch (error) {
+      logError(`[VoiceLiveGateway] Session registry lookup failed for ${sessionId}`, error);
+      return true;
+    }
+
+    if (!record || record.nodeId === this.nodeId) return true;
+    if (!this.authorizeResume(socket, sessionId, userId, resumeToken, record)) return false;
+
+    if (!(await this.registry.isNodeAlive(record.nodeId))) {
+      logWarn(`[VoiceLiveGateway] Owner ${record.nodeId} of session ${sessionId} is gone; taking over`);
+      return true;
+    }
+
+    logInfo(`[VoiceLiveGateway] Requesting handoff of session ${sessionId} from node ${record.nodeId}`);
+    const released = await new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingHandoffs.delete(sessionId);
+        resolve(false);
+      }, this.handoffTimeoutMs);
+
+      this.pendingHandoffs.set(sessionId, () => {
+        clearTimeout(timer);
+        this.pendingHandoffs.delete(sessionId);
+        resolve(true);
+      });
+
+      this.registry.publish(record.nodeId, { type: 'release', sessionId, from: this.nodeId })
+        .catch((error) => logError(`[VoiceLiveGateway] Failed to request handoff of ${sessionId}`, error));
+    });
+
+    if (!released) {
+      logWarn(`[VoiceLiveGateway] Node ${record.nodeId} did not release session ${sessionId} in time; taking over`);
+    }
+    return true;
+  }
+
+  /**
+   * EXPLANATION: Check a request to reattach to a live session
+   * The caller must be the session's owner and present its latest resume token.
+   * Failures are logged as security events and, past VOICE_RESUME_MAX_FAILURES
+   * within the window, further attempts by that user are refused outright.
+   */
+  private authorizeResume(
+    socket: Socket,
+    sessionId: string,
+    userId: string,
+    resumeToken: string | undefined,
+    owner: { userId: string; resumeTokenId?: string }
+  ): boolean {
+    const actor = socket.data?.user?.email || userId;
+
+    if (voiceResumeTokenService.isBlocked(userId)) {
+      logAuth.securityEvent(actor, 'VOICE_RESUME_RATE_LIMITED', `session=${sessionId} socket=${socket.id}`);
+      socket.emit('voice:error', {
+        error: 'Too many failed attempts to resume a session. Try again later.',
+        code: 'RESUME_RATE_LIMITED',
+        recoverable: false
+      });
+      return false;
+    }
+
+    const check = owner.userId === userId
+      ? voiceResumeTokenService.verify(resumeToken, { sessionId, userId, currentTokenId: owner.resumeTokenId })
+      : { valid: false as const, reason: 'wrong_user' as const };
+
+    if (check.valid) {
+      voiceResumeTokenService.clearFailures(userId);
+      return true;
+    }
+
+    voiceResumeTokenService.recordFailure(userId);
+    logAuth.securityEvent(
+      actor,
+      'VOICE_RESUME_REJECTED',
+      `session=${sessionId} reason=${check.reason} socket=${socket.id} ip=${socket.handshake.address}`
+    );
+    // Same answer whatever the reason, so session ids can't be probed
+    socket.emit('voice:error', {
+      error: 'Session could not be resumed',
+      code: 'RESUME_REJECTED',
+      recoverable: false
+    });
+    return false;
+  }
+
+  /**
+   * EXPLANATION: Handle messages from other nodes
+   */
+  private handleRegistryMessage(message: SessionRegistryMessage): void {
+    if (message.type === 'released') {
+      this.pendingHandoffs.get(message.sessionId)?.();
+      return;
+    }
+
+    if (message.type === 'terminate') {
+      this.terminateSession(message.sessionId);
+      return;
+    }
+
+    if (message.type === 'release') {
+      this.releaseSession(message.sessionId);
+      this.registry.publish(message.from, { type: 'released', sessionId: message.sessionId, from: this.nodeId })
+        .catch((error) => logError(`[VoiceLiveGateway] Failed to confirm release of ${message.sessionId}`, error));
+    }
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  /**
+   * EXPLANATION: End everything a user has open on the voice gateway
+   * Sessions on this node are ended (and summarized) here; owners of the
+   * user's other sessions are told to do the same. The user's sockets are
+   * disconnected on every node through the adapter, so a suspended user
+   * can't keep listening to a reply that is still streaming.
+   */
+  public async endUserSessions(userId: string, reason: string): Promise<void> {
+    logInfo(`[VoiceLiveGateway] Ending voice sessions of user ${userId} (${reason})`);
+
+    for (const [sessionId, session] of Array.from(this.activeSessions.entries())) {
+      if (session.userId === userId) {
+        this.terminateSession(sessionId);
+      }
+    }
+
+    const records = await this.registry.list();
+    for (const record of records) {
+      if (record.userId === userId && record.nodeId !== this.nodeId) {
+        await this.registry.publish(record.nodeId, { type: 'terminate', sessionId: record.sessionId, from: this.nodeId });
+      }
+    }
+
+    this.io.of('/voice').in(this.userRoom(userId)).disconnectSockets(true);
+  }
+
+  /**
+   * EXPLANATION: End a session whose user lost access
+   * Goes through the provider disconnect like a used-up limit, so the
+   * session is finalized and summarized.
+   */
+  private terminateSession(sessionId: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    logInfo(`[VoiceLiveGateway] Terminating session ${sessionId}: access revoked`);
+    session.socket.emit('voice:error', {
+      error: 'Access to this session has been revoked',
+      code: 'ACCESS_REVOKED',
+      recoverable: false
+    });
+    session.service.disconnect();
+  }
+
+  /**
+   * EXPLANATION: Give up a session that moved to another node
+   * Unlike a user disconnect, the session is not finalized - it continues elsewhere.
+   */
+  private releaseSession(sessionId: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    logInfo(`[VoiceLiveGateway] Releasing session ${sessionId} to another node`);
+
+    // Clean up first so the provider's disconnect doesn't end the session
+    this.cleanupSession(sessionId);
+    session.service.disconnect();
+
+    if (session.socket.connected) {
+      session.socket.emit('voice:error', {
+        error: 'Session continued on another connection',
+        code: 'SESSION_MOVED',
+        recoverable: false
+      });
+    }
+  }
+
   /**
    * EXPLANATION: Clean up a specific session and its resources
    */
   private cleanupSession(sessionId: string): void {
+    // Persist an interruption still waiting for its playback ack
+    const session = this.activeSessions.get(sessionId);
+    if (session?.pendingTruncation) {
+      this.finalizeInterruptedResponse(sessionId, session.pendingTruncation.playback);
+    }
+
+    // Write usage metered since the last check (the tracker logs its own failures)
+    session?.usage.flush();
+
     // Remove from active sessions
     this.activeSessions.delete(sessionId);
+    this.registry.remove(sessionId, this.nodeId)
+      .catch((error) => logError(`[VoiceLiveGateway] Failed to unregister session ${sessionId}`, error));
 
     // Remove pending disconnect timeout
     const pending = this.pendingDisconnects.get(sessionId);
@@ -710,9 +1331,22 @@ export class VoiceLiveGateway {
    */
   public cleanup(): void {
     for (const [sessionId, sessionEntry] of this.activeSessions.entries()) {
+      if (sessionEntry.pendingTruncation) {
+        clearTimeout(sessionEntry.pendingTruncation.timer);
+      }
       sessionEntry.service.disconnect();
+      sessionEntry.usage.flush();
+      this.registry.remove(sessionId, this.nodeId)
+        .catch((error) => logError(`[VoiceLiveGateway] Failed to unregister session ${sessionId}`, error));
     }
     this.activeSessions.clear();
     this.assistantMessages.clear();
+    if (this.nodeHeartbeat) {
+      clearInterval(this.nodeHeartbeat);
+    }
+    if (this.usageCheck) {
+      clearInterval(this.usageCheck);
+    }
+    this.stopRevocationListener();
   }
 }
\ No newline at end of file
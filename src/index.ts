@@ -25,14 +25,23 @@ import adminRoutes from "./routes/admin";
 import sessionsRoutes from "./routes/sessions";
 import waitlistRoutes from "./routes/waitlist";
 import subscriptionRoutes from "./routes/subscriptions";
+import crisisRoutes from "./routes/crises";
+import personaRoutes from "./routes/personas";
+import usageRoutes from "./routes/usage";
+import billingRoutes from "./routes/billing";
+import planRoutes from "./routes/plans";
+import smsRoutes from "./routes/sms";
 
 // Import Voice Live Gateway for WebSocket voice communication
 import { VoiceLiveGateway } from "./gateways/voiceLive.gateway";
+import { setupVoiceCluster } from "./config/voiceCluster";
 
 // Import middleware
 import { errorHandler } from "./middleware/errorHandler";
 import { rateLimiter } from "./middleware/rateLimiter";
 
+// Import services whose providers are checked at startup
+
 dotenv.config();
 
 
@@ -51,6 +60,8 @@ const PORT = process.env.PORT || 3001;
 app.use(helmet());
 app.use(cors());
 app.use(morgan("combined", { stream: morganStream }));
+// Payment webhooks are signed over the raw body, so keep it unparsed there
+app.use("/api/billing/webhook", express.raw({ type: "*/*", limit: "1mb" }));
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
@@ -68,16 +79,27 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs, {
 
 // Routes
 app.use("/api/auth", authRoutes);
+app.use("/api/admin/crises", crisisRoutes);
+app.use("/api/admin/personas", personaRoutes);
+app.use("/api/admin/usage", usageRoutes);
 app.use("/api/admin", adminRoutes);
 app.use("/api/admin", subscriptionRoutes);
 app.use("/api/health", healthRoutes);
 app.use("/api/users", usersRoutes);
 app.use("/api/sessions", sessionsRoutes);
 app.use("/api/waitlist", waitlistRoutes);
+app.use("/api/billing", billingRoutes);
+app.use("/api/plans", planRoutes);
+app.use("/api/sms", smsRoutes);
 
 // WebSocket connection for real-time communication
 // EXPLANATION: Initialize Voice Live Gateway for voice conversations
-const voiceGateway = new VoiceLiveGateway(io);
+// The cluster setup shares session ownership between replicas (SESSION_REGISTRY)
+const voiceCluster = setupVoiceCluster(io);
+const voiceGateway = new VoiceLiveGateway(io, {
+  registry: voiceCluster.registry,
+  nodeId: voiceCluster.nodeId,
+});
 
 
 // Error handling middleware
@@ -126,12 +148,16 @@ startServer().catch((error) => {
 });
 process.on("SIGTERM", async () => {
   logInfo("SIGTERM received, shutting down gracefully");
+  voiceGateway.cleanup();
+  await voiceCluster.close();
   await dbConnection.disconnect();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   logInfo("SIGINT received, shutting down gracefully");
+  voiceGateway.cleanup();
+  await voiceCluster.close();
   await dbConnection.disconnect();
   process.exit(0);
 });
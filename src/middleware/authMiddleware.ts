@@ -1,12 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { User, IUser } from '../models/schemas/User';
+import { IUser } from '../models/schemas/User';
+import { tokenPolicyService } from '../services/tokenPolicyService';
 
 // Extend Express Request interface to include user
 declare global {
   namespace Express {
     interface Request {
       user?: IUser;
+      authSessionId?: string; // login (refresh token family) the access token belongs to
     }
   }
 }
@@ -45,60 +46,23 @@ export const authMiddleware = async (
       return;
     }
 
-    try {
-      const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-      const payload = jwt.verify(token, JWT_SECRET) as any;
-
-      // Find user by ID from token
-      const user = await User.findOne({ userId: payload.userId });
-
-      if (!user) {
-        res.status(401).json({
-          success: false,
-          message: 'Invalid token - user not found'
-        });
-        return;
-      }
-
-      if (!user.emailVerified) {
-        res.status(401).json({
-          success: false,
-          message: 'Email verification required'
-        });
-        return;
-      }
-
-      // Check if account is locked
-      if (user.lockUntil && user.lockUntil > new Date()) {
-        res.status(401).json({
-          success: false,
-          message: 'Account is temporarily locked'
-        });
-        return;
-      }
-
-      // Add user to request object
-      req.user = user;
-      next();
-    } catch (jwtError) {
-      if (jwtError instanceof jwt.TokenExpiredError) {
-        res.status(401).json({
-          success: false,
-          message: 'Token expired'
-        });
-      } else if (jwtError instanceof jwt.JsonWebTokenError) {
-        res.status(401).json({
-          success: false,
-          message: 'Invalid token'
-        });
-      } else {
-        res.status(401).json({
-          success: false,
-          message: 'Token validation failed'
-        });
-      }
+    // Same policy as the voice socket: password changes, revocations,
+    // suspension and deactivation invalidate tokens already issued
+    const result = await tokenPolicyService.authenticate(token);
+
+    if (!result.ok) {
+      res.status(401).json({
+        success: false,
+        message: result.message,
+        code: result.code
+      });
       return;
     }
+
+    // Add user to request object
+    req.user = result.user;
+    req.authSessionId = result.claims.sid;
+    next();
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -131,17 +95,10 @@ export const optionalAuthMiddleware = async (
       return;
     }
 
-    try {
-      const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-      const payload = jwt.verify(token, JWT_SECRET) as any;
-
-      const user = await User.findOne({ userId: payload.userId });
-
-      if (user && user.emailVerified && (!user.lockUntil || user.lockUntil <= new Date())) {
-        req.user = user;
-      }
-    } catch (jwtError) {
-      // Ignore token errors for optional auth
+    const result = await tokenPolicyService.authenticate(token);
+    if (result.ok) {
+      req.user = result.user;
+      req.authSessionId = result.claims.sid;
     }
 
     next();
@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
+import { userSubscriptionService } from '../services/userSubscriptionService';
+import { FeatureName, resolveFeatureName } from '../config/featureGates';
+import { logWarn, logError } from '../utils/logger';
+
+export interface FeatureDenial {
+  status: 402 | 403; // 402 without a subscription, 403 when the plan lacks the feature
+  code: 'SUBSCRIPTION_REQUIRED' | 'FEATURE_NOT_IN_PLAN';
+  message: string;
+  feature: string;
+  plan?: { id: string; name: string };
+}
+
+/**
+ * Check a user's current plan for a feature (by name). Returns null when allowed.
+ */
+export async function checkFeatureAccess(userId: string, feature: string): Promise<FeatureDenial | null> {
+  const entitlements = await userSubscriptionService.getEntitlements(userId);
+
+  if (!entitlements) {
+    return {
+      status: 402,
+      code: 'SUBSCRIPTION_REQUIRED',
+      message: `A subscription with the "${feature}" feature is required`,
+      feature,
+    };
+  }
+
+  if (!entitlements.features.some((f) => f.name === feature)) {
+    return {
+      status: 403,
+      code: 'FEATURE_NOT_IN_PLAN',
+      message: `Your plan (${entitlements.planName}) does not include the "${feature}" feature`,
+      feature,
+      plan: { id: entitlements.planId, name: entitlements.planName },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Feature entitlement middleware (use after authMiddleware)
+ * Takes a feature name or a gate from featureGates; an unset gate skips the check.
+ */
+export const requireFeature = (featureName: FeatureName) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const feature = resolveFeatureName(featureName);
+    if (!feature) {
+      next();
+      return;
+    }
+
+    const userId = req.user?._id?.toString();
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    try {
+      const denial = await checkFeatureAccess(userId, feature);
+      if (denial) {
+        logWarn(`Feature check failed: user ${userId} lacks "${feature}" (${denial.code}) for ${req.path}`);
+        res.status(denial.status).json({
+          success: false,
+          message: denial.message,
+          code: denial.code,
+          feature: denial.feature,
+          plan: denial.plan,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logError(`Feature check error for user ${userId}`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to check feature access',
+      });
+    }
+  };
+};
+
+/**
+ * Socket.IO equivalent of requireFeature, installed per socket with socket.use().
+ * Maps event names to the feature they need; a denied event is dropped and the
+ * client gets `errorEvent` with the same code and feature as the HTTP response.
+ */
+export const socketFeatureGuard = (
+  socket: Socket,
+  events: Record<string, FeatureName>,
+  errorEvent: string
+) => {
+  return (packet: any[], next: (err?: Error) => void): void => {
+    const feature = resolveFeatureName(events[packet[0]]);
+    if (!feature) {
+      next();
+      return;
+    }
+
+    const userId: string | undefined = socket.data?.user?.userId;
+    if (!userId) {
+      socket.emit(errorEvent, {
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+        recoverable: false,
+      });
+      return;
+    }
+
+    checkFeatureAccess(userId, feature)
+      .then((denial) => {
+        if (!denial) {
+          next();
+          return;
+        }
+
+        logWarn(`Feature check failed: user ${userId} lacks "${feature}" (${denial.code}) for ${packet[0]}`);
+        socket.emit(errorEvent, {
+          error: denial.message,
+          code: denial.code,
+          feature: denial.feature,
+          plan: denial.plan,
+          recoverable: false,
+        });
+      })
+      .catch((error) => {
+        logError(`Feature check error for user ${userId}`, error);
+        socket.emit(errorEvent, {
+          error: 'Failed to check feature access',
+          code: 'FEATURE_CHECK_FAILED',
+          recoverable: true,
+        });
+      });
+  };
+};
@@ -0,0 +1,151 @@
+import dotenv from 'dotenv';
+import { Types } from 'mongoose';
+import { dbConnection } from '../models/database';
+import { Session } from '../models/schemas/Session';
+import { Message } from '../models/schemas/Message';
+import { logInfo, logWarn, logError } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Backfill the external `sessionId` on Session documents.
+ *
+ * Sessions created before the field existed were saved without the gateway's
+ * `voice_<ts>_<rand>` id, so their messages could not be joined back to them and
+ * end times were never recorded. This migration:
+ *  1. Matches each legacy session to the message stream that started during it
+ *     (same user, first message between the session start and the user's next session).
+ *  2. Marks stale "active" sessions as ended using their last message timestamp.
+ *  3. Creates ended Session documents for message streams with no session at all.
+ *  4. Gives any remaining legacy session a `legacy_<_id>` id, then syncs indexes
+ *     so the unique index on `sessionId` can be built.
+ *
+ * Usage: npm run migrate:session-ids [-- --dry-run]
+ */
+
+// Allow for clock skew between session creation and the first saved message
+const START_TOLERANCE_MS = 5000;
+// Active sessions with no messages for this long are treated as abandoned
+const STALE_SESSION_MS = 60 * 60 * 1000;
+
+interface MessageStream {
+  sessionId: string;
+  userId: string;
+  firstAt: Date;
+  lastAt: Date;
+}
+
+export interface BackfillSessionIdsResult {
+  matched: number;
+  ended: number;
+  created: number;
+  legacy: number;
+}
+
+export async function backfillSessionIds(dryRun = false): Promise<BackfillSessionIdsResult> {
+  const result: BackfillSessionIdsResult = { matched: 0, ended: 0, created: 0, legacy: 0 };
+
+  const claimed = new Set<string>(
+    (await Session.distinct('sessionId', { sessionId: { $exists: true, $ne: null } })).map(String)
+  );
+
+  // Message streams that no Session document points at yet, grouped by user
+  const streams: MessageStream[] = await Message.aggregate([
+    { $group: { _id: '$sessionId', userId: { $first: '$userId' }, firstAt: { $min: '$timestamp' }, lastAt: { $max: '$timestamp' } } },
+    { $project: { _id: 0, sessionId: '$_id', userId: 1, firstAt: 1, lastAt: 1 } },
+    { $sort: { firstAt: 1 } },
+  ]);
+  const unclaimed = new Map<string, MessageStream[]>();
+  for (const stream of streams) {
+    if (claimed.has(stream.sessionId)) continue;
+    const list = unclaimed.get(stream.userId) || [];
+    list.push(stream);
+    unclaimed.set(stream.userId, list);
+  }
+
+  const legacySessions = await Session.find({ sessionId: { $exists: false } })
+    .select('userId startTime endTime status')
+    .sort({ userId: 1, startTime: 1 })
+    .lean();
+
+  for (let i = 0; i < legacySessions.length; i++) {
+    const session = legacySessions[i];
+    const userId = session.userId.toString();
+    const next = legacySessions[i + 1];
+    const windowEnd = next && next.userId.toString() === userId ? next.startTime.getTime() : Infinity;
+    const windowStart = session.startTime.getTime() - START_TOLERANCE_MS;
+
+    const candidates = unclaimed.get(userId) || [];
+    const index = candidates.findIndex((s) => s.firstAt.getTime() >= windowStart && s.firstAt.getTime() < windowEnd);
+
+    const update: Record<string, unknown> = {};
+    if (index === -1) {
+      update.sessionId = `legacy_${session._id}`;
+      result.legacy++;
+    } else {
+      const [stream] = candidates.splice(index, 1);
+      update.sessionId = stream.sessionId;
+      result.matched++;
+
+      if (session.status === 'active' && Date.now() - stream.lastAt.getTime() > STALE_SESSION_MS) {
+        update.status = 'ended';
+        update.endTime = stream.lastAt;
+        update.duration = Math.max(0, stream.lastAt.getTime() - session.startTime.getTime());
+        result.ended++;
+      }
+    }
+
+    if (!dryRun) {
+      await Session.updateOne({ _id: session._id }, { $set: update });
+    }
+  }
+
+  // Message streams without any session get an ended session so they show up in history
+  for (const [userId, remaining] of unclaimed) {
+    if (!Types.ObjectId.isValid(userId)) {
+      logWarn(`[Migration] Skipping ${remaining.length} message stream(s) with invalid userId ${userId}`);
+      continue;
+    }
+
+    for (const stream of remaining) {
+      if (!dryRun) {
+        await Session.create({
+          sessionId: stream.sessionId,
+          userId,
+          startTime: stream.firstAt,
+          endTime: stream.lastAt,
+          status: 'ended',
+          duration: stream.lastAt.getTime() - stream.firstAt.getTime(),
+          metadata: { backfilled: true },
+        });
+      }
+      result.created++;
+    }
+  }
+
+  if (!dryRun) {
+    await Session.syncIndexes();
+  }
+
+  return result;
+}
+
+if (require.main === module) {
+  const dryRun = process.argv.includes('--dry-run');
+
+  (async () => {
+    try {
+      await dbConnection.connect();
+      const result = await backfillSessionIds(dryRun);
+      logInfo(
+        `[Migration] Session ids ${dryRun ? '(dry run) ' : ''}- matched: ${result.matched}, ` +
+          `ended: ${result.ended}, created: ${result.created}, legacy: ${result.legacy}`
+      );
+      await dbConnection.disconnect();
+      process.exit(0);
+    } catch (error) {
+      logError('[Migration] Session id backfill failed', error);
+      process.exit(1);
+    }
+  })();
+}
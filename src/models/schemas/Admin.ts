@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { ITwoFactor, TwoFactorSchema } from "./TwoFactor";
 
 export interface IAdmin extends Document {
   email: string;
@@ -19,6 +20,7 @@ export interface IAdmin extends Document {
   lastLogin?: Date;
   loginAttempts: number;
   lockUntil?: Date;
+  twoFactor: ITwoFactor;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -47,6 +49,7 @@ const AdminSchema = new Schema<IAdmin>(
     lastLogin: { type: Date },
     loginAttempts: { type: Number, default: 0 },
     lockUntil: { type: Date },
+    twoFactor: { type: TwoFactorSchema, default: () => ({}) },
     isActive: { type: Boolean, default: true },
   },
   {
@@ -0,0 +1,15 @@
+import { Schema } from 'mongoose';
+
+// Admin who archived a catalog entry (plans and features are archived, never deleted)
+export interface IArchivedBy {
+  adminId: string;
+  adminEmail: string;
+}
+
+export const ArchivedBySchema = new Schema<IArchivedBy>(
+  {
+    adminId: { type: String, required: true },
+    adminEmail: { type: String, required: true },
+  },
+  { _id: false }
+);
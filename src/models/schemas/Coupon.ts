@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+// Promo code taken off the first payment of a checkout
+export interface ICoupon extends Document {
+  code: string; // stored uppercase; matched case-insensitively
+  description?: string;
+  discountType: CouponDiscountType;
+  percentOff?: number; // 1-100, for percent coupons
+  amountOff?: number; // minor units, for fixed coupons
+  currency?: string; // fixed coupons only apply to prices in this currency
+  planIds: Types.ObjectId[]; // empty = every plan
+  maxRedemptions?: number;
+  timesRedeemed: number;
+  expiresAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+    description: { type: String },
+    discountType: { type: String, enum: ['percent', 'fixed'], required: true },
+    percentOff: { type: Number, min: 1, max: 100 },
+    amountOff: { type: Number, min: 1 },
+    currency: { type: String, lowercase: true },
+    planIds: [{ type: Schema.Types.ObjectId, ref: 'SubscriptionPlan' }],
+    maxRedemptions: { type: Number, min: 1 },
+    timesRedeemed: { type: Number, default: 0 },
+    expiresAt: { type: Date },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+    collection: 'coupons',
+  }
+);
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', CouponSchema);
@@ -0,0 +1,107 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type EscalationStatus = "open" | "acknowledged" | "assigned" | "resolved";
+
+export type EscalationStepType =
+  | "detected"
+  | "repeat_detection"
+  | "contact_notified"
+  | "admin_alerted"
+  | "notification_failed"
+  | "acknowledged"
+  | "assigned"
+  | "resolved";
+
+export interface IEscalationStep {
+  type: EscalationStepType;
+  channel?: string;
+  recipient?: string;
+  actorId?: string;
+  actorEmail?: string;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface ICrisisEscalation extends Document {
+  userId: string;
+  sessionId?: string;
+  messageId?: string;
+  severity: "low" | "medium" | "high" | "critical";
+  keywords: string[];
+  confidence: number;
+  status: EscalationStatus;
+  assignedTo?: {
+    adminId: string;
+    adminEmail: string;
+    assignedAt: Date;
+  };
+  acknowledgedAt?: Date;
+  resolvedAt?: Date;
+  resolutionNotes?: string;
+  steps: IEscalationStep[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CrisisEscalationSchema = new Schema<ICrisisEscalation>(
+  {
+    userId: { type: String, required: true, index: true },
+    sessionId: { type: String, index: true },
+    messageId: { type: String },
+    severity: {
+      type: String,
+      enum: ["low", "medium", "high", "critical"],
+      required: true,
+    },
+    keywords: [{ type: String }],
+    confidence: { type: Number, min: 0, max: 1 },
+    status: {
+      type: String,
+      enum: ["open", "acknowledged", "assigned", "resolved"],
+      default: "open",
+    },
+    assignedTo: {
+      adminId: { type: String },
+      adminEmail: { type: String },
+      assignedAt: { type: Date },
+    },
+    acknowledgedAt: { type: Date },
+    resolvedAt: { type: Date },
+    resolutionNotes: { type: String },
+    steps: [
+      {
+        type: {
+          type: String,
+          enum: [
+            "detected",
+            "repeat_detection",
+            "contact_notified",
+            "admin_alerted",
+            "notification_failed",
+            "acknowledged",
+            "assigned",
+            "resolved",
+          ],
+          required: true,
+        },
+        channel: { type: String },
+        recipient: { type: String },
+        actorId: { type: String },
+        actorEmail: { type: String },
+        note: { type: String },
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    collection: "crisis_escalations",
+  }
+);
+
+CrisisEscalationSchema.index({ status: 1, severity: 1, createdAt: -1 });
+
+export const CrisisEscalation = mongoose.model<ICrisisEscalation>(
+  "CrisisEscalation",
+  CrisisEscalationSchema
+);
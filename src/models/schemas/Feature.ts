@@ -1,9 +1,15 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { ILocalizedText, LocalizedTextSchema } from './Localization';
+import { IArchivedBy, ArchivedBySchema } from './Archival';
 
 export interface IFeature extends Document {
-  name: string;
+  name: string; // identifier used for entitlement checks
+  displayName?: string; // shown on the pricing page instead of name
   description?: string;
+  localizations?: Map<string, ILocalizedText>;
   isActive: boolean;
+  archivedAt?: Date; // archived features stay inactive and keep their plan references
+  archivedBy?: IArchivedBy;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -11,8 +17,12 @@ export interface IFeature extends Document {
 const FeatureSchema = new Schema<IFeature>(
   {
     name: { type: String, required: true, unique: true },
+    displayName: { type: String, trim: true },
     description: { type: String },
+    localizations: { type: Map, of: LocalizedTextSchema },
     isActive: { type: Boolean, default: true },
+    archivedAt: { type: Date },
+    archivedBy: { type: ArchivedBySchema },
   },
   {
     timestamps: true,
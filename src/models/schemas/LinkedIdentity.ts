@@ -0,0 +1,21 @@
+import { Schema } from 'mongoose';
+
+// A social / OIDC sign-in connected to a user, identified by the provider's subject id
+export interface ILinkedIdentity {
+  provider: string; // 'google' | 'apple'
+  subject: string; // 'sub' claim, stable per provider account
+  email?: string; // as reported by the provider when linked
+  linkedAt: Date;
+  lastUsedAt?: Date;
+}
+
+export const LinkedIdentitySchema = new Schema<ILinkedIdentity>(
+  {
+    provider: { type: String, required: true },
+    subject: { type: String, required: true },
+    email: { type: String },
+    linkedAt: { type: Date, default: Date.now },
+    lastUsedAt: { type: Date },
+  },
+  { _id: false }
+);
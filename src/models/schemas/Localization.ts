@@ -0,0 +1,15 @@
+import { Schema } from 'mongoose';
+
+// Translated display text for one locale (e.g. 'de', 'pt-BR'); unset fields fall back to the default text
+export interface ILocalizedText {
+  name?: string;
+  description?: string;
+}
+
+export const LocalizedTextSchema = new Schema<ILocalizedText>(
+  {
+    name: { type: String, trim: true },
+    description: { type: String, trim: true },
+  },
+  { _id: false }
+);
@@ -1,11 +1,14 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export type MessageSource = "voice" | "text";
+
 export interface IMessage extends Document {
   sessionId: string;
   userId: string;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  source: MessageSource; // channel the turn happened on
   emotionData?: {
     primaryEmotion: string;
     confidence: number;
@@ -20,7 +23,13 @@ export interface IMessage extends Document {
     escalated: boolean;
     escalationTime?: Date;
   };
-  audioUrl?: string;
+  audioUrl?: string; // playback route for the recorded turn (opt-in recording only)
+  audio?: {
+    storageKey: string;
+    contentType: string;
+    durationMs: number;
+    size: number; // bytes
+  };
   metadata?: any;
 }
 
@@ -35,6 +44,7 @@ const MessageSchema = new Schema<IMessage>(
     },
     content: { type: String, required: true },
     timestamp: { type: Date, default: Date.now, index: true },
+    source: { type: String, enum: ["voice", "text"], default: "voice" },
     emotionData: {
       primaryEmotion: { type: String },
       confidence: { type: Number, min: 0, max: 1 },
@@ -53,6 +63,12 @@ const MessageSchema = new Schema<IMessage>(
       escalationTime: { type: Date },
     },
     audioUrl: { type: String },
+    audio: {
+      storageKey: { type: String },
+      contentType: { type: String },
+      durationMs: { type: Number },
+      size: { type: Number },
+    },
     metadata: { type: Schema.Types.Mixed },
   },
   {
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * processing - claimed by a node; a second delivery of the event is a duplicate
+ * processed  - applied to the user's subscription
+ * ignored    - acknowledged without changes (unknown type or subscription)
+ * failed     - applying it threw; the provider's retry processes it again
+ */
+export type PaymentEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// One row per webhook event, so provider retries are applied only once
+export interface IPaymentEventRecord extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  status: PaymentEventStatus;
+  userId?: string;
+  subscriptionId?: string; // provider subscription id
+  attempts: number;
+  error?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentEventRecordSchema = new Schema<IPaymentEventRecord>(
+  {
+    provider: { type: String, required: true },
+    eventId: { type: String, required: true },
+    type: { type: String, required: true },
+    status: { type: String, enum: ['processing', 'processed', 'ignored', 'failed'], required: true },
+    userId: { type: String, index: true },
+    subscriptionId: { type: String },
+    attempts: { type: Number, default: 1 },
+    error: { type: String },
+    processedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: 'payment_events',
+  }
+);
+
+PaymentEventRecordSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+export const PaymentEventRecord = mongoose.model<IPaymentEventRecord>('PaymentEventRecord', PaymentEventRecordSchema);
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface IPersonaVoice {
+  name: string; // Azure voice name, e.g. "en-US-Ava:DragonHDLatestNeural"
+  type: string;
+  temperature: number;
+  rate: string;
+}
+
+export interface IPersonaTurnDetection {
+  threshold?: number;
+  prefixPaddingMs?: number;
+  silenceDurationMs?: number;
+  removeFillerWords?: boolean;
+  endOfUtteranceThreshold?: number;
+  endOfUtteranceTimeout?: number;
+}
+
+// Versions are immutable once created; edits create a new version
+export interface IPersonaVersion {
+  _id: Types.ObjectId;
+  version: number;
+  instructions: string;
+  voice: IPersonaVoice;
+  turnDetection?: IPersonaTurnDetection;
+  notes?: string;
+  createdBy?: {
+    adminId: string;
+    adminEmail: string;
+  };
+  createdAt: Date;
+}
+
+export interface IPersonaPublishEvent {
+  version: number;
+  action: "publish" | "rollback";
+  adminId: string;
+  adminEmail: string;
+  createdAt: Date;
+}
+
+export interface IPersona extends Document {
+  name: string;
+  description?: string;
+  isActive: boolean;
+  isDefault: boolean;
+  publishedVersion?: number;
+  versions: IPersonaVersion[];
+  publishHistory: IPersonaPublishEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PersonaVersionSchema = new Schema<IPersonaVersion>(
+  {
+    version: { type: Number, required: true, min: 1 },
+    instructions: { type: String, required: true },
+    voice: {
+      name: { type: String, required: true },
+      type: { type: String, default: "azure-standard" },
+      temperature: { type: Number, min: 0, max: 1, default: 0.7 },
+      rate: { type: String, default: "1.0" },
+    },
+    turnDetection: {
+      threshold: { type: Number, min: 0, max: 1 },
+      prefixPaddingMs: { type: Number, min: 0 },
+      silenceDurationMs: { type: Number, min: 0 },
+      removeFillerWords: { type: Boolean },
+      endOfUtteranceThreshold: { type: Number, min: 0, max: 1 },
+      endOfUtteranceTimeout: { type: Number, min: 0 },
+    },
+    notes: { type: String },
+    createdBy: {
+      adminId: { type: String },
+      adminEmail: { type: String },
+    },
+    createdAt: { type: Date, default: Date.now },
+  }
+);
+
+const PersonaSchema = new Schema<IPersona>(
+  {
+    name: { type: String, required: true, unique: true, trim: true },
+    description: { type: String },
+    isActive: { type: Boolean, default: true },
+    isDefault: { type: Boolean, default: false, index: true },
+    publishedVersion: { type: Number },
+    versions: [PersonaVersionSchema],
+    publishHistory: [
+      {
+        _id: false,
+        version: { type: Number, required: true },
+        action: { type: String, enum: ["publish", "rollback"], required: true },
+        adminId: { type: String },
+        adminEmail: { type: String },
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    collection: "personas",
+  }
+);
+
+export const Persona = mongoose.model<IPersona>("Persona", PersonaSchema);
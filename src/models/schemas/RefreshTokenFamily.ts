@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * logout         - the user logged out on this device
+ * logout_all     - the user logged out of every device
+ * revoked        - ended from the sessions list
+ * reuse_detected - a rotated-out refresh token was presented again (likely stolen)
+ * password_changed, suspended, deactivated - every token of the user was revoked
+ */
+export type RefreshTokenRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'revoked'
+  | 'reuse_detected'
+  | 'password_changed'
+  | 'suspended'
+  | 'deactivated';
+
+// One login on one device. Each refresh rotates currentTokenId; only the
+// newest refresh token of the family is accepted.
+export interface IRefreshTokenFamily extends Document {
+  userId: Types.ObjectId;
+  familyId: string; // 'sid' claim in the tokens
+  currentTokenId: string; // 'jti' of the only refresh token still accepted
+  rotations: number;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // slides forward on every refresh; TTL-deleted afterwards
+  revokedAt?: Date;
+  revokedReason?: RefreshTokenRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenFamilySchema = new Schema<IRefreshTokenFamily>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    familyId: { type: String, required: true, unique: true },
+    currentTokenId: { type: String, required: true },
+    rotations: { type: Number, default: 0 },
+    userAgent: { type: String },
+    ip: { type: String },
+    lastUsedAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'logout_all', 'revoked', 'reuse_detected', 'password_changed', 'suspended', 'deactivated'],
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'refresh_token_families',
+  }
+);
+
+RefreshTokenFamilySchema.index({ userId: 1, revokedAt: 1 });
+RefreshTokenFamilySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshTokenFamily = mongoose.model<IRefreshTokenFamily>('RefreshTokenFamily', RefreshTokenFamilySchema);
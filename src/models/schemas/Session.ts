@@ -1,17 +1,39 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
+export interface ISessionSummary {
+  duration: number; // in seconds
+  messageCount: number;
+  userMessageCount: number;
+  assistantMessageCount: number;
+  averageEmotion: string;
+  topEmotions: string[];
+  crisisDetected: boolean;
+  crisisLevels: ("low" | "medium" | "high" | "critical")[];
+  generatedAt: Date;
+}
+
 export interface ISession extends Document {
+  sessionId: string; // external id shared with the voice gateway and messages
   userId: Types.ObjectId;
   startTime: Date;
   endTime?: Date;
   status: "active" | "ended" | "error";
+  channels: ("voice" | "text")[]; // channels used during the session
   userPreferences?: any;
   metadata?: any;
   duration?: number; // in milliseconds
+  summary?: ISessionSummary;
+  persona?: {
+    personaId: string;
+    versionId: string;
+    version: number;
+    name: string;
+  };
 }
 
 const SessionSchema = new Schema<ISession>(
   {
+    sessionId: { type: String, required: true, unique: true, trim: true },
     userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
     startTime: { type: Date, default: Date.now, index: true },
     endTime: { type: Date },
@@ -20,9 +42,27 @@ const SessionSchema = new Schema<ISession>(
       enum: ["active", "ended", "error"],
       default: "active",
     },
+    channels: [{ type: String, enum: ["voice", "text"] }],
     userPreferences: { type: Schema.Types.Mixed },
     metadata: { type: Schema.Types.Mixed },
     duration: { type: Number },
+    summary: {
+      duration: { type: Number },
+      messageCount: { type: Number },
+      userMessageCount: { type: Number },
+      assistantMessageCount: { type: Number },
+      averageEmotion: { type: String },
+      topEmotions: [{ type: String }],
+      crisisDetected: { type: Boolean },
+      crisisLevels: [{ type: String, enum: ["low", "medium", "high", "critical"] }],
+      generatedAt: { type: Date },
+    },
+    persona: {
+      personaId: { type: String },
+      versionId: { type: String, index: true },
+      version: { type: Number },
+      name: { type: String },
+    },
   },
   {
     collection: "sessions",
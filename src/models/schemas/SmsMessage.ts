@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * queued      - recorded, not yet accepted by the provider
+ * sent        - accepted by the provider
+ * delivered   - the carrier confirmed delivery to the handset
+ * undelivered - the carrier gave up (unreachable number, blocked, ...)
+ * failed      - the provider refused the message
+ */
+export type SmsDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export type SmsTemplateName = 'phone_verification' | 'login_code' | 'crisis_alert';
+
+// One row per outgoing text. The body is not stored since most carry a login code.
+export interface ISmsMessage extends Document {
+  to: string; // E.164
+  template: SmsTemplateName;
+  userId?: string;
+  provider: string;
+  providerMessageId?: string;
+  status: SmsDeliveryStatus;
+  error?: string;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  statusUpdatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SmsMessageSchema = new Schema<ISmsMessage>(
+  {
+    to: { type: String, required: true },
+    template: { type: String, enum: ['phone_verification', 'login_code', 'crisis_alert'], required: true },
+    userId: { type: String, index: true },
+    provider: { type: String, required: true },
+    providerMessageId: { type: String },
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'delivered', 'undelivered', 'failed'],
+      default: 'queued',
+    },
+    error: { type: String },
+    sentAt: { type: Date },
+    deliveredAt: { type: Date },
+    statusUpdatedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: 'sms_messages',
+  }
+);
+
+// Rate limiting counts recent messages per number
+SmsMessageSchema.index({ to: 1, createdAt: -1 });
+SmsMessageSchema.index({ provider: 1, providerMessageId: 1 }, { unique: true, sparse: true });
+
+export const SmsMessage = mongoose.model<ISmsMessage>('SmsMessage', SmsMessageSchema);
@@ -1,10 +1,44 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ILocalizedText, LocalizedTextSchema } from './Localization';
+import { IArchivedBy, ArchivedBySchema } from './Archival';
+
+// Voice usage caps; an unset field means no limit
+export interface IPlanUsageLimits {
+  dailyVoiceMinutes?: number;
+  monthlyVoiceMinutes?: number;
+  dailyTurns?: number;
+  monthlyTurns?: number;
+}
+
+export type BillingInterval = 'month' | 'year';
+
+export const BILLING_INTERVALS: BillingInterval[] = ['month', 'year'];
+
+// A purchasable price. Amounts never change once created; add a new price and deactivate the old one.
+export interface IPlanPrice {
+  _id: Types.ObjectId;
+  interval: BillingInterval;
+  currency: string; // ISO 4217, lowercase
+  amount: number; // minor units (cents)
+  isActive: boolean;
+  createdAt: Date;
+}
 
 export interface ISubscriptionPlan extends Document {
   name: string;
-  monthlyPrice: number;
+  description?: string;
+  localizations?: Map<string, ILocalizedText>;
+  sortOrder: number; // pricing page order, lowest first
+  isRecommended: boolean; // highlighted on the pricing page; at most one plan
+  monthlyPrice: number; // display price in major units; checkout falls back to it without prices
+  prices: Types.DocumentArray<IPlanPrice>;
+  trialDays?: number; // free trial for first-time subscribers
   features: Types.ObjectId[]; // Array of Feature ObjectIds
+  personaId?: Types.ObjectId; // Persona used for subscribers who haven't picked one
+  usageLimits?: IPlanUsageLimits;
   isActive: boolean;
+  archivedAt?: Date; // archived plans stay inactive so subscription history keeps resolving
+  archivedBy?: IArchivedBy;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -12,9 +46,32 @@ export interface ISubscriptionPlan extends Document {
 const SubscriptionPlanSchema = new Schema<ISubscriptionPlan>(
   {
     name: { type: String, required: true, unique: true },
+    description: { type: String },
+    localizations: { type: Map, of: LocalizedTextSchema },
+    sortOrder: { type: Number, default: 0 },
+    isRecommended: { type: Boolean, default: false },
     monthlyPrice: { type: Number, required: true, min: 0 },
+    prices: [
+      {
+        interval: { type: String, enum: BILLING_INTERVALS, required: true },
+        currency: { type: String, required: true, lowercase: true, match: /^[a-z]{3}$/ },
+        amount: { type: Number, required: true, min: 0 },
+        isActive: { type: Boolean, default: true },
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+    trialDays: { type: Number, min: 0 },
     features: [{ type: Schema.Types.ObjectId, ref: 'Feature' }],
+    personaId: { type: Schema.Types.ObjectId, ref: 'Persona' },
+    usageLimits: {
+      dailyVoiceMinutes: { type: Number, min: 0 },
+      monthlyVoiceMinutes: { type: Number, min: 0 },
+      dailyTurns: { type: Number, min: 0 },
+      monthlyTurns: { type: Number, min: 0 },
+    },
     isActive: { type: Boolean, default: true },
+    archivedAt: { type: Date },
+    archivedBy: { type: ArchivedBySchema },
   },
   {
     timestamps: true,
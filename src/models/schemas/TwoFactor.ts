@@ -0,0 +1,39 @@
+import { Schema } from 'mongoose';
+
+// One-time recovery code; only its hash is stored
+export interface IRecoveryCode {
+  hash: string;
+  usedAt?: Date;
+}
+
+// TOTP (RFC 6238) second factor of a user or admin. Secrets are stored encrypted.
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string;
+  enabledAt?: Date;
+  pendingSecret?: string; // enrollment waiting for its confirmation code
+  pendingExpiresAt?: Date;
+  lastUsedStep?: number; // time step of the last accepted code, so a code works once
+  recoveryCodes: IRecoveryCode[];
+}
+
+const RecoveryCodeSchema = new Schema<IRecoveryCode>(
+  {
+    hash: { type: String, required: true },
+    usedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+export const TwoFactorSchema = new Schema<ITwoFactor>(
+  {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String },
+    enabledAt: { type: Date },
+    pendingSecret: { type: String },
+    pendingExpiresAt: { type: Date },
+    lastUsedStep: { type: Number },
+    recoveryCodes: { type: [RecoveryCodeSchema], default: [] },
+  },
+  { _id: false }
+);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Voice usage ledger: one row per user, session and UTC day.
+ * Sessions that cross midnight write to both days.
+ */
+export interface IUsageRecord extends Document {
+  userId: string;
+  sessionId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  month: string; // YYYY-MM (UTC)
+  audioInSeconds: number;
+  audioOutSeconds: number;
+  turns: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UsageRecordSchema = new Schema<IUsageRecord>(
+  {
+    userId: { type: String, required: true },
+    sessionId: { type: String, required: true },
+    day: { type: String, required: true },
+    month: { type: String, required: true },
+    audioInSeconds: { type: Number, default: 0, min: 0 },
+    audioOutSeconds: { type: Number, default: 0, min: 0 },
+    turns: { type: Number, default: 0, min: 0 },
+  },
+  {
+    timestamps: true,
+    collection: 'usage_ledger',
+  }
+);
+
+UsageRecordSchema.index({ userId: 1, sessionId: 1, day: 1 }, { unique: true });
+UsageRecordSchema.index({ userId: 1, month: 1 });
+UsageRecordSchema.index({ month: 1, day: 1 });
+
+export const UsageRecord = mongoose.model<IUsageRecord>('UsageRecord', UsageRecordSchema);
@@ -1,10 +1,16 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { ITwoFactor, TwoFactorSchema } from "./TwoFactor";
+import { ILinkedIdentity, LinkedIdentitySchema } from "./LinkedIdentity";
+
+// One-time codes sent by SMS: confirming a new number, or logging in with a verified one
+export type PhoneCodePurpose = "verify_phone" | "login";
 
 export interface IUser extends Document {
   email: string;
   name?: string;
   password?: string;
   passwordChangedAt?: Date;
+  tokenVersion: number; // bumped to revoke every token issued so far
   emailVerified: boolean;
   emailVerificationToken?: string;
   emailVerificationExpires?: Date;
@@ -16,14 +22,26 @@ export interface IUser extends Document {
   }>;
   otpCode?: string;
   otpExpires?: Date;
+  phone?: string; // verified E.164 number, can receive login codes
+  phoneVerifiedAt?: Date;
+  phoneCode?: {
+    purpose: PhoneCodePurpose;
+    phone: string; // number the code was sent to
+    codeHash: string;
+    expiresAt: Date;
+    attempts: number;
+  };
   lastLogin?: Date;
   loginAttempts: number;
   lockUntil?: Date;
+  twoFactor: ITwoFactor;
+  identities: ILinkedIdentity[]; // Google / Apple sign-ins
   createdAt: Date;
   updatedAt: Date;
   preferences: {
     voicePreference?: string;
     language?: string;
+    personaId?: string;
     crisisKeywords?: string[];
     emergencyContacts?: Array<{
       name: string;
@@ -36,6 +54,11 @@ export interface IUser extends Document {
       dailyCheckins: boolean;
       wellnessReminders: boolean;
     };
+    audioRecording?: {
+      enabled: boolean; // explicit opt-in to storing voice session audio
+      consentedAt?: Date;
+      revokedAt?: Date;
+    };
   };
   crisisHistory: boolean;
   supportLevel: "basic" | "intermediate" | "intensive";
@@ -57,6 +80,7 @@ const UserSchema = new Schema<IUser>(
     name: { type: String },
     password: { type: String },
     passwordChangedAt: { type: Date },
+    tokenVersion: { type: Number, default: 0 },
     emailVerified: { type: Boolean, default: false },
     emailVerificationToken: { type: String },
     emailVerificationExpires: { type: Date },
@@ -70,12 +94,29 @@ const UserSchema = new Schema<IUser>(
     ],
     otpCode: { type: String },
     otpExpires: { type: Date },
+    phone: { type: String, unique: true, sparse: true },
+    phoneVerifiedAt: { type: Date },
+    phoneCode: {
+      type: new Schema(
+        {
+          purpose: { type: String, enum: ["verify_phone", "login"], required: true },
+          phone: { type: String, required: true },
+          codeHash: { type: String, required: true },
+          expiresAt: { type: Date, required: true },
+          attempts: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
+    },
     lastLogin: { type: Date },
     loginAttempts: { type: Number, default: 0 },
     lockUntil: { type: Date },
+    twoFactor: { type: TwoFactorSchema, default: () => ({}) },
+    identities: { type: [LinkedIdentitySchema], default: [] },
     preferences: {
       voicePreference: { type: String, default: "AVA-Default" },
       language: { type: String, default: "en-US" },
+      personaId: { type: String },
       crisisKeywords: [{ type: String }],
       emergencyContacts: [
         {
@@ -90,6 +131,11 @@ const UserSchema = new Schema<IUser>(
         dailyCheckins: { type: Boolean, default: false },
         wellnessReminders: { type: Boolean, default: true },
       },
+      audioRecording: {
+        enabled: { type: Boolean, default: false },
+        consentedAt: { type: Date },
+        revokedAt: { type: Date },
+      },
     },
     crisisHistory: { type: Boolean, default: false },
     supportLevel: {
@@ -116,6 +162,12 @@ const UserSchema = new Schema<IUser>(
   }
 );
 
+// A provider account can sign in to one user only
+UserSchema.index(
+  { "identities.provider": 1, "identities.subject": 1 },
+  { unique: true, partialFilterExpression: { "identities.subject": { $exists: true } } }
+);
+
 // Virtual for checking if user is locked
 UserSchema.virtual("isLocked").get(function () {
   return !!(this.lockUntil && this.lockUntil > new Date());
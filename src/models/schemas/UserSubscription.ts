@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { BillingInterval, BILLING_INTERVALS } from './SubscriptionPlan';
+
+/**
+ * trialing  - in a free trial until trialEndsAt
+ * active    - renews at currentPeriodEnd
+ * past_due  - renewal failed; access continues through the grace period
+ * canceled  - won't renew; access continues until currentPeriodEnd
+ * expired   - ended, no access
+ */
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'canceled' | 'expired';
+
+export type SubscriptionEventType =
+  | 'granted'
+  | 'purchased'
+  | 'plan_changed'
+  | 'renewed'
+  | 'trial_ended'
+  | 'past_due'
+  | 'canceled'
+  | 'revoked'
+  | 'expired';
+
+export interface ISubscriptionEvent {
+  type: SubscriptionEventType;
+  status: SubscriptionStatus; // status after the event
+  planId?: Types.ObjectId;
+  previousPlanId?: Types.ObjectId;
+  actorId?: string; // admin id, or the user for self-service changes
+  actorEmail?: string;
+  note?: string;
+  createdAt: Date;
+}
+
+// Set when the subscription is paid through a payment provider
+export interface ISubscriptionBilling {
+  provider: string;
+  customerId?: string;
+  subscriptionId: string; // provider subscription id, matched against webhook events
+}
+
+export interface IUserSubscription extends Document {
+  userId: Types.ObjectId;
+  planId: Types.ObjectId;
+  status: SubscriptionStatus;
+  interval: BillingInterval; // length of each paid period
+  startedAt: Date;
+  trialEndsAt?: Date;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date; // next renewal, or when access ends once canceled
+  pastDueAt?: Date;
+  canceledAt?: Date;
+  cancelReason?: string;
+  endedAt?: Date;
+  billing?: ISubscriptionBilling;
+  events: ISubscriptionEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'past_due', 'canceled', 'expired'];
+
+const UserSubscriptionSchema = new Schema<IUserSubscription>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    planId: { type: Schema.Types.ObjectId, ref: 'SubscriptionPlan', required: true, index: true },
+    status: { type: String, enum: SUBSCRIPTION_STATUSES, required: true },
+    interval: { type: String, enum: BILLING_INTERVALS, default: 'month' },
+    startedAt: { type: Date, required: true },
+    trialEndsAt: { type: Date },
+    currentPeriodStart: { type: Date, required: true },
+    currentPeriodEnd: { type: Date, required: true },
+    pastDueAt: { type: Date },
+    canceledAt: { type: Date },
+    cancelReason: { type: String },
+    endedAt: { type: Date },
+    billing: {
+      provider: { type: String },
+      customerId: { type: String },
+      subscriptionId: { type: String },
+    },
+    events: [
+      {
+        type: {
+          type: String,
+          enum: ['granted', 'purchased', 'plan_changed', 'renewed', 'trial_ended', 'past_due', 'canceled', 'revoked', 'expired'],
+          required: true,
+        },
+        status: { type: String, enum: SUBSCRIPTION_STATUSES, required: true },
+        planId: { type: Schema.Types.ObjectId, ref: 'SubscriptionPlan' },
+        previousPlanId: { type: Schema.Types.ObjectId, ref: 'SubscriptionPlan' },
+        actorId: { type: String },
+        actorEmail: { type: String },
+        note: { type: String },
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    collection: 'user_subscriptions',
+  }
+);
+
+UserSubscriptionSchema.index({ userId: 1, status: 1 });
+UserSubscriptionSchema.index({ userId: 1, createdAt: -1 });
+UserSubscriptionSchema.index({ 'billing.provider': 1, 'billing.subscriptionId': 1 }, { sparse: true });
+
+export const UserSubscription = mongoose.model<IUserSubscription>('UserSubscription', UserSubscriptionSchema);
@@ -1,9 +1,21 @@
 // Export all schemas and their interfaces
-export { User, IUser } from './User';
+export { User, IUser, PhoneCodePurpose } from './User';
 export { Admin, IAdmin } from './Admin';
-export { Message, IMessage } from './Message';
-export { Session, ISession } from './Session';
+export { Message, IMessage, MessageSource } from './Message';
+export { Session, ISession, ISessionSummary } from './Session';
 export { Feature, IFeature } from './Feature';
-export { SubscriptionPlan, ISubscriptionPlan } from './SubscriptionPlan';
+export { ILocalizedText } from './Localization';
+export { IArchivedBy } from './Archival';
+export { ITwoFactor, IRecoveryCode } from './TwoFactor';
+export { ILinkedIdentity } from './LinkedIdentity';
+export { SubscriptionPlan, ISubscriptionPlan, IPlanUsageLimits, IPlanPrice, BillingInterval } from './SubscriptionPlan';
+export { Coupon, ICoupon, CouponDiscountType } from './Coupon';
+export { CrisisEscalation, ICrisisEscalation } from './CrisisEscalation';
+export { Persona, IPersona, IPersonaVersion } from './Persona';
+export { UsageRecord, IUsageRecord } from './UsageRecord';
+export { UserSubscription, IUserSubscription, SubscriptionStatus } from './UserSubscription';
+export { PaymentEventRecord, IPaymentEventRecord, PaymentEventStatus } from './PaymentEventRecord';
+export { RefreshTokenFamily, IRefreshTokenFamily, RefreshTokenRevokeReason } from './RefreshTokenFamily';
+export { SmsMessage, ISmsMessage, SmsDeliveryStatus, SmsTemplateName } from './SmsMessage';
 
 export { default as Waitlist } from './Waitlist';
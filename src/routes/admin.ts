@@ -73,6 +73,9 @@ router.post(
  *       - Account lockout after 5 failed attempts (2-hour lockout)
  *       - Email verification required
  *       - JWT-based authentication with 1-hour access token expiry
+ *       - Two-factor authentication, mandatory unless TWO_FACTOR_REQUIRED_FOR_ADMINS=false: a correct
+ *         password returns a `TwoFactorChallenge` instead of tokens. Admins without an authenticator get
+ *         `setupRequired` with an enrollment to scan. Finish with POST /api/admin/login/2fa.
  *     requestBody:
  *       required: true
  *       content:
@@ -130,6 +133,174 @@ router.post(
   (req, res) => adminController.login(req, res)
 );
 
+/**
+ * @swagger
+ * /api/admin/login/2fa:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Complete admin login with the second factor
+ *     description: |
+ *       Answers the challenge from POST /api/admin/login with an authenticator or recovery code. For a setup
+ *       challenge the code confirms the new authenticator, and the recovery codes are returned once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Admin login successful; sets the adminRefreshToken cookie
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Admin login successful"
+ *               data:
+ *                 user:
+ *                   id: "123e4567-e89b-12d3-a456-426614174000"
+ *                   email: "admin@ava-support.com"
+ *                   name: "Admin User"
+ *                   emailVerified: true
+ *                 accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 recoveryCodes: ["3f9a1-c07d2", "b81e4-52a9f"]
+ *       401:
+ *         description: Invalid code, or the challenge is invalid or expired
+ *       429:
+ *         description: Account locked due to too many failed attempts
+ */
+router.post(
+  '/login/2fa',
+  validate(adminValidationSchemas.twoFactorLogin),
+  (req, res) => adminController.verifyTwoFactorLogin(req, res)
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Two-factor status of the current admin
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorStatus'
+ */
+router.get('/2fa', adminAuthMiddleware, (req, res) => adminController.getTwoFactorStatus(req, res));
+
+/**
+ * @swagger
+ * /api/admin/2fa/setup:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Start two-factor setup
+ *     description: For admins enabling 2FA while the policy does not require it; confirm with POST /api/admin/2fa/confirm.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/setup', adminAuthMiddleware, (req, res) => adminController.setupTwoFactor(req, res));
+
+/**
+ * @swagger
+ * /api/admin/2fa/confirm:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Enable two-factor authentication
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             code: "492039"
+ *     responses:
+ *       200:
+ *         description: Enabled; returns the recovery codes once
+ *       400:
+ *         description: Invalid code or no enrollment in progress
+ */
+router.post(
+  '/2fa/confirm',
+  adminAuthMiddleware,
+  validate(adminValidationSchemas.twoFactorConfirm),
+  (req, res) => adminController.confirmTwoFactor(req, res)
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/recovery-codes:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Regenerate recovery codes
+ *     description: Needs a current code; every earlier recovery code stops working.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             code: "492039"
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code
+ *       409:
+ *         description: Two-factor authentication is not enabled
+ */
+router.post(
+  '/2fa/recovery-codes',
+  adminAuthMiddleware,
+  validate(adminValidationSchemas.twoFactorCode),
+  (req, res) => adminController.regenerateRecoveryCodes(req, res)
+);
+
+/**
+ * @swagger
+ * /api/admin/2fa/disable:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Disable two-factor authentication
+ *     description: Only possible when TWO_FACTOR_REQUIRED_FOR_ADMINS=false. Needs a current code.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             code: "492039"
+ *     responses:
+ *       200:
+ *         description: Disabled
+ *       400:
+ *         description: Invalid code
+ *       409:
+ *         description: Not enabled, or required for admins
+ */
+router.post(
+  '/2fa/disable',
+  adminAuthMiddleware,
+  validate(adminValidationSchemas.twoFactorCode),
+  (req, res) => adminController.disableTwoFactor(req, res)
+);
+
 /**
  * @swagger
  * /api/admin/verify-email:
@@ -477,7 +648,7 @@ router.post(
  *   post:
  *     tags: [Admin]
  *     summary: Suspend user account
- *     description: Suspend a user account with a reason. Suspended users cannot log in or access the platform. Requires admin authentication.
+ *     description: Suspend a user account with a reason. Suspended users cannot log in or access the platform; their issued tokens stop working immediately and live voice sessions are ended. Requires admin authentication.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -82,6 +82,8 @@ router.post('/signup', validate(authValidationSchemas.signup), authController.si
  *       - Account lockout after 5 failed attempts (2-hour lockout)
  *       - Email verification required
  *       - Password strength validation
+ *       - With two-factor authentication on, the response carries a `TwoFactorChallenge` instead of
+ *         tokens; finish with POST /api/auth/login/2fa
  *     requestBody:
  *       required: true
  *       content:
@@ -148,13 +150,464 @@ router.post('/signup', validate(authValidationSchemas.signup), authController.si
  */
 router.post('/login', validate(authValidationSchemas.login), authController.login);
 
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Complete login with the second factor
+ *     description: |
+ *       Answers the challenge returned by POST /api/auth/login with a code from the authenticator app or
+ *       an unused recovery code. For a setup challenge (`setupRequired`), the code confirms the new
+ *       authenticator and the response includes the recovery codes, shown only this once.
+ *       Wrong codes count towards the account lockout.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful; sets the refresh token cookie
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Login successful"
+ *               data:
+ *                 user:
+ *                   id: "123e4567-e89b-12d3-a456-426614174000"
+ *                   email: "user@example.com"
+ *                   emailVerified: true
+ *                 accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *       401:
+ *         description: Invalid code, or the challenge is invalid or expired
+ */
+router.post('/login/2fa', validate(authValidationSchemas.twoFactorLogin), authController.verifyTwoFactorLogin);
+
+/**
+ * @swagger
+ * /api/auth/login/phone:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Request a login code by SMS
+ *     description: |
+ *       Texts a 6-digit login code to a phone number verified on an account (see POST /api/auth/send-otp).
+ *       The response is the same whether or not the number belongs to an account.
+ *       Codes expire after 5 minutes; a number gets at most 5 codes an hour, 30 seconds apart.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PhoneLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent if the number belongs to an account
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "If this phone number belongs to an account, a login code has been sent."
+ *       429:
+ *         description: Too many codes sent to this number
+ */
+router.post('/login/phone', validate(authValidationSchemas.phoneLogin), authController.requestPhoneLoginCode);
+
+/**
+ * @swagger
+ * /api/auth/login/phone/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Log in with an SMS code
+ *     description: |
+ *       Exchanges the texted code for tokens, like POST /api/auth/login does for a password.
+ *       Wrong codes count towards the account lockout, and a code is discarded after 5 wrong guesses.
+ *       With two-factor authentication on, the response carries a `TwoFactorChallenge` instead of
+ *       tokens; finish with POST /api/auth/login/2fa
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PhoneLoginVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful (sets the refresh token cookie), or a two-factor challenge
+ *       401:
+ *         description: Invalid or expired code, or the account can't log in
+ */
+router.post('/login/phone/verify', validate(authValidationSchemas.phoneLoginVerify), authController.loginWithPhoneCode);
+
+/**
+ * @swagger
+ * /api/auth/oidc/providers:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Enabled social sign-in providers
+ *     description: Providers the app can offer buttons for (those with client ids configured).
+ *     responses:
+ *       200:
+ *         description: Provider names
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Sign-in providers retrieved successfully"
+ *               data:
+ *                 providers: ["google", "apple"]
+ */
+router.get('/oidc/providers', authController.getOidcProviders);
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Sign in with Google or Apple
+ *     description: |
+ *       Exchanges the ID token from the provider's SDK for our tokens. The token's signature is checked
+ *       against the provider's JWKS, and it must be issued to one of our client ids.
+ *
+ *       - A provider account already connected to a user signs in to that user
+ *       - Otherwise it is connected to the user with the same email, if the provider verified the email.
+ *         An existing account whose email was never verified loses its password, since the provider
+ *         just proved who owns the address
+ *       - Otherwise a new passwordless account is created
+ *
+ *       With two-factor authentication on, the response carries a `TwoFactorChallenge` instead of
+ *       tokens; finish with POST /api/auth/login/2fa
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OidcLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful (sets the refresh token cookie), or a two-factor challenge
+ *       400:
+ *         description: The provider is not enabled on this server
+ *       401:
+ *         description: Invalid ID token, no verified email, or the account can't log in
+ */
+router.post('/oidc/:provider', validate(authValidationSchemas.oidcLogin), authController.loginWithIdentity);
+
+/**
+ * @swagger
+ * /api/auth/identities:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Connected sign-in identities
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Google / Apple accounts connected to the current user
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Connected identities retrieved successfully"
+ *               data:
+ *                 identities:
+ *                   - provider: "apple"
+ *                     email: "abc123@privaterelay.appleid.com"
+ *                     linkedAt: "2026-10-01T09:30:00.000Z"
+ *                     lastUsedAt: "2026-10-18T19:02:11.000Z"
+ *                 hasPassword: false
+ */
+router.get('/identities', authMiddleware, authController.listIdentities);
+
+/**
+ * @swagger
+ * /api/auth/identities/{provider}:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Connect a Google or Apple account
+ *     description: Connects the provider account the ID token belongs to. One account per provider.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ConnectIdentityRequest'
+ *     responses:
+ *       200:
+ *         description: Connected; returns the connected identities
+ *       400:
+ *         description: Invalid ID token, or the provider is not enabled
+ *       409:
+ *         description: The provider account belongs to another user, or one is already connected
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Disconnect a Google or Apple account
+ *     description: Not allowed when it is the only way to sign in; set a password first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
+ *     responses:
+ *       200:
+ *         description: Disconnected; returns the remaining identities
+ *       404:
+ *         description: No account of this provider is connected
+ *       409:
+ *         description: It is the only way to sign in
+ */
+router.post(
+  '/identities/:provider',
+  authMiddleware,
+  validate(authValidationSchemas.connectIdentity),
+  authController.connectIdentity
+);
+router.delete('/identities/:provider', authMiddleware, authController.disconnectIdentity);
+
+/**
+ * @swagger
+ * /api/auth/send-otp:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Start phone number verification
+ *     description: |
+ *       Texts a 6-digit code to the given number (or the account's current number) to confirm
+ *       with POST /api/auth/verify-otp. A verified number can be used to log in with SMS codes.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OTPRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "OTP sent successfully"
+ *               data:
+ *                 otpId: "66f1c2a9e4b0a1b2c3d4e5f6"
+ *                 expiresAt: "2026-10-19T12:05:00.000Z"
+ *       409:
+ *         description: The number is verified on another account
+ *       429:
+ *         description: Too many codes sent to this number
+ */
+router.post('/send-otp', authMiddleware, validate(authValidationSchemas.sendOTP), authController.sendOTP);
+
+/**
+ * @swagger
+ * /api/auth/verify-otp:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Confirm phone number verification
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OTPVerificationRequest'
+ *     responses:
+ *       200:
+ *         description: The number is now the account's verified phone
+ *       400:
+ *         description: Invalid or expired code
+ *       409:
+ *         description: The number was verified on another account in the meantime
+ */
+router.post('/verify-otp', authMiddleware, validate(authValidationSchemas.verifyOTP), authController.verifyOTP);
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Two-factor status
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status of the current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorStatus'
+ */
+router.get('/2fa', authMiddleware, authController.getTwoFactorStatus);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Start two-factor setup
+ *     description: |
+ *       Returns a new TOTP secret and its otpauth URI to show as a QR code. Nothing changes until the
+ *       first code from the app is confirmed with POST /api/auth/2fa/confirm (within 10 minutes).
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/setup', authMiddleware, authController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Enable two-factor authentication
+ *     description: Confirms the enrollment with a code from the app and returns the recovery codes (shown once).
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             code: "492039"
+ *     responses:
+ *       200:
+ *         description: Enabled
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Two-factor authentication enabled"
+ *               data:
+ *                 recoveryCodes: ["3f9a1-c07d2", "b81e4-52a9f"]
+ *       400:
+ *         description: Invalid code or no enrollment in progress
+ */
+router.post('/2fa/confirm', authMiddleware, validate(authValidationSchemas.twoFactorConfirm), authController.confirmTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Disable two-factor authentication
+ *     description: Needs a current authenticator or recovery code. Refused while the policy requires 2FA for users.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             code: "492039"
+ *     responses:
+ *       200:
+ *         description: Disabled
+ *       400:
+ *         description: Invalid code
+ *       409:
+ *         description: Not enabled, or required by policy
+ */
+router.post('/2fa/disable', authMiddleware, validate(authValidationSchemas.twoFactorCode), authController.disableTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Regenerate recovery codes
+ *     description: Needs a current code; every earlier recovery code stops working.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             code: "492039"
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code
+ *       409:
+ *         description: Two-factor authentication is not enabled
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authMiddleware,
+  validate(authValidationSchemas.twoFactorCode),
+  authController.regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /api/auth/refresh-token:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Refresh the access token
+ *     description: |
+ *       Exchanges the refresh token cookie for a new access token and a new refresh token. Each refresh
+ *       token works once: presenting one that was already exchanged is treated as theft, and that
+ *       login (token family) is revoked on every device holding it.
+ *     responses:
+ *       200:
+ *         description: Token refreshed; the refresh token cookie is replaced
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Token refreshed successfully"
+ *               data:
+ *                 accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *       401:
+ *         description: Missing, expired, revoked or reused refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               message: "Invalid refresh token"
+ */
+router.post('/refresh-token', authController.refreshToken);
+
 /**
  * @swagger
  * /api/auth/logout:
  *   post:
  *     tags: [Authentication]
  *     summary: User logout
- *     description: Clear the refresh token cookie to log out the user.
+ *     description: Revoke the refresh token in the cookie (this device's login) and clear the cookie.
  *     responses:
  *       200:
  *         description: Logout successful
@@ -183,6 +636,91 @@ router.post('/login', validate(authValidationSchemas.login), authController.logi
  */
 router.post('/logout', authController.logout);
 
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Log out of all devices
+ *     description: Revokes every refresh and access token of the user, including this device's, and ends live voice sessions.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All logins revoked
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Logged out of all devices"
+ *               data:
+ *                 revokedSessions: 3
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/logout-all', authMiddleware, authController.logoutAll);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: List active logins
+ *     description: Devices that can still refresh their tokens, most recently used first.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Sessions retrieved successfully"
+ *               data:
+ *                 - id: "0b7f1c64-4c1e-4a43-9a53-2f0c6a3c8e11"
+ *                   userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)"
+ *                   ip: "203.0.113.7"
+ *                   createdAt: "2026-10-12T08:00:00.000Z"
+ *                   lastUsedAt: "2026-10-19T07:45:00.000Z"
+ *                   expiresAt: "2026-10-26T07:45:00.000Z"
+ *                   current: true
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', authMiddleware, authController.getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Revoke a login
+ *     description: Logs one device out; its refresh token stops working immediately.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No active session with this ID
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authMiddleware,
+  validate(authValidationSchemas.sessionParams, 'params'),
+  authController.revokeSession
+);
+
 /**
  * @swagger
  * /api/auth/me:
@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { billingController } from '../controllers/billingController';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { validate } from '../middleware/validate';
+import { billingValidationSchemas } from '../validations/billingValidation';
+
+const router = Router();
+
+// Billing is optional; every route answers 503 when no payment provider is configured
+router.use(billingController.requireProvider);
+
+/**
+ * @swagger
+ * /api/billing/checkout:
+ *   post:
+ *     tags: [Billing]
+ *     summary: Start a checkout for a plan
+ *     description: |
+ *       Returns the payment provider's hosted checkout page for one of the plan's prices (defaults to the
+ *       monthly price in PAYMENT_CURRENCY). A coupon code is taken off the first charge, and the plan's
+ *       trial applies to users who never had a subscription. The subscription starts once the provider
+ *       reports the payment through the webhook; poll GET /api/users/me/subscription afterwards.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - planId
+ *             properties:
+ *               planId:
+ *                 type: string
+ *               priceId:
+ *                 type: string
+ *                 description: One of the plan's active prices
+ *               couponCode:
+ *                 type: string
+ *                 example: "SPRING25"
+ *     responses:
+ *       201:
+ *         description: Checkout created
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Checkout created successfully"
+ *               data:
+ *                 checkoutId: "cs_fake_6f1c0a52-9f3e-4d0b-a2a5-1f7d5e0c1b2a"
+ *                 url: "http://localhost:3000/billing/fake/checkout?session=cs_fake_6f1c0a52-9f3e-4d0b-a2a5-1f7d5e0c1b2a"
+ *                 interval: "year"
+ *                 currency: "eur"
+ *                 amount: 9900
+ *                 discountAmount: 2475
+ *                 trialDays: 14
+ *       400:
+ *         description: Plan is inactive or free, or the coupon does not apply
+ *       404:
+ *         description: Plan or price not found
+ *       409:
+ *         description: Already subscribed to this plan
+ *       503:
+ *         description: Billing is not configured on this server
+ */
+router.post(
+  '/checkout',
+  authMiddleware,
+  validate(billingValidationSchemas.createCheckout),
+  billingController.createCheckout
+);
+
+/**
+ * @swagger
+ * /api/billing/portal:
+ *   post:
+ *     tags: [Billing]
+ *     summary: Get a customer portal link
+ *     description: Hosted page to update payment methods and see invoices. Available once the user has paid.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Portal link created
+ *       404:
+ *         description: The user has no billing customer yet
+ *       503:
+ *         description: Billing is not configured on this server
+ */
+router.post('/portal', authMiddleware, billingController.createPortal);
+
+/**
+ * @swagger
+ * /api/billing/webhook:
+ *   post:
+ *     tags: [Billing]
+ *     summary: Payment provider webhook
+ *     description: |
+ *       Called by the payment provider, not by clients. The raw body must carry a valid signature
+ *       (the fake provider uses the `x-fake-signature` header). Each event id is applied once;
+ *       redeliveries are acknowledged with status "duplicate".
+ *     responses:
+ *       200:
+ *         description: Event processed, ignored or a duplicate
+ *       400:
+ *         description: Invalid signature or payload
+ *       500:
+ *         description: Processing failed; the provider should retry
+ *       503:
+ *         description: Billing is not configured on this server
+ */
+// Parsed as raw bytes (see index.ts) so the signature can be checked
+router.post('/webhook', billingController.handleWebhook);
+
+/**
+ * @swagger
+ * /api/billing/fake/events:
+ *   post:
+ *     tags: [Billing]
+ *     summary: Simulate a payment event (fake provider only)
+ *     description: |
+ *       Local development with PAYMENT_PROVIDER=fake. Produces a signed provider event for the current
+ *       user and runs it through the webhook handler: complete a checkout, pay or fail a renewal
+ *       (the subscription becomes past_due), or end the paid subscription. Not available in production.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [checkout.completed, invoice.paid, invoice.payment_failed, subscription.ended]
+ *               checkoutId:
+ *                 type: string
+ *                 description: Required for checkout.completed
+ *     responses:
+ *       200:
+ *         description: Event processed
+ *       400:
+ *         description: The fake provider is not enabled
+ *       404:
+ *         description: Checkout or paid subscription not found
+ *       503:
+ *         description: Billing is not configured on this server
+ */
+router.post(
+  '/fake/events',
+  authMiddleware,
+  validate(billingValidationSchemas.fakeEvent),
+  billingController.simulateFakeEvent
+);
+
+export default router;
@@ -0,0 +1,211 @@
+import { Router } from 'express';
+import { crisisController } from '../controllers/crisisController';
+import { adminAuthMiddleware } from '../middleware/adminAuthMiddleware';
+import { validate, validateMultiple } from '../middleware/validate';
+import { crisisValidationSchemas } from '../validations/crisisValidation';
+
+const router = Router();
+
+// All crisis case management routes require admin authentication
+router.use(adminAuthMiddleware);
+
+/**
+ * @swagger
+ * /api/admin/crises:
+ *   get:
+ *     tags: [Admin - Crisis Escalations]
+ *     summary: List crisis escalations
+ *     description: Retrieve escalated crisis cases, newest first. Filter by status or severity.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, acknowledged, assigned, resolved]
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high, critical]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Escalations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       401:
+ *         description: Unauthorized - admin auth required
+ */
+router.get(
+  '/',
+  validate(crisisValidationSchemas.listEscalations, 'query'),
+  crisisController.getEscalations
+);
+
+/**
+ * @swagger
+ * /api/admin/crises/{escalationId}:
+ *   get:
+ *     tags: [Admin - Crisis Escalations]
+ *     summary: Get a crisis escalation
+ *     description: Retrieve a single escalation including every recorded step (detections, notifications, admin actions).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escalationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Escalation retrieved successfully
+ *       404:
+ *         description: Escalation not found
+ */
+router.get(
+  '/:escalationId',
+  validate(crisisValidationSchemas.escalationIdParams, 'params'),
+  crisisController.getEscalationById
+);
+
+/**
+ * @swagger
+ * /api/admin/crises/{escalationId}/acknowledge:
+ *   post:
+ *     tags: [Admin - Crisis Escalations]
+ *     summary: Acknowledge a crisis escalation
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escalationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Escalation acknowledged
+ *       404:
+ *         description: Escalation not found
+ *       409:
+ *         description: Escalation is already resolved
+ */
+router.post(
+  '/:escalationId/acknowledge',
+  validateMultiple({
+    params: crisisValidationSchemas.escalationIdParams,
+    body: crisisValidationSchemas.acknowledge,
+  }),
+  crisisController.acknowledge
+);
+
+/**
+ * @swagger
+ * /api/admin/crises/{escalationId}/assign:
+ *   post:
+ *     tags: [Admin - Crisis Escalations]
+ *     summary: Assign a crisis escalation to an admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escalationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - adminId
+ *             properties:
+ *               adminId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Escalation assigned
+ *       404:
+ *         description: Escalation or assignee not found
+ *       409:
+ *         description: Escalation is already resolved
+ */
+router.post(
+  '/:escalationId/assign',
+  validateMultiple({
+    params: crisisValidationSchemas.escalationIdParams,
+    body: crisisValidationSchemas.assign,
+  }),
+  crisisController.assign
+);
+
+/**
+ * @swagger
+ * /api/admin/crises/{escalationId}/resolve:
+ *   post:
+ *     tags: [Admin - Crisis Escalations]
+ *     summary: Resolve a crisis escalation
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: escalationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - resolutionNotes
+ *             properties:
+ *               resolutionNotes:
+ *                 type: string
+ *                 example: "Spoke with user by phone; connected with local counselor."
+ *     responses:
+ *       200:
+ *         description: Escalation resolved
+ *       404:
+ *         description: Escalation not found
+ *       409:
+ *         description: Escalation is already resolved
+ */
+router.post(
+  '/:escalationId/resolve',
+  validateMultiple({
+    params: crisisValidationSchemas.escalationIdParams,
+    body: crisisValidationSchemas.resolve,
+  }),
+  crisisController.resolve
+);
+
+export default router;
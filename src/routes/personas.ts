@@ -0,0 +1,324 @@
+import { Router } from 'express';
+import { personaController } from '../controllers/personaController';
+import { adminAuthMiddleware } from '../middleware/adminAuthMiddleware';
+import { validate, validateMultiple } from '../middleware/validate';
+import { personaValidationSchemas } from '../validations/personaValidation';
+
+const router = Router();
+
+// All persona management routes require admin authentication
+router.use(adminAuthMiddleware);
+
+/**
+ * @swagger
+ * /api/admin/personas:
+ *   post:
+ *     tags: [Admin - Personas]
+ *     summary: Create a persona
+ *     description: Create a persona with its first prompt version. Set publish to make version 1 live immediately, or isDefault to publish it and use it for every user without a persona choice.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - instructions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "AVA Calm"
+ *               description:
+ *                 type: string
+ *               instructions:
+ *                 type: string
+ *                 example: "You are AVA, a warm and patient companion focused on emotional support..."
+ *               voice:
+ *                 type: object
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                     example: "en-US-Ava:DragonHDLatestNeural"
+ *                   type:
+ *                     type: string
+ *                     example: "azure-standard"
+ *                   temperature:
+ *                     type: number
+ *                     example: 0.7
+ *                   rate:
+ *                     type: string
+ *                     example: "1.1"
+ *               turnDetection:
+ *                 type: object
+ *                 properties:
+ *                   threshold:
+ *                     type: number
+ *                   prefixPaddingMs:
+ *                     type: integer
+ *                   silenceDurationMs:
+ *                     type: integer
+ *                   removeFillerWords:
+ *                     type: boolean
+ *                   endOfUtteranceThreshold:
+ *                     type: number
+ *                   endOfUtteranceTimeout:
+ *                     type: number
+ *               notes:
+ *                 type: string
+ *               publish:
+ *                 type: boolean
+ *               isDefault:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Persona created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Persona name already exists
+ *   get:
+ *     tags: [Admin - Personas]
+ *     summary: List personas
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Personas retrieved successfully
+ */
+router.post(
+  '/',
+  validate(personaValidationSchemas.createPersona),
+  personaController.createPersona
+);
+
+router.get(
+  '/',
+  validate(personaValidationSchemas.listPersonas, 'query'),
+  personaController.getAllPersonas
+);
+
+/**
+ * @swagger
+ * /api/admin/personas/{personaId}:
+ *   get:
+ *     tags: [Admin - Personas]
+ *     summary: Get a persona
+ *     description: Returns the persona with every version and its publish history.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: personaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Persona retrieved successfully
+ *       404:
+ *         description: Persona not found
+ *   patch:
+ *     tags: [Admin - Personas]
+ *     summary: Update persona metadata
+ *     description: Update name, description or the active/default flags. Prompt and voice changes create a new version instead.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: personaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *               isDefault:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Persona updated successfully
+ *       404:
+ *         description: Persona not found
+ *       409:
+ *         description: Persona name already exists
+ *   delete:
+ *     tags: [Admin - Personas]
+ *     summary: Deactivate a persona
+ *     description: Deactivates the persona. Versions are kept so sessions stamped with them remain traceable. The default persona cannot be deactivated.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: personaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Persona deactivated successfully
+ *       404:
+ *         description: Persona not found
+ */
+router.get(
+  '/:personaId',
+  validate(personaValidationSchemas.personaIdParams, 'params'),
+  personaController.getPersonaById
+);
+
+router.patch(
+  '/:personaId',
+  validateMultiple({
+    params: personaValidationSchemas.personaIdParams,
+    body: personaValidationSchemas.updatePersona,
+  }),
+  personaController.updatePersona
+);
+
+router.delete(
+  '/:personaId',
+  validate(personaValidationSchemas.personaIdParams, 'params'),
+  personaController.deactivatePersona
+);
+
+/**
+ * @swagger
+ * /api/admin/personas/{personaId}/versions:
+ *   post:
+ *     tags: [Admin - Personas]
+ *     summary: Create a persona version
+ *     description: Adds a new unpublished version. Fields not supplied are copied from the latest version.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: personaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               instructions:
+ *                 type: string
+ *               voice:
+ *                 type: object
+ *               turnDetection:
+ *                 type: object
+ *               notes:
+ *                 type: string
+ *                 example: "Softer opening, fewer questions per turn"
+ *     responses:
+ *       201:
+ *         description: Persona version created successfully
+ *       404:
+ *         description: Persona not found
+ */
+router.post(
+  '/:personaId/versions',
+  validateMultiple({
+    params: personaValidationSchemas.personaIdParams,
+    body: personaValidationSchemas.createVersion,
+  }),
+  personaController.createVersion
+);
+
+/**
+ * @swagger
+ * /api/admin/personas/{personaId}/versions/{version}/publish:
+ *   post:
+ *     tags: [Admin - Personas]
+ *     summary: Publish a persona version
+ *     description: New voice sessions using this persona will use the published version. Active sessions keep the version they started with.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: personaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Persona version published
+ *       404:
+ *         description: Persona or version not found
+ *       409:
+ *         description: Version is already published
+ */
+router.post(
+  '/:personaId/versions/:version/publish',
+  validate(personaValidationSchemas.versionParams, 'params'),
+  personaController.publishVersion
+);
+
+/**
+ * @swagger
+ * /api/admin/personas/{personaId}/rollback:
+ *   post:
+ *     tags: [Admin - Personas]
+ *     summary: Roll back a persona
+ *     description: Re-publishes an earlier version. Without a version, rolls back to the version that was live before the current one.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: personaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               version:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Persona rolled back
+ *       400:
+ *         description: Nothing to roll back to
+ *       404:
+ *         description: Persona or version not found
+ *       409:
+ *         description: Version is already published
+ */
+router.post(
+  '/:personaId/rollback',
+  validateMultiple({
+    params: personaValidationSchemas.personaIdParams,
+    body: personaValidationSchemas.rollback,
+  }),
+  personaController.rollback
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { planCatalogController } from '../controllers/planCatalogController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/plans:
+ *   get:
+ *     tags: [Plans]
+ *     summary: List plans for the pricing page
+ *     description: |
+ *       Public, no authentication. Active plans with their active features and active prices, ordered by
+ *       the admin-defined sort order, then price. Names and descriptions are translated for the `locale`
+ *       query parameter or the Accept-Language header (falling back to the base language, then
+ *       PLAN_CATALOG_DEFAULT_LOCALE). Responses carry an ETag; send it back in If-None-Match to get a 304.
+ *     parameters:
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           example: "pt-BR"
+ *         description: Overrides Accept-Language
+ *     responses:
+ *       200:
+ *         description: Plan catalog
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *           Cache-Control:
+ *             schema:
+ *               type: string
+ *               example: "public, max-age=300"
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Plans retrieved successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     locale:
+ *                       type: string
+ *                       example: "de"
+ *                       description: Locale the text was resolved for
+ *                     plans:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PublicPlan'
+ *       304:
+ *         description: Not modified (If-None-Match matched the current ETag)
+ */
+router.get('/', planCatalogController.getCatalog);
+
+export default router;
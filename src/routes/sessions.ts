@@ -1,8 +1,12 @@
 import { Router } from 'express';
 import { sessionsController } from '../controllers/sessionsController';
 import { authMiddleware } from '../middleware/authMiddleware';
+import { requireFeature } from '../middleware/featureMiddleware';
+import { featureGates } from '../config/featureGates';
 import { validate, validateMultiple } from '../middleware/validate';
 import { sessionsValidationSchemas } from '../validations/sessionsValidation';
+import { audioRecordingController } from '../controllers/audioRecordingController';
+import { audioRecordingValidationSchemas } from '../validations/audioRecordingValidation';
 
 const router = Router();
 
@@ -54,13 +58,45 @@ router.get(
 	sessionsController.getUserSessions
 );
 
+/**
+ * @swagger
+ * /api/sessions/stats:
+ *   get:
+ *     tags: [Sessions]
+ *     summary: Get session statistics
+ *     description: Retrieve statistics about user's voice chat sessions and messages
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *             example:
+ *               success: true
+ *               message: "Session statistics retrieved successfully"
+ *               data:
+ *                 sessions:
+ *                   totalSessions: 25
+ *                   activeSessions: 1
+ *                   totalDuration: 3600000
+ *                   avgDuration: 144000
+ *                 messages:
+ *                   user: 150
+ *                   assistant: 145
+ */
+// Must be registered before '/:sessionId' so it isn't captured as a session id
+router.get('/stats', authMiddleware, sessionsController.getSessionStats);
+
 /**
  * @swagger
  * /api/sessions/{sessionId}:
  *   get:
  *     tags: [Sessions]
  *     summary: Get a session and its messages
- *     description: Retrieve a session along with all messages for that session
+ *     description: Retrieve a session along with all messages for that session. Ended sessions include an end-of-session summary (duration, message counts, average emotion, crisis flags); active sessions return a null summary.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -81,8 +117,18 @@ router.get(
  *               success: true
  *               message: "Session retrieved successfully"
  *               data:
- *                 session: { sessionId: "abc123" }
+ *                 session: { sessionId: "voice_1704103200000_k3j9x2m1a", status: "ended" }
  *                 messages: [...]
+ *                 summary:
+ *                   duration: 540
+ *                   messageCount: 18
+ *                   userMessageCount: 9
+ *                   assistantMessageCount: 9
+ *                   averageEmotion: "anxious"
+ *                   topEmotions: ["anxious", "stressed", "hopeful"]
+ *                   crisisDetected: false
+ *                   crisisLevels: ["low"]
+ *                   generatedAt: "2024-01-01T10:09:00.000Z"
  */
 router.get(
 	'/:sessionId',
@@ -130,7 +176,10 @@ router.get(
  *               success: true
  *               message: "Messages retrieved successfully"
  *               data:
- *                 session: {...}
+ *                 session:
+ *                   id: "661fb1d2b4e5c2e9d3c1f2a0"
+ *                   sessionId: "voice_1704103200000_k3j9x2m1a"
+ *                   status: "ended"
  *                 messages: [...]
  *                 pagination:
  *                   limit: 20
@@ -149,33 +198,161 @@ router.get(
 
 /**
  * @swagger
- * /api/sessions/stats:
- *   get:
+ * /api/sessions/{sessionId}/messages:
+ *   post:
  *     tags: [Sessions]
- *     summary: Get session statistics
- *     description: Retrieve statistics about user's voice chat sessions and messages
+ *     summary: Send a text chat message
+ *     description: |
+ *       Text alternative to voice. Runs the same persona, memory, emotion and crisis pipeline and stores both turns with source "text".
+ *       An unknown sessionId starts a new session; an existing voice session can be continued in text (and vice versa).
+ *       Send `Accept: text/event-stream` to stream the reply as server-sent events:
+ *       `user-message` (messageId, emotion, crisis), `delta` (reply text as it is generated), `done` (the full result) or `error`.
+ *       Text sessions end after a period of inactivity or via POST /api/sessions/{sessionId}/end.
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID (new or existing)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 4000
+ *                 example: "I can't talk right now, but today was rough."
  *     responses:
  *       200:
- *         description: Statistics retrieved successfully
+ *         description: Reply generated (JSON), or an SSE stream when requested
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/SuccessResponse'
  *             example:
  *               success: true
- *               message: "Session statistics retrieved successfully"
+ *               message: "Message sent successfully"
  *               data:
- *                 sessions:
- *                   totalSessions: 25
- *                   activeSessions: 1
- *                   totalDuration: 3600000
- *                   avgDuration: 144000
- *                 messages:
- *                   user: 150
- *                   assistant: 145
+ *                 sessionId: "chat_1704103200000_a8k2m4x9q"
+ *                 messageId: "661fb1d2b4e5c2e9d3c1f2a4"
+ *                 emotion:
+ *                   primary: "sad"
+ *                   confidence: 0.62
+ *                 reply: "I'm sorry today was so hard. Do you want to tell me what happened?"
+ *                 assistantMessageId: "661fb1d2b4e5c2e9d3c1f2a5"
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               event: user-message
+ *               data: {"messageId":"661fb1d2b4e5c2e9d3c1f2a4","emotion":{"primary":"sad","confidence":0.62}}
+ *
+ *               event: delta
+ *               data: {"delta":"I'm sorry "}
+ *
+ *               event: done
+ *               data: {"sessionId":"chat_1704103200000_a8k2m4x9q","reply":"I'm sorry today was so hard."}
+ *       400:
+ *         description: Validation error
+ *       402:
+ *         description: A subscription is required (when TEXT_CHAT_FEATURE is set)
+ *       403:
+ *         description: The current plan does not include the text chat feature
+ *       404:
+ *         description: Session belongs to another user
  */
-router.get('/stats', authMiddleware, sessionsController.getSessionStats);
+router.post(
+	'/:sessionId/messages',
+	authMiddleware,
+	requireFeature(featureGates.textChat),
+	validateMultiple({
+		params: sessionsValidationSchemas.sessionIdParams,
+		body: sessionsValidationSchemas.sendMessage
+	}),
+	sessionsController.sendMessage
+);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/messages/{messageId}/audio:
+ *   get:
+ *     tags: [Sessions]
+ *     summary: Stream a recorded message
+ *     description: Streams the WAV recording of a voice turn (only stored for users who opted in to recording). Supports Range requests for seeking.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *           example: "bytes=0-65535"
+ *     responses:
+ *       200:
+ *         description: Full recording
+ *         content:
+ *           audio/wav:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       206:
+ *         description: Requested byte range
+ *       404:
+ *         description: Recording not found
+ *       416:
+ *         description: Range not satisfiable
+ */
+router.get(
+	'/:sessionId/messages/:messageId/audio',
+	authMiddleware,
+	validate(audioRecordingValidationSchemas.messageAudioParams, 'params'),
+	audioRecordingController.streamMessageAudio
+);
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/end:
+ *   post:
+ *     tags: [Sessions]
+ *     summary: End a text chat session
+ *     description: Releases the text chat connection and finalizes the session summary.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session ended successfully
+ *       404:
+ *         description: Session not found
+ */
+router.post(
+	'/:sessionId/end',
+	authMiddleware,
+	validate(sessionsValidationSchemas.sessionIdParams, 'params'),
+	sessionsController.endSession
+);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { smsController } from '../controllers/smsController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/sms/status:
+ *   post:
+ *     tags: [SMS]
+ *     summary: SMS delivery status callback
+ *     description: |
+ *       Called by the SMS provider, not by clients, when a carrier reports what happened to a message
+ *       (sent, delivered, undelivered, failed). The capture provider expects the
+ *       `x-sms-callback-token` header. Receipts for a message that already reached a final status are
+ *       acknowledged without changing it.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             providerMessageId: "sms_capture_0c9a4f5e-3c1d-4c47-9b1e-2f0d6c7a8b9e"
+ *             status: "delivered"
+ *     responses:
+ *       200:
+ *         description: Status applied
+ *       400:
+ *         description: Invalid callback token or payload
+ *       404:
+ *         description: Unknown message
+ *       500:
+ *         description: Processing failed; the provider should retry
+ */
+router.post('/status', smsController.handleStatusCallback);
+
+export default router;
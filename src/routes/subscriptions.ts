@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { subscriptionController } from '../controllers/subscriptionController';
+import { userSubscriptionController } from '../controllers/userSubscriptionController';
+import { couponController } from '../controllers/couponController';
 import { adminAuthMiddleware } from '../middleware/adminAuthMiddleware';
-import { validate } from '../middleware/validate';
+import { validate, validateMultiple } from '../middleware/validate';
 import { subscriptionValidationSchemas } from '../validations/subscriptionValidation';
 
 const router = Router();
@@ -31,13 +33,20 @@ router.use(adminAuthMiddleware);
  *                 type: string
  *                 minLength: 2
  *                 maxLength: 100
- *                 description: Feature name (must be unique)
+ *                 description: Feature name (must be unique); used for entitlement checks
  *                 example: "Unlimited voice sessions"
+ *               displayName:
+ *                 type: string
+ *                 maxLength: 100
+ *                 description: Name shown on the public pricing page (defaults to name)
+ *                 example: "Unlimited sessions"
  *               description:
  *                 type: string
  *                 maxLength: 500
  *                 description: Optional feature description
  *                 example: "Access to unlimited AI voice therapy sessions"
+ *               localizations:
+ *                 $ref: '#/components/schemas/Localizations'
  *     responses:
  *       201:
  *         description: Feature created successfully
@@ -221,10 +230,20 @@ router.get('/features/:id', subscriptionController.getFeatureById);
  *                 minLength: 2
  *                 maxLength: 100
  *                 example: "Priority Support"
+ *               displayName:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 100
+ *                 description: Pricing page name (null falls back to name)
  *               description:
  *                 type: string
  *                 maxLength: 500
  *                 example: "24/7 priority customer support"
+ *               localizations:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/Localizations'
+ *                 nullable: true
+ *                 description: Replaces all translations (null removes them)
  *               isActive:
  *                 type: boolean
  *                 example: true
@@ -277,8 +296,11 @@ router.patch(
  * /api/admin/features/{featureId}:
  *   delete:
  *     tags: [Admin - Subscription Management]
- *     summary: Delete feature
- *     description: Delete a feature. Cannot delete if feature is currently used in any subscription plan.
+ *     summary: Archive feature
+ *     description: |
+ *       Archives the feature instead of deleting it: it becomes inactive, stays on the plans that list it
+ *       and records who archived it. Refused while any subscriber's plan includes it. With dryRun=true
+ *       nothing changes and the response lists the affected plans and subscribers.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -287,11 +309,15 @@ router.patch(
  *         required: true
  *         schema:
  *           type: string
- *           format: uuid
  *         description: Feature ID
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Report the impact without archiving
  *     responses:
  *       200:
- *         description: Feature deleted successfully
+ *         description: Feature archived, or the dry run report
  *         content:
  *           application/json:
  *             schema:
@@ -302,28 +328,60 @@ router.patch(
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Feature deleted successfully"
+ *                   example: "Feature archived successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     dryRun:
+ *                       type: boolean
+ *                     archivedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     archivedBy:
+ *                       $ref: '#/components/schemas/ArchivedBy'
+ *                     impact:
+ *                       $ref: '#/components/schemas/ArchiveImpact'
  *       401:
  *         description: Unauthorized - admin auth required
  *       404:
  *         description: Feature not found
  *       409:
- *         description: Conflict - feature is used in subscription plans
+ *         description: Feature is already archived or active subscribers' plans include it
  *         content:
  *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: "Cannot delete feature. It is currently used in 2 subscription plan(s). Please remove it from all plans first."
- *       500:
- *         description: Internal server error
+ *             example:
+ *               success: false
+ *               message: "Cannot archive feature. 12 active subscriber(s) have it through 2 plan(s). Move them to another plan or remove the feature from those plans first."
+ */
+router.delete('/features/:id', subscriptionController.archiveFeature);
+
+/**
+ * @swagger
+ * /api/admin/features/{featureId}/unarchive:
+ *   post:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Unarchive feature
+ *     description: Restores an archived feature. It comes back inactive; activate it with PATCH.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: featureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Feature ID
+ *     responses:
+ *       200:
+ *         description: Feature unarchived
+ *       404:
+ *         description: Feature not found
+ *       409:
+ *         description: Feature is not archived
  */
-router.delete('/features/:id', subscriptionController.deleteFeature);
+router.post('/features/:id/unarchive', subscriptionController.unarchiveFeature);
 
 /**
  * @swagger
@@ -350,6 +408,18 @@ router.delete('/features/:id', subscriptionController.deleteFeature);
  *                 maxLength: 100
  *                 description: Plan name (must be unique)
  *                 example: "Premium Plan"
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Shown on the public pricing page
+ *               localizations:
+ *                 $ref: '#/components/schemas/Localizations'
+ *               sortOrder:
+ *                 type: integer
+ *                 description: Pricing page position, lowest first (default 0)
+ *               isRecommended:
+ *                 type: boolean
+ *                 description: Highlight on the pricing page; clears the flag on every other plan
  *               monthlyPrice:
  *                 type: number
  *                 minimum: 0
@@ -362,6 +432,32 @@ router.delete('/features/:id', subscriptionController.deleteFeature);
  *                   format: uuid
  *                 description: Array of feature IDs to include in this plan
  *                 example: ["123e4567-e89b-12d3-a456-426614174000"]
+ *               personaId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Published persona used for subscribers who haven't chosen one
+ *               usageLimits:
+ *                 $ref: '#/components/schemas/PlanUsageLimits'
+ *               prices:
+ *                 type: array
+ *                 description: Prices in minor units; at most one per interval and currency
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     interval:
+ *                       type: string
+ *                       enum: [month, year]
+ *                     currency:
+ *                       type: string
+ *                       example: "eur"
+ *                     amount:
+ *                       type: integer
+ *                       example: 999
+ *               trialDays:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 365
+ *                 description: Free trial for users who never had a subscription
  *     responses:
  *       201:
  *         description: Subscription plan created successfully
@@ -585,6 +681,20 @@ router.get('/subscription-plans/:id', subscriptionController.getSubscriptionPlan
  *                 minLength: 2
  *                 maxLength: 100
  *                 example: "Premium Plus Plan"
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 1000
+ *               localizations:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/Localizations'
+ *                 nullable: true
+ *                 description: Replaces all translations (null removes them)
+ *               sortOrder:
+ *                 type: integer
+ *               isRecommended:
+ *                 type: boolean
+ *                 description: Setting true clears the flag on every other plan
  *               monthlyPrice:
  *                 type: number
  *                 minimum: 0
@@ -599,6 +709,19 @@ router.get('/subscription-plans/:id', subscriptionController.getSubscriptionPlan
  *               isActive:
  *                 type: boolean
  *                 example: true
+ *               personaId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Published persona for this plan (null clears it)
+ *               usageLimits:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/PlanUsageLimits'
+ *                 nullable: true
+ *                 description: Replaces all voice usage limits (null removes them)
+ *               trialDays:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Free trial for first-time subscribers (null or 0 removes it)
  *     responses:
  *       200:
  *         description: Subscription plan updated successfully
@@ -723,13 +846,165 @@ router.post(
   subscriptionController.addFeaturesToPlan
 );
 
+/**
+ * @swagger
+ * /api/admin/subscription-plans/{planId}/prices:
+ *   post:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Add a price to a plan
+ *     description: |
+ *       Adds a price for an interval and currency (amount in minor units). A plan can have one active
+ *       price per interval and currency; to change an amount, deactivate the old price and add a new one.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [interval, currency, amount]
+ *             properties:
+ *               interval:
+ *                 type: string
+ *                 enum: [month, year]
+ *               currency:
+ *                 type: string
+ *                 example: "eur"
+ *               amount:
+ *                 type: integer
+ *                 example: 9900
+ *     responses:
+ *       201:
+ *         description: Price added; returns the plan's prices
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Subscription plan not found
+ *       409:
+ *         description: An active price for this interval and currency exists
+ */
+router.post(
+  '/subscription-plans/:id/prices',
+  validate(subscriptionValidationSchemas.addPlanPrice),
+  subscriptionController.addPlanPrice
+);
+
+/**
+ * @swagger
+ * /api/admin/subscription-plans/{planId}/prices/{priceId}:
+ *   patch:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Activate or deactivate a price
+ *     description: Inactive prices can no longer be bought; existing subscribers are not affected.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: priceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [isActive]
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Price updated
+ *       404:
+ *         description: Plan or price not found
+ *       409:
+ *         description: Another active price for this interval and currency exists
+ */
+router.patch(
+  '/subscription-plans/:id/prices/:priceId',
+  validateMultiple({
+    params: subscriptionValidationSchemas.planPriceParams,
+    body: subscriptionValidationSchemas.updatePlanPrice,
+  }),
+  subscriptionController.updatePlanPrice
+);
+
 /**
  * @swagger
  * /api/admin/subscription-plans/{planId}:
  *   delete:
  *     tags: [Admin - Subscription Management]
- *     summary: Delete subscription plan
- *     description: Delete a subscription plan.
+ *     summary: Archive subscription plan
+ *     description: |
+ *       Archives the plan instead of deleting it, so past subscriptions and payments keep pointing at it.
+ *       The plan becomes inactive (hidden from the catalog and checkout) and records who archived it.
+ *       Refused while the plan has subscribers that have not expired. With dryRun=true nothing changes
+ *       and the response lists those subscribers.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan ID
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Report the impact without archiving
+ *     responses:
+ *       200:
+ *         description: Subscription plan archived, or the dry run report
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: "Dry run: subscription plan has active subscribers and cannot be archived"
+ *               data:
+ *                 dryRun: true
+ *                 impact:
+ *                   canArchive: false
+ *                   activeSubscribers: 1
+ *                   plans:
+ *                     - id: "6710f7c2a1b2c3d4e5f60718"
+ *                       name: "Premium"
+ *                       activeSubscribers: 1
+ *                   users:
+ *                     - userId: "6710f7c2a1b2c3d4e5f60001"
+ *                       planId: "6710f7c2a1b2c3d4e5f60718"
+ *                       status: "active"
+ *       401:
+ *         description: Unauthorized - admin auth required
+ *       404:
+ *         description: Subscription plan not found
+ *       409:
+ *         description: Plan is already archived or still has active subscribers
+ */
+router.delete('/subscription-plans/:id', subscriptionController.archiveSubscriptionPlan);
+
+/**
+ * @swagger
+ * /api/admin/subscription-plans/{planId}/unarchive:
+ *   post:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Unarchive subscription plan
+ *     description: Restores an archived plan. It comes back inactive; activate it with PATCH once ready.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -738,11 +1013,67 @@ router.post(
  *         required: true
  *         schema:
  *           type: string
- *           format: uuid
  *         description: Plan ID
  *     responses:
  *       200:
- *         description: Subscription plan deleted successfully
+ *         description: Subscription plan unarchived
+ *       404:
+ *         description: Subscription plan not found
+ *       409:
+ *         description: Plan is not archived
+ */
+router.post('/subscription-plans/:id/unarchive', subscriptionController.unarchiveSubscriptionPlan);
+
+/**
+ * @swagger
+ * /api/admin/coupons:
+ *   post:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Create a coupon
+ *     description: |
+ *       Promo code taken off the first payment at checkout. Percent coupons need percentOff;
+ *       fixed coupons need amountOff (minor units) and the currency they apply to.
+ *       Codes are case-insensitive. Optionally limited to plans, a number of redemptions and an expiry date.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, discountType]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "SPRING25"
+ *               description:
+ *                 type: string
+ *               discountType:
+ *                 type: string
+ *                 enum: [percent, fixed]
+ *               percentOff:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 100
+ *               amountOff:
+ *                 type: integer
+ *                 minimum: 1
+ *               currency:
+ *                 type: string
+ *               planIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               maxRedemptions:
+ *                 type: integer
+ *                 minimum: 1
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Coupon created
  *         content:
  *           application/json:
  *             schema:
@@ -750,17 +1081,273 @@ router.post(
  *               properties:
  *                 success:
  *                   type: boolean
- *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Subscription plan deleted successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Coupon'
+ *       400:
+ *         description: Validation error or unknown plan
+ *       409:
+ *         description: Code already exists
+ *   get:
+ *     tags: [Admin - Subscription Management]
+ *     summary: List coupons
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Coupons retrieved successfully
+ */
+router.post(
+  '/coupons',
+  validate(subscriptionValidationSchemas.createCoupon),
+  couponController.createCoupon
+);
+router.get('/coupons', couponController.getAllCoupons);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{couponId}:
+ *   get:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Get a coupon
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon retrieved successfully
+ *       404:
+ *         description: Coupon not found
+ *   patch:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Update a coupon
+ *     description: Changes who can use the coupon and until when. The discount itself cannot change.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               planIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               maxRedemptions:
+ *                 type: integer
+ *                 nullable: true
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Coupon updated successfully
+ *       400:
+ *         description: Validation error, or a limit below the redemptions so far
+ *       404:
+ *         description: Coupon not found
+ *   delete:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Delete a coupon
+ *     description: Only coupons that were never redeemed can be deleted; deactivate the others.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon deleted successfully
+ *       400:
+ *         description: Coupon has been redeemed
+ *       404:
+ *         description: Coupon not found
+ */
+router.get('/coupons/:id', couponController.getCouponById);
+router.patch(
+  '/coupons/:id',
+  validate(subscriptionValidationSchemas.updateCoupon),
+  couponController.updateCoupon
+);
+router.delete('/coupons/:id', couponController.deleteCoupon);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/subscription:
+ *   get:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Get a user's subscription
+ *     description: Current subscription (if any), its entitlements and every subscription the user has held, with their event logs.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription retrieved successfully
  *       401:
  *         description: Unauthorized - admin auth required
+ *   post:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Grant a plan to a user
+ *     description: |
+ *       Starts a monthly subscription that renews automatically. With trialDays the subscription
+ *       starts in trialing and becomes active when the trial ends.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - planId
+ *             properties:
+ *               planId:
+ *                 type: string
+ *               trialDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Subscription granted successfully
+ *       400:
+ *         description: Validation error or inactive plan
  *       404:
- *         description: Subscription plan not found
- *       500:
- *         description: Internal server error
+ *         description: User or plan not found
+ *       409:
+ *         description: User already has an active subscription
+ *   patch:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Change a user's plan
+ *     description: Moves the current subscription to another plan. Status and billing dates are unchanged.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - planId
+ *             properties:
+ *               planId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Subscription plan changed successfully
+ *       404:
+ *         description: Subscription or plan not found
+ *       409:
+ *         description: User is already on this plan
+ *   delete:
+ *     tags: [Admin - Subscription Management]
+ *     summary: Revoke a user's subscription
+ *     description: Ends the current subscription immediately (status expired).
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Subscription revoked successfully
+ *       404:
+ *         description: Subscription not found
  */
-router.delete('/subscription-plans/:id', subscriptionController.deleteSubscriptionPlan);
+router.get(
+  '/users/:userId/subscription',
+  validate(subscriptionValidationSchemas.userIdParams, 'params'),
+  userSubscriptionController.getUserSubscription
+);
+
+router.post(
+  '/users/:userId/subscription',
+  validateMultiple({
+    params: subscriptionValidationSchemas.userIdParams,
+    body: subscriptionValidationSchemas.grantSubscription,
+  }),
+  userSubscriptionController.grantSubscription
+);
+
+router.patch(
+  '/users/:userId/subscription',
+  validateMultiple({
+    params: subscriptionValidationSchemas.userIdParams,
+    body: subscriptionValidationSchemas.changeSubscriptionPlan,
+  }),
+  userSubscriptionController.changeSubscriptionPlan
+);
+
+router.delete(
+  '/users/:userId/subscription',
+  validateMultiple({
+    params: subscriptionValidationSchemas.userIdParams,
+    body: subscriptionValidationSchemas.endSubscription,
+  }),
+  userSubscriptionController.revokeSubscription
+);
 
 export default router;
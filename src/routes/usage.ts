@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { usageController } from '../controllers/usageController';
+import { adminAuthMiddleware } from '../middleware/adminAuthMiddleware';
+import { validate } from '../middleware/validate';
+import { usageValidationSchemas } from '../validations/usageValidation';
+
+const router = Router();
+
+// Usage reports are admin-only
+router.use(adminAuthMiddleware);
+
+/**
+ * @swagger
+ * /api/admin/usage:
+ *   get:
+ *     tags: [Admin - Usage]
+ *     summary: Voice usage report
+ *     description: |
+ *       Audio seconds in/out, turns and session count per user between two UTC days (inclusive),
+ *       heaviest users first. Defaults to the current month.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: '2026-10-01'
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: '2026-10-31'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Usage report retrieved successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized - admin auth required
+ */
+router.get(
+  '/',
+  validate(usageValidationSchemas.usageReport, 'query'),
+  usageController.getUsageReport
+);
+
+/**
+ * @swagger
+ * /api/admin/usage/users/{userId}:
+ *   get:
+ *     tags: [Admin - Usage]
+ *     summary: Voice usage for one user
+ *     description: Daily totals between two UTC days (defaults to the current month) plus the user's current limits and remaining allowance.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User usage retrieved successfully
+ *       401:
+ *         description: Unauthorized - admin auth required
+ */
+router.get(
+  '/users/:userId',
+  validate(usageValidationSchemas.userUsageParams, 'params'),
+  validate(usageValidationSchemas.userUsageQuery, 'query'),
+  usageController.getUserUsage
+);
+
+export default router;
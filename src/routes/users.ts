@@ -1,9 +1,201 @@
 import { Router } from "express";
 import { UsersController } from "../controllers";
+import { personaController } from "../controllers/personaController";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validate";
+import { personaValidationSchemas } from "../validations/personaValidation";
+import { audioRecordingController } from "../controllers/audioRecordingController";
+import { audioRecordingValidationSchemas } from "../validations/audioRecordingValidation";
+import { usageController } from "../controllers/usageController";
+import { userSubscriptionController } from "../controllers/userSubscriptionController";
+import { subscriptionValidationSchemas } from "../validations/subscriptionValidation";
 
 const router = Router();
 const usersController = new UsersController();
 
+/**
+ * @swagger
+ * /api/users/personas:
+ *   get:
+ *     tags: [Users]
+ *     summary: List selectable personas
+ *     description: Published personas the user can choose for voice sessions, plus their current choice.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Personas retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get("/personas", authMiddleware, personaController.getAvailablePersonas);
+
+/**
+ * @swagger
+ * /api/users/me/persona:
+ *   put:
+ *     tags: [Users]
+ *     summary: Choose a persona
+ *     description: Select the persona used for new voice sessions. Send null to fall back to the plan or default persona.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - personaId
+ *             properties:
+ *               personaId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Persona selected
+ *       400:
+ *         description: Persona is not available
+ *       404:
+ *         description: Persona not found
+ */
+router.put(
+  "/me/persona",
+  authMiddleware,
+  validate(personaValidationSchemas.selectPersona),
+  personaController.selectPersona
+);
+
+/**
+ * @swagger
+ * /api/users/me/recording-consent:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get audio recording consent
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Recording consent retrieved successfully
+ *   put:
+ *     tags: [Users]
+ *     summary: Opt in to or out of audio recording
+ *     description: |
+ *       When enabled, each turn of new voice sessions is stored as WAV and linked from the message's audioUrl for replay.
+ *       Disabling stops recording; set deleteRecordings to also delete everything recorded so far.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - enabled
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               deleteRecordings:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Recording consent updated
+ *       400:
+ *         description: Validation error
+ */
+router.get("/me/recording-consent", authMiddleware, audioRecordingController.getConsent);
+
+router.put(
+  "/me/recording-consent",
+  authMiddleware,
+  validate(audioRecordingValidationSchemas.recordingConsent),
+  audioRecordingController.setConsent
+);
+
+/**
+ * @swagger
+ * /api/users/me/usage:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get voice usage
+ *     description: |
+ *       Voice minutes (audio in and out) and turns used today and this month (UTC), the plan's limits
+ *       and what's left. Voice sessions can't start while a limit is used up.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/UsageSummary'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/me/usage", authMiddleware, usageController.getMyUsage);
+
+/**
+ * @swagger
+ * /api/users/me/subscription:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get my subscription
+ *     description: |
+ *       The current subscription (trialing, active, past_due, or canceled but still within its period)
+ *       and its entitlements - plan, features and usage limits. Both are null without a subscription.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscription retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/me/subscription", authMiddleware, userSubscriptionController.getMySubscription);
+
+/**
+ * @swagger
+ * /api/users/me/subscription/cancel:
+ *   post:
+ *     tags: [Users]
+ *     summary: Cancel my subscription
+ *     description: The subscription stops renewing; access continues until the end of the current period (or trial).
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Subscription canceled
+ *       404:
+ *         description: No active subscription
+ *       409:
+ *         description: Subscription is already canceled
+ */
+router.post(
+  "/me/subscription/cancel",
+  authMiddleware,
+  validate(subscriptionValidationSchemas.endSubscription),
+  userSubscriptionController.cancelMySubscription
+);
+
 // Get user profile by userId
 router.get("/:userId", usersController.getUserProfile);
 
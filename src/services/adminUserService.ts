@@ -1,5 +1,6 @@
 import { User, IUser } from '../models/schemas/User';
 import { logInfo, logError, logWarn } from '../utils/logger';
+import { tokenPolicyService } from './tokenPolicyService';
 
 export interface GetUsersOptions {
   page?: number;
@@ -163,6 +164,8 @@ export class AdminUserService {
       user.isActive = false;
 
       await user.save();
+      // Signs the user out everywhere and ends live voice sessions
+      await tokenPolicyService.revokeAllTokens(userId, 'suspended');
 
       logInfo(`User ${userId} suspended. Reason: ${reason}`);
 
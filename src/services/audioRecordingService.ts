@@ -0,0 +1,302 @@
+import { Readable } from 'stream';
+import { Types } from 'mongoose';
+import { User } from '../models/schemas/User';
+import { Message } from '../models/schemas/Message';
+import { AudioStorageAdapter, createAudioStorage } from './audioStorage';
+import { encodeWav, pcmDurationMs, PCM_SAMPLE_RATE } from '../utils/audio';
+import { logInfo, logError } from '../utils/logger';
+
+const BYTES_PER_SECOND = PCM_SAMPLE_RATE * 2;
+const WAV_CONTENT_TYPE = 'audio/wav';
+
+export interface RecordingConsent {
+  enabled: boolean;
+  consentedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface CompletedTurnAudio {
+  messageId: string;
+  pcm: Buffer;
+}
+
+export interface MessageAudioFile {
+  storageKey: string;
+  contentType: string;
+  size: number;
+}
+
+interface ResponseAudio {
+  chunks: Buffer[];
+  bytes: number;
+  done: boolean;
+  messageId?: string;
+}
+
+/**
+ * Splits one voice session's audio into per-turn PCM segments.
+ * User audio is cut at the provider's speech-started/speech-stopped events (keeping a
+ * short lead-in from before speech was detected); assistant audio is grouped by response id.
+ */
+export class SessionRecorder {
+  private inputChunks: Buffer[] = [];
+  private inputBytes = 0;
+  private speaking = false;
+  private userTurns: Buffer[] = [];
+  private responses: Map<string, ResponseAudio> = new Map();
+
+  constructor(
+    private maxTurnBytes: number = parseInt(process.env.AUDIO_RECORDING_MAX_TURN_SECONDS || '300', 10) * BYTES_PER_SECOND,
+    private leadInBytes: number = Math.round(0.5 * BYTES_PER_SECOND)
+  ) {}
+
+  appendInput(chunk: Buffer): void {
+    if (this.speaking && this.inputBytes + chunk.length > this.maxTurnBytes) {
+      return;
+    }
+
+    this.inputChunks.push(chunk);
+    this.inputBytes += chunk.length;
+
+    // Between turns only the lead-in window is kept
+    while (!this.speaking && this.inputChunks.length > 1 && this.inputBytes - this.inputChunks[0].length >= this.leadInBytes) {
+      this.inputBytes -= this.inputChunks.shift()!.length;
+    }
+  }
+
+  startUserTurn(): void {
+    this.speaking = true;
+  }
+
+  endUserTurn(): void {
+    if (!this.speaking) return;
+
+    this.speaking = false;
+    if (this.inputBytes > 0) {
+      this.userTurns.push(Buffer.concat(this.inputChunks));
+    }
+    this.inputChunks = [];
+    this.inputBytes = 0;
+  }
+
+  /**
+   * Oldest finished utterance, matched to the next user transcript
+   */
+  takeUserTurn(): Buffer | null {
+    return this.userTurns.shift() || null;
+  }
+
+  appendOutput(responseId: string, chunk: Buffer): void {
+    const response = this.getResponse(responseId);
+    if (response.bytes + chunk.length > this.maxTurnBytes) return;
+
+    response.chunks.push(chunk);
+    response.bytes += chunk.length;
+  }
+
+  /**
+   * Audio for a response finished; returns it if the assistant message is already saved
+   */
+  endOutput(responseId: string): CompletedTurnAudio | null {
+    this.getResponse(responseId).done = true;
+    return this.flush(responseId);
+  }
+
+  /**
+   * Assistant message saved; returns its audio if the response audio already finished
+   */
+  attachAssistantMessage(responseId: string, messageId: string): CompletedTurnAudio | null {
+    this.getResponse(responseId).messageId = messageId;
+    return this.flush(responseId);
+  }
+
+  /**
+   * Barge-in: keep only the audio the user heard
+   */
+  truncateOutput(responseId: string, maxBytes: number): void {
+    const response = this.responses.get(responseId);
+    if (!response || response.bytes <= maxBytes) return;
+
+    const pcm = Buffer.concat(response.chunks).subarray(0, maxBytes);
+    response.chunks = [pcm];
+    response.bytes = pcm.length;
+  }
+
+  discardOutput(responseId: string): void {
+    this.responses.delete(responseId);
+  }
+
+  private getResponse(responseId: string): ResponseAudio {
+    let response = this.responses.get(responseId);
+    if (!response) {
+      response = { chunks: [], bytes: 0, done: false };
+      this.responses.set(responseId, response);
+    }
+    return response;
+  }
+
+  private flush(responseId: string): CompletedTurnAudio | null {
+    const response = this.responses.get(responseId);
+    if (!response || !response.done || !response.messageId) return null;
+
+    this.responses.delete(responseId);
+    return response.bytes > 0
+      ? { messageId: response.messageId, pcm: Buffer.concat(response.chunks) }
+      : null;
+  }
+}
+
+/**
+ * Opt-in recording of voice turns. Each turn is stored as WAV through the
+ * storage adapter and linked from its Message via audioUrl.
+ */
+export class AudioRecordingService {
+  constructor(private storage: AudioStorageAdapter = createAudioStorage()) {}
+
+  /**
+   * Recording only happens for users who explicitly opted in
+   */
+  async isEnabledForUser(userId: string): Promise<boolean> {
+    try {
+      const user = await User.findById(userId).select('preferences.audioRecording');
+      return !!user?.preferences?.audioRecording?.enabled;
+    } catch (error) {
+      logError(`[AudioRecording] Failed to load recording consent for user ${userId}`, error);
+      return false;
+    }
+  }
+
+  async getConsent(userId: string): Promise<RecordingConsent> {
+    const user = await User.findById(userId).select('preferences.audioRecording');
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return { enabled: false, ...user.preferences?.audioRecording };
+  }
+
+  /**
+   * Grant or withdraw consent. Withdrawing can also delete everything recorded so far.
+   */
+  async setConsent(
+    userId: string,
+    enabled: boolean,
+    options: { deleteRecordings?: boolean } = {}
+  ): Promise<RecordingConsent & { deletedRecordings: number }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const current = user.preferences.audioRecording;
+    user.preferences.audioRecording = enabled
+      ? { enabled: true, consentedAt: new Date() }
+      : { enabled: false, consentedAt: current?.consentedAt, revokedAt: new Date() };
+    user.markModified('preferences.audioRecording');
+    await user.save();
+
+    const deletedRecordings = !enabled && options.deleteRecordings
+      ? await this.deleteUserRecordings(userId)
+      : 0;
+
+    logInfo(`[AudioRecording] User ${userId} ${enabled ? 'enabled' : 'disabled'} audio recording`);
+    return { ...user.preferences.audioRecording, deletedRecordings };
+  }
+
+  createRecorder(): SessionRecorder {
+    return new SessionRecorder();
+  }
+
+  /**
+   * Encode a turn as WAV, store it and link it from the message. Consent is checked
+   * again per turn, so nothing more is stored once a user withdraws it mid-session.
+   * Failures are logged, not thrown.
+   */
+  async storeMessageAudio(params: { userId: string; sessionId: string; messageId: string; pcm: Buffer }): Promise<string | null> {
+    const { userId, sessionId, messageId, pcm } = params;
+    const storageKey = `${userId}/${sessionId}/${messageId}.wav`;
+
+    if (!(await this.isEnabledForUser(userId))) {
+      logInfo(`[AudioRecording] Recording consent withdrawn; discarding audio for message ${messageId}`);
+      return null;
+    }
+
+    try {
+      const wav = encodeWav(pcm);
+      await this.storage.save(storageKey, wav, WAV_CONTENT_TYPE);
+
+      const audioUrl = this.buildAudioUrl(sessionId, messageId);
+      await Message.updateOne(
+        { _id: messageId },
+        {
+          $set: {
+            audioUrl,
+            audio: {
+              storageKey,
+              contentType: WAV_CONTENT_TYPE,
+              durationMs: pcmDurationMs(pcm.length),
+              size: wav.length,
+            },
+          },
+        }
+      );
+
+      return audioUrl;
+    } catch (error) {
+      logError(`[AudioRecording] Failed to store audio for message ${messageId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Locate a message's recording for playback, scoped to its owner
+   */
+  async getMessageAudio(userId: string, sessionId: string, messageId: string): Promise<MessageAudioFile> {
+    if (!Types.ObjectId.isValid(messageId)) {
+      throw new Error('Recording not found');
+    }
+
+    const message = await Message.findOne({ _id: messageId, sessionId, userId }).select('audio');
+    if (!message?.audio?.storageKey) {
+      throw new Error('Recording not found');
+    }
+
+    const stats = await this.storage.stat(message.audio.storageKey);
+    if (!stats) {
+      throw new Error('Recording not found');
+    }
+
+    return {
+      storageKey: message.audio.storageKey,
+      contentType: message.audio.contentType || WAV_CONTENT_TYPE,
+      size: stats.size,
+    };
+  }
+
+  createReadStream(storageKey: string, range?: { start: number; end: number }): Readable {
+    return this.storage.createReadStream(storageKey, range);
+  }
+
+  /**
+   * Remove every stored recording for a user and unlink it from the messages
+   */
+  async deleteUserRecordings(userId: string): Promise<number> {
+    const messages = await Message.find({ userId, 'audio.storageKey': { $exists: true } }).select('audio');
+
+    for (const message of messages) {
+      await this.storage.delete(message.audio!.storageKey);
+    }
+    await Message.updateMany(
+      { _id: { $in: messages.map((m) => m._id) } },
+      { $unset: { audioUrl: 1, audio: 1 } }
+    );
+
+    logInfo(`[AudioRecording] Deleted ${messages.length} recordings for user ${userId}`);
+    return messages.length;
+  }
+
+  buildAudioUrl(sessionId: string, messageId: string): string {
+    return `/api/sessions/${encodeURIComponent(sessionId)}/messages/${messageId}/audio`;
+  }
+}
+
+export const audioRecordingService = new AudioRecordingService();
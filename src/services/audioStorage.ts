@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+/**
+ * Where recorded message audio lives. Keys are relative paths such as
+ * "<userId>/<sessionId>/<messageId>.wav"; adapters decide how to map them.
+ */
+export interface AudioStorageAdapter {
+  readonly driver: string;
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  stat(key: string): Promise<{ size: number } | null>;
+  // Inclusive byte range, as in HTTP Range
+  createReadStream(key: string, range?: { start: number; end: number }): Readable;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores audio files under a local directory (AUDIO_STORAGE_DIR)
+ */
+export class LocalAudioStorage implements AudioStorageAdapter {
+  readonly driver = 'local';
+  private root: string;
+
+  constructor(root: string = process.env.AUDIO_STORAGE_DIR || 'storage/audio') {
+    this.root = path.resolve(root);
+  }
+
+  // Local files carry no metadata - the content type is kept on the message instead
+  async save(key: string, data: Buffer, _contentType?: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async stat(key: string): Promise<{ size: number } | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { size: stats.size } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  createReadStream(key: string, range?: { start: number; end: number }): Readable {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Keys come from our own ids, but never let one escape the storage root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid audio storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Choose the storage backend from AUDIO_STORAGE_DRIVER ('local' by default)
+ */
+export function createAudioStorage(driver: string = process.env.AUDIO_STORAGE_DRIVER || 'local'): AudioStorageAdapter {
+  switch (driver) {
+    case 'local':
+      return new LocalAudioStorage();
+    default:
+      throw new Error(`Unknown audio storage driver: ${driver}`);
+  }
+}
@@ -1,10 +1,17 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import { User, IUser } from '../models/schemas/User';
+import { User, IUser, PhoneCodePurpose } from '../models/schemas/User';
+import { ISmsMessage } from '../models/schemas/SmsMessage';
 import { Admin, IAdmin } from '../models/schemas/Admin';
 import { logAuth, logError, logInfo, logWarn } from '../utils/logger';
 import { emailService } from './emailService';
+import { refreshTokenService, DeviceInfo, RefreshTokenIds } from './refreshTokenService';
+import { tokenPolicyService } from './tokenPolicyService';
+import { twoFactorService, TwoFactorChallenge } from './twoFactorService';
+import { smsService, normalizePhone, maskPhone } from './smsService';
+import { oidcService } from './oidcService';
+import { getSmsPolicy } from '../config/sms';
 
 export interface SignupData {
   email: string;
@@ -22,6 +29,17 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+// An active login as shown to its user
+export interface LoginSession {
+  id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
 export interface AuthResponse {
   user: {
     id: string;
@@ -30,8 +48,12 @@ export interface AuthResponse {
     emailVerified: boolean;
   };
   tokens: AuthTokens;
+  recoveryCodes?: string[]; // only when 2FA was set up during this login
 }
 
+// Either tokens, or a challenge to answer with a second factor first
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
 export class AuthService {
   private readonly JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
   private readonly REFRESH_SECRET = process.env.REFRESH_SECRET || 'your-refresh-secret';
@@ -59,7 +81,7 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(password, this.SALT_ROUNDS);
 
     // Generate email verification token (5-digit number)
-    const verificationToken = Math.floor(10000 + Math.random() * 90000).toString();
+    const verificationToken = crypto.randomInt(10000, 100000).toString();
     const verificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
     // Create user with password history
@@ -124,7 +146,7 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(loginData: LoginData): Promise<AuthResponse> {
+  async login(loginData: LoginData, device: DeviceInfo = {}): Promise<LoginResult> {
     const { email, password } = loginData;
     
     logInfo(`AUTH: Login attempt for ${email}`);
@@ -136,19 +158,7 @@ export class AuthService {
       throw new Error('Invalid credentials');
     }
 
-    // Check if account is locked
-    if (user.lockUntil && user.lockUntil > new Date()) {
-      logAuth.login(email, false, 'Account locked');
-      logWarn(`AUTH: Login blocked - account locked: ${email}`);
-      throw new Error('Account is temporarily locked due to too many failed login attempts');
-    }
-
-    // Check if email is verified
-    if (!user.emailVerified) {
-      logAuth.login(email, false, 'Email not verified');
-      logWarn(`AUTH: Login blocked - email not verified: ${email}`);
-      throw new Error('Please verify your email before logging in');
-    }
+    this.assertLoginAllowed(user);
 
     // Verify password
     if (!user.password) {
@@ -165,6 +175,138 @@ export class AuthService {
       throw new Error('Invalid credentials');
     }
 
+    return this.completeFirstFactor(user, device);
+  }
+
+  /**
+   * Text a login code to a verified phone number. Unknown numbers get no
+   * message and no error, so the endpoint doesn't reveal who has an account.
+   */
+  async requestPhoneLoginCode(phone: string): Promise<void> {
+    const number = normalizePhone(phone);
+    const user = await User.findOne({ phone: number });
+
+    if (!user || user.isSuspended || !user.isActive) {
+      logInfo(`AUTH: Phone login code requested for an unknown or disabled number ${maskPhone(number)}`);
+      return;
+    }
+
+    await this.issuePhoneCode(user, 'login', number);
+    logInfo(`AUTH: Phone login code sent: ${user.email}`);
+  }
+
+  /**
+   * Log in with a code texted to the account's verified phone number.
+   * Takes the place of the password: wrong codes count as failed logins and
+   * 2FA still applies.
+   */
+  async loginWithPhoneCode(phone: string, code: string, device: DeviceInfo = {}): Promise<LoginResult> {
+    const number = normalizePhone(phone);
+    const user = await User.findOne({ phone: number });
+    if (!user) {
+      logAuth.login(maskPhone(number), false, 'Phone not found');
+      throw new Error('Invalid or expired code');
+    }
+
+    this.assertLoginAllowed(user);
+
+    if ((await this.checkPhoneCode(user, 'login', code)) !== number) {
+      logAuth.login(user.email, false, 'Invalid phone code');
+      await this.handleFailedLogin(user);
+      throw new Error('Invalid or expired code');
+    }
+
+    return this.completeFirstFactor(user, device);
+  }
+
+  /**
+   * Sign in with a Google / Apple ID token. An unknown provider account is
+   * linked to the user with the same verified email, or gets a new
+   * passwordless user. 2FA still applies.
+   */
+  async loginWithIdentity(
+    provider: string,
+    idToken: string,
+    options: { nonce?: string; name?: string } = {},
+    device: DeviceInfo = {}
+  ): Promise<LoginResult> {
+    const claims = await oidcService.verifyIdToken(provider, idToken, options.nonce);
+    let user = await oidcService.findUserByIdentity(claims.provider, claims.subject);
+
+    if (!user) {
+      if (!claims.email || !claims.emailVerified) {
+        logAuth.login(claims.email || claims.provider, false, 'Provider email not verified');
+        throw new Error(`Your ${claims.provider} account has no verified email address`);
+      }
+
+      user = await User.findOne({ email: claims.email });
+      if (user) {
+        if (!user.emailVerified) {
+          // Whoever registered this address never proved they own it and the
+          // provider just did: drop their password so only the owner gets in
+          user.password = undefined;
+          user.passwordHistory = [];
+          user.emailVerified = true;
+          user.emailVerificationToken = undefined;
+          user.emailVerificationExpires = undefined;
+          user.otpCode = undefined;
+          user.otpExpires = undefined;
+          logAuth.securityEvent(user.email, 'Unverified account claimed by verified sign-in', claims.provider);
+        }
+        logInfo(`AUTH: Linking ${claims.provider} sign-in to existing account by verified email: ${user.email}`);
+      } else {
+        user = new User({ email: claims.email, name: options.name || claims.name, emailVerified: true });
+        logAuth.signup(claims.email, true);
+        logInfo(`AUTH: New account from ${claims.provider} sign-in: ${claims.email}`);
+      }
+
+      user.identities.push({
+        provider: claims.provider,
+        subject: claims.subject,
+        email: claims.email,
+        linkedAt: new Date(),
+      });
+    }
+
+    this.assertLoginAllowed(user);
+
+    const identity = user.identities.find((i) => i.provider === claims.provider && i.subject === claims.subject);
+    if (identity) {
+      identity.lastUsedAt = new Date();
+      user.markModified('identities');
+    }
+    await user.save();
+
+    return this.completeFirstFactor(user, device);
+  }
+
+  // Lock, verification and suspension checks shared by every way of logging in
+  private assertLoginAllowed(user: IUser): void {
+    const email = user.email;
+
+    // Check if account is locked
+    if (user.lockUntil && user.lockUntil > new Date()) {
+      logAuth.login(email, false, 'Account locked');
+      logWarn(`AUTH: Login blocked - account locked: ${email}`);
+      throw new Error('Account is temporarily locked due to too many failed login attempts');
+    }
+
+    // Check if email is verified
+    if (!user.emailVerified) {
+      logAuth.login(email, false, 'Email not verified');
+      logWarn(`AUTH: Login blocked - email not verified: ${email}`);
+      throw new Error('Please verify your email before logging in');
+    }
+
+    if (user.isSuspended || !user.isActive) {
+      logAuth.login(email, false, user.isSuspended ? 'Account suspended' : 'Account deactivated');
+      logWarn(`AUTH: Login blocked - account ${user.isSuspended ? 'suspended' : 'deactivated'}: ${email}`);
+      throw new Error('Account is disabled');
+    }
+  }
+
+  // The first factor (password or phone code) was accepted
+  private async completeFirstFactor(user: IUser, device: DeviceInfo): Promise<LoginResult> {
     // Reset login attempts on successful login
     if (user.loginAttempts > 0) {
       user.loginAttempts = 0;
@@ -172,15 +314,58 @@ export class AuthService {
       await user.save();
     }
 
+    // The first factor alone is not enough once 2FA is on (or required)
+    if (user.twoFactor?.enabled || twoFactorService.isRequired('user')) {
+      logInfo(`AUTH: First factor accepted, two-factor challenge issued: ${user.email}`);
+      return twoFactorService.issueChallenge(user, 'user');
+    }
+
+    return this.completeLogin(user, device);
+  }
+
+  /**
+   * Second login step: answer the challenge with a TOTP or recovery code
+   * (or, for a setup challenge, the first code from the new authenticator).
+   * Wrong codes count as failed logins.
+   */
+  async verifyTwoFactorLogin(challengeToken: string, code: string, device: DeviceInfo = {}): Promise<AuthResponse> {
+    const challenge = twoFactorService.verifyChallenge(challengeToken, 'user');
+    const user = await User.findById(challenge.accountId);
+
+    if (!user || user.isSuspended || !user.isActive) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+    if (user.lockUntil && user.lockUntil > new Date()) {
+      throw new Error('Account is temporarily locked due to too many failed login attempts');
+    }
+
+    let recoveryCodes: string[] | undefined;
+    try {
+      if (challenge.setup) {
+        recoveryCodes = await twoFactorService.confirmEnrollment(user, code);
+      } else if (!(await twoFactorService.verify(user, code))) {
+        throw new Error('Invalid two-factor code');
+      }
+    } catch (error) {
+      logAuth.login(user.email, false, 'Invalid two-factor code');
+      await this.handleFailedLogin(user);
+      throw error;
+    }
+
+    const response = await this.completeLogin(user, device);
+    return recoveryCodes ? { ...response, recoveryCodes } : response;
+  }
+
+  private async completeLogin(user: IUser, device: DeviceInfo): Promise<AuthResponse> {
     // Update last login
     user.lastLogin = new Date();
     await user.save();
     
-    logAuth.login(email, true);
-    logInfo(`AUTH: Login successful: ${email}`);
+    logAuth.login(user.email, true);
+    logInfo(`AUTH: Login successful: ${user.email}`);
 
-    // Generate tokens
-    const tokens = this.generateTokens(user);
+    // Generate tokens for a new token family (one per device login)
+    const tokens = this.generateTokens(user, await refreshTokenService.startFamily(user._id.toString(), device));
 
     return {
       user: {
@@ -246,31 +431,50 @@ export class AuthService {
     user.passwordChangedAt = new Date();
 
     await user.save();
+    await tokenPolicyService.revokeAllTokens(user._id.toString(), 'password_changed');
     
     logAuth.passwordChange(user.email, true);
     logInfo(`AUTH: Password changed successfully: ${user.email}`);
   }
 
   /**
-   * Refresh access token
+   * Refresh access token. The refresh token is single use: it is rotated
+   * within its family, and replaying an old one revokes the family.
    */
   async refreshToken(refreshToken: string): Promise<AuthTokens> {
     logInfo(`AUTH: Token refresh attempt`);
     
     try {
       const payload = jwt.verify(refreshToken, this.REFRESH_SECRET) as any;
+
+      // Tokens issued before families existed can't be rotated; those users log in again
+      if (!payload.sid || !payload.jti) {
+        throw new Error('Refresh token has no session');
+      }
+
       const user = await User.findById(payload.userId);
+      const rejection = tokenPolicyService.evaluate(user, payload);
 
-      if (!user || !user.emailVerified) {
+      if (!user || rejection) {
         logAuth.tokenRefresh('unknown', false);
-        logWarn(`AUTH: Token refresh failed - invalid token or unverified user`);
+        logWarn(`AUTH: Token refresh failed - ${rejection}`);
         throw new Error('Invalid refresh token');
       }
+
+      let ids;
+      try {
+        ids = await refreshTokenService.rotate(user._id.toString(), { familyId: payload.sid, tokenId: payload.jti });
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('reuse')) {
+          logAuth.securityEvent(user.email, 'Refresh token reuse', `session ${payload.sid} revoked`);
+        }
+        throw error;
+      }
       
       logAuth.tokenRefresh(user.email, true);
       logInfo(`AUTH: Token refreshed successfully: ${user.email}`);
 
-      return this.generateTokens(user);
+      return this.generateTokens(user, ids);
     } catch (error) {
       logAuth.tokenRefresh('unknown', false);
       logError(`AUTH: Token refresh failed`, error);
@@ -278,6 +482,60 @@ export class AuthService {
     }
   }
 
+  /**
+   * Logout: revoke the refresh token's family. Invalid or expired tokens are
+   * ignored so the client can always clear its cookie.
+   */
+  async logout(refreshToken?: string): Promise<void> {
+    if (!refreshToken) return;
+
+    try {
+      const payload = jwt.verify(refreshToken, this.REFRESH_SECRET, { ignoreExpiration: true }) as any;
+      if (payload.sid && (await refreshTokenService.revoke(payload.sid, 'logout', payload.userId))) {
+        logAuth.logout(payload.email);
+      }
+    } catch (error) {
+      logWarn(`AUTH: Logout with an invalid refresh token`);
+    }
+  }
+
+  /**
+   * Revoke every login of the user (all devices)
+   */
+  async logoutAllDevices(userId: string): Promise<number> {
+    // Also retires access tokens still within their 15 minutes
+    const revoked = await tokenPolicyService.revokeAllTokens(userId, 'logout_all');
+    logInfo(`AUTH: User ${userId} logged out of all devices`);
+    return revoked;
+  }
+
+  /**
+   * The user's active logins; currentSessionId marks the one making the request
+   */
+  async getActiveSessions(userId: string, currentSessionId?: string): Promise<LoginSession[]> {
+    const families = await refreshTokenService.listActive(userId);
+
+    return families.map((family) => ({
+      id: family.familyId,
+      userAgent: family.userAgent,
+      ip: family.ip,
+      createdAt: family.createdAt,
+      lastUsedAt: family.lastUsedAt,
+      expiresAt: family.expiresAt,
+      current: family.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * End one of the user's logins
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    if (!(await refreshTokenService.revoke(sessionId, 'revoked', userId))) {
+      throw new Error('Session not found');
+    }
+    logInfo(`AUTH: User ${userId} revoked session ${sessionId}`);
+  }
+
   /**
    * Forgot password - generate reset token
    */
@@ -361,6 +619,7 @@ export class AuthService {
     user.lockUntil = undefined;
 
     await user.save();
+    await tokenPolicyService.revokeAllTokens(user._id.toString(), 'password_changed');
     
     logAuth.passwordReset(user.email, 'RESET', true);
     logInfo(`AUTH: Password reset completed successfully: ${user.email}`);
@@ -370,37 +629,35 @@ export class AuthService {
    * Validate JWT token
    */
   async validateToken(token: string): Promise<IUser> {
-    try {
-      const payload = jwt.verify(token, this.JWT_SECRET) as any;
-      const user = await User.findById(payload.userId);
+    const result = await tokenPolicyService.authenticate(token);
 
-      if (!user || !user.emailVerified) {
-        logWarn(`AUTH: Token validation failed - invalid token or unverified user`);
-        throw new Error('Invalid token');
-      }
-
-      return user;
-    } catch (error) {
-      logError(`AUTH: Token validation failed`, error);
+    if (!result.ok) {
+      logWarn(`AUTH: Token validation failed - ${result.code}`);
       throw new Error('Invalid token');
     }
+
+    return result.user;
   }
 
   /**
-   * Generate JWT tokens
+   * Generate JWT tokens. Both carry the token family as 'sid'; the refresh
+   * token's 'jti' must match the family's current token to be accepted.
+   * 'tv' is the user's tokenVersion; bumping it revokes both (see TokenPolicyService).
    */
-  private generateTokens(user: IUser): AuthTokens {
+  private generateTokens(user: IUser, ids: RefreshTokenIds): AuthTokens {
     const payload = {
       userId: user._id.toString(),
-      email: user.email
+      email: user.email,
+      sid: ids.familyId,
+      tv: user.tokenVersion ?? 0
     };
 
     const accessToken = jwt.sign(payload, this.JWT_SECRET, {
       expiresIn: '15m' // 15 minutes
     });
 
-    const refreshToken = jwt.sign(payload, this.REFRESH_SECRET, {
-      expiresIn: '7d' // 7 days
+    const refreshToken = jwt.sign({ ...payload, jti: ids.tokenId }, this.REFRESH_SECRET, {
+      expiresIn: `${refreshTokenService.ttlDays}d`
     });
 
     return {
@@ -409,6 +666,20 @@ export class AuthService {
     };
   }
 
+  /**
+   * Count a failed admin login; locks the account after MAX_LOGIN_ATTEMPTS
+   */
+  private async handleFailedAdminLogin(admin: IAdmin): Promise<void> {
+    admin.loginAttempts = (admin.loginAttempts || 0) + 1;
+
+    if (admin.loginAttempts >= this.MAX_LOGIN_ATTEMPTS) {
+      admin.lockUntil = new Date(Date.now() + this.LOCK_TIME);
+      logAuth.accountLock(admin.email, admin.loginAttempts);
+    }
+
+    await admin.save();
+  }
+
   /**
    * Handle failed login attempts
    */
@@ -429,61 +700,115 @@ export class AuthService {
   }
 
   /**
-   * Send OTP for additional security
+   * Start verifying a phone number for the account (the number it already
+   * has when none is given); the code is sent by SMS
    */
-  async sendOTP(userId: string, phone?: string): Promise<{ otpId: string }> {
+  async sendOTP(userId: string, phone?: string): Promise<{ otpId: string; expiresAt: Date }> {
     const user = await User.findById(userId);
     if (!user) {
       throw new Error('User not found');
     }
 
-    // Generate 5-digit OTP code
-    const otpCode = Math.floor(10000 + Math.random() * 90000).toString();
-    const otpExpires = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
-
-    // Store OTP details in user
-    user.otpCode = otpCode;
-    user.otpExpires = otpExpires;
-    await user.save();
+    const number = phone ? normalizePhone(phone) : user.phone;
+    if (!number) {
+      throw new Error('Phone number is required');
+    }
 
-    // TODO: Integrate with Clark OTP service to send via SMS
-    // For now, log the code (in production, send via SMS)
-    console.log(`OTP for user ${userId}: ${otpCode} (expires at ${otpExpires})`);
+    const owner = await User.findOne({ phone: number, _id: { $ne: user._id } }).select('_id');
+    if (owner) {
+      throw new Error('Phone number is already in use by another account');
+    }
 
-    return { otpId: user._id.toString() };
+    const { message, expiresAt } = await this.issuePhoneCode(user, 'verify_phone', number);
+    return { otpId: message._id.toString(), expiresAt };
   }
 
   /**
-   * Verify OTP
+   * Confirm the code from sendOTP; the number becomes the account's verified phone
    */
-  async verifyOTP(otpId: string, code: string): Promise<boolean> {
-    const user = await User.findById(otpId);
-    if (!user || !user.otpCode || !user.otpExpires) {
+  async verifyOTP(userId: string, code: string): Promise<boolean> {
+    const user = await User.findById(userId);
+    if (!user) {
       return false;
     }
 
-    // Check if expired
-    if (user.otpExpires < new Date()) {
-      // Clear expired OTP
-      user.otpCode = undefined;
-      user.otpExpires = undefined;
-      await user.save();
+    const number = await this.checkPhoneCode(user, 'verify_phone', code);
+    if (!number) {
       return false;
     }
 
-    // Check code
-    if (user.otpCode !== code) {
-      return false;
+    // Someone else may have verified the number since the code was sent
+    const owner = await User.findOne({ phone: number, _id: { $ne: user._id } }).select('_id');
+    if (owner) {
+      throw new Error('Phone number is already in use by another account');
     }
 
-    // Clear OTP on successful verification
-    user.otpCode = undefined;
-    user.otpExpires = undefined;
+    user.phone = number;
+    user.phoneVerifiedAt = new Date();
     await user.save();
 
+    logAuth.securityEvent(user.email, 'Phone number verified', maskPhone(number));
     return true;
   }
 
+  /**
+   * Text a new one-time code, replacing any earlier code for the account
+   */
+  private async issuePhoneCode(
+    user: IUser,
+    purpose: PhoneCodePurpose,
+    phone: string
+  ): Promise<{ message: ISmsMessage; expiresAt: Date }> {
+    const { codeTtlSeconds } = getSmsPolicy();
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresAt = new Date(Date.now() + codeTtlSeconds * 1000);
+
+    const message = await smsService.send(
+      phone,
+      purpose === 'login' ? 'login_code' : 'phone_verification',
+      { code, minutes: Math.ceil(codeTtlSeconds / 60) },
+      { userId: user._id.toString() }
+    );
+
+    user.phoneCode = { purpose, phone, codeHash: this.hashPhoneCode(code), expiresAt, attempts: 0 };
+    await user.save();
+
+    return { message, expiresAt };
+  }
+
+  /**
+   * Check a texted code. Returns the number it was sent to and uses the code
+   * up, or null. A code is dropped once expired or after too many wrong guesses.
+   */
+  private async checkPhoneCode(user: IUser, purpose: PhoneCodePurpose, code: string): Promise<string | null> {
+    const pending = user.phoneCode;
+    if (!pending || pending.purpose !== purpose) {
+      return null;
+    }
+
+    if (pending.expiresAt <= new Date() || pending.attempts >= getSmsPolicy().maxCodeAttempts) {
+      user.phoneCode = undefined;
+      await user.save();
+      return null;
+    }
+
+    const hash = this.hashPhoneCode(code.trim());
+    if (!crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(pending.codeHash))) {
+      user.set('phoneCode.attempts', pending.attempts + 1);
+      await user.save();
+      return null;
+    }
+
+    user.phoneCode = undefined;
+    await user.save();
+    return pending.phone;
+  }
+
+  // Codes live for minutes and allow a handful of guesses, so a fast hash is enough
+  private hashPhoneCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
   /**
    * Register user with OTP verification
    */
@@ -504,7 +829,7 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(password, this.SALT_ROUNDS);
 
     // Generate OTP code (5-digit number)
-    const otpCode = Math.floor(10000 + Math.random() * 90000).toString();
+    const otpCode = crypto.randomInt(10000, 100000).toString();
     const otpExpires = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
 
     // Create user with OTP and password history
@@ -590,7 +915,7 @@ export class AuthService {
     }
 
     // Generate OTP code (5-digit number)
-    const otpCode = Math.floor(10000 + Math.random() * 90000).toString();
+    const otpCode = crypto.randomInt(10000, 100000).toString();
     const otpExpires = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
 
     user.otpCode = otpCode;
@@ -698,6 +1023,7 @@ export class AuthService {
     user.lockUntil = undefined;
 
     await user.save();
+    await tokenPolicyService.revokeAllTokens(user._id.toString(), 'password_changed');
     
     logAuth.passwordReset(user.email, 'RESET', true);
     logInfo(`AUTH: Password set successfully: ${user.email}`);
@@ -749,7 +1075,7 @@ export class AuthService {
     }
 
     // Generate new OTP code (5-digit number)
-    const otpCode = Math.floor(10000 + Math.random() * 90000).toString();
+    const otpCode = crypto.randomInt(10000, 100000).toString();
     const otpExpires = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
 
     user.otpCode = otpCode;
@@ -822,6 +1148,7 @@ export class AuthService {
     user.lockUntil = undefined;
 
     await user.save();
+    await tokenPolicyService.revokeAllTokens(user._id.toString(), 'password_changed');
     
     logAuth.passwordReset(email, 'OTP_RESET', true);
     logInfo(`AUTH: OTP password reset completed successfully: ${email}`);
@@ -851,7 +1178,7 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(password, this.SALT_ROUNDS);
 
     // Generate OTP code (5-digit number)
-    const otpCode = Math.floor(10000 + Math.random() * 90000).toString();
+    const otpCode = crypto.randomInt(10000, 100000).toString();
     const otpExpires = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
 
     // Create admin with OTP
@@ -892,7 +1219,7 @@ export class AuthService {
   /**
    * Admin login
    */
-  async adminLogin(loginData: LoginData): Promise<AuthResponse> {
+  async adminLogin(loginData: LoginData): Promise<LoginResult> {
     const { email, password } = loginData;
     
     logInfo(`AUTH: Admin login attempt for ${email}`);
@@ -913,14 +1240,7 @@ export class AuthService {
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, admin.password);
     if (!isPasswordValid) {
-      admin.loginAttempts = (admin.loginAttempts || 0) + 1;
-      
-      if (admin.loginAttempts >= this.MAX_LOGIN_ATTEMPTS) {
-        admin.lockUntil = new Date(Date.now() + this.LOCK_TIME);
-        logAuth.accountLock(email, admin.loginAttempts);
-      }
-      
-      await admin.save();
+      await this.handleFailedAdminLogin(admin);
       logAuth.login(email, false, 'Invalid password');
       throw new Error('Invalid email or password');
     }
@@ -928,6 +1248,50 @@ export class AuthService {
     // Reset login attempts on successful login
     admin.loginAttempts = 0;
     admin.lockUntil = undefined;
+
+    // Mandatory by default for admins (TWO_FACTOR_REQUIRED_FOR_ADMINS)
+    if (admin.twoFactor?.enabled || twoFactorService.isRequired('admin')) {
+      await admin.save();
+      logInfo(`AUTH: Admin password accepted, two-factor challenge issued: ${email}`);
+      return twoFactorService.issueChallenge(admin, 'admin');
+    }
+
+    return this.completeAdminLogin(admin);
+  }
+
+  /**
+   * Second admin login step, see verifyTwoFactorLogin
+   */
+  async verifyAdminTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    const challenge = twoFactorService.verifyChallenge(challengeToken, 'admin');
+    const admin = await Admin.findById(challenge.accountId);
+
+    if (!admin || !admin.isActive) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+    if (admin.isLocked) {
+      logAuth.securityEvent(admin.email, 'Two-factor attempt while locked');
+      throw new Error('Admin account is locked. Please try again later.');
+    }
+
+    let recoveryCodes: string[] | undefined;
+    try {
+      if (challenge.setup) {
+        recoveryCodes = await twoFactorService.confirmEnrollment(admin, code);
+      } else if (!(await twoFactorService.verify(admin, code))) {
+        throw new Error('Invalid two-factor code');
+      }
+    } catch (error) {
+      logAuth.login(admin.email, false, 'Invalid two-factor code');
+      await this.handleFailedAdminLogin(admin);
+      throw error;
+    }
+
+    const response = await this.completeAdminLogin(admin);
+    return recoveryCodes ? { ...response, recoveryCodes } : response;
+  }
+
+  private async completeAdminLogin(admin: IAdmin): Promise<AuthResponse> {
     admin.lastLogin = new Date();
     await admin.save();
 
@@ -944,7 +1308,7 @@ export class AuthService {
       { expiresIn: '7d' }
     );
 
-    logAuth.login(email, true);
+    logAuth.login(admin.email, true);
 
     return {
       user: {
@@ -0,0 +1,343 @@
+import { Types } from 'mongoose';
+import { SubscriptionPlan, ISubscriptionPlan, BillingInterval } from '../models/schemas/SubscriptionPlan';
+import { User } from '../models/schemas/User';
+import { PaymentEventRecord, PaymentEventStatus } from '../models/schemas/PaymentEventRecord';
+import { IUserSubscription } from '../models/schemas/UserSubscription';
+import { PaymentProvider, PaymentEvent, createPaymentProvider } from './paymentProvider';
+import { FakePaymentProvider, FakeWebhookDelivery } from './fakePaymentProvider';
+import { userSubscriptionService } from './userSubscriptionService';
+import { couponService } from './couponService';
+import { logInfo, logWarn, logError } from '../utils/logger';
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  status: Exclude<PaymentEventStatus, 'processing' | 'failed'> | 'duplicate';
+}
+
+export interface CheckoutOptions {
+  priceId?: string; // defaults to the plan's monthly price in PAYMENT_CURRENCY
+  couponCode?: string;
+}
+
+export interface CheckoutResult {
+  checkoutId: string;
+  url: string;
+  interval: BillingInterval;
+  currency: string;
+  amount: number; // minor units per interval
+  discountAmount: number; // off the first charge
+  trialDays: number;
+}
+
+export type FakePaymentAction = 'checkout.completed' | 'invoice.paid' | 'invoice.payment_failed' | 'subscription.ended';
+
+/**
+ * Takes payment for subscription plans through a PaymentProvider (PAYMENT_PROVIDER)
+ * and applies the provider's webhook events to user subscriptions.
+ */
+export class BillingService {
+  private paymentProvider?: PaymentProvider;
+  private unavailableReason?: string;
+
+  constructor(private createProvider: () => PaymentProvider = () => createPaymentProvider()) {}
+
+  // Created on first use so the provider reads its configuration after startup
+  get provider(): PaymentProvider {
+    if (!this.isAvailable()) {
+      throw new Error(`Billing is unavailable: ${this.unavailableReason}`);
+    }
+    return this.paymentProvider!;
+  }
+
+  /**
+   * Whether a payment provider is configured. Billing is optional: a missing or
+   * unusable provider is logged once and billing requests are refused, while the
+   * rest of the server keeps running.
+   */
+  isAvailable(): boolean {
+    if (!this.paymentProvider && this.unavailableReason === undefined) {
+      try {
+        this.paymentProvider = this.createProvider();
+      } catch (error) {
+        this.unavailableReason = error instanceof Error ? error.message : String(error);
+        logWarn(`BILLING: Payment provider unavailable, billing is disabled: ${this.unavailableReason}`);
+      }
+    }
+    return !!this.paymentProvider;
+  }
+
+  /**
+   * Hosted checkout for a plan price, with an optional coupon. The plan's trial
+   * applies to users who never had a subscription. Completing the checkout is
+   * reported by a checkout.completed webhook.
+   */
+  async createCheckout(userId: string, planId: string, options: CheckoutOptions = {}): Promise<CheckoutResult> {
+    const plan = Types.ObjectId.isValid(planId) ? await SubscriptionPlan.findById(planId) : null;
+    if (!plan) {
+      throw new Error('Subscription plan not found');
+    }
+    if (!plan.isActive) {
+      throw new Error('Invalid plan: subscription plan cannot be purchased');
+    }
+
+    const price = this.resolvePrice(plan, options.priceId);
+    if (price.amount <= 0) {
+      throw new Error('Invalid plan: free plans are not sold through checkout');
+    }
+
+    const current = await userSubscriptionService.getCurrentSubscription(userId);
+    if (current && current.planId.equals(plan._id) && current.status !== 'past_due' && current.status !== 'canceled') {
+      throw new Error('User is already on this plan');
+    }
+
+    const user = await User.findById(userId).select('email');
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const discount = options.couponCode
+      ? await couponService.validateCoupon(options.couponCode, plan._id.toString(), price)
+      : undefined;
+    const firstSubscription = (await userSubscriptionService.getSubscriptionHistory(userId)).length === 0;
+    const trialDays = firstSubscription ? plan.trialDays || 0 : 0;
+
+    const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+    const session = await this.provider.createCheckoutSession({
+      userId,
+      email: user.email,
+      planId: plan._id.toString(),
+      planName: plan.name,
+      priceId: price.id,
+      interval: price.interval,
+      amount: price.amount,
+      currency: price.currency,
+      trialDays: trialDays || undefined,
+      couponCode: discount?.code,
+      discountAmount: discount?.discountAmount,
+      customerId: await userSubscriptionService.getBillingCustomerId(userId, this.provider.providerName),
+      successUrl: process.env.PAYMENT_SUCCESS_URL || `${clientUrl}/billing/success`,
+      cancelUrl: process.env.PAYMENT_CANCEL_URL || `${clientUrl}/billing/cancel`,
+    });
+
+    logInfo(`BILLING: Checkout ${session.id} created for user ${userId} (${plan.name}, ${price.interval}ly)`);
+    return {
+      checkoutId: session.id,
+      url: session.url,
+      interval: price.interval,
+      currency: price.currency,
+      amount: price.amount,
+      discountAmount: discount?.discountAmount || 0,
+      trialDays,
+    };
+  }
+
+  /**
+   * Customer portal link for a user who has paid before
+   */
+  async createPortal(userId: string): Promise<{ url: string }> {
+    const customerId = await userSubscriptionService.getBillingCustomerId(userId, this.provider.providerName);
+    if (!customerId) {
+      throw new Error('Billing customer not found');
+    }
+
+    return this.provider.createPortalSession(
+      customerId,
+      process.env.PAYMENT_PORTAL_RETURN_URL || `${process.env.CLIENT_URL || 'http://localhost:3000'}/settings`
+    );
+  }
+
+  /**
+   * Cancel the user's subscription, and stop the provider renewing it if it is paid
+   */
+  async cancelSubscription(userId: string, reason?: string): Promise<IUserSubscription> {
+    const subscription = await userSubscriptionService.cancelSubscription(userId, reason);
+
+    if (subscription.billing?.provider === this.provider.providerName) {
+      try {
+        await this.provider.cancelSubscription(subscription.billing.subscriptionId);
+      } catch (error) {
+        logError(`BILLING: Failed to cancel provider subscription ${subscription.billing.subscriptionId}`, error);
+      }
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Verify and apply a webhook delivery. Each event id is applied once; a delivery
+   * of an event that failed before is applied again. Throws when applying fails
+   * so the provider retries.
+   */
+  async handleWebhook(
+    rawBody: Buffer | string,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<WebhookResult> {
+    const event = this.provider.verifyWebhook(rawBody, headers);
+    const provider = this.provider.providerName;
+
+    let record;
+    try {
+      record = await PaymentEventRecord.create({
+        provider,
+        eventId: event.id,
+        type: event.type,
+        status: 'processing',
+        subscriptionId: event.subscriptionId,
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+
+      record = await PaymentEventRecord.findOneAndUpdate(
+        { provider, eventId: event.id, status: 'failed' },
+        { $set: { status: 'processing' }, $inc: { attempts: 1 } },
+        { new: true }
+      );
+      if (!record) {
+        logInfo(`BILLING: Skipping duplicate event ${event.id} (${event.type})`);
+        return { eventId: event.id, type: event.type, status: 'duplicate' };
+      }
+    }
+
+    try {
+      const outcome = await this.applyEvent(event);
+      record.status = outcome.status;
+      record.userId = outcome.userId;
+      record.error = undefined;
+      record.processedAt = new Date();
+      await record.save();
+
+      logInfo(`BILLING: Event ${event.id} (${event.type}) ${outcome.status}`);
+      return { eventId: event.id, type: event.type, status: outcome.status };
+    } catch (error) {
+      record.status = 'failed';
+      record.error = error instanceof Error ? error.message : String(error);
+      await record.save().catch((saveError) => logError(`BILLING: Failed to record event ${event.id}`, saveError));
+      throw error;
+    }
+  }
+
+  /**
+   * Run a fake provider event through the webhook handler (local development only)
+   */
+  async simulateFakeEvent(userId: string, action: FakePaymentAction, checkoutId?: string): Promise<WebhookResult> {
+    const provider = this.provider;
+    if (!(provider instanceof FakePaymentProvider)) {
+      throw new Error('Cannot simulate events: the fake payment provider is not enabled');
+    }
+
+    let delivery: FakeWebhookDelivery;
+    if (action === 'checkout.completed') {
+      if (!checkoutId) {
+        throw new Error('Invalid request: checkoutId is required');
+      }
+      delivery = provider.simulateCheckoutCompleted(checkoutId, userId);
+    } else {
+      const subscription = await userSubscriptionService.getCurrentSubscription(userId);
+      const subscriptionId = subscription?.billing?.provider === provider.providerName ? subscription.billing.subscriptionId : undefined;
+      if (!subscriptionId) {
+        throw new Error('Paid subscription not found');
+      }
+
+      delivery =
+        action === 'invoice.paid'
+          ? provider.simulateRenewalPaid(subscriptionId)
+          : action === 'invoice.payment_failed'
+            ? provider.simulateRenewalFailed(subscriptionId)
+            : provider.simulateSubscriptionEnded(subscriptionId);
+    }
+
+    return this.handleWebhook(delivery.rawBody, delivery.headers);
+  }
+
+  /**
+   * The price a checkout charges: the requested entry, else the plan's monthly
+   * price in PAYMENT_CURRENCY, else its legacy monthlyPrice
+   */
+  private resolvePrice(
+    plan: ISubscriptionPlan,
+    priceId?: string
+  ): { id?: string; interval: BillingInterval; currency: string; amount: number } {
+    const currency = process.env.PAYMENT_CURRENCY || 'usd';
+
+    const price = priceId
+      ? plan.prices.find((p) => p._id.toString() === priceId && p.isActive)
+      : plan.prices.find((p) => p.isActive && p.interval === 'month' && p.currency === currency);
+    if (price) {
+      return { id: price._id.toString(), interval: price.interval, currency: price.currency, amount: price.amount };
+    }
+    if (priceId) {
+      throw new Error('Price not found');
+    }
+
+    return { interval: 'month', currency, amount: Math.round(plan.monthlyPrice * 100) };
+  }
+
+  private async applyEvent(event: PaymentEvent): Promise<{ status: 'processed' | 'ignored'; userId?: string }> {
+    const provider = this.provider.providerName;
+
+    if (event.type === 'checkout.completed') {
+      if (!event.userId || !event.planId || !event.subscriptionId) {
+        logWarn(`BILLING: Checkout event ${event.id} is missing user, plan or subscription`);
+        return { status: 'ignored' };
+      }
+
+      // A plan change or re-subscribe replaces the user's provider subscription. Stop the old one
+      // renewing first; its later invoices would be charged but never applied. A failure here
+      // fails the event so the provider delivers it again.
+      const current = await userSubscriptionService.getCurrentSubscription(event.userId);
+      const replaced = current?.billing;
+      if (replaced?.provider === provider && replaced.subscriptionId !== event.subscriptionId) {
+        await this.provider.cancelSubscription(replaced.subscriptionId);
+        logInfo(`BILLING: Canceled provider subscription ${replaced.subscriptionId}, replaced by ${event.subscriptionId}`);
+      }
+
+      await userSubscriptionService.startPaidSubscription(
+        event.userId,
+        event.planId,
+        { provider, customerId: event.customerId, subscriptionId: event.subscriptionId },
+        { interval: event.interval || 'month', trialEnd: event.trialEnd }
+      );
+      if (event.couponCode) {
+        await couponService.redeemCoupon(event.couponCode);
+      }
+      return { status: 'processed', userId: event.userId };
+    }
+
+    if (!['invoice.paid', 'invoice.payment_failed', 'subscription.ended'].includes(event.type)) {
+      return { status: 'ignored' };
+    }
+
+    const billed = event.subscriptionId
+      ? await userSubscriptionService.findByBillingSubscription(provider, event.subscriptionId)
+      : null;
+    const userId = billed?.userId.toString();
+    // Only the user's current subscription follows the provider; a replaced one is left alone
+    const subscription = userId ? await userSubscriptionService.getCurrentSubscription(userId) : null;
+    if (!userId || !subscription || !subscription._id.equals(billed!._id)) {
+      logWarn(`BILLING: No live subscription for ${event.type} event ${event.id} (${event.subscriptionId})`);
+      return { status: 'ignored', userId };
+    }
+
+    switch (event.type) {
+      case 'invoice.paid':
+        await userSubscriptionService.recordRenewalPayment(userId, event.periodEnd);
+        break;
+
+      case 'invoice.payment_failed':
+        if (subscription.status !== 'active') {
+          return { status: 'ignored', userId };
+        }
+        await userSubscriptionService.markPastDue(userId, `Payment failed (${event.id})`);
+        break;
+
+      case 'subscription.ended':
+        await userSubscriptionService.endPaidSubscription(userId, `Ended by ${provider} (${event.id})`);
+        break;
+    }
+
+    return { status: 'processed', userId };
+  }
+}
+
+export const billingService = new BillingService();
@@ -0,0 +1,112 @@
+/**
+ * EXPLANATION: Capture SMS Provider
+ *
+ * Offline SmsProvider for local development and tests. Nothing leaves the
+ * machine: every message is kept in memory (read it back with `outbox` /
+ * `lastMessageTo`) and, when SMS_CAPTURE_FILE is set, appended to that file
+ * as one JSON object per line so a developer can `tail -f` it for login codes.
+ *
+ * Messages are reported as 'sent'. `simulateStatus` produces the delivery
+ * callback a carrier would send, which runs through the real status handler.
+ * Callbacks carry SMS_STATUS_CALLBACK_TOKEN in the x-sms-callback-token header.
+ * Select with SMS_PROVIDER=capture (the default).
+ *
+ * Captured messages hold live login codes, so the provider refuses to run in
+ * production, and the log line masks digits (read codes from the capture file).
+ */
+
+import { appendFileSync } from 'fs';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { logInfo, logWarn } from '../utils/logger';
+import type { SmsDeliveryStatus } from '../models/schemas/SmsMessage';
+import type { SmsProvider, OutgoingSms, SmsSendResult, SmsStatusReceipt } from './smsProvider';
+
+export const CAPTURE_CALLBACK_HEADER = 'x-sms-callback-token';
+
+export interface CapturedSms extends OutgoingSms {
+  providerMessageId: string;
+  sentAt: Date;
+}
+
+export interface CaptureStatusCallback {
+  body: SmsStatusReceipt;
+  headers: Record<string, string>;
+}
+
+const STATUSES: SmsDeliveryStatus[] = ['queued', 'sent', 'delivered', 'undelivered', 'failed'];
+
+export class CaptureSmsProvider implements SmsProvider {
+  readonly providerName = 'capture';
+
+  private messages: CapturedSms[] = [];
+
+  constructor(
+    private captureFile: string | undefined = process.env.SMS_CAPTURE_FILE || undefined,
+    private callbackToken: string = process.env.SMS_STATUS_CALLBACK_TOKEN || 'capture_callback_token'
+  ) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The capture SMS provider cannot be used in production');
+    }
+  }
+
+  async send(message: OutgoingSms): Promise<SmsSendResult> {
+    const captured: CapturedSms = { ...message, providerMessageId: `sms_capture_${randomUUID()}`, sentAt: new Date() };
+    this.messages.push(captured);
+
+    if (this.captureFile) {
+      try {
+        appendFileSync(this.captureFile, `${JSON.stringify(captured)}\n`);
+      } catch (error) {
+        logWarn(`[CaptureSmsProvider] Could not write to ${this.captureFile}: ${(error as Error).message}`);
+      }
+    } else {
+      logInfo(`[CaptureSmsProvider] To ${message.to}: ${message.body.replace(/\d/g, '•')}`);
+    }
+
+    return { providerMessageId: captured.providerMessageId, status: 'sent' };
+  }
+
+  parseStatusCallback(body: unknown, headers: Record<string, string | string[] | undefined>): SmsStatusReceipt {
+    const header = headers[CAPTURE_CALLBACK_HEADER];
+    const token = String(Array.isArray(header) ? header[0] : header || '');
+    if (token.length !== this.callbackToken.length || !timingSafeEqual(Buffer.from(token), Buffer.from(this.callbackToken))) {
+      throw new Error('Invalid status callback');
+    }
+
+    const receipt = body as Partial<SmsStatusReceipt> | undefined;
+    if (!receipt?.providerMessageId || !receipt.status || !STATUSES.includes(receipt.status)) {
+      throw new Error('Invalid status callback payload');
+    }
+
+    return { providerMessageId: receipt.providerMessageId, status: receipt.status, error: receipt.error };
+  }
+
+  /**
+   * Messages captured so far, oldest first (optionally only those to one number)
+   */
+  outbox(to?: string): CapturedSms[] {
+    return to ? this.messages.filter((m) => m.to === to) : [...this.messages];
+  }
+
+  lastMessageTo(to: string): CapturedSms | undefined {
+    return this.outbox(to).pop();
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+
+  /**
+   * The carrier's report for a captured message
+   */
+  simulateStatus(providerMessageId: string, status: SmsDeliveryStatus, error?: string): CaptureStatusCallback {
+    if (!this.messages.some((m) => m.providerMessageId === providerMessageId)) {
+      throw new Error('SMS message not found');
+    }
+
+    return {
+      body: { providerMessageId, status, error },
+      headers: { [CAPTURE_CALLBACK_HEADER]: this.callbackToken },
+    };
+  }
+}
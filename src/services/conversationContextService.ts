@@ -0,0 +1,179 @@
+import { Types } from 'mongoose';
+import { User } from '../models/schemas/User';
+import { Session } from '../models/schemas/Session';
+import { Message } from '../models/schemas/Message';
+import { ConversationContext } from '../types';
+import { logError } from '../utils/logger';
+
+export interface MemoryLimits {
+  maxMessages: number;
+  maxSessions: number;
+  maxMessageChars: number;
+  maxTotalChars: number;
+}
+
+const DEFAULT_LIMITS: MemoryLimits = {
+  maxMessages: 12,
+  maxSessions: 3,
+  maxMessageChars: 240,
+  maxTotalChars: 2000,
+};
+
+export class ConversationContextService {
+  private limits: MemoryLimits;
+
+  constructor(limits: Partial<MemoryLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /**
+   * Assemble what we know about a user from their earlier sessions.
+   * Turns from the current session are kept apart in sessionHistory so a fresh
+   * provider connection (e.g. switching between voice and text) can pick up where it left off.
+   */
+  async buildContext(userId: string, sessionId: string): Promise<ConversationContext> {
+    const context: ConversationContext = { userId, sessionId, conversationHistory: [] };
+
+    if (!Types.ObjectId.isValid(userId)) {
+      return context;
+    }
+
+    const [user, messages, sessions, sessionMessages] = await Promise.all([
+      User.findById(userId).select('name preferences crisisHistory supportLevel').lean(),
+      Message.find({ userId, sessionId: { $ne: sessionId } })
+        .select('role content timestamp')
+        .sort({ timestamp: -1 })
+        .limit(this.limits.maxMessages)
+        .lean(),
+      Session.find({ userId, sessionId: { $ne: sessionId }, status: 'ended' })
+        .select('sessionId startTime duration summary')
+        .sort({ startTime: -1 })
+        .limit(this.limits.maxSessions)
+        .lean(),
+      Message.find({ userId, sessionId })
+        .select('role content timestamp')
+        .sort({ timestamp: -1 })
+        .limit(this.limits.maxMessages)
+        .lean(),
+    ]);
+
+    if (user) {
+      context.userProfile = {
+        name: user.name,
+        preferences: user.preferences,
+        crisisHistory: user.crisisHistory,
+        supportLevel: user.supportLevel,
+      };
+    }
+
+    context.conversationHistory = messages.reverse().map((m) => ({
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp,
+    }));
+
+    context.sessionHistory = sessionMessages.reverse().map((m) => ({
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp,
+    }));
+
+    context.previousSessions = sessions.map((s) => ({
+      sessionId: s.sessionId,
+      startTime: s.startTime,
+      duration: s.summary?.duration ?? (s.duration ? Math.round(s.duration / 1000) : undefined),
+      averageEmotion: s.summary?.averageEmotion,
+      topEmotions: s.summary?.topEmotions,
+      crisisDetected: s.summary?.crisisDetected,
+    }));
+
+    return context;
+  }
+
+  /**
+   * Render a context as instructions text, bounded to maxTotalChars.
+   * Oldest exchanges from earlier sessions are dropped first when over budget, then the
+   * oldest turns of the current session. Returns '' for a first-time user.
+   */
+  formatMemory(context: ConversationContext): string {
+    const profile = context.userProfile;
+    const sessions = context.previousSessions || [];
+    const history = context.conversationHistory;
+    const current = context.sessionHistory || [];
+
+    if (sessions.length === 0 && history.length === 0 && current.length === 0) {
+      return '';
+    }
+
+    const header: string[] = [
+      'Memory from previous conversations with this user (use it naturally; do not recite it back verbatim):',
+    ];
+    if (profile?.name) {
+      header.push(`- Name: ${profile.name}`);
+    }
+    if (profile?.supportLevel) {
+      header.push(`- Support level: ${profile.supportLevel}`);
+    }
+    if (profile?.crisisHistory) {
+      header.push('- Has experienced crisis moments before: check in gently on their safety and keep crisis resources ready.');
+    }
+
+    if (sessions.length > 0) {
+      header.push('- Recent sessions:');
+      for (const s of sessions) {
+        const parts = [new Date(s.startTime).toISOString().slice(0, 10)];
+        if (s.duration) parts.push(`${Math.max(1, Math.round(s.duration / 60))} min`);
+        if (s.topEmotions?.length) parts.push(`mood: ${s.topEmotions.join(', ')}`);
+        else if (s.averageEmotion) parts.push(`mood: ${s.averageEmotion}`);
+        if (s.crisisDetected) parts.push('crisis indicators detected');
+        header.push(`  - ${parts.join('; ')}`);
+      }
+    }
+
+    const formatLine = (m: { role: string; content: string }) =>
+      `  ${m.role === 'user' ? 'User' : 'AVA'}: ${this.truncate(m.content, this.limits.maxMessageChars)}`;
+    const lines = history.map(formatLine);
+    const currentLines = current.map(formatLine);
+
+    let text = this.render(header, lines, currentLines);
+    while ((lines.length > 0 || currentLines.length > 0) && text.length > this.limits.maxTotalChars) {
+      (lines.length > 0 ? lines : currentLines).shift();
+      text = this.render(header, lines, currentLines);
+    }
+
+    // Header alone can still exceed a very small budget
+    return text.length > this.limits.maxTotalChars
+      ? `${text.slice(0, this.limits.maxTotalChars - 3)}...`
+      : text;
+  }
+
+  /**
+   * Build and format memory for a session; failures degrade to no memory
+   */
+  async buildMemory(userId: string, sessionId: string): Promise<string> {
+    try {
+      return this.formatMemory(await this.buildContext(userId, sessionId));
+    } catch (error) {
+      logError(`[ConversationContext] Failed to build memory for user ${userId}`, error);
+      return '';
+    }
+  }
+
+  private render(header: string[], lines: string[], currentLines: string[]): string {
+    const parts = [...header];
+    if (lines.length > 0) {
+      parts.push('- Last exchanges:', ...lines);
+    }
+    if (currentLines.length > 0) {
+      parts.push('- Earlier in this conversation (continue from here):', ...currentLines);
+    }
+    return parts.join('\n');
+  }
+
+  private truncate(text: string, max: number): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean.length > max ? `${clean.slice(0, max - 3)}...` : clean;
+  }
+}
+
+export const conversationContextService = new ConversationContextService();
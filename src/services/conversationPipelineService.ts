@@ -0,0 +1,285 @@
+import { Session } from '../models/schemas/Session';
+import { Message, MessageSource } from '../models/schemas/Message';
+import { User } from '../models/schemas/User';
+import { CrisisDetectionResult, EmotionResult } from '../types';
+import { crisisDetectionService } from './crisisDetection';
+import { crisisEscalationService } from './crisisEscalationService';
+import { emotionDetectionService, EMOTION_ANALYSIS_VERSION } from './emotionDetection';
+import { conversationContextService } from './conversationContextService';
+import { personaService, ResolvedPersona } from './personaService';
+import { userSubscriptionService } from './userSubscriptionService';
+import { logInfo, logError, logWarn } from '../utils/logger';
+
+export interface PreparedConversation {
+  persona: ResolvedPersona | null;
+  memory: string;
+  crisisKeywords: string[];
+}
+
+export interface OpenSessionParams {
+  sessionId: string;
+  userId: string;
+  channel: MessageSource;
+  persona: ResolvedPersona | null;
+  userPreferences?: any;
+  metadata?: Record<string, unknown>;
+}
+
+export interface UserMessageAnalysis {
+  emotion?: EmotionResult;
+  crisis?: CrisisDetectionResult;
+  shouldEscalate: boolean;
+}
+
+export interface SaveUserMessageParams {
+  sessionId: string;
+  userId: string;
+  content: string;
+  source: MessageSource;
+  analysis: UserMessageAnalysis;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SaveAssistantMessageParams {
+  sessionId: string;
+  userId: string;
+  content: string;
+  source: MessageSource;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * The per-turn pipeline shared by the voice gateway and text chat:
+ * persona and memory on session start, then emotion, crisis detection,
+ * escalation and persistence for every message.
+ */
+export class ConversationPipelineService {
+  /**
+   * Resolve everything a provider connection needs for this user and session
+   * (the persona falls back to the one of the user's plan)
+   */
+  async prepare(userId: string, sessionId: string): Promise<PreparedConversation> {
+    const planId = await userSubscriptionService.getCurrentPlanId(userId);
+    const [persona, memory, crisisKeywords] = await Promise.all([
+      personaService.resolveForUser(userId, planId),
+      conversationContextService.buildMemory(userId, sessionId),
+      this.loadCrisisKeywords(userId),
+    ]);
+
+    return { persona, memory, crisisKeywords };
+  }
+
+  /**
+   * A client-supplied session id is usable if it is new or already owned by this user.
+   * When ownership can't be checked the id is refused, so nobody can write into
+   * another user's session while the database is unavailable.
+   */
+  async isSessionIdAvailable(sessionId: string, userId: string): Promise<boolean> {
+    try {
+      const existing = await Session.findOne({ sessionId }).select('userId');
+      return !existing || existing.userId.toString() === userId;
+    } catch (error) {
+      logError(`[ConversationPipeline] Failed to check ownership of session ${sessionId}; refusing it`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Create or reopen the session document and stamp the persona version in use.
+   * Failures are logged - a conversation should not be blocked by the session record.
+   */
+  async openSession(params: OpenSessionParams): Promise<void> {
+    const { sessionId, userId, channel, persona, userPreferences, metadata } = params;
+
+    try {
+      await Session.findOneAndUpdate(
+        { sessionId, userId },
+        {
+          $set: {
+            status: 'active',
+            ...(userPreferences !== undefined && { userPreferences }),
+            ...(persona && {
+              persona: {
+                personaId: persona.personaId,
+                versionId: persona.versionId,
+                version: persona.version,
+                name: persona.name,
+              },
+            }),
+            ...(metadata && { metadata }),
+          },
+          $addToSet: { channels: channel },
+          // ensure start time is set for duration calculations
+          $setOnInsert: { startTime: new Date() },
+          $unset: { endTime: 1, duration: 1, summary: 1, ...(!persona && { persona: 1 }) },
+        },
+        { upsert: true }
+      );
+      logInfo(`[ConversationPipeline] Session ${sessionId} opened for ${channel}`);
+    } catch (error) {
+      logError(`[ConversationPipeline] Failed to save session ${sessionId} to database`, error);
+    }
+  }
+
+  /**
+   * Emotion and crisis analysis for a user message; either step failing is logged and skipped
+   */
+  async analyzeUserMessage(text: string, crisisKeywords: string[] = []): Promise<UserMessageAnalysis> {
+    let emotion: EmotionResult | undefined;
+    try {
+      emotion = await emotionDetectionService.analyzeEmotion(text);
+    } catch (error) {
+      logError('[ConversationPipeline] Emotion analysis failed', error);
+    }
+
+    let crisis: CrisisDetectionResult | undefined;
+    try {
+      crisis = await crisisDetectionService.detectCrisis(text, { customKeywords: crisisKeywords });
+    } catch (error) {
+      logError('[ConversationPipeline] Crisis detection failed', error);
+    }
+
+    return {
+      emotion,
+      crisis,
+      shouldEscalate: !!crisis && crisisEscalationService.shouldEscalate(crisis),
+    };
+  }
+
+  /**
+   * Persist a user message with its analysis, then escalate high/critical detections (non-blocking)
+   */
+  async saveUserMessage(params: SaveUserMessageParams): Promise<string | undefined> {
+    const { sessionId, userId, content, source, analysis, metadata } = params;
+    const { emotion, crisis } = analysis;
+
+    if (crisis?.isCrisis) {
+      logWarn(`[ConversationPipeline] Crisis indicators (${crisis.severity}) detected in session ${sessionId}`);
+    }
+
+    let messageId: string | undefined;
+    try {
+      const saved = await Message.create({
+        sessionId,
+        userId,
+        role: 'user',
+        content,
+        source,
+        timestamp: new Date(),
+        emotionData: emotion ? {
+          primaryEmotion: emotion.primary,
+          confidence: emotion.confidence,
+          emotions: emotion.emotions,
+          analysisVersion: EMOTION_ANALYSIS_VERSION,
+        } : undefined,
+        crisisIndicators: crisis && crisis.keywords.length > 0 ? {
+          severity: crisis.severity,
+          keywords: crisis.keywords,
+          confidence: crisis.confidence,
+          actionTaken: crisis.recommendedAction,
+          escalated: false,
+        } : undefined,
+        metadata,
+      });
+      messageId = saved._id.toString();
+      logInfo(`[ConversationPipeline] User message saved for session ${sessionId}`);
+    } catch (error) {
+      logError(`[ConversationPipeline] Failed to save user message for session ${sessionId}`, error);
+    }
+
+    if (crisis && analysis.shouldEscalate) {
+      crisisEscalationService.escalate({
+        userId,
+        sessionId,
+        messageId,
+        detection: crisis,
+      }).catch((error) => {
+        logError(`[ConversationPipeline] Crisis escalation failed for session ${sessionId}`, error);
+      });
+    }
+
+    return messageId;
+  }
+
+  /**
+   * Persist a completed assistant reply
+   */
+  async saveAssistantMessage(params: SaveAssistantMessageParams): Promise<string | undefined> {
+    const { sessionId, userId, content, source, metadata } = params;
+
+    try {
+      const saved = await Message.create({
+        sessionId,
+        userId,
+        role: 'assistant',
+        content,
+        source,
+        timestamp: new Date(),
+        metadata,
+      });
+      logInfo(`[ConversationPipeline] Assistant message saved for session ${sessionId}`);
+      return saved._id.toString();
+    } catch (error) {
+      logError(`[ConversationPipeline] Failed to save assistant message for session ${sessionId}`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Barge-in: store only what the user heard of an interrupted reply.
+   * Updates the message if it was already saved (deleting it if nothing was heard);
+   * the full generated text is kept in metadata for review.
+   */
+  async saveInterruptedAssistantMessage(
+    params: SaveAssistantMessageParams & { messageId?: string; generatedContent: string; playedMs: number }
+  ): Promise<string | undefined> {
+    const { messageId, content, generatedContent, playedMs } = params;
+
+    if (!messageId) {
+      return content
+        ? this.saveAssistantMessage({
+          ...params,
+          metadata: { ...params.metadata, interrupted: true, playedMs, generatedContent },
+        })
+        : undefined;
+    }
+
+    try {
+      if (!content) {
+        await Message.deleteOne({ _id: messageId });
+        return undefined;
+      }
+
+      await Message.updateOne(
+        { _id: messageId },
+        {
+          $set: {
+            content,
+            'metadata.interrupted': true,
+            'metadata.playedMs': playedMs,
+            'metadata.generatedContent': generatedContent,
+          },
+        }
+      );
+      return messageId;
+    } catch (error) {
+      logError(`[ConversationPipeline] Failed to truncate assistant message ${messageId}`, error);
+      return messageId;
+    }
+  }
+
+  /**
+   * Load the user's personal crisis keywords (preferences.crisisKeywords)
+   */
+  async loadCrisisKeywords(userId: string): Promise<string[]> {
+    try {
+      const user = await User.findById(userId).select('preferences.crisisKeywords');
+      return user?.preferences?.crisisKeywords || [];
+    } catch (error) {
+      logWarn(`[ConversationPipeline] Could not load crisis keywords for user ${userId}`);
+      return [];
+    }
+  }
+}
+
+export const conversationPipelineService = new ConversationPipelineService();
@@ -0,0 +1,202 @@
+import { Types } from 'mongoose';
+import { Coupon, ICoupon, CouponDiscountType } from '../models/schemas/Coupon';
+import { SubscriptionPlan } from '../models/schemas/SubscriptionPlan';
+import { logInfo, logWarn } from '../utils/logger';
+
+export interface CreateCouponData {
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  percentOff?: number;
+  amountOff?: number;
+  currency?: string;
+  planIds?: string[];
+  maxRedemptions?: number;
+  expiresAt?: Date;
+}
+
+// The discount rule is fixed once created; only availability can change
+export interface UpdateCouponData {
+  description?: string;
+  planIds?: string[];
+  maxRedemptions?: number | null;
+  expiresAt?: Date | null;
+  isActive?: boolean;
+}
+
+export interface CouponDiscount {
+  code: string;
+  discountAmount: number; // minor units
+  finalAmount: number;
+}
+
+/**
+ * Work out what a coupon takes off a price (minor units, never below zero)
+ */
+export function applyCouponDiscount(
+  coupon: Pick<ICoupon, 'discountType' | 'percentOff' | 'amountOff'>,
+  amount: number
+): number {
+  const discount =
+    coupon.discountType === 'percent'
+      ? Math.round((amount * (coupon.percentOff || 0)) / 100)
+      : coupon.amountOff || 0;
+  return Math.min(amount, discount);
+}
+
+export class CouponService {
+  /**
+   * Create a promo code
+   */
+  async createCoupon(data: CreateCouponData): Promise<ICoupon> {
+    const code = data.code.trim().toUpperCase();
+    logInfo(`SUBSCRIPTION: Creating coupon: ${code}`);
+
+    if (await Coupon.findOne({ code })) {
+      logWarn(`SUBSCRIPTION: Coupon already exists: ${code}`);
+      throw new Error('Coupon with this code already exists');
+    }
+
+    if (data.discountType === 'percent' && !data.percentOff) {
+      throw new Error('Invalid coupon: percent coupons need percentOff');
+    }
+    if (data.discountType === 'fixed' && (!data.amountOff || !data.currency)) {
+      throw new Error('Invalid coupon: fixed coupons need amountOff and currency');
+    }
+
+    const planIds = await this.resolvePlanIds(data.planIds);
+
+    const coupon = new Coupon({
+      code,
+      description: data.description,
+      discountType: data.discountType,
+      percentOff: data.discountType === 'percent' ? data.percentOff : undefined,
+      amountOff: data.discountType === 'fixed' ? data.amountOff : undefined,
+      currency: data.discountType === 'fixed' ? data.currency : undefined,
+      planIds,
+      maxRedemptions: data.maxRedemptions,
+      expiresAt: data.expiresAt,
+      isActive: true,
+    });
+
+    await coupon.save();
+    logInfo(`SUBSCRIPTION: Coupon created successfully: ${code}`);
+
+    return coupon;
+  }
+
+  /**
+   * All coupons, newest first
+   */
+  async getAllCoupons(includeInactive: boolean = false): Promise<ICoupon[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return Coupon.find(filter).sort({ createdAt: -1 });
+  }
+
+  async getCouponById(couponId: string): Promise<ICoupon> {
+    const coupon = Types.ObjectId.isValid(couponId) ? await Coupon.findById(couponId) : null;
+    if (!coupon) {
+      throw new Error('Coupon not found');
+    }
+    return coupon;
+  }
+
+  /**
+   * Update availability (plans, limit, expiry, active flag)
+   */
+  async updateCoupon(couponId: string, data: UpdateCouponData): Promise<ICoupon> {
+    logInfo(`SUBSCRIPTION: Updating coupon: ${couponId}`);
+    const coupon = await this.getCouponById(couponId);
+
+    if (data.description !== undefined) coupon.description = data.description;
+    if (data.planIds !== undefined) coupon.planIds = await this.resolvePlanIds(data.planIds);
+    if (data.isActive !== undefined) coupon.isActive = data.isActive;
+    if (data.expiresAt !== undefined) coupon.expiresAt = data.expiresAt || undefined;
+
+    if (data.maxRedemptions !== undefined) {
+      if (data.maxRedemptions !== null && data.maxRedemptions < coupon.timesRedeemed) {
+        throw new Error(`Invalid maxRedemptions: coupon has already been redeemed ${coupon.timesRedeemed} times`);
+      }
+      coupon.maxRedemptions = data.maxRedemptions ?? undefined;
+    }
+
+    await coupon.save();
+    return coupon;
+  }
+
+  /**
+   * Delete a coupon that was never redeemed; redeemed coupons are kept for the record
+   */
+  async deleteCoupon(couponId: string): Promise<void> {
+    logInfo(`SUBSCRIPTION: Deleting coupon: ${couponId}`);
+    const coupon = await this.getCouponById(couponId);
+
+    if (coupon.timesRedeemed > 0) {
+      throw new Error('Cannot delete a coupon that has been redeemed; deactivate it instead');
+    }
+
+    await Coupon.findByIdAndDelete(coupon._id);
+  }
+
+  /**
+   * Check a code against a plan price and work out the discount
+   */
+  async validateCoupon(
+    code: string,
+    planId: string,
+    price: { amount: number; currency: string }
+  ): Promise<CouponDiscount> {
+    const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+    if (!coupon || !coupon.isActive) {
+      throw new Error('Invalid coupon: code not recognised');
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+      throw new Error('Invalid coupon: code has expired');
+    }
+    if (coupon.maxRedemptions !== undefined && coupon.timesRedeemed >= coupon.maxRedemptions) {
+      throw new Error('Invalid coupon: code has been fully redeemed');
+    }
+    if (coupon.planIds.length > 0 && !coupon.planIds.some((id) => id.toString() === planId)) {
+      throw new Error('Invalid coupon: code does not apply to this plan');
+    }
+    if (coupon.discountType === 'fixed' && coupon.currency !== price.currency) {
+      throw new Error(`Invalid coupon: code only applies to prices in ${coupon.currency}`);
+    }
+
+    const discountAmount = applyCouponDiscount(coupon, price.amount);
+    return { code: coupon.code, discountAmount, finalAmount: price.amount - discountAmount };
+  }
+
+  /**
+   * Count a redemption once payment went through. Returns false when the
+   * limit was reached in the meantime (the payment stands).
+   */
+  async redeemCoupon(code: string): Promise<boolean> {
+    const result = await Coupon.updateOne(
+      {
+        code: code.trim().toUpperCase(),
+        $or: [{ maxRedemptions: { $exists: false } }, { $expr: { $lt: ['$timesRedeemed', '$maxRedemptions'] } }],
+      },
+      { $inc: { timesRedeemed: 1 } }
+    );
+
+    if (result.modifiedCount === 0) {
+      logWarn(`SUBSCRIPTION: Coupon ${code} could not be redeemed (limit reached or deleted)`);
+      return false;
+    }
+    return true;
+  }
+
+  private async resolvePlanIds(planIds?: string[]): Promise<Types.ObjectId[]> {
+    if (!planIds || planIds.length === 0) return [];
+
+    const plans = await SubscriptionPlan.find({ _id: { $in: planIds.map((id) => new Types.ObjectId(id)) } }).select('_id');
+    if (plans.length !== new Set(planIds).size) {
+      const foundIds = plans.map((p) => p._id.toString());
+      throw new Error(`Invalid plans: ${planIds.filter((id) => !foundIds.includes(id)).join(', ')}`);
+    }
+    return plans.map((p) => p._id);
+  }
+}
+
+export const couponService = new CouponService();
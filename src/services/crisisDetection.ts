@@ -0,0 +1,343 @@
+import { CrisisDetectionResult } from '../types';
+import { logWarn } from '../utils/logger';
+
+export type CrisisSeverity = CrisisDetectionResult['severity'];
+
+export interface CrisisDetectionOptions {
+  /**
+   * Extra phrases configured per user (`preferences.crisisKeywords`).
+   * They are matched like the built-in high tier.
+   */
+  customKeywords?: string[];
+}
+
+export interface EmergencyResources {
+  crisis_hotlines: { [name: string]: string };
+  emergency: { [name: string]: string };
+}
+
+interface LexiconEntry {
+  keyword: string;
+  pattern: RegExp;
+}
+
+interface KeywordMatch {
+  keyword: string;
+  severity: CrisisSeverity;
+  negated: boolean;
+}
+
+const SEVERITY_RANK: Record<CrisisSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+const RANKED_SEVERITIES: CrisisSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const RECOMMENDED_ACTIONS: Record<CrisisSeverity, string> = {
+  critical: 'IMMEDIATE_INTERVENTION_REQUIRED',
+  high: 'URGENT_SUPPORT_NEEDED',
+  medium: 'ENHANCED_SUPPORT_RECOMMENDED',
+  low: 'CONTINUE_MONITORING',
+};
+
+// Base confidence per tier; each additional match in the same tier adds a little
+const BASE_CONFIDENCE: Record<CrisisSeverity, number> = {
+  critical: 0.92,
+  high: 0.75,
+  medium: 0.55,
+  low: 0.1,
+};
+
+const CRITICAL_PHRASES = [
+  'kill myself',
+  'killing myself',
+  'end my life',
+  'ending my life',
+  'take my own life',
+  'taking my own life',
+  'suicide',
+  'suicidal',
+  'want to die',
+  'wanna die',
+  'better off dead',
+  'no point living',
+  'no point in living',
+  'no reason to live',
+  "don't want to live",
+  "don't want to be alive",
+  "don't want to wake up",
+  'end it all',
+  'overdose',
+  'hang myself',
+  'jump off a bridge',
+  'goodbye forever',
+];
+
+const HIGH_PHRASES = [
+  'hurt myself',
+  'hurting myself',
+  'harm myself',
+  'self harm',
+  'self-harm',
+  'cut myself',
+  'cutting myself',
+  'panic attack',
+  'losing control',
+  'lose control',
+  "can't breathe",
+  "can't go on",
+  "can't take it anymore",
+  "can't do this anymore",
+  'no way out',
+  'falling apart',
+  'breaking down',
+];
+
+const MEDIUM_PHRASES = [
+  'hopeless',
+  'worthless',
+  'trapped',
+  'helpless',
+  'nobody cares',
+  'no one cares',
+  "can't cope",
+  'give up',
+  'giving up',
+];
+
+// Everyday words for a bad day; on their own they are tracked but not a warning sign
+const LOW_PHRASES = [
+  'burden',
+  'empty inside',
+  'all alone',
+  'so alone',
+  'numb',
+  'exhausted',
+];
+
+// Distinct low-tier phrases in one message that together count as a medium signal
+const LOW_SIGNALS_FOR_MEDIUM = 2;
+
+/**
+ * Figures of speech that contain crisis vocabulary but are not distress signals.
+ * They are blanked out before matching.
+ */
+const BENIGN_CONTEXT_PATTERNS: RegExp[] = [
+  /\bkill(?:ing|ed)? (?:it|time|the (?:game|vibe|mood))\b/g,
+  /\b(?:dying|die) (?:to|for) (?:see|try|know|hear|meet|get|go)\b/g,
+  /\bto die for\b/g,
+  /\b(?:bored|laughing|laughed|scared) to death\b/g,
+  /\b(?:almost|nearly) died laughing\b/g,
+  /\bmy phone (?:is )?dying\b/g,
+];
+
+const NEGATIONS = new Set([
+  'not',
+  'never',
+  'no',
+  "don't",
+  'dont',
+  "didn't",
+  "won't",
+  "wouldn't",
+  "isn't",
+  "aren't",
+  "wasn't",
+  'nor',
+]);
+
+// How many words before a match are inspected for a negation
+const NEGATION_WINDOW = 3;
+
+/**
+ * Rule-based crisis detector.
+ *
+ * Scans text against tiered lexicons (critical, high, medium, low), ignores
+ * known idioms, and demotes matches that are negated ("I would never
+ * hurt myself") so they are tracked without raising an alert. A single
+ * low-tier word ("exhausted") is not a crisis; two different ones are medium.
+ */
+export class CrisisDetectionService {
+  private readonly lexicon: Record<CrisisSeverity, LexiconEntry[]> = {
+    critical: CRITICAL_PHRASES.map((phrase) => this.buildEntry(phrase)),
+    high: HIGH_PHRASES.map((phrase) => this.buildEntry(phrase)),
+    medium: MEDIUM_PHRASES.map((phrase) => this.buildEntry(phrase)),
+    low: LOW_PHRASES.map((phrase) => this.buildEntry(phrase)),
+  };
+
+  /**
+   * Analyse a piece of user text for crisis indicators
+   */
+  async detectCrisis(
+    text: string,
+    options: CrisisDetectionOptions = {}
+  ): Promise<CrisisDetectionResult> {
+    const normalized = this.normalize(text || '');
+    if (!normalized) {
+      return this.buildResult([]);
+    }
+
+    const matches: KeywordMatch[] = [];
+    for (const severity of RANKED_SEVERITIES) {
+      for (const entry of this.lexicon[severity]) {
+        matches.push(...this.findMatches(normalized, entry, severity));
+      }
+    }
+
+    for (const keyword of options.customKeywords || []) {
+      const phrase = this.normalize(keyword);
+      if (!phrase) continue;
+      matches.push(...this.findMatches(normalized, this.buildEntry(phrase), 'high'));
+    }
+
+    return this.buildResult(matches);
+  }
+
+  /**
+   * Get emergency resources to surface alongside an alert
+   */
+  getEmergencyResources(): EmergencyResources {
+    return {
+      crisis_hotlines: {
+        'National Suicide Prevention Lifeline': '988',
+        'Crisis Text Line': 'Text HOME to 741741',
+        'SAMHSA National Helpline': '1-800-662-4357',
+      },
+      emergency: {
+        'Emergency Services': '911',
+      },
+    };
+  }
+
+  /**
+   * Build the user-facing guidance message for a given severity
+   */
+  getGuidanceMessage(severity: CrisisSeverity): string {
+    const resources = this.getEmergencyResources();
+    const lifeline = resources.crisis_hotlines['National Suicide Prevention Lifeline'];
+    const emergency = resources.emergency['Emergency Services'];
+
+    switch (severity) {
+      case 'critical':
+        return `Your safety matters. If you are in immediate danger, call ${emergency} now. You can also call or text ${lifeline} to reach the Suicide & Crisis Lifeline any time.`;
+      case 'high':
+        return `It sounds like you are going through something really hard. You don't have to face it alone - call or text ${lifeline} to talk to someone right now.`;
+      case 'medium':
+        return `Thank you for sharing how you feel. If things get heavier, support is available at ${lifeline}, day or night.`;
+      default:
+        return '';
+    }
+  }
+
+  private buildResult(matches: KeywordMatch[]): CrisisDetectionResult {
+    // Low-tier phrases only become a warning sign when several show up together
+    const lowSignals = new Set(matches.filter((m) => m.severity === 'low' && !m.negated).map((m) => m.keyword));
+    const promoteLow = lowSignals.size >= LOW_SIGNALS_FOR_MEDIUM;
+
+    // Negated mentions are demoted two tiers so "I would never kill myself"
+    // is recorded as a medium signal rather than an emergency
+    const effective = matches.map((match) => {
+      if (match.negated) {
+        return { ...match, severity: RANKED_SEVERITIES[Math.max(0, SEVERITY_RANK[match.severity] - 2)] };
+      }
+      return match.severity === 'low' && promoteLow ? { ...match, severity: 'medium' as const } : match;
+    });
+
+    const severity = effective.reduce<CrisisSeverity>(
+      (highest, match) =>
+        SEVERITY_RANK[match.severity] > SEVERITY_RANK[highest] ? match.severity : highest,
+      'low'
+    );
+
+    const keywords = Array.from(
+      new Set(effective.filter((m) => m.severity !== 'low').map((m) => m.keyword))
+    );
+
+    const sameTier = effective.filter((m) => m.severity === severity).length;
+    let confidence = 0;
+    if (severity !== 'low') {
+      confidence = Math.min(0.99, BASE_CONFIDENCE[severity] + 0.03 * Math.max(0, sameTier - 1));
+    } else if (matches.length > 0) {
+      confidence = BASE_CONFIDENCE.low;
+    }
+
+    const negatedCount = matches.filter((m) => m.negated).length;
+    const reasoning =
+      matches.length === 0
+        ? 'No crisis indicators found'
+        : `Matched ${matches.length} indicator(s)` +
+          (negatedCount > 0 ? `, ${negatedCount} negated` : '') +
+          `; highest tier: ${severity}`;
+
+    return {
+      isCrisis: SEVERITY_RANK[severity] >= SEVERITY_RANK.medium,
+      severity,
+      keywords,
+      confidence: Number(confidence.toFixed(2)),
+      recommendedAction: RECOMMENDED_ACTIONS[severity],
+      reasoning,
+    };
+  }
+
+  private findMatches(
+    text: string,
+    entry: LexiconEntry,
+    severity: CrisisSeverity
+  ): KeywordMatch[] {
+    const matches: KeywordMatch[] = [];
+    entry.pattern.lastIndex = 0;
+
+    let found: RegExpExecArray | null;
+    while ((found = entry.pattern.exec(text)) !== null) {
+      matches.push({
+        keyword: entry.keyword,
+        severity,
+        negated: this.isNegated(text, found.index),
+      });
+    }
+
+    return matches;
+  }
+
+  private isNegated(text: string, matchIndex: number): boolean {
+    // Only look within the current clause
+    const preceding = text.slice(0, matchIndex).split(/[.,;!?]/).pop() || '';
+    const words = preceding.trim().split(/\s+/).filter(Boolean).slice(-NEGATION_WINDOW);
+    return words.some((word) => NEGATIONS.has(word));
+  }
+
+  private buildEntry(phrase: string): LexiconEntry {
+    const escaped = phrase
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\s+/g, '\\s+');
+
+    try {
+      return { keyword: phrase, pattern: new RegExp(`(?<![\\w'])${escaped}(?![\\w'])`, 'g') };
+    } catch (error) {
+      logWarn(`[CrisisDetection] Could not compile keyword "${phrase}"`);
+      return { keyword: phrase, pattern: /$^/g };
+    }
+  }
+
+  private normalize(text: string): string {
+    let normalized = text
+      .toLowerCase()
+      .replace(/[‘’ʼ]/g, "'")
+      .replace(/\bcan not\b/g, "can't")
+      .replace(/\bcannot\b/g, "can't")
+      .replace(/\bdo not\b/g, "don't")
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    for (const pattern of BENIGN_CONTEXT_PATTERNS) {
+      normalized = normalized.replace(pattern, ' ');
+    }
+
+    return normalized;
+  }
+}
+
+export const crisisDetectionService = new CrisisDetectionService();
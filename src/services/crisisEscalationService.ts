@@ -0,0 +1,339 @@
+import { Types } from 'mongoose';
+import { CrisisEscalation, ICrisisEscalation, IEscalationStep } from '../models/schemas/CrisisEscalation';
+import { User, IUser } from '../models/schemas/User';
+import { Admin } from '../models/schemas/Admin';
+import { Message } from '../models/schemas/Message';
+import { AdminActor, CrisisDetectionResult } from '../types';
+import { logInfo, logError, logWarn } from '../utils/logger';
+import {
+  CrisisNotification,
+  CrisisNotificationChannel,
+  EmailCrisisChannel,
+  SmsCrisisChannel,
+} from './crisisNotificationChannels';
+import { maskPhone } from './smsService';
+
+export interface EscalateCrisisData {
+  userId: string;
+  sessionId?: string;
+  messageId?: string;
+  detection: CrisisDetectionResult;
+}
+
+export interface GetEscalationsOptions {
+  page?: number;
+  limit?: number;
+  status?: ICrisisEscalation['status'];
+  severity?: ICrisisEscalation['severity'];
+}
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export class CrisisEscalationService {
+  private channels: Map<string, CrisisNotificationChannel> = new Map();
+
+  constructor() {
+    this.registerChannel(new EmailCrisisChannel());
+    this.registerChannel(new SmsCrisisChannel());
+  }
+
+  /**
+   * Register (or replace) a notification channel by name
+   */
+  registerChannel(channel: CrisisNotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  /**
+   * Whether a detection is severe enough to escalate to humans
+   */
+  shouldEscalate(detection: CrisisDetectionResult): boolean {
+    return SEVERITY_RANK[detection.severity] >= SEVERITY_RANK.high;
+  }
+
+  /**
+   * Escalate a high or critical detection.
+   * Repeated detections in the same session are folded into the open case;
+   * notifications are only re-sent when the severity increases.
+   */
+  async escalate(data: EscalateCrisisData): Promise<ICrisisEscalation | null> {
+    const { userId, sessionId, messageId, detection } = data;
+
+    if (!this.shouldEscalate(detection)) {
+      return null;
+    }
+
+    logWarn(`CRISIS: Escalating ${detection.severity} detection for user ${userId} (session ${sessionId || 'n/a'})`);
+
+    let escalation = sessionId
+      ? await CrisisEscalation.findOne({ sessionId, status: { $ne: 'resolved' } })
+      : null;
+
+    let notify = true;
+    if (escalation) {
+      notify = SEVERITY_RANK[detection.severity] > SEVERITY_RANK[escalation.severity];
+      escalation.severity = notify ? detection.severity : escalation.severity;
+      escalation.keywords = Array.from(new Set([...escalation.keywords, ...detection.keywords]));
+      escalation.confidence = Math.max(escalation.confidence || 0, detection.confidence);
+      escalation.steps.push(this.step('repeat_detection', { note: `severity=${detection.severity}` }));
+    } else {
+      escalation = new CrisisEscalation({
+        userId,
+        sessionId,
+        messageId,
+        severity: detection.severity,
+        keywords: detection.keywords,
+        confidence: detection.confidence,
+        status: 'open',
+        steps: [this.step('detected', { note: detection.reasoning })],
+      });
+    }
+    await escalation.save();
+
+    await this.markMessageEscalated(messageId);
+
+    const user = await User.findById(userId);
+    if (user && !user.crisisHistory) {
+      user.crisisHistory = true;
+      await user.save();
+    }
+
+    if (notify) {
+      await this.notifyEmergencyContacts(escalation, user);
+      await this.alertAdmins(escalation, user);
+      await escalation.save();
+    }
+
+    logInfo(`CRISIS: Escalation ${escalation._id} recorded with ${escalation.steps.length} step(s)`);
+    return escalation;
+  }
+
+  /**
+   * List escalations for the admin console
+   */
+  async getEscalations(options: GetEscalationsOptions = {}): Promise<{
+    escalations: ICrisisEscalation[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+
+    const query: any = {};
+    if (options.status) query.status = options.status;
+    if (options.severity) query.severity = options.severity;
+
+    const [escalations, total] = await Promise.all([
+      CrisisEscalation.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      CrisisEscalation.countDocuments(query),
+    ]);
+
+    return { escalations, total, page, limit };
+  }
+
+  /**
+   * Get a single escalation
+   */
+  async getEscalationById(escalationId: string): Promise<ICrisisEscalation> {
+    const escalation = Types.ObjectId.isValid(escalationId)
+      ? await CrisisEscalation.findById(escalationId)
+      : null;
+
+    if (!escalation) {
+      throw new Error('Escalation not found');
+    }
+
+    return escalation;
+  }
+
+  /**
+   * Acknowledge an open escalation
+   */
+  async acknowledge(escalationId: string, admin: AdminActor, note?: string): Promise<ICrisisEscalation> {
+    const escalation = await this.getEscalationById(escalationId);
+
+    if (escalation.status === 'resolved') {
+      throw new Error('Escalation is already resolved');
+    }
+
+    if (!escalation.acknowledgedAt) {
+      escalation.acknowledgedAt = new Date();
+    }
+    if (escalation.status === 'open') {
+      escalation.status = 'acknowledged';
+    }
+    escalation.steps.push(this.step('acknowledged', { actorId: admin.adminId, actorEmail: admin.email, note }));
+
+    await escalation.save();
+    logInfo(`CRISIS: Escalation ${escalationId} acknowledged by admin ${admin.adminId}`);
+
+    return escalation;
+  }
+
+  /**
+   * Assign an escalation to an admin
+   */
+  async assign(escalationId: string, assigneeId: string, admin: AdminActor): Promise<ICrisisEscalation> {
+    const escalation = await this.getEscalationById(escalationId);
+
+    if (escalation.status === 'resolved') {
+      throw new Error('Escalation is already resolved');
+    }
+
+    const assignee = Types.ObjectId.isValid(assigneeId) ? await Admin.findById(assigneeId) : null;
+    if (!assignee || !assignee.isActive) {
+      throw new Error('Assignee admin not found');
+    }
+
+    escalation.assignedTo = {
+      adminId: assignee._id.toString(),
+      adminEmail: assignee.email,
+      assignedAt: new Date(),
+    };
+    escalation.acknowledgedAt = escalation.acknowledgedAt || new Date();
+    escalation.status = 'assigned';
+    escalation.steps.push(
+      this.step('assigned', { actorId: admin.adminId, actorEmail: admin.email, recipient: assignee.email })
+    );
+
+    await escalation.save();
+    logInfo(`CRISIS: Escalation ${escalationId} assigned to admin ${assignee._id} by ${admin.adminId}`);
+
+    return escalation;
+  }
+
+  /**
+   * Resolve an escalation with closing notes
+   */
+  async resolve(escalationId: string, admin: AdminActor, resolutionNotes: string): Promise<ICrisisEscalation> {
+    const escalation = await this.getEscalationById(escalationId);
+
+    if (escalation.status === 'resolved') {
+      throw new Error('Escalation is already resolved');
+    }
+
+    escalation.status = 'resolved';
+    escalation.resolvedAt = new Date();
+    escalation.resolutionNotes = resolutionNotes;
+    escalation.steps.push(
+      this.step('resolved', { actorId: admin.adminId, actorEmail: admin.email, note: resolutionNotes })
+    );
+
+    await escalation.save();
+    logInfo(`CRISIS: Escalation ${escalationId} resolved by admin ${admin.adminId}`);
+
+    return escalation;
+  }
+
+  private async notifyEmergencyContacts(escalation: ICrisisEscalation, user: IUser | null): Promise<void> {
+    if (!user) return;
+
+    if (user.preferences?.notificationSettings?.crisisAlerts === false) {
+      logInfo(`CRISIS: User ${user._id} has crisis alerts disabled; skipping emergency contacts`);
+      return;
+    }
+
+    const contacts = (user.preferences?.emergencyContacts || []).filter((c) => c.consentGiven);
+    for (const contact of contacts) {
+      await this.dispatch('sms', contact.phone, maskPhone(contact.phone), escalation, {
+        ...this.buildNotification(escalation, user, 'emergency_contact'),
+        recipientName: contact.name,
+      });
+    }
+  }
+
+  private async alertAdmins(escalation: ICrisisEscalation, user: IUser | null): Promise<void> {
+    const admins = await Admin.find({ isActive: true, emailVerified: true }).select('email');
+    const recipients = new Set(admins.map((a) => a.email));
+    if (process.env.CRISIS_ALERT_EMAIL) {
+      recipients.add(process.env.CRISIS_ALERT_EMAIL);
+    }
+
+    if (recipients.size === 0) {
+      logWarn(`CRISIS: No active admins to alert for escalation ${escalation._id}`);
+    }
+
+    for (const email of recipients) {
+      await this.dispatch('email', email, email, escalation, this.buildNotification(escalation, user, 'admin'));
+    }
+  }
+
+  private async dispatch(
+    channelName: string,
+    recipient: string,
+    displayRecipient: string,
+    escalation: ICrisisEscalation,
+    notification: CrisisNotification
+  ): Promise<void> {
+    const stepType = notification.audience === 'admin' ? 'admin_alerted' : 'contact_notified';
+    const channel = this.channels.get(channelName);
+
+    if (!channel) {
+      escalation.steps.push(
+        this.step('notification_failed', { channel: channelName, recipient: displayRecipient, note: 'Channel not registered' })
+      );
+      return;
+    }
+
+    try {
+      const result = await channel.send(recipient, notification);
+      escalation.steps.push(
+        this.step(result.delivered ? stepType : 'notification_failed', {
+          channel: channelName,
+          recipient: displayRecipient,
+          note: result.detail,
+        })
+      );
+    } catch (error) {
+      logError(`CRISIS: ${channelName} notification failed for escalation ${escalation._id}`, error);
+      escalation.steps.push(
+        this.step('notification_failed', {
+          channel: channelName,
+          recipient: displayRecipient,
+          note: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    }
+  }
+
+  private buildNotification(
+    escalation: ICrisisEscalation,
+    user: IUser | null,
+    audience: CrisisNotification['audience']
+  ): CrisisNotification {
+    return {
+      escalationId: escalation._id.toString(),
+      severity: escalation.severity,
+      keywords: escalation.keywords,
+      userId: escalation.userId,
+      userName: user?.name,
+      userEmail: user?.email,
+      sessionId: escalation.sessionId,
+      detectedAt: escalation.createdAt || new Date(),
+      audience,
+    };
+  }
+
+  private async markMessageEscalated(messageId?: string): Promise<void> {
+    if (!messageId) return;
+
+    try {
+      await Message.updateOne(
+        { _id: messageId },
+        { $set: { 'crisisIndicators.escalated': true, 'crisisIndicators.escalationTime': new Date() } }
+      );
+    } catch (error) {
+      logError(`CRISIS: Failed to mark message ${messageId} as escalated`, error);
+    }
+  }
+
+  private step(type: IEscalationStep['type'], details: Partial<IEscalationStep> = {}): IEscalationStep {
+    return { ...details, type, createdAt: new Date() };
+  }
+}
+
+export const crisisEscalationService = new CrisisEscalationService();
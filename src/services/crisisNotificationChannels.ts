@@ -0,0 +1,77 @@
+import { emailService } from './emailService';
+import { smsService, SmsTemplateVars } from './smsService';
+
+export interface CrisisNotification {
+  escalationId: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  keywords: string[];
+  userId: string;
+  userName?: string;
+  userEmail?: string;
+  sessionId?: string;
+  detectedAt: Date;
+  /** Who this notification goes to, used to pick the message template */
+  audience: 'emergency_contact' | 'admin';
+  recipientName?: string;
+}
+
+export interface CrisisNotificationResult {
+  delivered: boolean;
+  detail?: string;
+}
+
+/**
+ * A delivery channel for crisis notifications (SMS, email, pager, ...).
+ * Register custom implementations with `crisisEscalationService.registerChannel`.
+ */
+export interface CrisisNotificationChannel {
+  readonly name: string;
+  send(recipient: string, notification: CrisisNotification): Promise<CrisisNotificationResult>;
+}
+
+/**
+ * Email channel backed by the shared EmailService
+ */
+export class EmailCrisisChannel implements CrisisNotificationChannel {
+  readonly name = 'email';
+
+  async send(recipient: string, notification: CrisisNotification): Promise<CrisisNotificationResult> {
+    await emailService.sendCrisisAlert({
+      email: recipient,
+      escalationId: notification.escalationId,
+      severity: notification.severity,
+      keywords: notification.audience === 'admin' ? notification.keywords : [],
+      userId: notification.userId,
+      userEmail: notification.userEmail,
+      sessionId: notification.sessionId,
+      detectedAt: notification.detectedAt,
+    });
+
+    return { delivered: true };
+  }
+}
+
+/**
+ * SMS channel backed by the shared SmsService. Crisis alerts skip the per-number
+ * rate limit; "delivered" here means the provider accepted the message, and the
+ * carrier's receipt updates its SmsMessage record later.
+ */
+export class SmsCrisisChannel implements CrisisNotificationChannel {
+  readonly name = 'sms';
+
+  async send(recipient: string, notification: CrisisNotification): Promise<CrisisNotificationResult> {
+    const message = await smsService.send(recipient, 'crisis_alert', crisisSmsVars(notification), {
+      userId: notification.userId,
+    });
+
+    return { delivered: message.status !== 'failed', detail: `SMS ${message._id} ${message.status}` };
+  }
+}
+
+// Contacts never receive the matched keywords - only a request to reach out
+function crisisSmsVars(notification: CrisisNotification): SmsTemplateVars {
+  return {
+    who: notification.userName || 'Someone who listed you as an emergency contact',
+    greeting: notification.recipientName ? `Hi ${notification.recipientName}, ` : '',
+  };
+}
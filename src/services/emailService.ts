@@ -16,6 +16,17 @@ export interface OTPData {
   expiresIn: number;
 }
 
+export interface CrisisAlertEmailData {
+  email: string;
+  escalationId: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  keywords: string[];
+  userId: string;
+  userEmail?: string;
+  sessionId?: string;
+  detectedAt: Date;
+}
+
 export class EmailService {
   private transporter: nodemailer.Transporter;
 
@@ -157,6 +168,87 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send crisis escalation alert to an on-call admin
+   */
+  async sendCrisisAlert(alertData: CrisisAlertEmailData): Promise<void> {
+    const { email, escalationId, severity } = alertData;
+
+    logInfo(`EMAIL: Sending ${severity} crisis alert ${escalationId} to ${email}`);
+
+    const emailContent = this.generateCrisisAlertContent(alertData);
+
+    const mailOptions: EmailOptions = {
+      from: process.env.SMTP_USER || 'no-reply@avaflow.ai',
+      to: email,
+      subject: emailContent.subject,
+      html: emailContent.html,
+      text: emailContent.text,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      logInfo(`EMAIL: Crisis alert ${escalationId} sent successfully to ${email}`);
+    } catch (error) {
+      logError(`EMAIL: Failed to send crisis alert ${escalationId} to ${email}`, error);
+      throw new Error('Failed to send crisis alert email');
+    }
+  }
+
+  /**
+   * Generate crisis alert email content
+   */
+  private generateCrisisAlertContent(alertData: CrisisAlertEmailData): {
+    subject: string;
+    html: string;
+    text: string;
+  } {
+    const { escalationId, severity, keywords, userId, userEmail, sessionId, detectedAt } = alertData;
+    const adminUrl = `${process.env.ADMIN_URL || process.env.CLIENT_URL || 'http://localhost:3000'}/admin/crises/${escalationId}`;
+
+    const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>Crisis Alert</title>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #c0392b;">${severity.toUpperCase()} crisis alert</h2>
+        <p>A conversation has been escalated and needs a human response.</p>
+        <ul>
+            <li><strong>Escalation:</strong> ${escalationId}</li>
+            <li><strong>User:</strong> ${userEmail || userId}</li>
+            <li><strong>Session:</strong> ${sessionId || 'n/a'}</li>
+            <li><strong>Indicators:</strong> ${keywords.join(', ') || 'n/a'}</li>
+            <li><strong>Detected at:</strong> ${detectedAt.toISOString()}</li>
+        </ul>
+        <p><a href="${adminUrl}">Open the case in the admin console</a> to acknowledge it.</p>
+    </body>
+    </html>
+    `;
+
+    const text = `
+${severity.toUpperCase()} crisis alert - AVA
+
+A conversation has been escalated and needs a human response.
+
+Escalation: ${escalationId}
+User: ${userEmail || userId}
+Session: ${sessionId || 'n/a'}
+Indicators: ${keywords.join(', ') || 'n/a'}
+Detected at: ${detectedAt.toISOString()}
+
+Acknowledge the case: ${adminUrl}
+    `;
+
+    return {
+      subject: `[${severity.toUpperCase()}] Crisis alert - AVA`,
+      html,
+      text,
+    };
+  }
+
   /**
    * Generate OTP email content
    */
@@ -0,0 +1,226 @@
+import { EmotionResult } from '../types';
+
+export type EmotionLabel =
+  | 'sad'
+  | 'anxious'
+  | 'angry'
+  | 'stressed'
+  | 'calm'
+  | 'happy'
+  | 'hopeful';
+
+/**
+ * Version tag stored in `Message.emotionData.analysisVersion`.
+ * Bump it whenever the lexicon or scoring changes so historical data can be told apart.
+ */
+export const EMOTION_ANALYSIS_VERSION = 'lexicon-v1';
+
+export const EMOTION_LABELS: EmotionLabel[] = [
+  'sad',
+  'anxious',
+  'angry',
+  'stressed',
+  'calm',
+  'happy',
+  'hopeful',
+];
+
+const LEXICON: Record<EmotionLabel, { [word: string]: number }> = {
+  sad: {
+    sad: 1, sadness: 1, unhappy: 1, depressed: 1.2, depressing: 1, down: 0.6,
+    miserable: 1.2, lonely: 1, alone: 0.6, cry: 1, crying: 1, cried: 1, tears: 0.8,
+    heartbroken: 1.3, grief: 1.2, grieving: 1.2, hopeless: 1.2, empty: 0.8, hurt: 0.8,
+    lost: 0.6, blue: 0.5, gloomy: 0.8, upset: 0.8, disappointed: 0.8,
+  },
+  anxious: {
+    anxious: 1.2, anxiety: 1.2, worried: 1, worry: 1, worrying: 1, nervous: 1,
+    scared: 1, afraid: 1, fear: 1, fearful: 1, panic: 1.3, panicking: 1.3,
+    uneasy: 0.8, restless: 0.7, terrified: 1.3, dread: 1.1, overthinking: 0.9, tense: 0.7,
+  },
+  angry: {
+    angry: 1.2, anger: 1.2, mad: 1, furious: 1.4, annoyed: 0.8, irritated: 0.8,
+    frustrated: 0.9, frustrating: 0.8, hate: 1.1, rage: 1.4, resent: 1, pissed: 1.1,
+    outraged: 1.3, livid: 1.3,
+  },
+  stressed: {
+    stressed: 1.2, stress: 1, stressful: 1, overwhelmed: 1.2, overwhelming: 1,
+    pressure: 0.8, exhausted: 0.9, tired: 0.6, burnout: 1.2, burnt: 0.8, swamped: 0.9,
+    drained: 0.9, busy: 0.4, deadline: 0.6, deadlines: 0.6,
+  },
+  calm: {
+    calm: 1, relaxed: 1, peaceful: 1, content: 0.8, okay: 0.4, fine: 0.4, rested: 0.8,
+    settled: 0.7, balanced: 0.7, comfortable: 0.7, safe: 0.6, quiet: 0.4,
+  },
+  happy: {
+    happy: 1, glad: 0.9, joy: 1.1, joyful: 1.1, excited: 1, exciting: 0.9, great: 0.7,
+    good: 0.5, wonderful: 1, amazing: 1, awesome: 0.9, delighted: 1.1, cheerful: 1,
+    love: 0.8, loved: 0.8, grateful: 0.9, thankful: 0.9, proud: 0.8, fun: 0.6,
+  },
+  hopeful: {
+    hopeful: 1.2, hope: 0.9, optimistic: 1.1, better: 0.6, improving: 0.8,
+    looking: 0.2, forward: 0.3, confident: 0.8, motivated: 0.9, determined: 0.8,
+    progress: 0.7, encouraged: 0.9,
+  },
+};
+
+const INTENSIFIERS: { [word: string]: number } = {
+  really: 1.5,
+  very: 1.5,
+  so: 1.4,
+  extremely: 1.8,
+  incredibly: 1.7,
+  totally: 1.4,
+  super: 1.4,
+  too: 1.3,
+  quite: 1.2,
+  completely: 1.6,
+  deeply: 1.6,
+};
+
+const DIMINISHERS: { [word: string]: number } = {
+  slightly: 0.5,
+  somewhat: 0.6,
+  little: 0.6,
+  bit: 0.6,
+  kinda: 0.7,
+  kind: 0.7,
+  barely: 0.4,
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', "don't", 'dont', "didn't", "isn't", "wasn't",
+  "aren't", "won't", "can't", 'cannot', 'hardly', "doesn't",
+]);
+
+// A negated emotion leans towards its opposite with reduced weight
+const NEGATION_FLIP: Record<EmotionLabel, EmotionLabel> = {
+  happy: 'sad',
+  hopeful: 'sad',
+  calm: 'anxious',
+  sad: 'calm',
+  anxious: 'calm',
+  angry: 'calm',
+  stressed: 'calm',
+};
+
+const NEGATION_WEIGHT = 0.5;
+const NEGATION_WINDOW = 3;
+const NEUTRAL_CONFIDENCE = 0.5;
+
+/**
+ * Local, model-free text emotion analyzer.
+ *
+ * Scores each word against a weighted lexicon, scales by preceding
+ * intensifiers/diminishers and flips negated terms towards their opposite.
+ * Text with no emotional vocabulary is reported as "calm".
+ */
+export class EmotionDetectionService {
+  private readonly wordIndex: Map<string, Array<{ emotion: EmotionLabel; weight: number }>>;
+
+  constructor() {
+    this.wordIndex = new Map();
+    for (const emotion of EMOTION_LABELS) {
+      for (const [word, weight] of Object.entries(LEXICON[emotion])) {
+        const entries = this.wordIndex.get(word) || [];
+        entries.push({ emotion, weight });
+        this.wordIndex.set(word, entries);
+      }
+    }
+  }
+
+  /**
+   * Analyse text and return the dominant emotion with per-emotion scores (0-1)
+   */
+  async analyzeEmotion(text: string): Promise<EmotionResult> {
+    const tokens = this.tokenize(text || '');
+    const raw = this.emptyScores();
+    let hits = 0;
+
+    tokens.forEach((token, index) => {
+      const entries = this.wordIndex.get(token);
+      if (!entries) return;
+
+      const modifier = this.getModifier(tokens, index);
+      const negated = this.isNegated(tokens, index);
+
+      for (const { emotion, weight } of entries) {
+        const target = negated ? NEGATION_FLIP[emotion] : emotion;
+        raw[target] += weight * modifier * (negated ? NEGATION_WEIGHT : 1);
+      }
+      hits++;
+    });
+
+    const total = EMOTION_LABELS.reduce((sum, emotion) => sum + raw[emotion], 0);
+    if (total === 0) {
+      return {
+        primary: 'calm',
+        confidence: NEUTRAL_CONFIDENCE,
+        emotions: { ...this.emptyScores(), calm: 1 },
+      };
+    }
+
+    const emotions = this.emptyScores();
+    for (const emotion of EMOTION_LABELS) {
+      emotions[emotion] = Number((raw[emotion] / total).toFixed(3));
+    }
+
+    const primary = EMOTION_LABELS.reduce((best, emotion) =>
+      raw[emotion] > raw[best] ? emotion : best
+    );
+
+    // Dominance of the top emotion, tempered when only a word or two matched
+    const evidence = Math.min(1, 0.6 + 0.1 * hits);
+    const confidence = Number(Math.min(0.99, emotions[primary] * evidence).toFixed(3));
+
+    return { primary, confidence, emotions };
+  }
+
+  private getModifier(tokens: string[], index: number): number {
+    let modifier = 1;
+    // Look back over up to two adjacent modifiers ("really very sad")
+    for (let i = index - 1; i >= Math.max(0, index - 2); i--) {
+      const word = tokens[i];
+      if (INTENSIFIERS[word]) {
+        modifier *= INTENSIFIERS[word];
+      } else if (DIMINISHERS[word]) {
+        modifier *= DIMINISHERS[word];
+      } else if (word !== 'a') {
+        break;
+      }
+    }
+    return modifier;
+  }
+
+  private isNegated(tokens: string[], index: number): boolean {
+    for (let i = index - 1; i >= Math.max(0, index - NEGATION_WINDOW); i--) {
+      if (tokens[i] === '|') return false;
+      if (NEGATIONS.has(tokens[i])) return true;
+    }
+    return false;
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[‘’ʼ]/g, "'")
+      // Clause boundaries stop negations from leaking into the next clause
+      .replace(/[.,;!?]+/g, ' | ')
+      .replace(/[^a-z'|\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+
+  private emptyScores(): Record<EmotionLabel, number> {
+    return {
+      sad: 0,
+      anxious: 0,
+      angry: 0,
+      stressed: 0,
+      calm: 0,
+      happy: 0,
+      hopeful: 0,
+    };
+  }
+}
+
+export const emotionDetectionService = new EmotionDetectionService();
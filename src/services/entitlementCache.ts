@@ -0,0 +1,58 @@
+import type { UserEntitlements } from './userSubscriptionService';
+
+/**
+ * Per-node cache of user entitlements (null = no subscription).
+ * Entries expire after ttlMs or at the end of the subscription period, whichever
+ * comes first; plan, feature and subscription changes invalidate them right away.
+ * Other nodes pick up changes when their entries expire.
+ */
+export class EntitlementCache {
+  private entries: Map<string, { value: UserEntitlements | null; expiresAt: number }> = new Map();
+
+  constructor(private ttlMs: number = parseInt(process.env.ENTITLEMENT_CACHE_TTL_MS || '60000', 10)) {}
+
+  /**
+   * Cached entitlements, or undefined on a miss
+   */
+  get(userId: string): UserEntitlements | null | undefined {
+    const entry = this.entries.get(userId);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(userId);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(userId: string, value: UserEntitlements | null): void {
+    if (this.ttlMs <= 0) return;
+
+    let expiresAt = Date.now() + this.ttlMs;
+    if (value) {
+      expiresAt = Math.min(expiresAt, new Date(value.currentPeriodEnd).getTime());
+    }
+    this.entries.set(userId, { value, expiresAt });
+  }
+
+  invalidateUser(userId: string): void {
+    this.entries.delete(userId);
+  }
+
+  /**
+   * Drop every user on the plan (its features or limits changed)
+   */
+  invalidatePlan(planId: string): void {
+    for (const [userId, entry] of this.entries) {
+      if (entry.value?.planId === planId) {
+        this.entries.delete(userId);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export const entitlementCache = new EntitlementCache();
@@ -0,0 +1,199 @@
+/**
+ * EXPLANATION: Fake Payment Provider
+ *
+ * Offline PaymentProvider for local development and tests. Nothing is charged
+ * and no network access is needed.
+ *
+ * Checkout sessions, customers and subscriptions live in memory. The simulate*
+ * helpers produce the webhook deliveries a real provider would send (raw body
+ * plus signature header), so the whole flow runs through the real webhook
+ * handler: checkout -> activation -> renewal paid / failed -> past_due -> ended.
+ *
+ * Webhooks are signed with HMAC-SHA256 over `${timestamp}.${body}` using
+ * PAYMENT_WEBHOOK_SECRET (required), sent as `x-fake-signature: t=<unix seconds>,v1=<hex>`.
+ * Select with PAYMENT_PROVIDER=fake (the default). Refuses to start in production.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { logInfo } from '../utils/logger';
+import type {
+  PaymentProvider,
+  PaymentEvent,
+  PaymentEventType,
+  CheckoutSessionParams,
+  CheckoutSession,
+} from './paymentProvider';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+export interface FakeWebhookDelivery {
+  rawBody: string;
+  headers: Record<string, string>;
+  event: PaymentEvent;
+}
+
+interface FakeCheckout {
+  params: CheckoutSessionParams;
+  customerId: string;
+  subscriptionId?: string; // set once completed
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly providerName = 'fake';
+
+  private checkouts: Map<string, FakeCheckout> = new Map();
+  private subscriptions: Map<string, { customerId: string; interval: string; cancelAtPeriodEnd: boolean }> = new Map();
+
+  constructor(
+    private webhookSecret: string = process.env.PAYMENT_WEBHOOK_SECRET || '',
+    private checkoutBaseUrl: string = process.env.PAYMENT_FAKE_CHECKOUT_URL ||
+      `${process.env.CLIENT_URL || 'http://localhost:3000'}/billing/fake`,
+    private toleranceSeconds: number = parseInt(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || '300', 10)
+  ) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The fake payment provider cannot be used in production');
+    }
+    // Without a secret anyone could sign events for any user and plan
+    if (!webhookSecret) {
+      throw new Error('PAYMENT_WEBHOOK_SECRET is not set');
+    }
+  }
+
+  async createCheckoutSession(params: CheckoutSessionParams): Promise<CheckoutSession> {
+    const id = `cs_fake_${randomUUID()}`;
+    const customerId = params.customerId || `cus_fake_${randomUUID()}`;
+    this.checkouts.set(id, { params, customerId });
+
+    logInfo(
+      `[FakePaymentProvider] Checkout ${id} for user ${params.userId}: ${params.planName} ` +
+        `${params.amount - (params.discountAmount || 0)} ${params.currency}/${params.interval}`
+    );
+    return { id, url: `${this.checkoutBaseUrl}/checkout?session=${id}`, customerId };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }> {
+    return {
+      url: `${this.checkoutBaseUrl}/portal?customer=${encodeURIComponent(customerId)}&return=${encodeURIComponent(returnUrl)}`,
+    };
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (subscription) {
+      subscription.cancelAtPeriodEnd = true;
+    }
+  }
+
+  verifyWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): PaymentEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    const parts = new Map(
+      String(Array.isArray(header) ? header[0] : header || '')
+        .split(',')
+        .map((part) => part.split('=', 2) as [string, string])
+    );
+    const timestamp = parseInt(parts.get('t') || '', 10);
+    const signature = parts.get('v1') || '';
+    const body = rawBody.toString();
+
+    const expected = this.sign(timestamp, body);
+    if (
+      !timestamp ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error('Invalid webhook signature');
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > this.toleranceSeconds) {
+      throw new Error('Invalid webhook signature: timestamp outside the tolerance window');
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new Error('Invalid webhook payload');
+    }
+    return {
+      ...payload,
+      createdAt: new Date(payload.createdAt),
+      periodEnd: payload.periodEnd ? new Date(payload.periodEnd) : undefined,
+      trialEnd: payload.trialEnd ? new Date(payload.trialEnd) : undefined,
+    };
+  }
+
+  /**
+   * The user paid on the hosted checkout page (userId, when given, must own the checkout)
+   */
+  simulateCheckoutCompleted(checkoutId: string, userId?: string): FakeWebhookDelivery {
+    const checkout = this.checkouts.get(checkoutId);
+    if (!checkout || (userId && checkout.params.userId !== userId)) {
+      throw new Error('Checkout session not found');
+    }
+    if (checkout.subscriptionId) {
+      throw new Error('Checkout session already completed');
+    }
+
+    checkout.subscriptionId = `sub_fake_${randomUUID()}`;
+    this.subscriptions.set(checkout.subscriptionId, {
+      customerId: checkout.customerId,
+      interval: checkout.params.interval,
+      cancelAtPeriodEnd: false,
+    });
+
+    const { planId, interval, trialDays, couponCode } = checkout.params;
+    return this.deliver('checkout.completed', {
+      userId: checkout.params.userId,
+      planId,
+      customerId: checkout.customerId,
+      subscriptionId: checkout.subscriptionId,
+      interval,
+      trialEnd: trialDays ? new Date(Date.now() + trialDays * 24 * 60 * 60 * 1000) : undefined,
+      couponCode,
+    });
+  }
+
+  /**
+   * A renewal was collected (periodEnd defaults to one interval from now)
+   */
+  simulateRenewalPaid(subscriptionId: string, periodEnd?: Date): FakeWebhookDelivery {
+    const subscription = this.subscriptions.get(subscriptionId);
+    const days = subscription?.interval === 'year' ? 365 : 30;
+    return this.deliver('invoice.paid', {
+      subscriptionId,
+      customerId: subscription?.customerId,
+      periodEnd: periodEnd || new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+    });
+  }
+
+  simulateRenewalFailed(subscriptionId: string): FakeWebhookDelivery {
+    return this.deliver('invoice.payment_failed', {
+      subscriptionId,
+      customerId: this.subscriptions.get(subscriptionId)?.customerId,
+    });
+  }
+
+  simulateSubscriptionEnded(subscriptionId: string): FakeWebhookDelivery {
+    const customerId = this.subscriptions.get(subscriptionId)?.customerId;
+    this.subscriptions.delete(subscriptionId);
+    return this.deliver('subscription.ended', { subscriptionId, customerId });
+  }
+
+  /**
+   * Sign an event as the provider would send it
+   */
+  deliver(type: PaymentEventType, data: Omit<PaymentEvent, 'id' | 'type' | 'createdAt'>): FakeWebhookDelivery {
+    const event: PaymentEvent = { id: `evt_fake_${randomUUID()}`, type, createdAt: new Date(), ...data };
+    const rawBody = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    return {
+      rawBody,
+      headers: { [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, rawBody)}` },
+      event,
+    };
+  }
+
+  private sign(timestamp: number, body: string): string {
+    return createHmac('sha256', this.webhookSecret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
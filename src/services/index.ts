@@ -1,3 +1,26 @@
 export { UsersService } from './usersService';
 export { VoiceLiveService } from './voiceLiveService';
+export { MockVoiceProvider } from './mockVoiceProvider';
+export { createVoiceProvider } from './realtimeVoiceProvider';
 export { SubscriptionService, subscriptionService } from './subscriptionService';
+export { CrisisDetectionService, crisisDetectionService } from './crisisDetection';
+export { EmotionDetectionService, emotionDetectionService } from './emotionDetection';
+export { CrisisEscalationService, crisisEscalationService } from './crisisEscalationService';
+export { SessionSummaryService, sessionSummaryService } from './sessionSummaryService';
+export { PersonaService, personaService } from './personaService';
+export { ConversationContextService, conversationContextService } from './conversationContextService';
+export { ConversationPipelineService, conversationPipelineService } from './conversationPipelineService';
+export { TextChatService, textChatService } from './textChatService';
+export { AudioRecordingService, audioRecordingService } from './audioRecordingService';
+export { createPaymentProvider } from './paymentProvider';
+export { FakePaymentProvider } from './fakePaymentProvider';
+export { BillingService, billingService } from './billingService';
+export { PlanCatalogService, planCatalogService } from './planCatalogService';
+export { RefreshTokenService, refreshTokenService } from './refreshTokenService';
+export { TokenPolicyService, tokenPolicyService } from './tokenPolicyService';
+export { TwoFactorService, twoFactorService } from './twoFactorService';
+export { createSmsProvider } from './smsProvider';
+export { CaptureSmsProvider } from './captureSmsProvider';
+export { SmsService, smsService } from './smsService';
+export { JwksClient } from './jwksClient';
+export { OidcService, oidcService } from './oidcService';
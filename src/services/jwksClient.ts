@@ -0,0 +1,102 @@
+import https from 'https';
+import { readFile } from 'fs/promises';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { getJwksCacheSeconds } from '../config/oidc';
+import { logWarn } from '../utils/logger';
+
+export interface JwksSource {
+  uri: string;
+  file?: string; // local JWKS fixture, used instead of the uri
+}
+
+interface CachedKeySet {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+}
+
+// An unknown key id refreshes the set early, but not more often than this
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+const DOWNLOAD_TIMEOUT_MS = 5000;
+
+/**
+ * Signing keys published by identity providers as JWK sets, fetched (or read
+ * from a fixture file) and cached per source. Providers rotate keys, so a
+ * token signed with a key id we haven't seen reloads the set.
+ */
+export class JwksClient {
+  private cache: Map<string, CachedKeySet> = new Map();
+
+  constructor(private download: (uri: string) => Promise<unknown> = downloadJson) {}
+
+  async getKey(source: JwksSource, kid: string): Promise<KeyObject> {
+    const cacheKey = source.file || source.uri;
+    const now = Date.now();
+    let cached = this.cache.get(cacheKey);
+
+    const expired = !cached || now - cached.fetchedAt > getJwksCacheSeconds() * 1000;
+    const rotated = !!cached && !cached.keys.has(kid) && now - cached.fetchedAt > MIN_REFRESH_INTERVAL_MS;
+
+    if (expired || rotated) {
+      try {
+        cached = { keys: await this.load(source), fetchedAt: now };
+        this.cache.set(cacheKey, cached);
+      } catch (error) {
+        // Keep using the keys we have while the provider is unreachable
+        if (!cached) throw error;
+        logWarn(`OIDC: Could not refresh signing keys from ${cacheKey}: ${(error as Error).message}`);
+      }
+    }
+
+    const key = cached!.keys.get(kid);
+    if (!key) {
+      throw new Error('Signing key not found');
+    }
+    return key;
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async load(source: JwksSource): Promise<Map<string, KeyObject>> {
+    const body = source.file ? JSON.parse(await readFile(source.file, 'utf8')) : await this.download(source.uri);
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of ((body as { keys?: JsonWebKey[] })?.keys || [])) {
+      if (typeof jwk.kid !== 'string' || jwk.use === 'enc') continue;
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        logWarn(`OIDC: Skipping unusable signing key ${jwk.kid}`);
+      }
+    }
+
+    return keys;
+  }
+}
+
+function downloadJson(uri: string): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(uri, { timeout: DOWNLOAD_TIMEOUT_MS }, (response) => {
+      if (response.statusCode !== 200) {
+        response.resume();
+        reject(new Error(`JWKS request failed with status ${response.statusCode}`));
+        return;
+      }
+
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk) => (body += chunk));
+      response.on('end', () => {
+        try {
+          resolve(JSON.parse(body));
+        } catch {
+          reject(new Error('JWKS response is not valid JSON'));
+        }
+      });
+    });
+
+    request.on('timeout', () => request.destroy(new Error('JWKS request timed out')));
+    request.on('error', reject);
+  });
+}
@@ -0,0 +1,302 @@
+/**
+ * EXPLANATION: Mock Voice Provider
+ *
+ * Deterministic, offline RealtimeVoiceProvider used for local development,
+ * CI and Jest. No network access is needed.
+ *
+ * Behaviour:
+ * 1. Audio chunks form an utterance; after `utteranceSilenceMs` without audio the
+ *    utterance ends and a user transcript is emitted (scripted, or a description of the audio)
+ * 2. Each user turn (audio or text) gets an assistant reply that either echoes the
+ *    user or cycles through a script
+ * 3. Replies are streamed as word-by-word transcript deltas plus placeholder PCM16 audio
+ *    (a 440 Hz tone, 24kHz mono) sized to the reply length
+ *
+ * Text-only sessions (modalities: ['text']) get transcript deltas without audio.
+ * With chunkIntervalMs > 0 replies stream in real time and can be cancelled (barge-in).
+ *
+ * Ids are sequential (mock_resp_1, mock_item_1, ...) so output is identical run to run.
+ * Select with VOICE_PROVIDER=mock; MOCK_VOICE_MODE and MOCK_VOICE_SCRIPT ('|' separated) configure it.
+ */
+
+import { EventEmitter } from 'events';
+import { logInfo, logWarn } from '../utils/logger';
+import { VoiceLiveConnectOptions } from '../types/voiceLive';
+import { RealtimeVoiceProvider } from './realtimeVoiceProvider';
+
+export const MOCK_SAMPLE_RATE = 24000;
+
+export interface MockVoiceProviderOptions {
+  mode?: 'echo' | 'scripted';
+  script?: string[]; // Assistant replies, cycled in scripted mode
+  userTranscripts?: string[]; // What the user "said" for each audio utterance, cycled
+  utteranceSilenceMs?: number; // Quiet time after the last audio chunk that ends an utterance
+  responseDelayMs?: number; // Delay before the assistant reply starts streaming
+  msPerWord?: number; // Placeholder audio length per reply word
+  chunkMs?: number; // Duration of each audio chunk
+  chunkIntervalMs?: number; // Delay between streamed chunks (0 = emit a whole reply at once)
+  failConnect?: boolean; // Simulate an unreachable backend
+}
+
+/**
+ * EXPLANATION: Generate placeholder speech audio
+ * Returns 16-bit little-endian mono PCM of a quiet sine tone.
+ */
+export function synthesizePlaceholderPcm(durationMs: number, sampleRate: number = MOCK_SAMPLE_RATE): Buffer {
+  const samples = Math.max(0, Math.round((durationMs / 1000) * sampleRate));
+  const buffer = Buffer.alloc(samples * 2);
+  const amplitude = 0.2 * 32767;
+
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * 440 * i) / sampleRate)), i * 2);
+  }
+
+  return buffer;
+}
+
+export class MockVoiceProvider extends EventEmitter implements RealtimeVoiceProvider {
+  readonly providerName = 'mock';
+
+  private options: Required<Omit<MockVoiceProviderOptions, 'userTranscripts'>> & { userTranscripts: string[] };
+  private connected = false;
+  private sessionId?: string;
+  private withAudio = true;
+  private activeResponseId?: string;
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private utteranceTimer: NodeJS.Timeout | null = null;
+  private utteranceBytes = 0;
+  private utteranceCount = 0;
+  private responseCount = 0;
+
+  constructor(options: MockVoiceProviderOptions = {}) {
+    super();
+
+    const envScript = process.env.MOCK_VOICE_SCRIPT?.split('|').map((s) => s.trim()).filter(Boolean);
+
+    this.options = {
+      mode: options.mode || (process.env.MOCK_VOICE_MODE === 'scripted' ? 'scripted' : 'echo'),
+      script: options.script || envScript || ["I'm here with you. Tell me more about how you're feeling."],
+      userTranscripts: options.userTranscripts || [],
+      utteranceSilenceMs: options.utteranceSilenceMs ?? 300,
+      responseDelayMs: options.responseDelayMs ?? 0,
+      msPerWord: options.msPerWord ?? 120,
+      chunkMs: options.chunkMs ?? 100,
+      chunkIntervalMs: options.chunkIntervalMs ?? 0,
+      failConnect: options.failConnect ?? false,
+    };
+  }
+
+  /**
+   * EXPLANATION: "Connect" - resolves immediately and announces the session
+   */
+  async connect(
+    sessionId: string,
+    userId: string,
+    userPreferences?: any,
+    options?: VoiceLiveConnectOptions
+  ): Promise<void> {
+    if (this.options.failConnect) {
+      throw new Error('Mock voice provider connection refused');
+    }
+
+    this.sessionId = sessionId;
+    this.withAudio = !options?.modalities || options.modalities.includes('audio');
+    this.connected = true;
+    logInfo(`[MockVoiceProvider] Session ${sessionId} connected for user ${userId} (${this.options.mode} mode)`);
+
+    this.schedule(0, () => this.emit('session-ready'));
+  }
+
+  /**
+   * EXPLANATION: Buffer audio; the utterance ends after a quiet period
+   */
+  sendAudio(audioData: Buffer | string): void {
+    if (!this.connected) {
+      logWarn(`[MockVoiceProvider] Cannot send audio - not connected`);
+      return;
+    }
+
+    const bytes = typeof audioData === 'string' ? Buffer.from(audioData, 'base64').length : audioData.length;
+    if (this.utteranceBytes === 0) {
+      this.emit('speech-started');
+    }
+    this.utteranceBytes += bytes;
+
+    if (this.utteranceTimer) {
+      clearTimeout(this.utteranceTimer);
+      this.timers.delete(this.utteranceTimer);
+    }
+    this.utteranceTimer = this.schedule(this.options.utteranceSilenceMs, () => this.endUtterance());
+  }
+
+  /**
+   * EXPLANATION: Text input skips transcription and goes straight to a reply
+   */
+  sendTextInput(text: string): void {
+    if (!this.connected) {
+      logWarn(`[MockVoiceProvider] Cannot send text - not connected`);
+      return;
+    }
+
+    this.respond(text);
+  }
+
+  /**
+   * EXPLANATION: Stop streaming the in-flight reply
+   */
+  cancelResponse(): void {
+    const responseId = this.activeResponseId;
+    if (!responseId) return;
+
+    this.activeResponseId = undefined;
+    this.emit('response-done', { response_id: responseId, status: 'cancelled' });
+  }
+
+  truncateResponse(itemId: string, audioEndMs: number): void {
+    logInfo(`[MockVoiceProvider] Truncated ${itemId} at ${audioEndMs}ms`);
+  }
+
+  resetSessionTimeout(): void {
+    // No idle timeout for the mock backend
+  }
+
+  disconnect(): void {
+    logInfo(`[MockVoiceProvider] Disconnecting session ${this.sessionId}`);
+
+    this.connected = false;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.utteranceTimer = null;
+    this.activeResponseId = undefined;
+    this.utteranceBytes = 0;
+
+    this.emit('disconnected', { sessionId: this.sessionId });
+  }
+
+  private endUtterance(): void {
+    const durationMs = Math.round((this.utteranceBytes / 2 / MOCK_SAMPLE_RATE) * 1000);
+    const scripted = this.options.userTranscripts;
+    const transcript = scripted.length > 0
+      ? scripted[this.utteranceCount % scripted.length]
+      : `(${durationMs} ms of audio)`;
+
+    this.utteranceCount++;
+    this.utteranceBytes = 0;
+    this.utteranceTimer = null;
+
+    this.emit('speech-stopped');
+    this.emit('user-transcript', { transcript, item_id: `mock_input_${this.utteranceCount}` });
+    this.respond(transcript);
+  }
+
+  private respond(userText: string): void {
+    this.responseCount++;
+    const responseId = `mock_resp_${this.responseCount}`;
+    const itemId = `mock_item_${this.responseCount}`;
+    const reply = this.buildReply(userText);
+
+    this.schedule(this.options.responseDelayMs, () => {
+      if (!this.connected) return;
+
+      this.activeResponseId = responseId;
+      this.emit('response-started', { response_id: responseId });
+
+      const steps = this.buildResponseSteps(reply, responseId, itemId);
+      steps.push(() => {
+        this.activeResponseId = undefined;
+        this.emit('transcript-done', { response_id: responseId, item_id: itemId });
+        this.emit('response-done', { response_id: responseId, status: 'completed' });
+      });
+      this.runSteps(responseId, steps);
+    });
+  }
+
+  /**
+   * EXPLANATION: Break a reply into streaming steps
+   * Word deltas run slightly ahead of the audio chunks they belong to, as with real providers.
+   */
+  private buildResponseSteps(reply: string, responseId: string, itemId: string): Array<() => void> {
+    const words = reply.split(/\s+/).filter(Boolean);
+    const wordStep = (i: number) => () => this.emit('transcript-delta', {
+      delta: i < words.length - 1 ? `${words[i]} ` : words[i],
+      response_id: responseId,
+      item_id: itemId,
+    });
+
+    if (!this.withAudio) {
+      return words.map((_, i) => wordStep(i));
+    }
+
+    const pcm = synthesizePlaceholderPcm(words.length * this.options.msPerWord);
+    const chunkBytes = Math.max(2, Math.round((this.options.chunkMs / 1000) * MOCK_SAMPLE_RATE) * 2);
+    const chunkCount = Math.max(1, Math.ceil(pcm.length / chunkBytes));
+    const steps: Array<() => void> = [];
+    let nextWord = 0;
+
+    for (let c = 0; c < chunkCount; c++) {
+      const wordSteps: Array<() => void> = [];
+      while (nextWord < Math.ceil((words.length * (c + 1)) / chunkCount)) {
+        wordSteps.push(wordStep(nextWord++));
+      }
+
+      const offset = c * chunkBytes;
+      steps.push(() => {
+        wordSteps.forEach((step) => step());
+        if (offset < pcm.length) {
+          this.emit('audio-delta', {
+            delta: pcm.subarray(offset, offset + chunkBytes).toString('base64'),
+            response_id: responseId,
+            item_id: itemId,
+            sequenceNumber: c + 1,
+          });
+        }
+      });
+    }
+
+    steps.push(() => this.emit('audio-delta', {
+      delta: null,
+      response_id: responseId,
+      item_id: itemId,
+      type: 'response.audio.done',
+    }));
+    return steps;
+  }
+
+  /**
+   * EXPLANATION: Run steps at once or paced; a cancelled response stops at the next step
+   */
+  private runSteps(responseId: string, steps: Array<() => void>): void {
+    const interval = this.options.chunkIntervalMs;
+
+    steps.forEach((step, i) => {
+      const run = () => {
+        if (this.activeResponseId === responseId) step();
+      };
+
+      if (interval > 0) {
+        this.schedule(i * interval, run);
+      } else {
+        run();
+      }
+    });
+  }
+
+  private buildReply(userText: string): string {
+    if (this.options.mode === 'scripted') {
+      const script = this.options.script;
+      return script[(this.responseCount - 1) % script.length];
+    }
+    return `You said: ${userText}`;
+  }
+
+  private schedule(delayMs: number, fn: () => void): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delayMs);
+    this.timers.add(timer);
+    return timer;
+  }
+}
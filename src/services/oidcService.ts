@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, IUser } from '../models/schemas/User';
+import { ILinkedIdentity } from '../models/schemas/LinkedIdentity';
+import { OIDC_PROVIDERS, OidcProviderName, OidcProviderConfig, getOidcProviderConfig } from '../config/oidc';
+import { JwksClient } from './jwksClient';
+import { logAuth, logWarn } from '../utils/logger';
+
+const ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+// What we use from a verified ID token
+export interface OidcIdentityClaims {
+  provider: OidcProviderName;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+/**
+ * Sign in with Google / Apple: verifies the ID tokens the app gets from the
+ * provider's SDK against the provider's published keys, and manages the
+ * identities connected to a user.
+ */
+export class OidcService {
+  constructor(private jwks: JwksClient = new JwksClient()) {}
+
+  enabledProviders(): OidcProviderName[] {
+    return OIDC_PROVIDERS.filter((name) => getOidcProviderConfig(name) !== null);
+  }
+
+  /**
+   * Check an ID token's signature, issuer, audience and expiry, and its nonce
+   * whenever the client sent one, the token carries one or the provider
+   * requires one. Any failure reads 'Invalid ID token'.
+   */
+  async verifyIdToken(provider: string, idToken: string, nonce?: string): Promise<OidcIdentityClaims> {
+    const config = this.getProvider(provider);
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    const kid = decoded?.header.kid;
+    const algorithm = decoded?.header.alg as jwt.Algorithm;
+    if (!decoded || typeof decoded.payload === 'string' || !kid || !ALGORITHMS.includes(algorithm)) {
+      throw new Error('Invalid ID token');
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      const key = await this.jwks.getKey({ uri: config.jwksUri, file: config.jwksFile }, kid);
+      payload = jwt.verify(idToken, key, {
+        algorithms: ALGORITHMS,
+        issuer: config.issuers as [string, ...string[]],
+        audience: config.clientIds as [string, ...string[]],
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      logWarn(`OIDC: Rejected ${provider} ID token: ${(error as Error).message}`);
+      throw new Error('Invalid ID token');
+    }
+
+    // A token bound to a nonce is only good with that nonce
+    const nonceExpected = nonce !== undefined || payload.nonce !== undefined || config.requireNonce;
+    if (!payload.sub || (nonceExpected && !this.nonceMatches(payload.nonce, nonce))) {
+      throw new Error('Invalid ID token');
+    }
+
+    return {
+      provider: config.name,
+      subject: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email.toLowerCase() : undefined,
+      // Apple sends the flag as a string
+      emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+      name: typeof payload.name === 'string' ? payload.name : undefined,
+    };
+  }
+
+  async findUserByIdentity(provider: OidcProviderName, subject: string): Promise<IUser | null> {
+    return User.findOne({ identities: { $elemMatch: { provider, subject } } });
+  }
+
+  /**
+   * Connect a provider account to a signed-in user (one account per provider)
+   */
+  async connect(userId: string, provider: string, idToken: string, nonce?: string): Promise<ILinkedIdentity[]> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const claims = await this.verifyIdToken(provider, idToken, nonce);
+
+    const owner = await this.findUserByIdentity(claims.provider, claims.subject);
+    if (owner && !owner._id.equals(user._id)) {
+      throw new Error(`This ${claims.provider} account is already connected to another user`);
+    }
+    if (user.identities.some((identity) => identity.provider === claims.provider)) {
+      throw new Error(`A ${claims.provider} account is already connected`);
+    }
+
+    user.identities.push({
+      provider: claims.provider,
+      subject: claims.subject,
+      email: claims.email,
+      linkedAt: new Date(),
+    });
+    await user.save();
+
+    logAuth.securityEvent(user.email, 'Sign-in identity connected', claims.provider);
+    return user.identities;
+  }
+
+  /**
+   * Disconnect a provider. The last way to sign in can't be removed.
+   */
+  async disconnect(userId: string, provider: string): Promise<ILinkedIdentity[]> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const remaining = user.identities.filter((identity) => identity.provider !== provider);
+    if (remaining.length === user.identities.length) {
+      throw new Error('Connected identity not found');
+    }
+    if (remaining.length === 0 && !user.password && !user.phone) {
+      throw new Error('Cannot disconnect the only way to sign in; set a password first');
+    }
+
+    user.identities = remaining;
+    await user.save();
+
+    logAuth.securityEvent(user.email, 'Sign-in identity disconnected', provider);
+    return user.identities;
+  }
+
+  private getProvider(provider: string): OidcProviderConfig {
+    const config = OIDC_PROVIDERS.includes(provider as OidcProviderName)
+      ? getOidcProviderConfig(provider as OidcProviderName)
+      : null;
+    if (!config) {
+      throw new Error(`Sign-in with ${provider} is not available`);
+    }
+    return config;
+  }
+
+  // Native SDKs put the SHA-256 of the client's nonce in the token
+  private nonceMatches(claim: unknown, nonce: string | undefined): boolean {
+    if (typeof claim !== 'string' || nonce === undefined) return false;
+    const hashed = crypto.createHash('sha256').update(nonce).digest('hex');
+    return claim === nonce || claim === hashed;
+  }
+}
+
+export const oidcService = new OidcService();
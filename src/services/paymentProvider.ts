@@ -0,0 +1,94 @@
+/**
+ * EXPLANATION: Payment Provider
+ *
+ * The contract BillingService uses to take payment for subscription plans.
+ * A provider hosts the checkout and customer portal pages and reports what
+ * happened through signed webhooks, which it translates into the events below
+ * so billing never deals with vendor event names or payload shapes.
+ *
+ * FakePaymentProvider is an offline implementation for local development and
+ * tests; it signs the events it produces the same way a real provider would.
+ */
+
+import { FakePaymentProvider } from './fakePaymentProvider';
+import type { BillingInterval } from '../models/schemas/SubscriptionPlan';
+
+/**
+ * EXPLANATION: Payment events
+ * checkout.completed      - the user paid for a plan; starts (or replaces) their subscription
+ * invoice.paid            - a renewal was collected; periodEnd is the end of the paid period
+ * invoice.payment_failed  - a renewal could not be collected
+ * subscription.ended      - the provider stopped billing (canceled at period end, or gave up retrying)
+ */
+export type PaymentEventType =
+  | 'checkout.completed'
+  | 'invoice.paid'
+  | 'invoice.payment_failed'
+  | 'subscription.ended';
+
+export interface PaymentEvent {
+  id: string; // provider event id, used to process each event once
+  type: PaymentEventType | string; // other types are acknowledged and ignored
+  createdAt: Date;
+  userId?: string; // set on checkout events (from checkout metadata)
+  planId?: string;
+  customerId?: string;
+  subscriptionId?: string; // provider subscription id
+  periodEnd?: Date;
+  // Checkout terms, echoed back on checkout.completed
+  interval?: BillingInterval;
+  trialEnd?: Date;
+  couponCode?: string;
+}
+
+export interface CheckoutSessionParams {
+  userId: string;
+  email?: string;
+  planId: string;
+  planName: string;
+  priceId?: string; // plan price entry, when the plan has prices
+  interval: BillingInterval;
+  amount: number; // per interval, in minor units
+  currency: string;
+  trialDays?: number; // first charge after the trial
+  couponCode?: string;
+  discountAmount?: number; // taken off the first charge, minor units
+  customerId?: string; // reuse the user's existing customer
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string; // hosted payment page to send the user to
+  customerId?: string;
+}
+
+export interface PaymentProvider {
+  readonly providerName: string;
+
+  createCheckoutSession(params: CheckoutSessionParams): Promise<CheckoutSession>;
+
+  // Hosted page where the customer manages payment methods and invoices
+  createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }>;
+
+  // Stop renewing at the end of the current period
+  cancelSubscription(subscriptionId: string): Promise<void>;
+
+  // Checks the signature over the raw request body; throws 'Invalid webhook signature'
+  verifyWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): PaymentEvent;
+}
+
+/**
+ * EXPLANATION: Provider factory
+ * Chooses the backend from PAYMENT_PROVIDER ('fake' until a real provider is configured).
+ * The fake provider refuses to run in production, so production has billing only once it names a real one.
+ */
+export function createPaymentProvider(name: string = process.env.PAYMENT_PROVIDER || 'fake'): PaymentProvider {
+  switch (name) {
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
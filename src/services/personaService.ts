@@ -0,0 +1,392 @@
+import { Types } from 'mongoose';
+import {
+  Persona,
+  IPersona,
+  IPersonaVersion,
+  IPersonaVoice,
+  IPersonaTurnDetection,
+} from '../models/schemas/Persona';
+import { SubscriptionPlan } from '../models/schemas/SubscriptionPlan';
+import { User } from '../models/schemas/User';
+import { AdminActor } from '../types';
+import { PersonaSessionSettings } from '../types/voiceLive';
+import { logInfo, logWarn, logError } from '../utils/logger';
+
+export interface PersonaVersionData {
+  instructions?: string;
+  voice?: Partial<IPersonaVoice>;
+  turnDetection?: IPersonaTurnDetection;
+  notes?: string;
+}
+
+export interface CreatePersonaData extends PersonaVersionData {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  publish?: boolean;
+}
+
+export interface UpdatePersonaData {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
+export interface ResolvedPersona {
+  personaId: string;
+  versionId: string;
+  version: number;
+  name: string;
+  settings: PersonaSessionSettings;
+}
+
+const DEFAULT_VOICE: IPersonaVoice = {
+  name: 'en-US-Ava:DragonHDLatestNeural',
+  type: 'azure-standard',
+  temperature: 0.7,
+  rate: '1.3',
+};
+
+export class PersonaService {
+  /**
+   * Create a persona with its first version
+   */
+  async createPersona(data: CreatePersonaData, admin: AdminActor): Promise<IPersona> {
+    logInfo(`PERSONA: Creating persona: ${data.name}`);
+
+    const existing = await Persona.findOne({ name: data.name });
+    if (existing) {
+      throw new Error('Persona with this name already exists');
+    }
+
+    if (!data.instructions) {
+      throw new Error('Persona instructions are required');
+    }
+
+    const persona = new Persona({
+      name: data.name,
+      description: data.description,
+      isActive: true,
+      isDefault: false,
+      versions: [this.buildVersion(1, data, admin)],
+      publishHistory: [],
+    });
+
+    if (data.publish || data.isDefault) {
+      this.recordPublish(persona, 1, 'publish', admin);
+    }
+
+    await persona.save();
+
+    if (data.isDefault) {
+      await this.setDefault(persona);
+    }
+
+    logInfo(`PERSONA: Persona created: ${persona._id}`);
+    return persona;
+  }
+
+  /**
+   * List personas for the admin console
+   */
+  async getAllPersonas(includeInactive: boolean = false): Promise<IPersona[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return Persona.find(filter).sort({ isDefault: -1, name: 1 });
+  }
+
+  /**
+   * Get a persona with all versions
+   */
+  async getPersonaById(personaId: string): Promise<IPersona> {
+    const persona = Types.ObjectId.isValid(personaId) ? await Persona.findById(personaId) : null;
+    if (!persona) {
+      throw new Error('Persona not found');
+    }
+    return persona;
+  }
+
+  /**
+   * Update persona metadata (name, description, active/default flags).
+   * Prompt and voice changes go through createVersion instead.
+   */
+  async updatePersona(personaId: string, data: UpdatePersonaData): Promise<IPersona> {
+    const persona = await this.getPersonaById(personaId);
+
+    if (data.name && data.name !== persona.name) {
+      const existing = await Persona.findOne({ name: data.name });
+      if (existing) {
+        throw new Error('Persona with this name already exists');
+      }
+      persona.name = data.name;
+    }
+
+    if (data.description !== undefined) {
+      persona.description = data.description;
+    }
+
+    if (data.isActive === false && persona.isDefault) {
+      throw new Error('Cannot deactivate the default persona');
+    }
+    if (data.isActive !== undefined) {
+      persona.isActive = data.isActive;
+    }
+
+    if (data.isDefault === true && !persona.isDefault) {
+      if (!persona.isActive || !persona.publishedVersion) {
+        throw new Error('Only an active, published persona can be the default');
+      }
+      await persona.save();
+      await this.setDefault(persona);
+      return this.getPersonaById(personaId);
+    }
+    if (data.isDefault === false && persona.isDefault) {
+      persona.isDefault = false;
+    }
+
+    await persona.save();
+    logInfo(`PERSONA: Persona updated: ${personaId}`);
+    return persona;
+  }
+
+  /**
+   * Deactivate a persona. Versions are kept so sessions stamped with them stay traceable.
+   */
+  async deactivatePersona(personaId: string): Promise<IPersona> {
+    return this.updatePersona(personaId, { isActive: false });
+  }
+
+  /**
+   * Add a new draft version. Unspecified fields are carried over from the latest version.
+   */
+  async createVersion(personaId: string, data: PersonaVersionData, admin: AdminActor): Promise<IPersona> {
+    const persona = await this.getPersonaById(personaId);
+    const latest = persona.versions[persona.versions.length - 1];
+    const nextVersion = (latest?.version || 0) + 1;
+
+    persona.versions.push(
+      this.buildVersion(
+        nextVersion,
+        {
+          instructions: data.instructions ?? latest?.instructions,
+          voice: { ...latest?.voice, ...data.voice },
+          turnDetection: data.turnDetection ?? latest?.turnDetection,
+          notes: data.notes,
+        },
+        admin
+      )
+    );
+
+    await persona.save();
+    logInfo(`PERSONA: Version ${nextVersion} created for persona ${personaId}`);
+    return persona;
+  }
+
+  /**
+   * Make a version the one used for new sessions
+   */
+  async publishVersion(personaId: string, version: number, admin: AdminActor): Promise<IPersona> {
+    const persona = await this.getPersonaById(personaId);
+
+    if (!persona.versions.some((v) => v.version === version)) {
+      throw new Error('Persona version not found');
+    }
+    if (persona.publishedVersion === version) {
+      throw new Error(`Version ${version} is already published`);
+    }
+
+    this.recordPublish(persona, version, 'publish', admin);
+    await persona.save();
+
+    logInfo(`PERSONA: Persona ${personaId} version ${version} published by admin ${admin.adminId}`);
+    return persona;
+  }
+
+  /**
+   * Roll back to a given version, or to the version published before the current one
+   */
+  async rollback(personaId: string, admin: AdminActor, version?: number): Promise<IPersona> {
+    const persona = await this.getPersonaById(personaId);
+
+    if (!persona.publishedVersion) {
+      throw new Error('Persona has no published version to roll back');
+    }
+
+    let target = version;
+    if (target === undefined) {
+      const stack = this.publishStack(persona);
+      target = stack[stack.length - 2];
+    }
+
+    if (target === undefined) {
+      throw new Error('No previous version to roll back to');
+    }
+    if (!persona.versions.some((v) => v.version === target)) {
+      throw new Error('Persona version not found');
+    }
+    if (target === persona.publishedVersion) {
+      throw new Error(`Version ${target} is already published`);
+    }
+
+    this.recordPublish(persona, target, 'rollback', admin);
+    await persona.save();
+
+    logWarn(`PERSONA: Persona ${personaId} rolled back to version ${target} by admin ${admin.adminId}`);
+    return persona;
+  }
+
+  /**
+   * Personas users can pick from (active with a published version)
+   */
+  async getAvailablePersonas(): Promise<IPersona[]> {
+    return Persona.find({ isActive: true, publishedVersion: { $exists: true, $ne: null } })
+      .select('name description isDefault publishedVersion')
+      .sort({ isDefault: -1, name: 1 });
+  }
+
+  /**
+   * Set (or clear with null) the user's persona choice
+   */
+  async setUserPersona(userId: string, personaId: string | null): Promise<string | null> {
+    if (personaId) {
+      const persona = await this.getPersonaById(personaId);
+      if (!persona.isActive || !persona.publishedVersion) {
+        throw new Error('Persona is not available');
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      personaId ? { $set: { 'preferences.personaId': personaId } } : { $unset: { 'preferences.personaId': 1 } },
+      { new: true }
+    );
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return personaId;
+  }
+
+  /**
+   * Pick the persona for a new session: the user's choice, then the plan's, then the default.
+   * Returns null when nothing is published so the built-in prompt is used.
+   */
+  async resolveForUser(userId: string, planId?: string): Promise<ResolvedPersona | null> {
+    try {
+      const candidates: string[] = [];
+
+      if (Types.ObjectId.isValid(userId)) {
+        const user = await User.findById(userId).select('preferences.personaId');
+        if (user?.preferences?.personaId) candidates.push(user.preferences.personaId);
+      }
+
+      if (planId && Types.ObjectId.isValid(planId)) {
+        const plan = await SubscriptionPlan.findById(planId).select('personaId');
+        if (plan?.personaId) candidates.push(plan.personaId.toString());
+      }
+
+      for (const candidate of candidates) {
+        const persona = Types.ObjectId.isValid(candidate) ? await Persona.findById(candidate) : null;
+        const resolved = persona && persona.isActive ? this.toResolved(persona) : null;
+        if (resolved) return resolved;
+      }
+
+      const fallback = await Persona.findOne({ isDefault: true, isActive: true });
+      return fallback ? this.toResolved(fallback) : null;
+    } catch (error) {
+      logError(`PERSONA: Failed to resolve persona for user ${userId}`, error);
+      return null;
+    }
+  }
+
+  private toResolved(persona: IPersona): ResolvedPersona | null {
+    const version = persona.versions.find((v) => v.version === persona.publishedVersion);
+    if (!version) return null;
+
+    return {
+      personaId: persona._id.toString(),
+      versionId: version._id.toString(),
+      version: version.version,
+      name: persona.name,
+      settings: this.toSessionSettings(version),
+    };
+  }
+
+  private toSessionSettings(version: IPersonaVersion): PersonaSessionSettings {
+    const td = version.turnDetection || {};
+    const turnDetection: PersonaSessionSettings['turnDetection'] = {};
+
+    if (td.threshold !== undefined) turnDetection.threshold = td.threshold;
+    if (td.prefixPaddingMs !== undefined) turnDetection.prefix_padding_ms = td.prefixPaddingMs;
+    if (td.silenceDurationMs !== undefined) turnDetection.silence_duration_ms = td.silenceDurationMs;
+    if (td.removeFillerWords !== undefined) turnDetection.remove_filler_words = td.removeFillerWords;
+    if (td.endOfUtteranceThreshold !== undefined || td.endOfUtteranceTimeout !== undefined) {
+      turnDetection.end_of_utterance_detection = {};
+      if (td.endOfUtteranceThreshold !== undefined) {
+        turnDetection.end_of_utterance_detection.threshold = td.endOfUtteranceThreshold;
+      }
+      if (td.endOfUtteranceTimeout !== undefined) {
+        turnDetection.end_of_utterance_detection.timeout = td.endOfUtteranceTimeout;
+      }
+    }
+
+    return {
+      instructions: version.instructions,
+      voice: {
+        name: version.voice.name,
+        type: version.voice.type,
+        temperature: version.voice.temperature,
+        rate: version.voice.rate,
+      },
+      turnDetection,
+    };
+  }
+
+  private buildVersion(version: number, data: PersonaVersionData, admin: AdminActor): IPersonaVersion {
+    return {
+      _id: new Types.ObjectId(),
+      version,
+      instructions: data.instructions || '',
+      voice: { ...DEFAULT_VOICE, ...data.voice },
+      turnDetection: data.turnDetection,
+      notes: data.notes,
+      createdBy: { adminId: admin.adminId, adminEmail: admin.email },
+      createdAt: new Date(),
+    };
+  }
+
+  private recordPublish(persona: IPersona, version: number, action: 'publish' | 'rollback', admin: AdminActor): void {
+    persona.publishedVersion = version;
+    persona.publishHistory.push({
+      version,
+      action,
+      adminId: admin.adminId,
+      adminEmail: admin.email,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Replay publish history as an undo stack: publishing pushes a version,
+   * rolling back pops back down to the target (or pushes it if it was never on the stack)
+   */
+  private publishStack(persona: IPersona): number[] {
+    const stack: number[] = [];
+    for (const event of persona.publishHistory) {
+      if (event.action === 'rollback' && stack.includes(event.version)) {
+        while (stack[stack.length - 1] !== event.version) stack.pop();
+      } else {
+        stack.push(event.version);
+      }
+    }
+    return stack;
+  }
+
+  private async setDefault(persona: IPersona): Promise<void> {
+    await Persona.updateMany({ _id: { $ne: persona._id }, isDefault: true }, { $set: { isDefault: false } });
+    await Persona.updateOne({ _id: persona._id }, { $set: { isDefault: true } });
+    persona.isDefault = true;
+  }
+}
+
+export const personaService = new PersonaService();
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { SubscriptionPlan, ISubscriptionPlan, IPlanUsageLimits } from '../models/schemas/SubscriptionPlan';
+import { IFeature } from '../models/schemas/Feature';
+import { ILocalizedText } from '../models/schemas/Localization';
+import { subscriptionService } from './subscriptionService';
+
+export interface PublicPlanFeature {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface PublicPlanPrice {
+  id: string;
+  interval: string;
+  currency: string;
+  amount: number; // minor units
+}
+
+// What anonymous visitors see; no admin-only fields (personas, inactive prices, timestamps)
+export interface PublicPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  recommended: boolean;
+  monthlyPrice: number;
+  trialDays: number | null;
+  prices: PublicPlanPrice[];
+  usageLimits: IPlanUsageLimits;
+  features: PublicPlanFeature[];
+}
+
+export interface PlanCatalog {
+  locale: string; // locale the text was resolved for
+  plans: PublicPlan[];
+}
+
+export function getDefaultCatalogLocale(): string {
+  return normalizeLocale(process.env.PLAN_CATALOG_DEFAULT_LOCALE || 'en') || 'en';
+}
+
+/**
+ * 'pt_br' / 'PT-br' -> 'pt-BR'; undefined for anything that isn't a locale
+ */
+export function normalizeLocale(locale: string): string | undefined {
+  const match = /^([a-zA-Z]{2})(?:[-_]([a-zA-Z]{2}))?$/.exec(locale.trim());
+  if (!match) return undefined;
+  return match[2] ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : match[1].toLowerCase();
+}
+
+/**
+ * Lookup order for translations: each requested locale, then its base
+ * language ('pt-BR' -> 'pt'), then the default locale.
+ */
+export function resolveLocaleChain(requested: string[]): string[] {
+  const chain: string[] = [];
+  const add = (locale?: string) => {
+    if (locale && !chain.includes(locale)) chain.push(locale);
+  };
+
+  for (const raw of requested) {
+    const locale = normalizeLocale(raw);
+    add(locale);
+    add(locale?.split('-')[0]);
+  }
+  add(getDefaultCatalogLocale());
+
+  return chain;
+}
+
+/**
+ * Pick a translated field, falling back to the untranslated text
+ */
+export function localizeText(
+  localizations: Map<string, ILocalizedText> | undefined,
+  chain: string[],
+  field: keyof ILocalizedText,
+  fallback: string
+): string {
+  for (const locale of chain) {
+    const value = localizations?.get(locale)?.[field];
+    if (value) return value;
+  }
+  return fallback;
+}
+
+export class PlanCatalogService {
+  /**
+   * Active plans with their active features, localized for the requested locales
+   */
+  async getCatalog(requestedLocales: string[] = []): Promise<PlanCatalog> {
+    const chain = resolveLocaleChain(requestedLocales);
+    const plans = await SubscriptionPlan.find({ isActive: true }).populate('features');
+
+    plans.sort(
+      (a, b) => a.sortOrder - b.sortOrder || a.monthlyPrice - b.monthlyPrice || a.name.localeCompare(b.name)
+    );
+
+    return {
+      locale: chain.find((locale) => plans.some((plan) => this.hasTranslation(plan, locale))) || getDefaultCatalogLocale(),
+      plans: plans.map((plan) => this.toPublicPlan(plan, chain)),
+    };
+  }
+
+  /**
+   * Strong validator for a catalog response body
+   */
+  computeEtag(catalog: PlanCatalog): string {
+    return `"${crypto.createHash('sha1').update(JSON.stringify(catalog)).digest('base64url')}"`;
+  }
+
+  private toPublicPlan(plan: ISubscriptionPlan, chain: string[]): PublicPlan {
+    const features = (plan.features as unknown as IFeature[]).filter((f) => f && f.isActive);
+
+    return {
+      id: plan._id.toString(),
+      name: localizeText(plan.localizations, chain, 'name', plan.name),
+      description: localizeText(plan.localizations, chain, 'description', plan.description || '') || null,
+      recommended: plan.isRecommended,
+      monthlyPrice: plan.monthlyPrice,
+      trialDays: plan.trialDays || null,
+      prices: subscriptionService.toPlanPrices(plan, true).map(({ id, interval, currency, amount }) => ({
+        id,
+        interval,
+        currency,
+        amount,
+      })),
+      usageLimits: subscriptionService.toUsageLimits(plan.usageLimits),
+      features: features.map((f) => ({
+        id: f._id.toString(),
+        name: localizeText(f.localizations, chain, 'name', f.displayName || f.name),
+        description: localizeText(f.localizations, chain, 'description', f.description || '') || null,
+      })),
+    };
+  }
+
+  private hasTranslation(plan: ISubscriptionPlan, locale: string): boolean {
+    if (plan.localizations?.has(locale)) return true;
+    return (plan.features as unknown as IFeature[]).some((f) => f?.localizations?.has(locale));
+  }
+}
+
+export const planCatalogService = new PlanCatalogService();
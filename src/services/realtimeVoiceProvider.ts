@@ -0,0 +1,88 @@
+/**
+ * EXPLANATION: Realtime Voice Provider
+ *
+ * The contract the voice gateway uses to talk to a speech-to-speech backend.
+ * Azure Voice Live (VoiceLiveService) is one implementation; MockVoiceProvider
+ * is a deterministic offline implementation for local development and tests.
+ *
+ * Providers translate their backend's wire protocol into the events below so
+ * the gateway never deals with vendor event names.
+ */
+
+import { EventEmitter } from 'events';
+import { VoiceLiveConnectOptions } from '../types/voiceLive';
+import { VoiceLiveService } from './voiceLiveService';
+import { MockVoiceProvider } from './mockVoiceProvider';
+
+/**
+ * EXPLANATION: Provider Events
+ * Payload shapes for each event a provider emits.
+ */
+export interface RealtimeVoiceProviderEvents {
+  'session-ready': () => void;
+  'response-started': (data: { response_id?: string }) => void;
+  // Emitted once per response, including when it was cancelled
+  'response-done': (data: { response_id?: string; status?: 'completed' | 'cancelled' | string }) => void;
+  'speech-started': () => void;
+  'speech-stopped': () => void;
+  'user-transcript': (data: { transcript: string; response_id?: string; item_id?: string }) => void;
+  'transcript-delta': (data: { delta: string; response_id?: string; item_id?: string }) => void;
+  'transcript-done': (data: { response_id?: string; item_id?: string }) => void;
+  // delta is base64 PCM16 (24kHz mono); a null delta with type 'response.audio.done' marks the end of a response
+  'audio-delta': (data: {
+    delta: string | null;
+    response_id?: string;
+    item_id?: string;
+    sequenceNumber?: number;
+    type?: 'response.audio.done';
+  }) => void;
+  'disconnected': (data: { sessionId?: string }) => void;
+  'error': (error: Error) => void;
+}
+
+export interface RealtimeVoiceProvider extends EventEmitter {
+  readonly providerName: string;
+
+  connect(
+    sessionId: string,
+    userId: string,
+    userPreferences?: any,
+    options?: VoiceLiveConnectOptions
+  ): Promise<void>;
+
+  sendAudio(audioData: Buffer | string): void;
+
+  sendTextInput(text: string): void;
+
+  // Barge-in: stop the in-flight response, then trim the assistant item to what the user heard
+  cancelResponse(): void;
+
+  truncateResponse(itemId: string, audioEndMs: number): void;
+
+  resetSessionTimeout(): void;
+
+  disconnect(): void;
+
+  on<E extends keyof RealtimeVoiceProviderEvents>(event: E, listener: RealtimeVoiceProviderEvents[E]): this;
+  emit<E extends keyof RealtimeVoiceProviderEvents>(
+    event: E,
+    ...args: Parameters<RealtimeVoiceProviderEvents[E]>
+  ): boolean;
+}
+
+export type RealtimeVoiceProviderFactory = () => RealtimeVoiceProvider;
+
+/**
+ * EXPLANATION: Provider factory
+ * Chooses the backend from VOICE_PROVIDER ('azure' by default, or 'mock').
+ */
+export function createVoiceProvider(name: string = process.env.VOICE_PROVIDER || 'azure'): RealtimeVoiceProvider {
+  switch (name) {
+    case 'mock':
+      return new MockVoiceProvider();
+    case 'azure':
+      return new VoiceLiveService();
+    default:
+      throw new Error(`Unknown voice provider: ${name}`);
+  }
+}
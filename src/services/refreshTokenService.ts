@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import {
+  RefreshTokenFamily,
+  IRefreshTokenFamily,
+  RefreshTokenRevokeReason,
+} from '../models/schemas/RefreshTokenFamily';
+import { logInfo, logWarn } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeviceInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface RefreshTokenIds {
+  familyId: string; // 'sid' claim
+  tokenId: string; // 'jti' claim
+}
+
+export class RefreshTokenService {
+  constructor(private ttlDaysOverride?: number) {}
+
+  // Read on use: the service is created before dotenv runs
+  get ttlDays(): number {
+    return this.ttlDaysOverride ?? parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '7', 10);
+  }
+
+  /**
+   * Start a token family for a new login
+   */
+  async startFamily(userId: string, device: DeviceInfo = {}): Promise<RefreshTokenIds> {
+    const now = new Date();
+    const ids = { familyId: crypto.randomUUID(), tokenId: crypto.randomUUID() };
+
+    await RefreshTokenFamily.create({
+      userId: new Types.ObjectId(userId),
+      familyId: ids.familyId,
+      currentTokenId: ids.tokenId,
+      userAgent: device.userAgent?.slice(0, 300),
+      ip: device.ip,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlDays * DAY_MS),
+    });
+
+    return ids;
+  }
+
+  /**
+   * Swap the family's current refresh token for a new one. Presenting any
+   * earlier token of the family means it was copied, so the whole family is
+   * revoked and the device has to log in again.
+   */
+  async rotate(userId: string, ids: RefreshTokenIds): Promise<RefreshTokenIds> {
+    const now = new Date();
+    const family = await RefreshTokenFamily.findOne({ familyId: ids.familyId });
+
+    if (!family || family.userId.toString() !== userId || family.revokedAt || family.expiresAt <= now) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (family.currentTokenId !== ids.tokenId) {
+      await this.revokeReused(family);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    const next = { familyId: family.familyId, tokenId: crypto.randomUUID() };
+    const rotated = await RefreshTokenFamily.findOneAndUpdate(
+      { _id: family._id, currentTokenId: ids.tokenId, revokedAt: { $exists: false } },
+      {
+        $set: {
+          currentTokenId: next.tokenId,
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + this.ttlDays * DAY_MS),
+        },
+        $inc: { rotations: 1 },
+      },
+      { new: true }
+    );
+
+    // Another request rotated the same token first
+    if (!rotated) {
+      await this.revokeReused(family);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    return next;
+  }
+
+  /**
+   * End one family. With userId, only if it belongs to that user.
+   * Returns false when there was nothing active to revoke.
+   */
+  async revoke(familyId: string, reason: RefreshTokenRevokeReason, userId?: string): Promise<boolean> {
+    const filter: Record<string, unknown> = { familyId, revokedAt: { $exists: false } };
+    if (userId) {
+      if (!Types.ObjectId.isValid(userId)) return false;
+      filter.userId = new Types.ObjectId(userId);
+    }
+
+    const result = await RefreshTokenFamily.updateOne(filter, {
+      $set: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * End every family of a user; returns how many were active
+   */
+  async revokeAll(userId: string, reason: RefreshTokenRevokeReason = 'logout_all'): Promise<number> {
+    const result = await RefreshTokenFamily.updateMany(
+      { userId: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    logInfo(`AUTH: Revoked ${result.modifiedCount} login session(s) for user ${userId} (${reason})`);
+    return result.modifiedCount;
+  }
+
+  /**
+   * Logins that can still refresh, most recently used first
+   */
+  async listActive(userId: string): Promise<IRefreshTokenFamily[]> {
+    return RefreshTokenFamily.find({
+      userId: new Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+  }
+
+  private async revokeReused(family: IRefreshTokenFamily): Promise<void> {
+    logWarn(`AUTH: Refresh token reuse detected for user ${family.userId} - revoking family ${family.familyId}`);
+    await this.revoke(family.familyId, 'reuse_detected');
+  }
+}
+
+export const refreshTokenService = new RefreshTokenService();
@@ -0,0 +1,91 @@
+import { pcmDurationMs } from '../utils/audio';
+
+/**
+ * Tracks how much of one assistant response the client has heard.
+ *
+ * Each audio chunk is stamped with the transcript length at the moment it arrived, so
+ * the played audio position (from client playback acks) maps back to a transcript prefix.
+ * Providers stream text slightly ahead of audio, which makes this a close approximation.
+ */
+export class ResponsePlayback {
+  itemId?: string;
+  text = '';
+  generating = true; // provider still producing this response
+  interrupted = false;
+  finalized = false;
+  savedMessage?: Promise<string | undefined>; // set once the full message has been persisted
+  private audioBytes = 0;
+  private marks: Array<{ audioMs: number; textLength: number }> = [];
+  private firstAudioAt?: number;
+  private ackedMs?: number;
+
+  constructor(readonly responseId: string) {}
+
+  get audioMs(): number {
+    return pcmDurationMs(this.audioBytes);
+  }
+
+  addText(delta: string): void {
+    this.text += delta;
+  }
+
+  addAudio(bytes: number, now: number = Date.now()): void {
+    if (this.firstAudioAt === undefined) {
+      this.firstAudioAt = now;
+    }
+    this.audioBytes += bytes;
+    this.marks.push({ audioMs: this.audioMs, textLength: this.text.length });
+  }
+
+  /**
+   * Client reports how far playback got; acks only move forward
+   */
+  ack(playedMs: number): void {
+    const clamped = Math.max(0, Math.min(playedMs, this.audioMs));
+    this.ackedMs = Math.max(this.ackedMs ?? 0, clamped);
+  }
+
+  /**
+   * Whether the user could still be hearing this response: still generating, or sent
+   * audio that the client has not acknowledged and that can't have finished playing yet
+   */
+  isAudible(now: number = Date.now(), graceMs: number = 500): boolean {
+    if (this.interrupted) return false;
+    if (this.generating) return true;
+    if (this.firstAudioAt === undefined || (this.ackedMs ?? 0) >= this.audioMs) return false;
+    return now < this.firstAudioAt + this.audioMs + graceMs;
+  }
+
+  /**
+   * Audio position the user actually heard. Without any ack, estimate from wall-clock time
+   * since playback started (the client can't have played faster than real time).
+   */
+  playedMs(now: number = Date.now()): number {
+    if (this.ackedMs !== undefined) return this.ackedMs;
+    if (this.firstAudioAt === undefined) return 0;
+    return Math.min(this.audioMs, Math.max(0, now - this.firstAudioAt));
+  }
+
+  /**
+   * Transcript of what was heard, cut back to a whole word
+   */
+  playedText(now: number = Date.now()): string {
+    const playedMs = this.playedMs(now);
+
+    let length = 0;
+    if (!this.generating && this.audioMs > 0 && playedMs >= this.audioMs) {
+      length = this.text.length;
+    } else {
+      for (const mark of this.marks) {
+        if (mark.audioMs > playedMs) break;
+        length = mark.textLength;
+      }
+    }
+
+    let played = this.text.slice(0, length);
+    if (length < this.text.length && /\S/.test(this.text[length])) {
+      played = played.replace(/\S+$/, '');
+    }
+    return played.trim();
+  }
+}
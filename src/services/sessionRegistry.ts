@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Where a live voice session runs. The owning node holds the provider connection;
+ * other nodes use this to hand a reconnecting client's session over.
+ */
+export interface VoiceSessionRecord {
+  sessionId: string;
+  userId: string;
+  nodeId: string;
+  connected: boolean; // false while the owner waits out the reconnect grace period
+  resumeTokenId?: string; // latest resume token issued for the session
+  updatedAt: number;
+}
+
+/**
+ * Node-to-node messages: a node asks the owner to release a session, the owner confirms.
+ * 'terminate' asks the owner to end the session for good (its user lost access).
+ */
+export interface SessionRegistryMessage {
+  type: 'release' | 'released' | 'terminate';
+  sessionId: string;
+  from: string; // sending node
+}
+
+export interface SessionRegistry {
+  readonly driver: string;
+  register(record: VoiceSessionRecord): Promise<void>;
+  get(sessionId: string): Promise<VoiceSessionRecord | null>;
+  // Only removes the record while nodeId still owns it
+  remove(sessionId: string, nodeId: string): Promise<void>;
+  list(): Promise<VoiceSessionRecord[]>;
+  heartbeat(nodeId: string, ttlMs: number): Promise<void>;
+  isNodeAlive(nodeId: string): Promise<boolean>;
+  publish(nodeId: string, message: SessionRegistryMessage): Promise<void>;
+  subscribe(nodeId: string, handler: (message: SessionRegistryMessage) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Single-process registry. Gateways sharing one instance behave like a cluster,
+ * which is how development and tests run several nodes.
+ */
+export class MemorySessionRegistry implements SessionRegistry {
+  readonly driver = 'memory';
+  private sessions: Map<string, VoiceSessionRecord> = new Map();
+  private nodes: Map<string, number> = new Map(); // nodeId -> heartbeat expiry
+  private bus = new EventEmitter();
+
+  async register(record: VoiceSessionRecord): Promise<void> {
+    this.sessions.set(record.sessionId, { ...record });
+  }
+
+  async get(sessionId: string): Promise<VoiceSessionRecord | null> {
+    const record = this.sessions.get(sessionId);
+    return record ? { ...record } : null;
+  }
+
+  async remove(sessionId: string, nodeId: string): Promise<void> {
+    if (this.sessions.get(sessionId)?.nodeId === nodeId) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  async list(): Promise<VoiceSessionRecord[]> {
+    return Array.from(this.sessions.values(), (record) => ({ ...record }));
+  }
+
+  async heartbeat(nodeId: string, ttlMs: number): Promise<void> {
+    this.nodes.set(nodeId, Date.now() + ttlMs);
+  }
+
+  async isNodeAlive(nodeId: string): Promise<boolean> {
+    return (this.nodes.get(nodeId) ?? 0) > Date.now();
+  }
+
+  async publish(nodeId: string, message: SessionRegistryMessage): Promise<void> {
+    // Delivered asynchronously, like a pub/sub round trip
+    setImmediate(() => this.bus.emit(nodeId, { ...message }));
+  }
+
+  async subscribe(nodeId: string, handler: (message: SessionRegistryMessage) => void): Promise<void> {
+    this.bus.on(nodeId, handler);
+  }
+
+  async close(): Promise<void> {
+    this.bus.removeAllListeners();
+  }
+}
+
+/**
+ * The Redis commands the registry uses (node-redis v4 signatures)
+ */
+export interface RedisRegistryClient {
+  hSet(key: string, values: Record<string, string>): Promise<number>;
+  hGetAll(key: string): Promise<Record<string, string>>;
+  del(key: string): Promise<number>;
+  sAdd(key: string, member: string): Promise<number>;
+  sRem(key: string, member: string): Promise<number>;
+  sMembers(key: string): Promise<string[]>;
+  set(key: string, value: string, options?: { PX?: number }): Promise<string | null>;
+  exists(key: string): Promise<number>;
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+  quit(): Promise<string>;
+}
+
+/**
+ * Shared registry for multi-node deployments. Works with any Redis-compatible server.
+ *
+ * Keys (under `prefix`):
+ *   session:<id>         hash with the session record
+ *   sessions             set of session ids
+ *   node:<nodeId>        heartbeat, expires after the node's TTL
+ *   node:<nodeId>:inbox  pub/sub channel for messages to that node
+ */
+export class RedisSessionRegistry implements SessionRegistry {
+  readonly driver = 'redis';
+
+  // Subscriptions need a dedicated connection in Redis
+  constructor(
+    private client: RedisRegistryClient,
+    private subscriber: RedisRegistryClient,
+    private prefix: string = process.env.SESSION_REGISTRY_PREFIX || 'ava:voice'
+  ) {}
+
+  async register(record: VoiceSessionRecord): Promise<void> {
+    await this.client.hSet(this.sessionKey(record.sessionId), {
+      sessionId: record.sessionId,
+      userId: record.userId,
+      nodeId: record.nodeId,
+      connected: record.connected ? '1' : '0',
+      resumeTokenId: record.resumeTokenId || '',
+      updatedAt: String(record.updatedAt),
+    });
+    await this.client.sAdd(`${this.prefix}:sessions`, record.sessionId);
+  }
+
+  async get(sessionId: string): Promise<VoiceSessionRecord | null> {
+    const hash = await this.client.hGetAll(this.sessionKey(sessionId));
+    if (!hash || !hash.nodeId) return null;
+
+    return {
+      sessionId: hash.sessionId,
+      userId: hash.userId,
+      nodeId: hash.nodeId,
+      connected: hash.connected === '1',
+      resumeTokenId: hash.resumeTokenId || undefined,
+      updatedAt: parseInt(hash.updatedAt, 10) || 0,
+    };
+  }
+
+  async remove(sessionId: string, nodeId: string): Promise<void> {
+    const record = await this.get(sessionId);
+    if (record && record.nodeId !== nodeId) return;
+
+    await this.client.del(this.sessionKey(sessionId));
+    await this.client.sRem(`${this.prefix}:sessions`, sessionId);
+  }
+
+  async list(): Promise<VoiceSessionRecord[]> {
+    const ids = await this.client.sMembers(`${this.prefix}:sessions`);
+    const records = await Promise.all(ids.map((id) => this.get(id)));
+    return records.filter((record): record is VoiceSessionRecord => record !== null);
+  }
+
+  async heartbeat(nodeId: string, ttlMs: number): Promise<void> {
+    await this.client.set(`${this.prefix}:node:${nodeId}`, String(Date.now()), { PX: ttlMs });
+  }
+
+  async isNodeAlive(nodeId: string): Promise<boolean> {
+    return (await this.client.exists(`${this.prefix}:node:${nodeId}`)) > 0;
+  }
+
+  async publish(nodeId: string, message: SessionRegistryMessage): Promise<void> {
+    await this.client.publish(this.inbox(nodeId), JSON.stringify(message));
+  }
+
+  async subscribe(nodeId: string, handler: (message: SessionRegistryMessage) => void): Promise<void> {
+    await this.subscriber.subscribe(this.inbox(nodeId), (raw) => {
+      try {
+        handler(JSON.parse(raw));
+      } catch {
+        // Ignore malformed messages from other publishers on the channel
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.subscriber.quit(), this.client.quit()]);
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.prefix}:session:${sessionId}`;
+  }
+
+  private inbox(nodeId: string): string {
+    return `${this.prefix}:node:${nodeId}:inbox`;
+  }
+}
@@ -0,0 +1,109 @@
+import { Session, ISession, ISessionSummary } from '../models/schemas/Session';
+import { Message } from '../models/schemas/Message';
+import { logInfo, logError } from '../utils/logger';
+
+type CrisisLevel = ISessionSummary['crisisLevels'][number];
+
+const CRISIS_LEVEL_ORDER: CrisisLevel[] = ['low', 'medium', 'high', 'critical'];
+const TOP_EMOTION_COUNT = 3;
+
+export class SessionSummaryService {
+  /**
+   * Compute an end-of-session summary from the persisted messages
+   */
+  async buildSummary(sessionId: string, startTime?: Date, endTime: Date = new Date()): Promise<ISessionSummary> {
+    const messages = await Message.find({ sessionId })
+      .select('role timestamp emotionData crisisIndicators')
+      .sort({ timestamp: 1 })
+      .lean();
+
+    const userMessages = messages.filter((m) => m.role === 'user');
+    const assistantMessages = messages.filter((m) => m.role === 'assistant');
+
+    // Average the per-emotion scores across user turns
+    const totals: { [emotion: string]: number } = {};
+    let scored = 0;
+    for (const message of userMessages) {
+      const emotions = message.emotionData?.emotions;
+      if (!emotions) continue;
+
+      const entries = emotions instanceof Map ? Array.from(emotions.entries()) : Object.entries(emotions);
+      for (const [emotion, score] of entries) {
+        totals[emotion] = (totals[emotion] || 0) + Number(score || 0);
+      }
+      scored++;
+    }
+
+    const ranked = Object.entries(totals)
+      .map(([emotion, total]) => ({ emotion, average: total / Math.max(scored, 1) }))
+      .filter((entry) => entry.average > 0)
+      .sort((a, b) => b.average - a.average);
+
+    const crisisLevels = CRISIS_LEVEL_ORDER.filter((level) =>
+      messages.some((m) => m.crisisIndicators?.severity === level)
+    );
+
+    const firstTimestamp = messages[0]?.timestamp;
+    const start = startTime || firstTimestamp || endTime;
+
+    return {
+      duration: Math.max(0, Math.round((endTime.getTime() - new Date(start).getTime()) / 1000)),
+      messageCount: messages.length,
+      userMessageCount: userMessages.length,
+      assistantMessageCount: assistantMessages.length,
+      averageEmotion: ranked[0]?.emotion || 'calm',
+      topEmotions: ranked.slice(0, TOP_EMOTION_COUNT).map((entry) => entry.emotion),
+      crisisDetected: crisisLevels.some((level) => level !== 'low'),
+      crisisLevels,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Mark a session as ended and store its summary.
+   * Safe to call more than once - an already summarised session is returned as-is.
+   */
+  async finalizeSession(sessionId: string, endTime: Date = new Date()): Promise<ISessionSummary | null> {
+    try {
+      const sessionDoc = await Session.findOne({ sessionId });
+      if (!sessionDoc) {
+        return await this.buildSummary(sessionId, undefined, endTime);
+      }
+
+      if (sessionDoc.status === 'ended' && sessionDoc.summary?.generatedAt) {
+        return sessionDoc.summary;
+      }
+
+      const summary = await this.buildSummary(sessionId, sessionDoc.startTime, endTime);
+
+      sessionDoc.endTime = endTime;
+      sessionDoc.status = 'ended';
+      sessionDoc.duration = endTime.getTime() - sessionDoc.startTime.getTime();
+      sessionDoc.summary = summary;
+      await sessionDoc.save();
+
+      logInfo(`[SessionSummary] Session ${sessionId} ended with ${summary.messageCount} messages`);
+      return summary;
+    } catch (error) {
+      logError(`[SessionSummary] Failed to finalize session ${sessionId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Summary for the sessions API - uses the stored one when available
+   */
+  async getSummary(session: ISession, sessionId: string): Promise<ISessionSummary | null> {
+    if (session.summary?.generatedAt) {
+      return session.summary;
+    }
+
+    if (session.status !== 'ended') {
+      return null;
+    }
+
+    return this.buildSummary(sessionId, session.startTime, session.endTime || new Date());
+  }
+}
+
+export const sessionSummaryService = new SessionSummaryService();
@@ -0,0 +1,56 @@
+/**
+ * EXPLANATION: SMS Provider
+ *
+ * The contract SmsService uses to send text messages (login codes, phone
+ * verification, crisis alerts to emergency contacts). A provider accepts a
+ * message, returns its own id for it, and later reports what the carrier did
+ * with it through status callbacks, translated into the receipt below.
+ *
+ * CaptureSmsProvider keeps messages in memory (and optionally appends them to
+ * a file) instead of sending them, for local development and tests. It is
+ * refused in production, so SMS there needs a real provider configured.
+ */
+
+import { CaptureSmsProvider } from './captureSmsProvider';
+import type { SmsDeliveryStatus } from '../models/schemas/SmsMessage';
+
+export interface OutgoingSms {
+  to: string; // E.164
+  body: string;
+  reference: string; // our SmsMessage id, echoed back where the provider supports it
+}
+
+export interface SmsSendResult {
+  providerMessageId: string;
+  status: SmsDeliveryStatus; // usually 'sent'; some providers confirm delivery synchronously
+}
+
+// A delivery report for an earlier message
+export interface SmsStatusReceipt {
+  providerMessageId: string;
+  status: SmsDeliveryStatus;
+  error?: string;
+}
+
+export interface SmsProvider {
+  readonly providerName: string;
+
+  // Throws if the provider refuses the message
+  send(message: OutgoingSms): Promise<SmsSendResult>;
+
+  // Checks the callback is genuine and reads it; throws 'Invalid status callback'
+  parseStatusCallback(body: unknown, headers: Record<string, string | string[] | undefined>): SmsStatusReceipt;
+}
+
+/**
+ * EXPLANATION: Provider factory
+ * Chooses the backend from SMS_PROVIDER ('capture' until a real provider is configured).
+ */
+export function createSmsProvider(name: string = process.env.SMS_PROVIDER || 'capture'): SmsProvider {
+  switch (name) {
+    case 'capture':
+      return new CaptureSmsProvider();
+    default:
+      throw new Error(`Unknown SMS provider: ${name}`);
+  }
+}
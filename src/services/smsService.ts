@@ -0,0 +1,189 @@
+import { SmsMessage, ISmsMessage, SmsDeliveryStatus, SmsTemplateName } from '../models/schemas/SmsMessage';
+import { SmsProvider, SmsStatusReceipt, createSmsProvider } from './smsProvider';
+import { getSmsPolicy } from '../config/sms';
+import { logInfo, logWarn, logError } from '../utils/logger';
+
+export type SmsTemplateVars = Record<string, string | number>;
+
+export interface SendSmsOptions {
+  userId?: string; // account the message is about, for auditing
+}
+
+const SMS_TEMPLATES: Record<SmsTemplateName, string> = {
+  phone_verification: '{{code}} is your {{brand}} verification code. It expires in {{minutes}} minutes.',
+  login_code:
+    '{{code}} is your {{brand}} login code. It expires in {{minutes}} minutes. ' +
+    'If you did not request it, you can ignore this message.',
+  crisis_alert:
+    '{{greeting}}{{who}} may need support right now. Please try to reach them. ' +
+    'If you believe they are in immediate danger, call 911. - {{brand}}',
+};
+
+// Templates exempt from the per-number rate limit
+const UNLIMITED_TEMPLATES: SmsTemplateName[] = ['crisis_alert'];
+
+// Final statuses are not overwritten by late or out-of-order receipts
+const FINAL_STATUSES: SmsDeliveryStatus[] = ['delivered', 'undelivered', 'failed'];
+
+/**
+ * Fill a template's {{placeholders}}; every placeholder needs a value
+ */
+export function renderSmsTemplate(template: SmsTemplateName, vars: SmsTemplateVars): string {
+  const values: SmsTemplateVars = { brand: getSmsPolicy().senderName, ...vars };
+
+  return SMS_TEMPLATES[template].replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (values[name] === undefined) {
+      throw new Error(`Missing SMS template variable: ${name}`);
+    }
+    return String(values[name]);
+  });
+}
+
+/**
+ * E.164 form of a phone number (+ and digits only); spaces, dashes, dots and
+ * brackets are dropped and a missing + is added
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.trim().replace(/[\s\-().]/g, '');
+  const normalized = digits.startsWith('+') ? digits : `+${digits}`;
+
+  if (!/^\+[1-9]\d{6,14}$/.test(normalized)) {
+    throw new Error('Invalid phone number');
+  }
+  return normalized;
+}
+
+export function maskPhone(phone: string): string {
+  return phone.length > 4 ? `${'*'.repeat(phone.length - 4)}${phone.slice(-4)}` : '****';
+}
+
+/**
+ * Sends templated text messages through an SmsProvider (SMS_PROVIDER), rate
+ * limits them per number and keeps each message's delivery status up to date
+ * from the provider's status callbacks.
+ */
+export class SmsService {
+  private smsProvider?: SmsProvider;
+
+  constructor(private createProvider: () => SmsProvider = () => createSmsProvider()) {}
+
+  // Created on first use so the provider reads its configuration after startup
+  get provider(): SmsProvider {
+    if (!this.smsProvider) {
+      this.smsProvider = this.createProvider();
+    }
+    return this.smsProvider;
+  }
+
+  /**
+   * Render and send a message. Throws 'Too many SMS messages ...' when the
+   * number is over its limit and 'Failed to send SMS' when the provider refuses it;
+   * either way the attempt is recorded.
+   */
+  async send(
+    to: string,
+    template: SmsTemplateName,
+    vars: SmsTemplateVars,
+    options: SendSmsOptions = {}
+  ): Promise<ISmsMessage> {
+    const phone = normalizePhone(to);
+    const body = renderSmsTemplate(template, vars);
+
+    if (!UNLIMITED_TEMPLATES.includes(template)) {
+      await this.checkRateLimit(phone);
+    }
+
+    const message = await SmsMessage.create({
+      to: phone,
+      template,
+      userId: options.userId,
+      provider: this.provider.providerName,
+      status: 'queued',
+    });
+
+    try {
+      const result = await this.provider.send({ to: phone, body, reference: message._id.toString() });
+      const now = new Date();
+      message.providerMessageId = result.providerMessageId;
+      message.status = result.status;
+      message.sentAt = now;
+      message.statusUpdatedAt = now;
+      if (result.status === 'delivered') {
+        message.deliveredAt = now;
+      }
+      await message.save();
+    } catch (error) {
+      message.status = 'failed';
+      message.error = error instanceof Error ? error.message : 'Unknown error';
+      message.statusUpdatedAt = new Date();
+      await message.save();
+
+      logError(`SMS: ${template} message ${message._id} could not be sent`, error);
+      throw new Error('Failed to send SMS');
+    }
+
+    logInfo(`SMS: ${template} message ${message._id} ${message.status} via ${message.provider}`);
+    return message;
+  }
+
+  /**
+   * Apply a delivery status callback from the provider
+   */
+  async handleStatusCallback(
+    body: unknown,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<ISmsMessage> {
+    return this.applyStatus(this.provider.parseStatusCallback(body, headers));
+  }
+
+  async applyStatus(receipt: SmsStatusReceipt): Promise<ISmsMessage> {
+    const message = await SmsMessage.findOne({
+      provider: this.provider.providerName,
+      providerMessageId: receipt.providerMessageId,
+    });
+    if (!message) {
+      throw new Error('SMS message not found');
+    }
+
+    if (FINAL_STATUSES.includes(message.status)) {
+      if (message.status !== receipt.status) {
+        logWarn(`SMS: Ignoring ${receipt.status} receipt for message ${message._id}, already ${message.status}`);
+      }
+      return message;
+    }
+
+    const now = new Date();
+    message.status = receipt.status;
+    message.statusUpdatedAt = now;
+    if (receipt.error) {
+      message.error = receipt.error;
+    }
+    if (receipt.status === 'delivered') {
+      message.deliveredAt = now;
+    }
+    await message.save();
+
+    return message;
+  }
+
+  private async checkRateLimit(phone: string): Promise<void> {
+    const { maxPerHour, resendIntervalSeconds } = getSmsPolicy();
+    const now = Date.now();
+
+    const recent = await SmsMessage.find({
+      to: phone,
+      template: { $nin: UNLIMITED_TEMPLATES },
+      createdAt: { $gt: new Date(now - 60 * 60 * 1000) },
+    })
+      .select('createdAt')
+      .lean();
+
+    const lastSentAt = Math.max(0, ...recent.map((m) => new Date(m.createdAt).getTime()));
+    if (recent.length >= maxPerHour || now - lastSentAt < resendIntervalSeconds * 1000) {
+      logWarn(`SMS: Rate limit reached for ${maskPhone(phone)}`);
+      throw new Error('Too many SMS messages to this number. Please try again later.');
+    }
+  }
+}
+
+export const smsService = new SmsService();
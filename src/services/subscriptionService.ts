@@ -1,30 +1,93 @@
 import { Feature, IFeature } from '../models/schemas/Feature';
-import { SubscriptionPlan, ISubscriptionPlan } from '../models/schemas/SubscriptionPlan';
+import {
+  SubscriptionPlan,
+  ISubscriptionPlan,
+  IPlanUsageLimits,
+  IPlanPrice,
+  BillingInterval,
+} from '../models/schemas/SubscriptionPlan';
+import { Persona } from '../models/schemas/Persona';
+import { UserSubscription, SubscriptionStatus } from '../models/schemas/UserSubscription';
+import { ILocalizedText } from '../models/schemas/Localization';
+import { entitlementCache } from './entitlementCache';
+import { AdminActor } from '../types';
 import { logInfo, logError, logWarn } from '../utils/logger';
 import { Types } from 'mongoose';
 
+// Keyed by locale; replaces every translation when given
+export type LocalizationsData = Record<string, ILocalizedText>;
+
 export interface CreateFeatureData {
   name: string;
+  displayName?: string;
   description?: string;
+  localizations?: LocalizationsData;
 }
 
 export interface UpdateFeatureData {
   name?: string;
+  displayName?: string | null;
   description?: string;
+  localizations?: LocalizationsData | null;
   isActive?: boolean;
 }
 
+export interface PlanPriceData {
+  interval: BillingInterval;
+  currency: string;
+  amount: number; // minor units
+}
+
 export interface CreateSubscriptionPlanData {
   name: string;
+  description?: string;
+  localizations?: LocalizationsData;
+  sortOrder?: number;
+  isRecommended?: boolean;
   monthlyPrice: number;
   features?: string[];
+  personaId?: string | null;
+  usageLimits?: IPlanUsageLimits | null;
+  prices?: PlanPriceData[];
+  trialDays?: number | null;
 }
 
 export interface UpdateSubscriptionPlanData {
   name?: string;
+  description?: string | null;
+  localizations?: LocalizationsData | null;
+  sortOrder?: number;
+  isRecommended?: boolean;
   monthlyPrice?: number;
   features?: string[];
   isActive?: boolean;
+  personaId?: string | null;
+  usageLimits?: IPlanUsageLimits | null;
+  trialDays?: number | null;
+}
+
+// Subscribers listed in an archive impact report; the count is always exact
+const ARCHIVE_IMPACT_USER_LIMIT = 100;
+
+export interface ArchiveImpact {
+  canArchive: boolean; // false while any affected plan has current subscribers
+  activeSubscribers: number;
+  plans: Array<{ id: string; name: string; activeSubscribers: number }>;
+  users: Array<{ userId: string; planId: string; status: SubscriptionStatus }>;
+}
+
+export interface ArchiveResult<T> {
+  dryRun: boolean;
+  impact: ArchiveImpact;
+  target?: T; // the archived entry; not set on dry runs
+}
+
+export interface PlanPriceResponse {
+  id: string;
+  interval: BillingInterval;
+  currency: string;
+  amount: number;
+  isActive: boolean;
 }
 
 export class SubscriptionService {
@@ -43,7 +106,9 @@ export class SubscriptionService {
 
     const feature = new Feature({
       name: data.name,
+      displayName: data.displayName,
       description: data.description,
+      localizations: data.localizations,
       isActive: true,
     });
 
@@ -92,6 +157,7 @@ export class SubscriptionService {
       logWarn(`SUBSCRIPTION: Feature not found: ${featureId}`);
       throw new Error('Feature not found');
     }
+    this.assertNotArchived(feature, 'feature');
 
     // Check if name is being changed and if it conflicts with existing feature
     if (data.name && data.name !== feature.name) {
@@ -103,48 +169,79 @@ export class SubscriptionService {
       feature.name = data.name;
     }
 
+    if (data.displayName !== undefined) {
+      feature.displayName = data.displayName || undefined;
+    }
+
     if (data.description !== undefined) {
       feature.description = data.description;
     }
 
+    if (data.localizations !== undefined) {
+      feature.set('localizations', data.localizations || undefined);
+    }
+
     if (data.isActive !== undefined) {
       feature.isActive = data.isActive;
     }
 
     await feature.save();
+    entitlementCache.clear();
     logInfo(`SUBSCRIPTION: Feature updated successfully: ${featureId}`);
 
     return feature;
   }
 
   /**
-   * Delete feature
+   * Archive a feature (replaces deletion). Plans keep referencing it, but it
+   * is inactive everywhere. Refused while subscribers' plans include it.
    */
-  async deleteFeature(featureId: string): Promise<void> {
-    logInfo(`SUBSCRIPTION: Deleting feature: ${featureId}`);
+  async archiveFeature(featureId: string, admin: AdminActor, dryRun: boolean = false): Promise<ArchiveResult<IFeature>> {
+    logInfo(`SUBSCRIPTION: ${dryRun ? 'Dry run: archiving' : 'Archiving'} feature: ${featureId}`);
 
-    const feature = await Feature.findById(featureId);
-    if (!feature) {
-      logWarn(`SUBSCRIPTION: Feature not found: ${featureId}`);
-      throw new Error('Feature not found');
+    const feature = await this.getFeatureById(featureId);
+    if (feature.archivedAt) {
+      throw new Error('Feature is already archived');
     }
 
-    // Check if feature is used in any subscription plans
-    const plansUsingFeature = await SubscriptionPlan.countDocuments({
-      features: new Types.ObjectId(featureId),
-    });
+    const plans = await SubscriptionPlan.find({ features: feature._id, archivedAt: { $exists: false } });
+    const impact = await this.getArchiveImpact(plans);
+    if (dryRun) {
+      return { dryRun, impact };
+    }
 
-    if (plansUsingFeature > 0) {
-      logWarn(
-        `SUBSCRIPTION: Cannot delete feature - used in ${plansUsingFeature} plan(s): ${featureId}`
-      );
+    if (!impact.canArchive) {
+      logWarn(`SUBSCRIPTION: Cannot archive feature ${featureId} - ${impact.activeSubscribers} active subscriber(s)`);
       throw new Error(
-        `Cannot delete feature. It is currently used in ${plansUsingFeature} subscription plan(s). Please remove it from all plans first.`
+        `Cannot archive feature. ${impact.activeSubscribers} active subscriber(s) have it through ${impact.plans.filter((p) => p.activeSubscribers > 0).length} plan(s). Move them to another plan or remove the feature from those plans first.`
       );
     }
 
-    await Feature.findByIdAndDelete(featureId);
-    logInfo(`SUBSCRIPTION: Feature deleted successfully: ${featureId}`);
+    feature.isActive = false;
+    feature.archivedAt = new Date();
+    feature.archivedBy = { adminId: admin.adminId, adminEmail: admin.email };
+    await feature.save();
+    entitlementCache.clear();
+    logInfo(`SUBSCRIPTION: Feature archived by ${admin.email}: ${featureId}`);
+
+    return { dryRun, impact, target: feature };
+  }
+
+  /**
+   * Restore an archived feature. It comes back inactive; activate it with an update.
+   */
+  async unarchiveFeature(featureId: string, admin: AdminActor): Promise<IFeature> {
+    const feature = await this.getFeatureById(featureId);
+    if (!feature.archivedAt) {
+      throw new Error('Cannot unarchive: feature is not archived');
+    }
+
+    feature.archivedAt = undefined;
+    feature.archivedBy = undefined;
+    await feature.save();
+    logInfo(`SUBSCRIPTION: Feature unarchived by ${admin.email}: ${featureId}`);
+
+    return feature;
   }
 
   /**
@@ -176,14 +273,35 @@ export class SubscriptionService {
       }
     }
 
+    if (data.personaId) {
+      await this.assertPersonaAvailable(data.personaId);
+    }
+
+    (data.prices || []).forEach((price, index, prices) => {
+      if (prices.findIndex((p) => p.interval === price.interval && p.currency === price.currency) !== index) {
+        throw new Error(`Invalid prices: more than one ${price.interval}ly price in ${price.currency}`);
+      }
+    });
+
     const plan = new SubscriptionPlan({
       name: data.name,
+      description: data.description,
+      localizations: data.localizations,
+      sortOrder: data.sortOrder ?? 0,
+      isRecommended: !!data.isRecommended,
       monthlyPrice: data.monthlyPrice,
       features: data.features ? data.features.map(id => new Types.ObjectId(id)) : [],
+      personaId: data.personaId ? new Types.ObjectId(data.personaId) : undefined,
+      usageLimits: data.usageLimits || undefined,
+      prices: data.prices || [],
+      trialDays: data.trialDays || undefined,
       isActive: true,
     });
 
     await plan.save();
+    if (plan.isRecommended) {
+      await this.clearOtherRecommendations(plan);
+    }
     logInfo(`SUBSCRIPTION: Subscription plan created successfully: ${data.name}`);
 
     return plan;
@@ -198,20 +316,32 @@ export class SubscriptionService {
     const filter = includeInactive ? {} : { isActive: true };
     const plans = await SubscriptionPlan.find(filter)
       .populate('features')
-      .sort({ monthlyPrice: 1 });
+      .sort({ sortOrder: 1, monthlyPrice: 1 });
 
     // Map to clean response format
     const plansWithFeatures = plans.map((plan) => ({
       id: plan._id.toString(),
       name: plan.name,
+      description: plan.description || null,
+      localizations: this.toLocalizations(plan.localizations),
+      sortOrder: plan.sortOrder,
+      isRecommended: plan.isRecommended,
       monthlyPrice: plan.monthlyPrice,
+      personaId: plan.personaId?.toString() || null,
+      usageLimits: this.toUsageLimits(plan.usageLimits),
+      prices: this.toPlanPrices(plan),
+      trialDays: plan.trialDays || null,
       isActive: plan.isActive,
+      archivedAt: plan.archivedAt || null,
+      archivedBy: plan.archivedBy || null,
       createdAt: plan.createdAt,
       updatedAt: plan.updatedAt,
       features: (plan.features as any[]).map((f: any) => ({
         id: f._id?.toString(),
         name: f.name,
+        displayName: f.displayName || null,
         description: f.description,
+        localizations: this.toLocalizations(f.localizations),
         isActive: f.isActive,
       })),
     }));
@@ -235,14 +365,26 @@ export class SubscriptionService {
     return {
       id: plan._id.toString(),
       name: plan.name,
+      description: plan.description || null,
+      localizations: this.toLocalizations(plan.localizations),
+      sortOrder: plan.sortOrder,
+      isRecommended: plan.isRecommended,
       monthlyPrice: plan.monthlyPrice,
+      personaId: plan.personaId?.toString() || null,
+      usageLimits: this.toUsageLimits(plan.usageLimits),
+      prices: this.toPlanPrices(plan),
+      trialDays: plan.trialDays || null,
       isActive: plan.isActive,
+      archivedAt: plan.archivedAt || null,
+      archivedBy: plan.archivedBy || null,
       createdAt: plan.createdAt,
       updatedAt: plan.updatedAt,
       features: (plan.features as any[]).map((f: any) => ({
         id: f._id?.toString(),
         name: f.name,
+        displayName: f.displayName || null,
         description: f.description,
+        localizations: this.toLocalizations(f.localizations),
         isActive: f.isActive,
       })),
     };
@@ -262,6 +404,7 @@ export class SubscriptionService {
       logWarn(`SUBSCRIPTION: Subscription plan not found: ${planId}`);
       throw new Error('Subscription plan not found');
     }
+    this.assertNotArchived(plan, 'plan');
 
     // Check if name is being changed and if it conflicts
     if (data.name && data.name !== plan.name) {
@@ -273,6 +416,22 @@ export class SubscriptionService {
       plan.name = data.name;
     }
 
+    if (data.description !== undefined) {
+      plan.description = data.description || undefined;
+    }
+
+    if (data.localizations !== undefined) {
+      plan.set('localizations', data.localizations || undefined);
+    }
+
+    if (data.sortOrder !== undefined) {
+      plan.sortOrder = data.sortOrder;
+    }
+
+    if (data.isRecommended !== undefined) {
+      plan.isRecommended = data.isRecommended;
+    }
+
     if (data.monthlyPrice !== undefined) {
       if (data.monthlyPrice < 0) {
         throw new Error('Monthly price cannot be negative');
@@ -303,7 +462,27 @@ export class SubscriptionService {
       plan.isActive = data.isActive;
     }
 
+    if (data.personaId !== undefined) {
+      if (data.personaId) {
+        await this.assertPersonaAvailable(data.personaId);
+      }
+      plan.personaId = data.personaId ? new Types.ObjectId(data.personaId) : undefined;
+    }
+
+    if (data.usageLimits !== undefined) {
+      // Replaces the whole set; null removes all limits
+      plan.set('usageLimits', data.usageLimits || undefined);
+    }
+
+    if (data.trialDays !== undefined) {
+      plan.trialDays = data.trialDays || undefined;
+    }
+
     await plan.save();
+    if (data.isRecommended) {
+      await this.clearOtherRecommendations(plan);
+    }
+    entitlementCache.invalidatePlan(plan._id.toString());
     logInfo(`SUBSCRIPTION: Subscription plan updated successfully: ${planId}`);
 
     return plan;
@@ -320,6 +499,7 @@ export class SubscriptionService {
       logWarn(`SUBSCRIPTION: Subscription plan not found: ${planId}`);
       throw new Error('Subscription plan not found');
     }
+    this.assertNotArchived(plan, 'plan');
 
     // Validate all features exist and are active
     const featureObjectIds = featureIds.map(id => new Types.ObjectId(id));
@@ -343,6 +523,7 @@ export class SubscriptionService {
     plan.features.push(...newFeatureObjectIds);
 
     await plan.save();
+    entitlementCache.invalidatePlan(plan._id.toString());
     logInfo(
       `SUBSCRIPTION: Added ${newFeatureObjectIds.length} features to plan: ${planId}`
     );
@@ -364,33 +545,234 @@ export class SubscriptionService {
       logWarn(`SUBSCRIPTION: Subscription plan not found: ${planId}`);
       throw new Error('Subscription plan not found');
     }
+    this.assertNotArchived(plan, 'plan');
 
     // Remove features
     plan.features = plan.features.filter((id) => !featureIds.includes(id.toString()));
 
     await plan.save();
+    entitlementCache.invalidatePlan(plan._id.toString());
     logInfo(`SUBSCRIPTION: Removed features from plan: ${planId}`);
 
     return plan;
   }
 
   /**
-   * Delete subscription plan
+   * Add a price to a plan. Only one active price per interval and currency.
+   */
+  async addPlanPrice(planId: string, data: PlanPriceData): Promise<ISubscriptionPlan> {
+    logInfo(`SUBSCRIPTION: Adding ${data.interval}ly ${data.currency} price to plan: ${planId}`);
+
+    const plan = await SubscriptionPlan.findById(planId);
+    if (!plan) {
+      logWarn(`SUBSCRIPTION: Subscription plan not found: ${planId}`);
+      throw new Error('Subscription plan not found');
+    }
+    this.assertNotArchived(plan, 'plan');
+
+    this.assertNoActivePrice(plan, data.interval, data.currency);
+    plan.prices.push({ ...data, isActive: true });
+
+    await plan.save();
+    logInfo(`SUBSCRIPTION: Price added to plan: ${planId}`);
+
+    return plan;
+  }
+
+  /**
+   * Activate or deactivate a price (amounts are fixed; add a new price to change one)
    */
-  async deleteSubscriptionPlan(planId: string): Promise<void> {
-    logInfo(`SUBSCRIPTION: Deleting subscription plan: ${planId}`);
+  async setPlanPriceActive(planId: string, priceId: string, isActive: boolean): Promise<ISubscriptionPlan> {
+    logInfo(`SUBSCRIPTION: Setting price ${priceId} of plan ${planId} active=${isActive}`);
 
     const plan = await SubscriptionPlan.findById(planId);
     if (!plan) {
       logWarn(`SUBSCRIPTION: Subscription plan not found: ${planId}`);
       throw new Error('Subscription plan not found');
     }
+    this.assertNotArchived(plan, 'plan');
+
+    const price = plan.prices.id(priceId);
+    if (!price) {
+      throw new Error('Price not found');
+    }
+
+    if (isActive && !price.isActive) {
+      this.assertNoActivePrice(plan, price.interval, price.currency);
+    }
+    price.isActive = isActive;
+
+    await plan.save();
+    return plan;
+  }
+
+  /**
+   * Archive a plan (replaces deletion) so subscriptions and payments that
+   * reference it stay intact. Refused while it has current subscribers.
+   */
+  async archiveSubscriptionPlan(
+    planId: string,
+    admin: AdminActor,
+    dryRun: boolean = false
+  ): Promise<ArchiveResult<ISubscriptionPlan>> {
+    logInfo(`SUBSCRIPTION: ${dryRun ? 'Dry run: archiving' : 'Archiving'} subscription plan: ${planId}`);
+
+    const plan = await this.findPlan(planId);
+    if (plan.archivedAt) {
+      throw new Error('Subscription plan is already archived');
+    }
+
+    const impact = await this.getArchiveImpact([plan]);
+    if (dryRun) {
+      return { dryRun, impact };
+    }
+
+    if (!impact.canArchive) {
+      logWarn(`SUBSCRIPTION: Cannot archive plan ${planId} - ${impact.activeSubscribers} active subscriber(s)`);
+      throw new Error(
+        `Cannot archive subscription plan. It has ${impact.activeSubscribers} active subscriber(s); move them to another plan first.`
+      );
+    }
+
+    plan.isActive = false;
+    plan.isRecommended = false;
+    plan.archivedAt = new Date();
+    plan.archivedBy = { adminId: admin.adminId, adminEmail: admin.email };
+    await plan.save();
+    entitlementCache.invalidatePlan(plan._id.toString());
+    logInfo(`SUBSCRIPTION: Subscription plan archived by ${admin.email}: ${planId}`);
+
+    return { dryRun, impact, target: plan };
+  }
+
+  /**
+   * Restore an archived plan. It comes back inactive so it doesn't reappear
+   * on the pricing page until an admin activates it.
+   */
+  async unarchiveSubscriptionPlan(planId: string, admin: AdminActor): Promise<ISubscriptionPlan> {
+    const plan = await this.findPlan(planId);
+    if (!plan.archivedAt) {
+      throw new Error('Cannot unarchive: subscription plan is not archived');
+    }
+
+    plan.archivedAt = undefined;
+    plan.archivedBy = undefined;
+    await plan.save();
+    logInfo(`SUBSCRIPTION: Subscription plan unarchived by ${admin.email}: ${planId}`);
+
+    return plan;
+  }
+
+  /**
+   * Plain limits object for responses (drops unset fields)
+   */
+  toUsageLimits(limits?: IPlanUsageLimits): IPlanUsageLimits {
+    const result: IPlanUsageLimits = {};
+    if (!limits) return result;
+
+    for (const key of ['dailyVoiceMinutes', 'monthlyVoiceMinutes', 'dailyTurns', 'monthlyTurns'] as const) {
+      if (typeof limits[key] === 'number') result[key] = limits[key];
+    }
+    return result;
+  }
+
+  /**
+   * Translations as a plain object for responses
+   */
+  toLocalizations(localizations?: Map<string, ILocalizedText>): Record<string, ILocalizedText> | null {
+    if (!localizations || localizations.size === 0) return null;
+    const result: Record<string, ILocalizedText> = {};
+    for (const [locale, text] of localizations) {
+      result[locale] = { name: text.name, description: text.description };
+    }
+    return result;
+  }
+
+  /**
+   * Price entries for responses
+   */
+  toPlanPrices(plan: ISubscriptionPlan, activeOnly: boolean = false): PlanPriceResponse[] {
+    return (plan.prices || [])
+      .filter((price) => !activeOnly || price.isActive)
+      .map((price) => ({
+        id: price._id.toString(),
+        interval: price.interval,
+        currency: price.currency,
+        amount: price.amount,
+        isActive: price.isActive,
+      }));
+  }
+
+  /**
+   * Current (not expired) subscribers of the given plans
+   */
+  private async getArchiveImpact(plans: ISubscriptionPlan[]): Promise<ArchiveImpact> {
+    const planIds = plans.map((plan) => plan._id);
+    const filter = { planId: { $in: planIds }, status: { $ne: 'expired' } };
+
+    const [counts, subscriptions] = await Promise.all([
+      UserSubscription.aggregate<{ _id: Types.ObjectId; count: number }>([
+        { $match: filter },
+        { $group: { _id: '$planId', count: { $sum: 1 } } },
+      ]),
+      UserSubscription.find(filter)
+        .select('userId planId status')
+        .sort({ createdAt: -1 })
+        .limit(ARCHIVE_IMPACT_USER_LIMIT),
+    ]);
+
+    const countFor = (planId: Types.ObjectId) => counts.find((c) => c._id.equals(planId))?.count || 0;
+    const activeSubscribers = counts.reduce((total, c) => total + c.count, 0);
+
+    return {
+      canArchive: activeSubscribers === 0,
+      activeSubscribers,
+      plans: plans.map((plan) => ({ id: plan._id.toString(), name: plan.name, activeSubscribers: countFor(plan._id) })),
+      users: subscriptions.map((sub) => ({
+        userId: sub.userId.toString(),
+        planId: sub.planId.toString(),
+        status: sub.status,
+      })),
+    };
+  }
+
+  private async findPlan(planId: string): Promise<ISubscriptionPlan> {
+    const plan = Types.ObjectId.isValid(planId) ? await SubscriptionPlan.findById(planId) : null;
+    if (!plan) {
+      logWarn(`SUBSCRIPTION: Subscription plan not found: ${planId}`);
+      throw new Error('Subscription plan not found');
+    }
+    return plan;
+  }
+
+  private assertNotArchived(entry: { archivedAt?: Date }, label: string): void {
+    if (entry.archivedAt) {
+      throw new Error(`Cannot change an archived ${label}; unarchive it first`);
+    }
+  }
 
-    // TODO: Check if plan is used by any active subscriptions
-    // For now, we'll allow deletion
+  /**
+   * Only one plan is recommended at a time
+   */
+  private async clearOtherRecommendations(plan: ISubscriptionPlan): Promise<void> {
+    await SubscriptionPlan.updateMany({ _id: { $ne: plan._id }, isRecommended: true }, { isRecommended: false });
+  }
 
-    await SubscriptionPlan.findByIdAndDelete(planId);
-    logInfo(`SUBSCRIPTION: Subscription plan deleted successfully: ${planId}`);
+  private assertNoActivePrice(plan: ISubscriptionPlan, interval: BillingInterval, currency: string): void {
+    if (plan.prices.some((p: IPlanPrice) => p.isActive && p.interval === interval && p.currency === currency)) {
+      throw new Error(`Plan already has an active ${interval}ly price in ${currency}`);
+    }
+  }
+
+  /**
+   * Ensure a persona can be assigned to a plan
+   */
+  private async assertPersonaAvailable(personaId: string): Promise<void> {
+    const persona = Types.ObjectId.isValid(personaId) ? await Persona.findById(personaId) : null;
+    if (!persona || !persona.isActive || !persona.publishedVersion) {
+      logWarn(`SUBSCRIPTION: Invalid persona: ${personaId}`);
+      throw new Error(`Invalid or unpublished persona: ${personaId}`);
+    }
   }
 }
 
@@ -0,0 +1,324 @@
+import { Session, ISessionSummary } from '../models/schemas/Session';
+import { Message } from '../models/schemas/Message';
+import { EmotionResult } from '../types';
+import { crisisDetectionService } from './crisisDetection';
+import { conversationPipelineService } from './conversationPipelineService';
+import { sessionSummaryService } from './sessionSummaryService';
+import {
+  RealtimeVoiceProvider,
+  RealtimeVoiceProviderFactory,
+  createVoiceProvider
+} from './realtimeVoiceProvider';
+import { logInfo, logError } from '../utils/logger';
+
+export interface TextChatCrisisAlert {
+  severity: string;
+  keywords: string[];
+  message: string;
+  escalated: boolean;
+}
+
+export interface TextChatUserMessage {
+  messageId?: string;
+  emotion?: EmotionResult;
+  crisis?: TextChatCrisisAlert;
+}
+
+export interface TextChatHandlers {
+  onUserMessage?: (data: TextChatUserMessage) => void;
+  onDelta?: (delta: string) => void;
+}
+
+export interface TextChatReply extends TextChatUserMessage {
+  sessionId: string;
+  reply: string;
+  assistantMessageId?: string;
+}
+
+interface TextConversation {
+  userId: string;
+  provider: RealtimeVoiceProvider;
+  crisisKeywords: string[];
+  lastTurnAt: Date;
+  idleTimer: NodeJS.Timeout | null;
+  queue: Promise<unknown>;
+}
+
+/**
+ * Text-only chat over the same provider, persona, memory and crisis/emotion pipeline as voice.
+ * Each session keeps a text-mode provider connection between turns; it is released after
+ * TEXT_CHAT_IDLE_TIMEOUT_MS of inactivity, which also ends the session.
+ */
+export class TextChatService {
+  private conversations: Map<string, TextConversation> = new Map();
+  private starting: Map<string, Promise<TextConversation>> = new Map();
+  private createProvider: RealtimeVoiceProviderFactory;
+  private idleTimeoutMs = parseInt(process.env.TEXT_CHAT_IDLE_TIMEOUT_MS || '300000', 10); // 5 min default
+  private responseTimeoutMs = parseInt(process.env.TEXT_CHAT_RESPONSE_TIMEOUT_MS || '30000', 10);
+
+  constructor(options: { providerFactory?: RealtimeVoiceProviderFactory } = {}) {
+    this.createProvider = options.providerFactory || (() => createVoiceProvider());
+  }
+
+  /**
+   * Send a user message and stream the assistant reply.
+   * Unknown session ids start a new session; ids owned by another user are reported as not found.
+   */
+  async sendMessage(
+    userId: string,
+    sessionId: string,
+    text: string,
+    handlers: TextChatHandlers = {}
+  ): Promise<TextChatReply> {
+    const conversation = await this.getConversation(userId, sessionId);
+
+    // Turns in a session run one at a time so replies don't interleave
+    const turn = conversation.queue.then(() => this.runTurn(sessionId, conversation, text, handlers));
+    conversation.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * End a chat session: release the provider and finalize the session summary
+   */
+  async endSession(userId: string, sessionId: string): Promise<ISessionSummary | null> {
+    const session = await Session.findOne({ sessionId, userId }).select('_id');
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    this.release(sessionId);
+    return sessionSummaryService.finalizeSession(sessionId);
+  }
+
+  getActiveConversationCount(): number {
+    return this.conversations.size;
+  }
+
+  /**
+   * Release every conversation (server shutdown)
+   */
+  cleanup(): void {
+    for (const sessionId of Array.from(this.conversations.keys())) {
+      this.release(sessionId);
+    }
+  }
+
+  private async getConversation(userId: string, sessionId: string): Promise<TextConversation> {
+    const existing = this.conversations.get(sessionId);
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new Error('Session not found');
+      }
+
+      // Voice turns since our last reply aren't in this provider's context - reconnect with fresh memory
+      if (!(await this.hasTurnsOnOtherChannels(sessionId, existing.lastTurnAt))) {
+        return existing;
+      }
+      logInfo(`[TextChat] Session ${sessionId} continued on another channel; refreshing context`);
+      this.release(sessionId);
+    }
+
+    let pending = this.starting.get(sessionId);
+    if (!pending) {
+      pending = this.startConversation(userId, sessionId).finally(() => this.starting.delete(sessionId));
+      this.starting.set(sessionId, pending);
+    }
+
+    const conversation = await pending;
+    if (conversation.userId !== userId) {
+      throw new Error('Session not found');
+    }
+    return conversation;
+  }
+
+  private async startConversation(userId: string, sessionId: string): Promise<TextConversation> {
+    if (!(await conversationPipelineService.isSessionIdAvailable(sessionId, userId))) {
+      throw new Error('Session not found');
+    }
+
+    const { persona, memory, crisisKeywords } = await conversationPipelineService.prepare(userId, sessionId);
+
+    const provider = this.createProvider();
+    provider.on('error', (error) => {
+      logError(`[TextChat] Provider error for session ${sessionId}`, error);
+    });
+
+    try {
+      await provider.connect(sessionId, userId, undefined, {
+        memory,
+        persona: persona?.settings,
+        modalities: ['text']
+      });
+    } catch (error) {
+      // Close whatever the failed connect left open
+      provider.disconnect();
+      throw error;
+    }
+
+    const conversation: TextConversation = {
+      userId,
+      provider,
+      crisisKeywords,
+      lastTurnAt: new Date(),
+      idleTimer: null,
+      queue: Promise.resolve()
+    };
+    this.conversations.set(sessionId, conversation);
+
+    provider.on('disconnected', () => {
+      if (this.conversations.get(sessionId)?.provider === provider) {
+        logInfo(`[TextChat] Provider for session ${sessionId} disconnected`);
+        this.clearIdleTimer(conversation);
+        this.conversations.delete(sessionId);
+      }
+    });
+    await conversationPipelineService.openSession({ sessionId, userId, channel: 'text', persona });
+    logInfo(`[TextChat] Session ${sessionId} started for user ${userId}`);
+
+    return conversation;
+  }
+
+  private async runTurn(
+    sessionId: string,
+    conversation: TextConversation,
+    text: string,
+    handlers: TextChatHandlers
+  ): Promise<TextChatReply> {
+    this.clearIdleTimer(conversation);
+
+    try {
+      const analysis = await conversationPipelineService.analyzeUserMessage(text, conversation.crisisKeywords);
+      const { emotion, crisis } = analysis;
+      const crisisAlert: TextChatCrisisAlert | undefined = crisis?.isCrisis ? {
+        severity: crisis.severity,
+        keywords: crisis.keywords,
+        message: crisisDetectionService.getGuidanceMessage(crisis.severity),
+        escalated: analysis.shouldEscalate
+      } : undefined;
+
+      const messageId = await conversationPipelineService.saveUserMessage({
+        sessionId,
+        userId: conversation.userId,
+        content: text,
+        source: 'text',
+        analysis
+      });
+      handlers.onUserMessage?.({ messageId, emotion, crisis: crisisAlert });
+
+      const { content, responseId } = await this.collectReply(conversation.provider, text, handlers.onDelta);
+
+      const assistantMessageId = content
+        ? await conversationPipelineService.saveAssistantMessage({
+          sessionId,
+          userId: conversation.userId,
+          content,
+          source: 'text',
+          metadata: { responseId }
+        })
+        : undefined;
+
+      conversation.lastTurnAt = new Date();
+
+      return {
+        sessionId,
+        messageId,
+        emotion,
+        crisis: crisisAlert,
+        reply: content,
+        assistantMessageId
+      };
+    } finally {
+      if (this.conversations.get(sessionId) === conversation) {
+        this.scheduleIdleTimer(sessionId, conversation);
+      }
+    }
+  }
+
+  /**
+   * Send the text to the provider and accumulate the streamed reply until it completes
+   */
+  private collectReply(
+    provider: RealtimeVoiceProvider,
+    text: string,
+    onDelta?: (delta: string) => void
+  ): Promise<{ content: string; responseId?: string }> {
+    return new Promise((resolve, reject) => {
+      let content = '';
+      let responseId: string | undefined;
+
+      const handleDelta = (data: { delta: string; response_id?: string }) => {
+        responseId = data.response_id || responseId;
+        content += data.delta;
+        onDelta?.(data.delta);
+      };
+      const handleDone = (data: { response_id?: string }) => {
+        finish();
+        resolve({ content: content.trim(), responseId: data.response_id || responseId });
+      };
+      const handleError = (error: Error) => {
+        finish();
+        reject(error);
+      };
+      const handleDisconnected = () => {
+        finish();
+        reject(new Error('Chat provider disconnected'));
+      };
+      const timer = setTimeout(() => {
+        finish();
+        reject(new Error('Assistant response timed out'));
+      }, this.responseTimeoutMs);
+
+      const finish = () => {
+        clearTimeout(timer);
+        provider.off('transcript-delta', handleDelta);
+        provider.off('transcript-done', handleDone);
+        provider.off('error', handleError);
+        provider.off('disconnected', handleDisconnected);
+      };
+
+      provider.on('transcript-delta', handleDelta);
+      provider.on('transcript-done', handleDone);
+      provider.on('error', handleError);
+      provider.on('disconnected', handleDisconnected);
+      provider.sendTextInput(text);
+    });
+  }
+
+  private async hasTurnsOnOtherChannels(sessionId: string, since: Date): Promise<boolean> {
+    try {
+      const found = await Message.exists({ sessionId, source: { $ne: 'text' }, timestamp: { $gt: since } });
+      return !!found;
+    } catch (error) {
+      logError(`[TextChat] Failed to check session ${sessionId} for voice turns`, error);
+      return false;
+    }
+  }
+
+  private scheduleIdleTimer(sessionId: string, conversation: TextConversation): void {
+    this.clearIdleTimer(conversation);
+    conversation.idleTimer = setTimeout(async () => {
+      logInfo(`[TextChat] Session ${sessionId} idle for ${this.idleTimeoutMs}ms; ending it`);
+      this.release(sessionId);
+      await sessionSummaryService.finalizeSession(sessionId);
+    }, this.idleTimeoutMs);
+  }
+
+  private clearIdleTimer(conversation: TextConversation): void {
+    if (conversation.idleTimer) {
+      clearTimeout(conversation.idleTimer);
+      conversation.idleTimer = null;
+    }
+  }
+
+  private release(sessionId: string): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return;
+
+    this.conversations.delete(sessionId);
+    this.clearIdleTimer(conversation);
+    conversation.provider.disconnect();
+  }
+}
+
+export const textChatService = new TextChatService();
@@ -0,0 +1,130 @@
+import { EventEmitter } from 'events';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { User, IUser } from '../models/schemas/User';
+import { RefreshTokenRevokeReason } from '../models/schemas/RefreshTokenFamily';
+import { refreshTokenService } from './refreshTokenService';
+import { logInfo } from '../utils/logger';
+
+export type TokenRejectionCode =
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_REVOKED'
+  | 'USER_NOT_FOUND'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_DEACTIVATED';
+
+// Messages kept from the REST middleware so existing clients see the same text
+const REJECTION_MESSAGES: Record<TokenRejectionCode, string> = {
+  TOKEN_EXPIRED: 'Token expired',
+  TOKEN_INVALID: 'Invalid token',
+  TOKEN_REVOKED: 'Token has been revoked',
+  USER_NOT_FOUND: 'Invalid token - user not found',
+  EMAIL_NOT_VERIFIED: 'Email verification required',
+  ACCOUNT_LOCKED: 'Account is temporarily locked',
+  ACCOUNT_SUSPENDED: 'Account is suspended',
+  ACCOUNT_DEACTIVATED: 'Account is deactivated',
+};
+
+// Claims the policy looks at; access and refresh tokens both carry them
+export interface TokenClaims {
+  userId: string;
+  email?: string;
+  sid?: string; // login (refresh token family)
+  tv?: number; // user's tokenVersion when issued
+  iat?: number; // seconds
+}
+
+export type TokenAuthResult =
+  | { ok: true; user: IUser; claims: TokenClaims }
+  | { ok: false; code: TokenRejectionCode; message: string };
+
+export interface AccessRevokedEvent {
+  userId: string;
+  reason: RefreshTokenRevokeReason;
+}
+
+/**
+ * One answer to "is this token still good?" for REST and Socket.IO alike.
+ * A token is refused when its user can't sign in any more (suspended,
+ * deactivated, locked, unverified) or when it predates the last password
+ * change or token revocation of that user.
+ */
+export class TokenPolicyService {
+  private events = new EventEmitter();
+
+  /**
+   * Rejection code for a verified token's claims, or null if it may be used
+   */
+  evaluate(user: IUser | null, claims: TokenClaims, now: Date = new Date()): TokenRejectionCode | null {
+    if (!user) return 'USER_NOT_FOUND';
+    if (user.isSuspended) return 'ACCOUNT_SUSPENDED';
+    if (!user.isActive) return 'ACCOUNT_DEACTIVATED';
+    if (!user.emailVerified) return 'EMAIL_NOT_VERIFIED';
+    if (user.lockUntil && user.lockUntil > now) return 'ACCOUNT_LOCKED';
+
+    // Tokens from before tokenVersion existed count as version 0
+    if ((claims.tv ?? 0) !== (user.tokenVersion ?? 0)) return 'TOKEN_REVOKED';
+
+    // iat has second precision; a token from the same second as the change is still accepted
+    if (user.passwordChangedAt && (claims.iat ?? 0) < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+      return 'TOKEN_REVOKED';
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify an access token and load its user
+   */
+  async authenticate(token: string): Promise<TokenAuthResult> {
+    let claims: TokenClaims;
+    try {
+      // Read on use: the service is created before dotenv runs
+      claims = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as TokenClaims;
+    } catch (error) {
+      return this.reject(error instanceof jwt.TokenExpiredError ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID');
+    }
+
+    // userId is the user's _id (users have no separate userId field)
+    if (!claims.userId || !Types.ObjectId.isValid(claims.userId)) return this.reject('TOKEN_INVALID');
+
+    const user = await User.findById(claims.userId);
+    const code = this.evaluate(user, claims);
+    if (code) return this.reject(code);
+
+    return { ok: true, user: user as IUser, claims };
+  }
+
+  /**
+   * Invalidate every access and refresh token of a user, end their logins
+   * and tell listeners (the voice gateway) to drop live connections.
+   * Returns how many logins were ended.
+   */
+  async revokeAllTokens(userId: string, reason: RefreshTokenRevokeReason): Promise<number> {
+    await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+    const revoked = await refreshTokenService.revokeAll(userId, reason);
+
+    logInfo(`AUTH: Revoked all tokens of user ${userId} (${reason})`);
+    this.events.emit('access-revoked', { userId, reason } as AccessRevokedEvent);
+    return revoked;
+  }
+
+  /**
+   * Subscribe to revocations; returns a function that unsubscribes
+   */
+  onAccessRevoked(listener: (event: AccessRevokedEvent) => void): () => void {
+    this.events.on('access-revoked', listener);
+    return () => {
+      this.events.off('access-revoked', listener);
+    };
+  }
+
+  private reject(code: TokenRejectionCode): TokenAuthResult {
+    return { ok: false, code, message: REJECTION_MESSAGES[code] };
+  }
+}
+
+export const tokenPolicyService = new TokenPolicyService();
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, IUser } from '../models/schemas/User';
+import { Admin, IAdmin } from '../models/schemas/Admin';
+import {
+  TwoFactorAccountType,
+  getTwoFactorPolicy,
+  getTwoFactorEncryptionKey
+} from '../config/twoFactor';
+import { generateTotpSecret, matchTotpStep, buildOtpauthUri } from '../utils/totp';
+import { logAuth, logInfo } from '../utils/logger';
+
+const CHALLENGE_AUDIENCE = 'ava:two-factor';
+const ENROLLMENT_TTL_MS = 10 * 60 * 1000;
+
+export type TwoFactorAccount = IUser | IAdmin;
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorEnrollment {
+  secret: string; // base32, for manual entry
+  otpauthUri: string; // render as a QR code
+  expiresAt: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+}
+
+// Returned by login instead of tokens until the second factor is checked
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: string;
+  setupRequired: boolean; // policy requires 2FA and the account has none yet
+  enrollment?: TwoFactorEnrollment;
+}
+
+export interface TwoFactorChallengeClaims {
+  accountId: string;
+  type: TwoFactorAccountType;
+  setup: boolean;
+}
+
+/**
+ * TOTP second factor for users and admins: enrollment confirmed with a first
+ * code, single-use hashed recovery codes, and the short-lived challenge that
+ * sits between a correct password and the issued tokens.
+ */
+export class TwoFactorService {
+  isRequired(type: TwoFactorAccountType): boolean {
+    return getTwoFactorPolicy().requiredFor[type];
+  }
+
+  async findAccount(type: TwoFactorAccountType, accountId: string): Promise<TwoFactorAccount> {
+    const account = type === 'admin' ? await Admin.findById(accountId) : await User.findById(accountId);
+    if (!account) {
+      throw new Error(type === 'admin' ? 'Admin not found' : 'User not found');
+    }
+    return account;
+  }
+
+  getStatus(account: TwoFactorAccount, type: TwoFactorAccountType): TwoFactorStatus {
+    const twoFactor = account.twoFactor;
+    return {
+      enabled: !!twoFactor?.enabled,
+      required: this.isRequired(type),
+      enabledAt: twoFactor?.enabledAt,
+      recoveryCodesRemaining: twoFactor?.enabled ? twoFactor.recoveryCodes.filter((c) => !c.usedAt).length : 0,
+    };
+  }
+
+  /**
+   * Create a secret to add to an authenticator app. It only takes effect
+   * once confirmEnrollment sees a code generated from it.
+   */
+  async beginEnrollment(account: TwoFactorAccount): Promise<TwoFactorEnrollment> {
+    if (account.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const expiresAt = new Date(Date.now() + ENROLLMENT_TTL_MS);
+
+    account.set('twoFactor.pendingSecret', this.encrypt(secret));
+    account.set('twoFactor.pendingExpiresAt', expiresAt);
+    await account.save();
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(getTwoFactorPolicy().issuer, account.email, secret),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Turn 2FA on with the first code from the app; returns the recovery codes (shown once)
+   */
+  async confirmEnrollment(account: TwoFactorAccount, code: string): Promise<string[]> {
+    const twoFactor = account.twoFactor;
+    if (twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!twoFactor?.pendingSecret || !twoFactor.pendingExpiresAt || twoFactor.pendingExpiresAt <= new Date()) {
+      throw new Error('No two-factor enrollment in progress');
+    }
+
+    const secret = this.decrypt(twoFactor.pendingSecret);
+    const step = matchTotpStep(secret, code.trim(), { window: getTwoFactorPolicy().window });
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    account.set('twoFactor', {
+      enabled: true,
+      secret: twoFactor.pendingSecret,
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodes: recoveryCodes.map((c) => ({ hash: this.hashRecoveryCode(c) })),
+    });
+    await account.save();
+
+    logAuth.securityEvent(account.email, 'Two-factor authentication enabled');
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code. Each TOTP code and each recovery code is
+   * accepted once. Returns how the account was verified, or null.
+   */
+  async verify(account: TwoFactorAccount, code: string): Promise<TwoFactorMethod | null> {
+    const twoFactor = account.twoFactor;
+    if (!twoFactor?.enabled || !twoFactor.secret) return null;
+
+    const input = code.trim();
+    if (/^\d+$/.test(input)) {
+      const step = matchTotpStep(this.decrypt(twoFactor.secret), input, { window: getTwoFactorPolicy().window });
+      if (step === null || (twoFactor.lastUsedStep !== undefined && step <= twoFactor.lastUsedStep)) {
+        return null;
+      }
+
+      account.set('twoFactor.lastUsedStep', step);
+      await account.save();
+      return 'totp';
+    }
+
+    const hash = this.hashRecoveryCode(input);
+    const recoveryCode = twoFactor.recoveryCodes.find(
+      (c) => !c.usedAt && crypto.timingSafeEqual(Buffer.from(c.hash), Buffer.from(hash))
+    );
+    if (!recoveryCode) return null;
+
+    recoveryCode.usedAt = new Date();
+    account.markModified('twoFactor.recoveryCodes');
+    await account.save();
+
+    logAuth.securityEvent(
+      account.email,
+      'Two-factor recovery code used',
+      `${twoFactor.recoveryCodes.filter((c) => !c.usedAt).length} remaining`
+    );
+    return 'recovery_code';
+  }
+
+  /**
+   * Turn 2FA off; needs a current code. Not allowed where the policy requires 2FA.
+   */
+  async disable(account: TwoFactorAccount, type: TwoFactorAccountType, code: string): Promise<void> {
+    if (!account.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (this.isRequired(type)) {
+      throw new Error(`Cannot disable two-factor authentication: it is required for ${type} accounts`);
+    }
+    if (!(await this.verify(account, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    account.set('twoFactor', { enabled: false, recoveryCodes: [] });
+    await account.save();
+
+    logAuth.securityEvent(account.email, 'Two-factor authentication disabled');
+  }
+
+  /**
+   * Replace all recovery codes; needs a current code
+   */
+  async regenerateRecoveryCodes(account: TwoFactorAccount, code: string): Promise<string[]> {
+    if (!account.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verify(account, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    account.set(
+      'twoFactor.recoveryCodes',
+      recoveryCodes.map((c) => ({ hash: this.hashRecoveryCode(c) }))
+    );
+    await account.save();
+
+    logInfo(`AUTH: Recovery codes regenerated for ${account.email}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Step-up challenge for an account whose password was just verified.
+   * Accounts that must use 2FA but have none get an enrollment to confirm instead.
+   */
+  async issueChallenge(account: TwoFactorAccount, type: TwoFactorAccountType): Promise<TwoFactorChallenge> {
+    const setupRequired = !account.twoFactor?.enabled;
+    const enrollment = setupRequired ? await this.beginEnrollment(account) : undefined;
+    const ttlSeconds = getTwoFactorPolicy().challengeTtlSeconds;
+
+    const challengeToken = jwt.sign({ typ: type, setup: setupRequired }, this.challengeSecret(), {
+      subject: account._id.toString(),
+      audience: CHALLENGE_AUDIENCE,
+      expiresIn: ttlSeconds,
+    });
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      setupRequired,
+      enrollment,
+    };
+  }
+
+  verifyChallenge(challengeToken: string, type: TwoFactorAccountType): TwoFactorChallengeClaims {
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(challengeToken, this.challengeSecret(), { audience: CHALLENGE_AUDIENCE }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    if (payload.typ !== type || !payload.sub) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    return { accountId: payload.sub, type, setup: !!payload.setup };
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: getTwoFactorPolicy().recoveryCodeCount }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  // Recovery codes carry 40 random bits, so a fast hash is enough
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+  }
+
+  private challengeSecret(): string {
+    return process.env.JWT_SECRET || 'your-secret-key';
+  }
+
+  private encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(getTwoFactorEncryptionKey()).digest();
+  }
+
+  // AES-256-GCM; stored as iv.tag.ciphertext
+  private encrypt(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+  }
+
+  private decrypt(stored: string): string {
+    const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
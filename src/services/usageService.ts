@@ -0,0 +1,484 @@
+import { Types } from 'mongoose';
+import { UsageRecord } from '../models/schemas/UsageRecord';
+import { SubscriptionPlan, IPlanUsageLimits } from '../models/schemas/SubscriptionPlan';
+import { User } from '../models/schemas/User';
+import { userSubscriptionService } from './userSubscriptionService';
+import { pcmDurationMs } from '../utils/audio';
+import { logWarn, logError } from '../utils/logger';
+
+export type UsageLimitKey = keyof IPlanUsageLimits;
+
+export interface UsageTotals {
+  audioInSeconds: number;
+  audioOutSeconds: number;
+  turns: number;
+}
+
+export interface UsageQuotaStatus {
+  exceeded: UsageLimitKey | null; // first limit reached, if any
+  warnings: UsageLimitKey[]; // limits past the warning ratio
+  remaining: IPlanUsageLimits;
+}
+
+export interface UsageSummary {
+  day: string;
+  month: string;
+  daily: UsageTotals & { voiceMinutes: number };
+  monthly: UsageTotals & { voiceMinutes: number };
+  limits: IPlanUsageLimits;
+  remaining: IPlanUsageLimits;
+  exceeded: UsageLimitKey | null;
+}
+
+export interface UsageReportOptions {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  page?: number;
+  limit?: number;
+}
+
+export interface UsageReportRow extends UsageTotals {
+  userId: string;
+  email: string | null;
+  voiceMinutes: number;
+  sessions: number;
+}
+
+// Shape of the usage report aggregate: one row per user (_id is the userId) plus overall totals
+interface UsageReportAggregateRow extends UsageTotals {
+  _id: string;
+  sessions: number;
+}
+
+interface UsageReportAggregate {
+  rows: UsageReportAggregateRow[];
+  totals: Array<UsageTotals & { users: number }>;
+}
+
+const LIMIT_KEYS: UsageLimitKey[] = ['dailyVoiceMinutes', 'monthlyVoiceMinutes', 'dailyTurns', 'monthlyTurns'];
+
+const EMPTY_TOTALS: UsageTotals = { audioInSeconds: 0, audioOutSeconds: 0, turns: 0 };
+
+/**
+ * UTC day and month keys used by the ledger
+ */
+export function usagePeriod(at: Date = new Date()): { day: string; month: string } {
+  const day = at.toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+export function voiceMinutes(totals: UsageTotals): number {
+  return round((totals.audioInSeconds + totals.audioOutSeconds) / 60);
+}
+
+/**
+ * Compare usage against limits. Voice minutes count audio in both directions.
+ */
+export function evaluateQuota(
+  limits: IPlanUsageLimits,
+  daily: UsageTotals,
+  monthly: UsageTotals,
+  warningRatio: number = parseFloat(process.env.VOICE_USAGE_WARNING_RATIO || '0.8')
+): UsageQuotaStatus {
+  const used: Record<UsageLimitKey, number> = {
+    dailyVoiceMinutes: voiceMinutes(daily),
+    monthlyVoiceMinutes: voiceMinutes(monthly),
+    dailyTurns: daily.turns,
+    monthlyTurns: monthly.turns,
+  };
+
+  const status: UsageQuotaStatus = { exceeded: null, warnings: [], remaining: {} };
+
+  for (const key of LIMIT_KEYS) {
+    const limit = limits[key];
+    if (typeof limit !== 'number') continue;
+
+    status.remaining[key] = round(Math.max(0, limit - used[key]));
+    if (used[key] >= limit) {
+      status.exceeded = status.exceeded || key;
+    } else if (used[key] >= limit * warningRatio) {
+      status.warnings.push(key);
+    }
+  }
+
+  return status;
+}
+
+export class UsageService {
+  /**
+   * Usage limits for a user: their plan's (or planId's) when it sets any, otherwise
+   * the VOICE_DEFAULT_* environment limits. Unset means unlimited.
+   */
+  async resolveLimits(userId: string, planId?: string): Promise<IPlanUsageLimits> {
+    planId = planId || (await userSubscriptionService.getCurrentPlanId(userId));
+
+    if (planId && Types.ObjectId.isValid(planId)) {
+      try {
+        const plan = await SubscriptionPlan.findById(planId).select('usageLimits');
+        const limits = this.pickLimits(plan?.usageLimits);
+        if (Object.keys(limits).length > 0) return limits;
+      } catch (error) {
+        logError(`USAGE: Failed to load limits for plan ${planId} (user ${userId})`, error);
+      }
+    }
+
+    return this.defaultLimits();
+  }
+
+  /**
+   * Add usage for a session to the ledger row of the given day
+   */
+  async record(userId: string, sessionId: string, usage: UsageTotals, at: Date = new Date()): Promise<void> {
+    if (!usage.audioInSeconds && !usage.audioOutSeconds && !usage.turns) return;
+
+    const { day, month } = usagePeriod(at);
+    await UsageRecord.updateOne(
+      { userId, sessionId, day },
+      {
+        $inc: {
+          audioInSeconds: usage.audioInSeconds,
+          audioOutSeconds: usage.audioOutSeconds,
+          turns: usage.turns,
+        },
+        $setOnInsert: { month },
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * A user's totals for the current day and month
+   */
+  async getTotals(userId: string, at: Date = new Date()): Promise<{ daily: UsageTotals; monthly: UsageTotals }> {
+    const { day, month } = usagePeriod(at);
+    const rows = await UsageRecord.aggregate([
+      { $match: { userId, month } },
+      {
+        $group: {
+          _id: { $eq: ['$day', day] },
+          audioInSeconds: { $sum: '$audioInSeconds' },
+          audioOutSeconds: { $sum: '$audioOutSeconds' },
+          turns: { $sum: '$turns' },
+        },
+      },
+    ]);
+
+    const today = this.toTotals(rows.find((row) => row._id === true));
+    const earlier = this.toTotals(rows.find((row) => row._id === false));
+
+    return { daily: today, monthly: addTotals(today, earlier) };
+  }
+
+  /**
+   * Usage, limits and what's left for the current period
+   */
+  async getUsageSummary(userId: string, planId?: string): Promise<UsageSummary> {
+    const [limits, totals] = await Promise.all([this.resolveLimits(userId, planId), this.getTotals(userId)]);
+    const quota = evaluateQuota(limits, totals.daily, totals.monthly);
+
+    return {
+      ...usagePeriod(),
+      daily: { ...totals.daily, voiceMinutes: voiceMinutes(totals.daily) },
+      monthly: { ...totals.monthly, voiceMinutes: voiceMinutes(totals.monthly) },
+      limits,
+      remaining: quota.remaining,
+      exceeded: quota.exceeded,
+    };
+  }
+
+  /**
+   * Per-user usage between two days (defaults to the current month), heaviest users first
+   */
+  async getUsageReport(options: UsageReportOptions = {}): Promise<{
+    from: string;
+    to: string;
+    users: UsageReportRow[];
+    totals: UsageTotals & { voiceMinutes: number; users: number };
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const { day, month } = usagePeriod();
+    const from = options.from || `${month}-01`;
+    const to = options.to || day;
+
+    const [result] = await UsageRecord.aggregate<UsageReportAggregate>([
+      { $match: { day: { $gte: from, $lte: to } } },
+      {
+        $group: {
+          _id: '$userId',
+          audioInSeconds: { $sum: '$audioInSeconds' },
+          audioOutSeconds: { $sum: '$audioOutSeconds' },
+          turns: { $sum: '$turns' },
+          sessions: { $addToSet: '$sessionId' },
+        },
+      },
+      {
+        $addFields: {
+          sessions: { $size: '$sessions' },
+          audioSeconds: { $add: ['$audioInSeconds', '$audioOutSeconds'] },
+        },
+      },
+      {
+        $facet: {
+          rows: [
+            { $sort: { audioSeconds: -1, _id: 1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+          ],
+          totals: [
+            {
+              $group: {
+                _id: null,
+                audioInSeconds: { $sum: '$audioInSeconds' },
+                audioOutSeconds: { $sum: '$audioOutSeconds' },
+                turns: { $sum: '$turns' },
+                users: { $sum: 1 },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const rows = result?.rows || [];
+    const emails = await this.lookupEmails(rows.map((row) => row._id));
+    const totals = this.toTotals(result?.totals?.[0]);
+
+    return {
+      from,
+      to,
+      users: rows.map((row) => {
+        const rowTotals = this.toTotals(row);
+        return {
+          userId: row._id,
+          email: emails.get(row._id) || null,
+          ...rowTotals,
+          voiceMinutes: voiceMinutes(rowTotals),
+          sessions: row.sessions,
+        };
+      }),
+      totals: { ...totals, voiceMinutes: voiceMinutes(totals), users: result?.totals?.[0]?.users || 0 },
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Daily usage for one user between two days (defaults to the current month)
+   */
+  async getUserUsageHistory(
+    userId: string,
+    options: { from?: string; to?: string } = {}
+  ): Promise<{ userId: string; from: string; to: string; days: Array<UsageTotals & { day: string; voiceMinutes: number; sessions: number }> }> {
+    const { day, month } = usagePeriod();
+    const from = options.from || `${month}-01`;
+    const to = options.to || day;
+
+    const rows = await UsageRecord.aggregate([
+      { $match: { userId, day: { $gte: from, $lte: to } } },
+      {
+        $group: {
+          _id: '$day',
+          audioInSeconds: { $sum: '$audioInSeconds' },
+          audioOutSeconds: { $sum: '$audioOutSeconds' },
+          turns: { $sum: '$turns' },
+          sessions: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return {
+      userId,
+      from,
+      to,
+      days: rows.map((row) => {
+        const totals = this.toTotals(row);
+        return { day: row._id, ...totals, voiceMinutes: voiceMinutes(totals), sessions: row.sessions };
+      }),
+    };
+  }
+
+  /**
+   * Start metering a voice session. Falls back to zero usage if the ledger
+   * can't be read, so an outage doesn't block conversations.
+   */
+  async startSession(userId: string, sessionId: string, planId?: string): Promise<SessionUsageTracker> {
+    const limits = await this.resolveLimits(userId, planId);
+    const tracker = new SessionUsageTracker(userId, sessionId, limits, this);
+    await tracker.refresh();
+    return tracker;
+  }
+
+  private defaultLimits(): IPlanUsageLimits {
+    return this.pickLimits({
+      dailyVoiceMinutes: parseLimit(process.env.VOICE_DEFAULT_DAILY_MINUTES),
+      monthlyVoiceMinutes: parseLimit(process.env.VOICE_DEFAULT_MONTHLY_MINUTES),
+      dailyTurns: parseLimit(process.env.VOICE_DEFAULT_DAILY_TURNS),
+      monthlyTurns: parseLimit(process.env.VOICE_DEFAULT_MONTHLY_TURNS),
+    });
+  }
+
+  private pickLimits(limits?: IPlanUsageLimits): IPlanUsageLimits {
+    const result: IPlanUsageLimits = {};
+    if (!limits) return result;
+
+    for (const key of LIMIT_KEYS) {
+      if (typeof limits[key] === 'number') result[key] = limits[key];
+    }
+    return result;
+  }
+
+  private toTotals(row?: Partial<UsageTotals>): UsageTotals {
+    return {
+      audioInSeconds: round(row?.audioInSeconds || 0),
+      audioOutSeconds: round(row?.audioOutSeconds || 0),
+      turns: row?.turns || 0,
+    };
+  }
+
+  private async lookupEmails(userIds: string[]): Promise<Map<string, string>> {
+    const ids = userIds.filter((id) => Types.ObjectId.isValid(id));
+    if (ids.length === 0) return new Map();
+
+    const users = await User.find({ _id: { $in: ids } }).select('email');
+    return new Map(users.map((user) => [user._id.toString(), user.email]));
+  }
+}
+
+/**
+ * Meters one live voice session. Audio is counted as it streams and written to the
+ * ledger on flush; checks compare the user's period totals (all sessions) plus what
+ * hasn't been flushed yet against the limits.
+ */
+export class SessionUsageTracker {
+  private pending: UsageTotals = { ...EMPTY_TOTALS };
+  private pendingInBytes = 0;
+  private pendingOutBytes = 0;
+  private totals: { daily: UsageTotals; monthly: UsageTotals } = { daily: { ...EMPTY_TOTALS }, monthly: { ...EMPTY_TOTALS } };
+  private period = usagePeriod();
+  private warned: Set<UsageLimitKey> = new Set();
+
+  constructor(
+    readonly userId: string,
+    readonly sessionId: string,
+    readonly limits: IPlanUsageLimits,
+    private service: Pick<UsageService, 'record' | 'getTotals'>
+  ) {}
+
+  addAudioIn(bytes: number): void {
+    this.pendingInBytes += bytes;
+  }
+
+  addAudioOut(bytes: number): void {
+    this.pendingOutBytes += bytes;
+  }
+
+  addTurn(): void {
+    this.pending.turns++;
+  }
+
+  /**
+   * Reload the user's period totals from the ledger
+   */
+  async refresh(): Promise<void> {
+    try {
+      this.totals = await this.service.getTotals(this.userId);
+      this.period = usagePeriod();
+    } catch (error) {
+      logError(`USAGE: Failed to load usage for user ${this.userId}; continuing with local totals`, error);
+      this.rollPeriod();
+    }
+  }
+
+  /**
+   * Write unflushed usage to the ledger, then refresh totals so usage
+   * from the user's other sessions counts too
+   */
+  async flush(): Promise<void> {
+    const delta = this.takePending();
+    if (delta.audioInSeconds || delta.audioOutSeconds || delta.turns) {
+      try {
+        await this.service.record(this.userId, this.sessionId, delta);
+      } catch (error) {
+        logError(`USAGE: Failed to record usage for session ${this.sessionId}`, error);
+        this.pending = addTotals(this.pending, delta);
+        return;
+      }
+      this.rollPeriod();
+      this.totals = { daily: addTotals(this.totals.daily, delta), monthly: addTotals(this.totals.monthly, delta) };
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Current quota state. newWarnings lists limits crossing the warning ratio
+   * for the first time in this session.
+   */
+  check(): UsageQuotaStatus & { newWarnings: UsageLimitKey[] } {
+    const unflushed = this.peekPending();
+    const status = evaluateQuota(
+      this.limits,
+      addTotals(this.totals.daily, unflushed),
+      addTotals(this.totals.monthly, unflushed)
+    );
+
+    const newWarnings = status.warnings.filter((key) => !this.warned.has(key));
+    newWarnings.forEach((key) => this.warned.add(key));
+
+    if (status.exceeded) {
+      logWarn(`USAGE: User ${this.userId} reached ${status.exceeded} in session ${this.sessionId}`);
+    }
+
+    return { ...status, newWarnings };
+  }
+
+  private peekPending(): UsageTotals {
+    return {
+      audioInSeconds: this.pending.audioInSeconds + pcmDurationMs(this.pendingInBytes) / 1000,
+      audioOutSeconds: this.pending.audioOutSeconds + pcmDurationMs(this.pendingOutBytes) / 1000,
+      turns: this.pending.turns,
+    };
+  }
+
+  private takePending(): UsageTotals {
+    const delta = this.peekPending();
+    this.pending = { ...EMPTY_TOTALS };
+    this.pendingInBytes = 0;
+    this.pendingOutBytes = 0;
+    return delta;
+  }
+
+  // Totals loaded for an earlier day or month no longer apply
+  private rollPeriod(): void {
+    const current = usagePeriod();
+    if (current.month !== this.period.month) {
+      this.totals = { daily: { ...EMPTY_TOTALS }, monthly: { ...EMPTY_TOTALS } };
+    } else if (current.day !== this.period.day) {
+      this.totals = { ...this.totals, daily: { ...EMPTY_TOTALS } };
+    }
+    this.period = current;
+  }
+}
+
+function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    audioInSeconds: a.audioInSeconds + b.audioInSeconds,
+    audioOutSeconds: a.audioOutSeconds + b.audioOutSeconds,
+    turns: a.turns + b.turns,
+  };
+}
+
+function parseLimit(value?: string): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const usageService = new UsageService();
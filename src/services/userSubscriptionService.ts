@@ -0,0 +1,515 @@
+import { Types } from 'mongoose';
+import {
+  UserSubscription,
+  IUserSubscription,
+  ISubscriptionEvent,
+  ISubscriptionBilling,
+  SubscriptionStatus,
+} from '../models/schemas/UserSubscription';
+import {
+  SubscriptionPlan,
+  ISubscriptionPlan,
+  IPlanUsageLimits,
+  BillingInterval,
+} from '../models/schemas/SubscriptionPlan';
+import { User } from '../models/schemas/User';
+import { subscriptionService } from './subscriptionService';
+import { entitlementCache } from './entitlementCache';
+import { AdminActor } from '../types';
+import { logInfo, logWarn, logError } from '../utils/logger';
+
+export interface GrantSubscriptionData {
+  planId: string;
+  trialDays?: number; // starts in trialing instead of active
+  note?: string;
+}
+
+export interface PaidSubscriptionTerms {
+  interval: BillingInterval;
+  trialEnd?: Date; // paid checkout that starts with a free trial
+}
+
+export interface UserEntitlements {
+  subscriptionId: string;
+  planId: string;
+  planName: string;
+  status: SubscriptionStatus;
+  currentPeriodEnd: Date;
+  features: Array<{ id: string; name: string }>;
+  usageLimits: IPlanUsageLimits;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add calendar months, clamping to the last day of shorter months (Jan 31 -> Feb 28)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+export class UserSubscriptionService {
+  constructor(
+    private pastDueGraceDays: number = parseInt(process.env.SUBSCRIPTION_PAST_DUE_GRACE_DAYS || '7', 10)
+  ) {}
+
+  /**
+   * The user's subscription unless it has expired. Lifecycle transitions that
+   * came due since it was last read (trial end, renewal, expiry) are applied first.
+   */
+  async getCurrentSubscription(userId: string): Promise<IUserSubscription | null> {
+    if (!Types.ObjectId.isValid(userId)) return null;
+
+    const subscription = await UserSubscription.findOne({ userId, status: { $ne: 'expired' } }).sort({ createdAt: -1 });
+    if (!subscription) return null;
+
+    const current = await this.persistLifecycle(subscription);
+    return current && current.status !== 'expired' ? current : null;
+  }
+
+  /**
+   * Plan of the current subscription, for modules that fall back to defaults
+   * without one (persona, usage limits). Lookup failures are logged, not thrown.
+   */
+  async getCurrentPlanId(userId: string): Promise<string | undefined> {
+    try {
+      const entitlements = await this.getEntitlements(userId);
+      return entitlements?.planId;
+    } catch (error) {
+      logError(`SUBSCRIPTION: Failed to load subscription for user ${userId}`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Every subscription the user has held, newest first
+   */
+  async getSubscriptionHistory(userId: string): Promise<IUserSubscription[]> {
+    if (!Types.ObjectId.isValid(userId)) return [];
+    return UserSubscription.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Give a user a plan (admin). Fails if the user already has a live subscription;
+   * use changePlan for that.
+   */
+  async grantSubscription(userId: string, data: GrantSubscriptionData, admin: AdminActor): Promise<IUserSubscription> {
+    logInfo(`SUBSCRIPTION: Granting plan ${data.planId} to user ${userId}`);
+
+    const user = Types.ObjectId.isValid(userId) ? await User.findById(userId).select('_id') : null;
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const plan = await this.getAssignablePlan(data.planId);
+
+    if (await this.getCurrentSubscription(userId)) {
+      logWarn(`SUBSCRIPTION: User ${userId} already has a subscription`);
+      throw new Error('User already has an active subscription');
+    }
+
+    const now = new Date();
+    const trialEndsAt = data.trialDays ? new Date(now.getTime() + data.trialDays * DAY_MS) : undefined;
+    const status: SubscriptionStatus = trialEndsAt ? 'trialing' : 'active';
+
+    const subscription = new UserSubscription({
+      userId: new Types.ObjectId(userId),
+      planId: plan._id,
+      status,
+      startedAt: now,
+      trialEndsAt,
+      currentPeriodStart: now,
+      currentPeriodEnd: trialEndsAt || addMonths(now, 1),
+      events: [],
+    });
+    this.recordEvent(subscription, 'granted', { planId: plan._id, actor: admin, note: data.note });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: User ${userId} subscribed to ${plan.name} (${status})`);
+
+    return subscription;
+  }
+
+  /**
+   * Move the current subscription to another plan (admin). Dates and status are kept.
+   */
+  async changePlan(userId: string, planId: string, admin: AdminActor, note?: string): Promise<IUserSubscription> {
+    const subscription = await this.requireCurrentSubscription(userId);
+    const plan = await this.getAssignablePlan(planId);
+
+    if (subscription.planId.equals(plan._id)) {
+      throw new Error('User is already on this plan');
+    }
+
+    const previousPlanId = subscription.planId;
+    subscription.planId = plan._id;
+    this.recordEvent(subscription, 'plan_changed', { planId: plan._id, previousPlanId, actor: admin, note });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: User ${userId} moved from plan ${previousPlanId} to ${plan._id}`);
+
+    return subscription;
+  }
+
+  /**
+   * End the current subscription immediately (admin)
+   */
+  async revokeSubscription(userId: string, admin: AdminActor, reason?: string): Promise<IUserSubscription> {
+    const subscription = await this.requireCurrentSubscription(userId);
+
+    subscription.status = 'expired';
+    subscription.endedAt = new Date();
+    this.recordEvent(subscription, 'revoked', { actor: admin, note: reason });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: Subscription revoked for user ${userId} by ${admin.email}`);
+
+    return subscription;
+  }
+
+  /**
+   * Cancel the user's own subscription. Access continues until the end of the
+   * paid period (or trial), then it expires instead of renewing.
+   */
+  async cancelSubscription(userId: string, reason?: string): Promise<IUserSubscription> {
+    const subscription = await this.requireCurrentSubscription(userId);
+
+    if (subscription.status === 'canceled') {
+      throw new Error('Subscription is already canceled');
+    }
+
+    subscription.status = 'canceled';
+    subscription.canceledAt = new Date();
+    subscription.cancelReason = reason;
+    this.recordEvent(subscription, 'canceled', { actorId: userId, note: reason });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: User ${userId} canceled; access until ${subscription.currentPeriodEnd.toISOString()}`);
+
+    return subscription;
+  }
+
+  /**
+   * Flag a renewal that couldn't be collected. Access continues for the grace
+   * period (SUBSCRIPTION_PAST_DUE_GRACE_DAYS), then the subscription expires.
+   */
+  async markPastDue(userId: string, note?: string): Promise<IUserSubscription> {
+    const subscription = await this.requireCurrentSubscription(userId);
+
+    if (subscription.status !== 'active') {
+      throw new Error(`Cannot mark a ${subscription.status} subscription as past due`);
+    }
+
+    subscription.status = 'past_due';
+    subscription.pastDueAt = new Date();
+    this.recordEvent(subscription, 'past_due', { note });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logWarn(`SUBSCRIPTION: Subscription of user ${userId} is past due`);
+
+    return subscription;
+  }
+
+  /**
+   * Start the subscription a user paid for at checkout. An existing subscription
+   * (another plan, past_due or canceled) is replaced and starts a new period,
+   * or a trial when the checkout included one.
+   */
+  async startPaidSubscription(
+    userId: string,
+    planId: string,
+    billing: ISubscriptionBilling,
+    terms: PaidSubscriptionTerms = { interval: 'month' }
+  ): Promise<IUserSubscription> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new Error('User not found');
+    }
+
+    const plan = await this.getAssignablePlan(planId);
+    const now = new Date();
+    let subscription = await this.getCurrentSubscription(userId);
+    const previousPlanId = subscription && !subscription.planId.equals(plan._id) ? subscription.planId : undefined;
+
+    if (!subscription) {
+      subscription = new UserSubscription({ userId: new Types.ObjectId(userId), startedAt: now, events: [] });
+    }
+
+    subscription.planId = plan._id;
+    subscription.interval = terms.interval;
+    subscription.billing = billing;
+    subscription.pastDueAt = undefined;
+    subscription.canceledAt = undefined;
+    subscription.cancelReason = undefined;
+    if (terms.trialEnd && terms.trialEnd > now) {
+      subscription.status = 'trialing';
+      subscription.trialEndsAt = terms.trialEnd;
+      subscription.currentPeriodStart = now;
+      subscription.currentPeriodEnd = terms.trialEnd;
+    } else {
+      subscription.status = 'active';
+      this.startPeriod(subscription, now);
+    }
+    this.recordEvent(subscription, 'purchased', { planId: plan._id, previousPlanId, actorId: userId });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: User ${userId} purchased ${plan.name} (${terms.interval}ly, ${subscription.status}) via ${billing.provider}`);
+
+    return subscription;
+  }
+
+  /**
+   * A renewal was collected: a past_due subscription is active again and the
+   * period runs until the paid periodEnd
+   */
+  async recordRenewalPayment(userId: string, periodEnd?: Date): Promise<IUserSubscription> {
+    const subscription = await this.requireCurrentSubscription(userId);
+    let changed = false;
+
+    if (subscription.status === 'past_due') {
+      subscription.status = 'active';
+      subscription.pastDueAt = undefined;
+      changed = true;
+    }
+    if (periodEnd && periodEnd > subscription.currentPeriodEnd) {
+      subscription.currentPeriodStart = subscription.currentPeriodEnd;
+      subscription.currentPeriodEnd = periodEnd;
+      changed = true;
+    }
+    if (!changed) return subscription;
+
+    this.recordEvent(subscription, 'renewed');
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: Renewal paid for user ${userId}; access until ${subscription.currentPeriodEnd.toISOString()}`);
+
+    return subscription;
+  }
+
+  /**
+   * End the subscription immediately because its payment provider stopped billing
+   */
+  async endPaidSubscription(userId: string, note?: string): Promise<IUserSubscription> {
+    const subscription = await this.requireCurrentSubscription(userId);
+
+    subscription.status = 'expired';
+    subscription.endedAt = new Date();
+    this.recordEvent(subscription, 'expired', { note });
+
+    await subscription.save();
+    entitlementCache.invalidateUser(userId);
+    logInfo(`SUBSCRIPTION: Paid subscription of user ${userId} ended`);
+
+    return subscription;
+  }
+
+  /**
+   * The subscription a provider subscription id belongs to (any status)
+   */
+  async findByBillingSubscription(provider: string, subscriptionId: string): Promise<IUserSubscription | null> {
+    return UserSubscription.findOne({ 'billing.provider': provider, 'billing.subscriptionId': subscriptionId }).sort({
+      createdAt: -1,
+    });
+  }
+
+  /**
+   * The user's customer id at a payment provider, from their latest paid subscription
+   */
+  async getBillingCustomerId(userId: string, provider: string): Promise<string | undefined> {
+    if (!Types.ObjectId.isValid(userId)) return undefined;
+
+    const subscription = await UserSubscription.findOne({
+      userId,
+      'billing.provider': provider,
+      'billing.customerId': { $exists: true },
+    }).sort({ createdAt: -1 });
+    return subscription?.billing?.customerId;
+  }
+
+  /**
+   * What the user's current plan gives them, or null without a subscription (cached)
+   */
+  async getEntitlements(userId: string): Promise<UserEntitlements | null> {
+    const cached = entitlementCache.get(userId);
+    if (cached !== undefined) return cached;
+
+    const entitlements = await this.loadEntitlements(userId);
+    entitlementCache.set(userId, entitlements);
+    return entitlements;
+  }
+
+  /**
+   * Whether the user's plan includes an active feature, by feature name or id
+   */
+  async hasFeature(userId: string, feature: string): Promise<boolean> {
+    const entitlements = await this.getEntitlements(userId);
+    return !!entitlements?.features.some((f) => f.name === feature || f.id === feature);
+  }
+
+  private async loadEntitlements(userId: string): Promise<UserEntitlements | null> {
+    const subscription = await this.getCurrentSubscription(userId);
+    if (!subscription) return null;
+
+    const plan = await SubscriptionPlan.findById(subscription.planId).populate('features');
+    if (!plan) {
+      logWarn(`SUBSCRIPTION: Plan ${subscription.planId} of user ${userId} no longer exists`);
+      return null;
+    }
+
+    return {
+      subscriptionId: subscription._id.toString(),
+      planId: plan._id.toString(),
+      planName: plan.name,
+      status: subscription.status,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      features: (plan.features as any[])
+        .filter((f: any) => f.isActive)
+        .map((f: any) => ({ id: f._id.toString(), name: f.name })),
+      usageLimits: subscriptionService.toUsageLimits(plan.usageLimits),
+    };
+  }
+
+  /**
+   * Apply transitions that are due at `now`. Returns true if the subscription changed.
+   *
+   *   trialing -> active   when the trial ends (a paid period starts)
+   *   active   -> active   renewed for another month (or year) at the end of each period
+   *   past_due -> expired  after the grace period
+   *   canceled -> expired  at the end of the paid period
+   *
+   * Subscriptions billed by a payment provider are only renewed by a paid invoice
+   * (recordRenewalPayment). Their trial ends without starting a period, and one
+   * left unpaid past the end of its period expires after the grace period.
+   */
+  applyLifecycle(subscription: IUserSubscription, now: Date = new Date()): boolean {
+    let changed = false;
+    const billed = !!subscription.billing?.provider;
+
+    // Loops so a subscription unread for several months catches up in one pass
+    for (;;) {
+      if (subscription.status === 'trialing' && subscription.currentPeriodEnd <= now) {
+        const trialEnd = subscription.currentPeriodEnd;
+        if (!billed) this.startPeriod(subscription, trialEnd);
+        subscription.status = 'active';
+        this.recordEvent(subscription, 'trial_ended', { at: trialEnd });
+      } else if (subscription.status === 'active' && !billed && subscription.currentPeriodEnd <= now) {
+        this.startPeriod(subscription, subscription.currentPeriodEnd);
+        this.recordEvent(subscription, 'renewed', { at: subscription.currentPeriodStart });
+      } else if (subscription.status === 'active' && billed && this.graceEnded(subscription.currentPeriodEnd, now)) {
+        this.expire(subscription, now);
+      } else if (
+        subscription.status === 'past_due' &&
+        this.graceEnded(subscription.pastDueAt || subscription.currentPeriodEnd, now)
+      ) {
+        this.expire(subscription, now);
+      } else if (subscription.status === 'canceled' && subscription.currentPeriodEnd <= now) {
+        this.expire(subscription, subscription.currentPeriodEnd);
+      } else {
+        return changed;
+      }
+      changed = true;
+    }
+  }
+
+  /**
+   * Apply due transitions and store them only if nobody else did first: the
+   * update matches the state that was read, so concurrent reads of the same
+   * subscription record each renewal or expiry once. Returns the stored subscription.
+   */
+  private async persistLifecycle(subscription: IUserSubscription): Promise<IUserSubscription | null> {
+    const readStatus = subscription.status;
+    const readPeriodEnd = subscription.currentPeriodEnd;
+    const readEventCount = subscription.events.length;
+
+    if (!this.applyLifecycle(subscription)) return subscription;
+
+    const updated = await UserSubscription.findOneAndUpdate(
+      { _id: subscription._id, status: readStatus, currentPeriodEnd: readPeriodEnd },
+      {
+        $set: {
+          status: subscription.status,
+          currentPeriodStart: subscription.currentPeriodStart,
+          currentPeriodEnd: subscription.currentPeriodEnd,
+          endedAt: subscription.endedAt,
+        },
+        $push: { events: { $each: subscription.events.slice(readEventCount) } },
+      },
+      { new: true }
+    );
+    entitlementCache.invalidateUser(subscription.userId.toString());
+
+    // Another request applied the transitions already; use what it stored
+    return updated || UserSubscription.findById(subscription._id);
+  }
+
+  private graceEnded(since: Date, now: Date): boolean {
+    return since.getTime() + this.pastDueGraceDays * DAY_MS <= now.getTime();
+  }
+
+  private startPeriod(subscription: IUserSubscription, start: Date): void {
+    subscription.currentPeriodStart = start;
+    subscription.currentPeriodEnd = addMonths(start, subscription.interval === 'year' ? 12 : 1);
+  }
+
+  private expire(subscription: IUserSubscription, at: Date): void {
+    subscription.status = 'expired';
+    subscription.endedAt = at;
+    this.recordEvent(subscription, 'expired', { at });
+  }
+
+  private async requireCurrentSubscription(userId: string): Promise<IUserSubscription> {
+    const subscription = await this.getCurrentSubscription(userId);
+    if (!subscription) {
+      throw new Error('Subscription not found');
+    }
+    return subscription;
+  }
+
+  private async getAssignablePlan(planId: string): Promise<ISubscriptionPlan> {
+    const plan = Types.ObjectId.isValid(planId) ? await SubscriptionPlan.findById(planId) : null;
+    if (!plan) {
+      throw new Error('Subscription plan not found');
+    }
+    if (!plan.isActive) {
+      throw new Error('Invalid plan: subscription plan is not active');
+    }
+    return plan;
+  }
+
+  private recordEvent(
+    subscription: IUserSubscription,
+    type: ISubscriptionEvent['type'],
+    details: {
+      planId?: Types.ObjectId;
+      previousPlanId?: Types.ObjectId;
+      actor?: AdminActor;
+      actorId?: string;
+      note?: string;
+      at?: Date;
+    } = {}
+  ): void {
+    subscription.events.push({
+      type,
+      status: subscription.status,
+      planId: details.planId,
+      previousPlanId: details.previousPlanId,
+      actorId: details.actor?.adminId || details.actorId,
+      actorEmail: details.actor?.email,
+      note: details.note,
+      createdAt: details.at || new Date(),
+    });
+  }
+}
+
+export const userSubscriptionService = new UserSubscriptionService();
@@ -1,4 +1,5 @@
 import { User, IUser } from "../models/schemas";
+import { tokenPolicyService } from "./tokenPolicyService";
 
 export interface UserProfileResponse {
   id: string;
@@ -143,6 +144,8 @@ export class UsersService {
       return null;
     }
 
+    await tokenPolicyService.revokeAllTokens(userId, 'deactivated');
+
     return {
       id: deactivatedUser._id.toString(),
       isActive: deactivatedUser.isActive,
@@ -10,6 +10,8 @@
  * 3. Process incoming messages and audio from Azure
  * 4. Handle connection lifecycle and error recovery
  * 5. Emit events for gateway to forward to clients
+ *
+ * This is the Azure implementation of RealtimeVoiceProvider.
  */
 
 import WebSocket from 'ws';
@@ -22,16 +24,24 @@ import {
   VoiceLiveClientState,
   ConnectionStatus,
   AzureVoiceLiveMessage,
-  VoiceLiveWebSocketMessage
+  VoiceLiveWebSocketMessage,
+  VoiceLiveConnectOptions
 } from '../types/voiceLive';
+import { RealtimeVoiceProvider } from './realtimeVoiceProvider';
+
+const DEFAULT_INSTRUCTIONS =
+  'You are a helpful AI assistant. Respond quickly and concisely in natural, engaging language. Keep responses brief and conversational.';
 
-export class VoiceLiveService extends EventEmitter {
+export class VoiceLiveService extends EventEmitter implements RealtimeVoiceProvider {
+  readonly providerName = 'azure';
   private config = loadVoiceLiveConfig();
   private ws: WebSocket | null = null;
   private state: VoiceLiveClientState;
   private sessionTimeout: NodeJS.Timeout | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private userPreferences?: any;
+  private connectOptions: VoiceLiveConnectOptions = {};
 
   constructor() {
     super();
@@ -44,13 +54,22 @@ export class VoiceLiveService extends EventEmitter {
 
   /**
    * EXPLANATION: Connect to Azure Voice Live API
+   * Options carry the resolved persona and prior-session memory.
+   * Preferences and options are kept so automatic reconnects send the same config.
    */
-  async connect(sessionId: string, userId: string, userPreferences?: any): Promise<void> {
+  async connect(
+    sessionId: string,
+    userId: string,
+    userPreferences?: any,
+    options?: VoiceLiveConnectOptions
+  ): Promise<void> {
     try {
       logInfo(`[VoiceLiveService] Connecting session ${sessionId} for user ${userId}`);
 
       this.state.sessionId = sessionId;
       this.state.userId = userId;
+      this.userPreferences = userPreferences ?? this.userPreferences;
+      this.connectOptions = options ?? this.connectOptions;
       this.state.connectionStatus = 'connecting';
 
       // Build WebSocket URL
@@ -90,7 +109,7 @@ export class VoiceLiveService extends EventEmitter {
           this.state.reconnectAttempts = 0;
 
           // Send session configuration
-          this.sendSessionConfig(userPreferences);
+          this.sendSessionConfig(this.userPreferences);
 
           // Start heartbeat & session timeout
           this.startHeartbeat();
@@ -122,7 +141,10 @@ export class VoiceLiveService extends EventEmitter {
           clearTimeout(connectionTimeout);
           logInfo(`[VoiceLiveService] WebSocket closed for session ${sessionId}: ${code} - ${reason}`);
           this.state.connectionStatus = 'disconnected';
-          this.handleDisconnection();
+          // disconnect() clears the socket first - only unexpected closes should reconnect
+          if (this.ws) {
+            this.handleDisconnection();
+          }
         });
       });
     } catch (error) {
@@ -202,6 +224,26 @@ export class VoiceLiveService extends EventEmitter {
     }
   }
 
+  /**
+   * EXPLANATION: Cancel the in-flight response (barge-in)
+   */
+  cancelResponse(): void {
+    this.sendControl({ type: 'response.cancel' });
+  }
+
+  /**
+   * EXPLANATION: Trim an assistant item to the audio the user actually heard
+   * Keeps the model's view of the conversation in line with what was played.
+   */
+  truncateResponse(itemId: string, audioEndMs: number): void {
+    this.sendControl({
+      type: 'conversation.item.truncate',
+      item_id: itemId,
+      content_index: 0,
+      audio_end_ms: Math.max(0, Math.round(audioEndMs))
+    });
+  }
+
   /**
    * EXPLANATION: Disconnect from Azure
    */
@@ -250,24 +292,30 @@ export class VoiceLiveService extends EventEmitter {
   }
 
   private buildSessionConfig(userPreferences?: any): SessionConfig {
-    const voiceName = userPreferences?.voicePreference || 'en-US-Ava:DragonHDLatestNeural';
-    const temperature = userPreferences?.temperatureLevel || 0.7;
+    const { persona, memory } = this.connectOptions;
+    const voiceName = userPreferences?.voicePreference || persona?.voice.name || 'en-US-Ava:DragonHDLatestNeural';
+    const temperature = userPreferences?.temperatureLevel || persona?.voice.temperature || 0.7;
+    const baseInstructions = persona?.instructions || DEFAULT_INSTRUCTIONS;
+    const instructions = memory ? `${baseInstructions}\n\n${memory}` : baseInstructions;
+    const { end_of_utterance_detection: endOfUtterance, ...turnDetection } = persona?.turnDetection || {};
 
     return {
       type: 'session.update',
       session: {
-        instructions: 'You are a helpful AI assistant. Respond quickly and concisely in natural, engaging language. Keep responses brief and conversational.',
-        modalities: ['text', 'audio'],
+        instructions,
+        modalities: this.connectOptions.modalities || ['text', 'audio'],
         turn_detection: {
           type: 'azure_semantic_vad',
           threshold: 0.2,
           prefix_padding_ms: 100,
           silence_duration_ms: 100,
           remove_filler_words: true,
+          ...turnDetection,
           end_of_utterance_detection: {
             model: 'semantic_detection_v1',
             threshold: 0.005,
-            timeout: 1
+            timeout: 1,
+            ...endOfUtterance
           }
         },
         input_audio_noise_reduction: {
@@ -278,9 +326,9 @@ export class VoiceLiveService extends EventEmitter {
         },
         voice: {
           name: voiceName,
-          type: 'azure-standard',
+          type: persona?.voice.type || 'azure-standard',
           temperature: temperature,
-          rate: '1.3'
+          rate: persona?.voice.rate || '1.3'
         },
         input_audio_transcription: {
           enabled: true,
@@ -292,6 +340,20 @@ export class VoiceLiveService extends EventEmitter {
     };
   }
 
+  private sendControl(message: Record<string, unknown>): void {
+    if (this.state.connectionStatus !== 'connected' || !this.ws) {
+      logWarn(`[VoiceLiveService] Cannot send ${message.type} - not connected`);
+      return;
+    }
+
+    try {
+      this.ws.send(JSON.stringify({ ...message, event_id: uuidv4() }));
+    } catch (error) {
+      logError(`[VoiceLiveService] Error sending ${message.type}`, error);
+      this.emit('error', error);
+    }
+  }
+
   private sendSessionConfig(userPreferences?: any): void {
     if (!this.ws || this.state.connectionStatus !== 'connected') {
       return;
@@ -318,6 +380,7 @@ export class VoiceLiveService extends EventEmitter {
       switch (message.type) {
         case 'session.created':
           logInfo(`[VoiceLiveService] Session created: ${message.session?.id}`);
+          this.emit('session-ready');
           break;
 
         case 'session.updated':
@@ -346,6 +409,7 @@ export class VoiceLiveService extends EventEmitter {
 
         case 'response.created':
           logInfo(`[VoiceLiveService] Response created: ${message.response?.id}`);
+          this.emit('response-started', { response_id: message.response?.id });
           break;
 
         case 'conversation.item.input_audio_transcription.completed':
@@ -358,7 +422,9 @@ export class VoiceLiveService extends EventEmitter {
           }
           break;
 
+        // Text-only sessions stream response.text.* instead of audio transcripts
         case 'response.audio_transcript.delta':
+        case 'response.text.delta':
           if (message.delta) {
             this.emit('transcript-delta', {
               delta: message.delta,
@@ -369,7 +435,8 @@ export class VoiceLiveService extends EventEmitter {
           break;
 
         case 'response.audio_transcript.done':
-          logInfo(`[VoiceLiveService] Audio transcript completed`);
+        case 'response.text.done':
+          logInfo(`[VoiceLiveService] Response transcript completed`);
           this.emit('transcript-done', {
             response_id: message.response_id,
             item_id: message.item_id
@@ -406,10 +473,19 @@ export class VoiceLiveService extends EventEmitter {
           break;
 
         case 'response.done':
-          logInfo(`[VoiceLiveService] Response completed`);
+          logInfo(`[VoiceLiveService] Response completed (${message.response?.status})`);
+          this.emit('response-done', {
+            response_id: message.response?.id,
+            status: message.response?.status
+          });
           break;
 
         case 'error':
+          // A cancel that lost the race with the response finishing is harmless
+          if (message.error?.code === 'response_cancel_not_active') {
+            logInfo(`[VoiceLiveService] No active response to cancel`);
+            break;
+          }
           logError(`[VoiceLiveService] Azure error: ${message.error?.message}`, message);
           this.emit('error', new Error(message.error?.message || 'Azure API error'));
           break;
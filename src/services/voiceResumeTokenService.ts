@@ -0,0 +1,115 @@
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+
+const RESUME_AUDIENCE = 'ava:voice-resume';
+
+export interface IssuedResumeToken {
+  token: string;
+  tokenId: string;
+  expiresAt: string;
+}
+
+export type ResumeTokenFailure = 'missing' | 'invalid' | 'expired' | 'wrong_session' | 'wrong_user' | 'superseded';
+
+export type ResumeTokenCheck = { valid: true } | { valid: false; reason: ResumeTokenFailure };
+
+/**
+ * Short-lived signed tokens that let a client reattach to its live voice session.
+ * Each session accepts only its latest token id, so a token stops working once
+ * it has been used (every successful resume issues a new one). Sessions that
+ * outlast the TTL get a new token before the current one expires.
+ */
+export class VoiceResumeTokenService {
+  private failures: Map<string, { count: number; resetTime: number }> = new Map();
+
+  constructor(
+    private ttlSeconds: number = parseInt(process.env.VOICE_RESUME_TOKEN_TTL_SECONDS || '900', 10),
+    private maxFailures: number = parseInt(process.env.VOICE_RESUME_MAX_FAILURES || '5', 10),
+    private failureWindowMs: number = parseInt(process.env.VOICE_RESUME_FAILURE_WINDOW_MS || '600000', 10)
+  ) {}
+
+  issue(sessionId: string, userId: string): IssuedResumeToken {
+    const tokenId = randomUUID();
+    const token = jwt.sign({ sid: sessionId }, this.secret(), {
+      subject: userId,
+      audience: RESUME_AUDIENCE,
+      jwtid: tokenId,
+      expiresIn: this.ttlSeconds
+    });
+
+    return {
+      token,
+      tokenId,
+      expiresAt: new Date(Date.now() + this.ttlSeconds * 1000).toISOString()
+    };
+  }
+
+  /**
+   * Whether a token expiring at expiresAt should be replaced: in the last third of its lifetime
+   */
+  needsRefresh(expiresAt: string, now: number = Date.now()): boolean {
+    return new Date(expiresAt).getTime() - now <= (this.ttlSeconds * 1000) / 3;
+  }
+
+  /**
+   * Check a token against the session it claims and the user presenting it.
+   * currentTokenId is the id last issued for the session; older tokens are rejected.
+   */
+  verify(
+    token: string | undefined,
+    expected: { sessionId: string; userId: string; currentTokenId?: string }
+  ): ResumeTokenCheck {
+    if (!token) return { valid: false, reason: 'missing' };
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, this.secret(), { audience: RESUME_AUDIENCE }) as jwt.JwtPayload;
+    } catch (error) {
+      return { valid: false, reason: error instanceof jwt.TokenExpiredError ? 'expired' : 'invalid' };
+    }
+
+    if (payload.sid !== expected.sessionId) return { valid: false, reason: 'wrong_session' };
+    if (payload.sub !== expected.userId) return { valid: false, reason: 'wrong_user' };
+    if (!expected.currentTokenId || payload.jti !== expected.currentTokenId) {
+      return { valid: false, reason: 'superseded' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Failed resume attempts per user; blocked once maxFailures is reached within the window
+   */
+  recordFailure(key: string): void {
+    const now = Date.now();
+    const record = this.failures.get(key);
+
+    if (!record || now > record.resetTime) {
+      this.failures.set(key, { count: 1, resetTime: now + this.failureWindowMs });
+    } else {
+      record.count++;
+    }
+  }
+
+  isBlocked(key: string): boolean {
+    const record = this.failures.get(key);
+    if (!record) return false;
+
+    if (Date.now() > record.resetTime) {
+      this.failures.delete(key);
+      return false;
+    }
+    return record.count >= this.maxFailures;
+  }
+
+  clearFailures(key: string): void {
+    this.failures.delete(key);
+  }
+
+  // Read per call so the secret can come from config loaded after import
+  private secret(): string {
+    return process.env.VOICE_RESUME_TOKEN_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+  }
+}
+
+export const voiceResumeTokenService = new VoiceResumeTokenService();
@@ -32,10 +32,25 @@ export interface ConversationContext {
     emotion?: EmotionResult;
   }>;
   userProfile?: {
+    name?: string;
     preferences: any;
     crisisHistory: boolean;
     supportLevel: "basic" | "intermediate" | "intensive";
   };
+  // Turns already taken in this session (e.g. on another channel before switching)
+  sessionHistory?: Array<{
+    role: "user" | "assistant";
+    content: string;
+    timestamp: Date;
+  }>;
+  previousSessions?: Array<{
+    sessionId: string;
+    startTime: Date;
+    duration?: number; // seconds
+    averageEmotion?: string;
+    topEmotions?: string[];
+    crisisDetected?: boolean;
+  }>;
 }
 
 export interface CrisisDetectionResult {
@@ -46,3 +61,9 @@ export interface CrisisDetectionResult {
   recommendedAction: string;
   reasoning?: string;
 }
+
+// Admin performing an audited action (taken from req.admin)
+export interface AdminActor {
+  adminId: string;
+  email: string;
+}
@@ -78,6 +78,29 @@ export interface SessionConfig {
   event_id?: string;
 }
 
+/**
+ * EXPLANATION: Persona Settings
+ * The published persona version resolved for a session. Replaces the built-in
+ * instructions and voice defaults; turn detection values override the defaults field by field.
+ */
+export interface PersonaSessionSettings {
+  instructions: string;
+  voice: VoiceOutputConfig;
+  turnDetection?: Partial<Omit<TurnDetectionConfig, "type" | "end_of_utterance_detection">> & {
+    end_of_utterance_detection?: Partial<TurnDetectionConfig["end_of_utterance_detection"]>;
+  };
+}
+
+/**
+ * EXPLANATION: Connect Options
+ * Extra context for building the session config (see VoiceLiveService.connect).
+ */
+export interface VoiceLiveConnectOptions {
+  memory?: string; // Prior-session context appended to the instructions
+  persona?: PersonaSessionSettings;
+  modalities?: Array<"text" | "audio">; // Response modes; text chat sessions use ['text'] (default both)
+}
+
 // ============================================================================
 // AZURE VOICE LIVE CONNECTION TYPES
 // ============================================================================
@@ -133,6 +156,7 @@ export interface VoiceGatewayEvents {
   "voice:connect": {
     userId: string; // Who is calling
     sessionId?: string; // Resume existing or create new
+    resumeToken?: string; // Required to reattach to a live session (from voice:connected)
     userPreferences?: {
       voicePreference?: string; // Preferred voice
       temperatureLevel?: number; // Response creativity preference
@@ -176,6 +200,19 @@ export interface VoiceGatewayEvents {
   "voice:heartbeat": {
     sessionId: string;
   };
+
+  /**
+   * EXPLANATION: Report playback position
+   * Client sends: how much of a response's audio it has played (periodically,
+   * and with flushed: true right after handling voice:playback-flush)
+   * Server does: truncates an interrupted reply to what the user actually heard
+   */
+  "voice:playback-ack": {
+    sessionId: string;
+    responseId: string;
+    playedMs: number; // Milliseconds of this response's audio played so far
+    flushed?: boolean; // Final position after a flush
+  };
 }
 
 /**
@@ -196,7 +233,21 @@ export interface VoiceServerEvents {
       connectedAt: string;
       sampleRate: number;
       channels: number;
+      recording?: boolean; // Turns are recorded (user opted in)
     };
+    resumeToken: string; // Present with sessionId to resume; rotated on every connect
+    resumeTokenExpiresAt: string;
+  };
+
+  /**
+   * EXPLANATION: Fresh resume token
+   * Server sends: on a heartbeat once the current resume token is near expiry
+   * Client does: replaces the token it keeps for reconnecting (the old one stops working)
+   */
+  "voice:session-resume-token": {
+    sessionId: string;
+    resumeToken: string;
+    resumeTokenExpiresAt: string;
   };
 
   /**
@@ -208,6 +259,26 @@ export interface VoiceServerEvents {
     audio: string; // Base64 encoded PCM audio chunk
     sequenceNumber: number; // Order of chunks (1, 2, 3...)
     isLastChunk: boolean; // Is this the final chunk?
+    responseId?: string; // Response this chunk belongs to (used in playback acks)
+  };
+
+  /**
+   * EXPLANATION: Assistant started a new response
+   * Server sends: when the AI begins replying
+   * Client does: resets its playback position counter for this responseId
+   */
+  "voice:response-started": {
+    responseId: string;
+  };
+
+  /**
+   * EXPLANATION: User interrupted the assistant (barge-in)
+   * Server sends: when the user starts speaking over an audible response
+   * Client does: drops all queued audio for responseId immediately, then
+   * sends voice:playback-ack with flushed: true and the position it reached
+   */
+  "voice:playback-flush": {
+    responseId: string;
   };
 
   /**
@@ -229,6 +300,8 @@ export interface VoiceServerEvents {
   "voice:assistant-transcript": {
     transcript: string; // What AI said
     isFinal: boolean;
+    responseId?: string;
+    interrupted?: boolean; // Final transcript cut back to what was played
   };
 
   /**
@@ -259,6 +332,35 @@ export interface VoiceServerEvents {
     escalated: boolean; // Was this escalated to human?
   };
 
+  /**
+   * EXPLANATION: Recorded turn available
+   * Server sends: after a recorded user or assistant turn has been stored
+   * Client does: can offer replay via the authenticated audioUrl
+   */
+  "voice:message-audio": {
+    messageId: string;
+    audioUrl: string;
+  };
+
+  /**
+   * EXPLANATION: Usage limit approaching
+   * Server sends: once per limit when usage passes VOICE_USAGE_WARNING_RATIO of it
+   * Client does: tells the user how much voice time (or how many turns) is left
+   */
+  "voice:usage-warning": {
+    limit: "dailyVoiceMinutes" | "monthlyVoiceMinutes" | "dailyTurns" | "monthlyTurns";
+    remaining: number; // Minutes or turns left
+  };
+
+  /**
+   * EXPLANATION: Usage limit reached
+   * Server sends: when a plan limit is used up mid-session, right before voice:session-ended
+   * Client does: explains why the conversation ended (e.g. suggests upgrading)
+   */
+  "voice:usage-limit-reached": {
+    limit: "dailyVoiceMinutes" | "monthlyVoiceMinutes" | "dailyTurns" | "monthlyTurns";
+  };
+
   /**
    * EXPLANATION: Session ended
    * Server sends: when conversation is finished
@@ -269,7 +371,7 @@ export interface VoiceServerEvents {
     endedAt: string;
     summary?: {
       duration: number; // Conversation length in seconds
-      messageCount: number; // How many exchanges
+      messageCount: number; // How many messages (user + assistant)
       averageEmotion: string; // Overall mood
       crisisDetected: boolean; // Any crisis moments?
     };
@@ -283,6 +385,8 @@ export interface VoiceServerEvents {
   "voice:error": {
     error: string; // Error message
     code?: string; // Error code
+    feature?: string; // Missing plan feature (SUBSCRIPTION_REQUIRED / FEATURE_NOT_IN_PLAN)
+    plan?: { id: string; name: string }; // Caller's current plan, when they have one
     recoverable: boolean; // Can user retry?
   };
 }
@@ -304,6 +408,7 @@ export interface MessageContent {
     primaryEmotion: string;
     confidence: number;
     emotions: { [key: string]: number };
+    analysisVersion?: string; // Which analyzer produced these scores
   };
 }
 
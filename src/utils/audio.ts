@@ -0,0 +1,90 @@
+// Voice audio is 16-bit little-endian mono PCM at 24kHz in both directions
+export const PCM_SAMPLE_RATE = 24000;
+export const PCM_CHANNELS = 1;
+export const PCM_BITS_PER_SAMPLE = 16;
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Wrap raw PCM in a canonical 44-byte RIFF/WAVE header
+ */
+export function encodeWav(
+  pcm: Buffer,
+  sampleRate: number = PCM_SAMPLE_RATE,
+  channels: number = PCM_CHANNELS,
+  bitsPerSample: number = PCM_BITS_PER_SAMPLE
+): Buffer {
+  const blockAlign = (channels * bitsPerSample) / 8;
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Playback length of a PCM buffer in milliseconds
+ */
+export function pcmDurationMs(
+  bytes: number,
+  sampleRate: number = PCM_SAMPLE_RATE,
+  channels: number = PCM_CHANNELS,
+  bitsPerSample: number = PCM_BITS_PER_SAMPLE
+): number {
+  return Math.round((bytes / ((channels * bitsPerSample) / 8) / sampleRate) * 1000);
+}
+
+/**
+ * PCM byte count for a playback length (rounded down to whole samples)
+ */
+export function pcmBytesForMs(
+  ms: number,
+  sampleRate: number = PCM_SAMPLE_RATE,
+  channels: number = PCM_CHANNELS,
+  bitsPerSample: number = PCM_BITS_PER_SAMPLE
+): number {
+  const blockAlign = (channels * bitsPerSample) / 8;
+  return Math.max(0, Math.floor((ms / 1000) * sampleRate)) * blockAlign;
+}
+
+/**
+ * Parse a single-range HTTP Range header ("bytes=start-end", "bytes=start-" or "bytes=-suffix").
+ * Returns null when there is no usable header (serve the whole file) and 'unsatisfiable' for a 416.
+ */
+export function parseByteRange(
+  header: string | undefined,
+  size: number
+): { start: number; end: number } | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Multi-range and other units are ignored rather than rejected
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
@@ -0,0 +1,31 @@
+import Joi from 'joi';
+
+const objectIdRegex = /^[a-fA-F0-9]{24}$/;
+
+export const audioRecordingValidationSchemas = {
+  recordingConsent: Joi.object({
+    enabled: Joi.boolean().required()
+      .messages({
+        'any.required': 'enabled is required',
+        'boolean.base': 'enabled must be a boolean'
+      }),
+    deleteRecordings: Joi.boolean().default(false)
+      .when('enabled', {
+        is: true,
+        then: Joi.valid(false).messages({
+          'any.only': 'deleteRecordings can only be used when disabling recording'
+        })
+      })
+  }),
+
+  messageAudioParams: Joi.object({
+    sessionId: Joi.string().required()
+      .messages({
+        'string.empty': 'sessionId is required'
+      }),
+    messageId: Joi.string().pattern(objectIdRegex).required()
+      .messages({
+        'string.pattern.base': 'messageId must be a valid message id'
+      })
+  })
+};
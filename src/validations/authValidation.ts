@@ -68,6 +68,55 @@ const otpCodeSchema = Joi.string()
     'string.empty': 'OTP code is required',
   });
 
+// ID token from the Google / Apple SDK
+const idTokenSchema = Joi.string()
+  .trim()
+  .pattern(/^[\w-]+\.[\w-]+\.[\w-]+$/)
+  .required()
+  .messages({
+    'string.pattern.base': 'ID token must be a JWT',
+    'string.empty': 'ID token is required',
+    'any.required': 'ID token is required',
+  });
+
+// Code texted to a phone (login or phone verification)
+const phoneCodeSchema = Joi.string()
+  .trim()
+  .pattern(/^\d{6}$/)
+  .required()
+  .messages({
+    'string.pattern.base': 'Code must be exactly 6 digits',
+    'string.empty': 'Code is required',
+    'any.required': 'Code is required',
+  });
+
+// Two-factor code: 6-digit TOTP code or a recovery code (xxxxx-xxxxx)
+const twoFactorCodeSchema = Joi.string()
+  .trim()
+  .pattern(/^(\d{6}|[a-fA-F0-9]{5}-?[a-fA-F0-9]{5})$/)
+  .required()
+  .messages({
+    'string.pattern.base': 'Code must be a 6-digit authenticator code or a recovery code',
+    'string.empty': 'Code is required',
+    'any.required': 'Code is required',
+  });
+
+// Authenticator code only (enrollment proves the app was set up)
+const totpCodeSchema = Joi.string()
+  .trim()
+  .pattern(/^\d{6}$/)
+  .required()
+  .messages({
+    'string.pattern.base': 'Code must be a 6-digit authenticator code',
+    'string.empty': 'Code is required',
+    'any.required': 'Code is required',
+  });
+
+const twoFactorLoginSchema = Joi.object({
+  challengeToken: tokenSchema,
+  code: twoFactorCodeSchema,
+});
+
 // Validation schemas for each endpoint
 export const authValidationSchemas = {
   signup: Joi.object({
@@ -115,12 +164,32 @@ export const authValidationSchemas = {
   }),
 
   verifyOTP: Joi.object({
-    otpId: Joi.string().uuid().required().messages({
-      'string.empty': 'OTP ID is required',
-      'any.required': 'OTP ID is required',
-      'string.guid': 'Invalid OTP ID format',
+    code: phoneCodeSchema,
+  }),
+
+  oidcLogin: Joi.object({
+    idToken: idTokenSchema,
+    nonce: Joi.string().max(256).optional(),
+    // Apple only shares the user's name with the app, on the first sign-in
+    name: nameSchema.optional(),
+  }),
+
+  connectIdentity: Joi.object({
+    idToken: idTokenSchema,
+    nonce: Joi.string().max(256).optional(),
+  }),
+
+  phoneLogin: Joi.object({
+    phone: phoneSchema.required().messages({
+      'any.required': 'Phone number is required',
     }),
-    code: otpCodeSchema,
+  }),
+
+  phoneLoginVerify: Joi.object({
+    phone: phoneSchema.required().messages({
+      'any.required': 'Phone number is required',
+    }),
+    code: phoneCodeSchema,
   }),
   
   verifyOTPRegistration: Joi.object({
@@ -155,6 +224,23 @@ export const authValidationSchemas = {
   resendVerification: Joi.object({
     email: emailSchema,
   }),
+
+  twoFactorLogin: twoFactorLoginSchema,
+
+  twoFactorConfirm: Joi.object({
+    code: totpCodeSchema,
+  }),
+
+  twoFactorCode: Joi.object({
+    code: twoFactorCodeSchema,
+  }),
+
+  sessionParams: Joi.object({
+    sessionId: Joi.string().guid({ version: 'uuidv4' }).required().messages({
+      'string.guid': 'Invalid session ID format',
+      'any.required': 'Session ID is required',
+    }),
+  }),
 };
 
 // Admin validation schemas
@@ -191,6 +277,16 @@ export const adminValidationSchemas = {
       'any.required': 'New password is required',
     }),
   }),
+
+  twoFactorLogin: twoFactorLoginSchema,
+
+  twoFactorConfirm: Joi.object({
+    code: totpCodeSchema,
+  }),
+
+  twoFactorCode: Joi.object({
+    code: twoFactorCodeSchema,
+  }),
 };
 
 export type AuthValidationSchema = keyof typeof authValidationSchemas;
@@ -0,0 +1,33 @@
+import Joi from 'joi';
+
+export const billingValidationSchemas = {
+  createCheckout: Joi.object({
+    planId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).required().messages({
+      'string.pattern.base': 'Invalid plan ID format',
+      'any.required': 'Plan ID is required',
+    }),
+    priceId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).optional().messages({
+      'string.pattern.base': 'Invalid price ID format',
+    }),
+    couponCode: Joi.string().trim().max(50).optional().messages({
+      'string.max': 'Coupon code must not exceed 50 characters',
+    }),
+  }),
+
+  fakeEvent: Joi.object({
+    type: Joi.string()
+      .valid('checkout.completed', 'invoice.paid', 'invoice.payment_failed', 'subscription.ended')
+      .required()
+      .messages({
+        'any.only': 'type must be one of checkout.completed, invoice.paid, invoice.payment_failed, subscription.ended',
+        'any.required': 'type is required',
+      }),
+    checkoutId: Joi.string().trim().max(200).when('type', {
+      is: 'checkout.completed',
+      then: Joi.required(),
+      otherwise: Joi.optional(),
+    }).messages({
+      'any.required': 'checkoutId is required to complete a checkout',
+    }),
+  }),
+};
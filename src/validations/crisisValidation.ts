@@ -0,0 +1,48 @@
+import Joi from 'joi';
+
+const objectIdRegex = /^[a-fA-F0-9]{24}$/;
+
+export const crisisValidationSchemas = {
+  listEscalations: Joi.object({
+    page: Joi.number().integer().min(1).default(1)
+      .messages({
+        'number.base': 'page must be a number',
+        'number.min': 'page must be at least 1',
+      }),
+    limit: Joi.number().integer().min(1).max(100).default(20)
+      .messages({
+        'number.base': 'limit must be a number',
+        'number.max': 'limit must not exceed 100',
+      }),
+    status: Joi.string().valid('open', 'acknowledged', 'assigned', 'resolved').optional(),
+    severity: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
+  }),
+
+  escalationIdParams: Joi.object({
+    escalationId: Joi.string().pattern(objectIdRegex).required()
+      .messages({
+        'string.pattern.base': 'escalationId must be a valid id',
+        'any.required': 'escalationId is required',
+      }),
+  }),
+
+  acknowledge: Joi.object({
+    note: Joi.string().max(1000).trim().optional().allow(''),
+  }),
+
+  assign: Joi.object({
+    adminId: Joi.string().pattern(objectIdRegex).required()
+      .messages({
+        'string.pattern.base': 'adminId must be a valid id',
+        'any.required': 'adminId is required',
+      }),
+  }),
+
+  resolve: Joi.object({
+    resolutionNotes: Joi.string().min(3).max(2000).trim().required()
+      .messages({
+        'string.min': 'Resolution notes must be at least 3 characters long',
+        'any.required': 'Resolution notes are required',
+      }),
+  }),
+};
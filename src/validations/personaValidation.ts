@@ -0,0 +1,104 @@
+import Joi from 'joi';
+
+const objectIdRegex = /^[a-fA-F0-9]{24}$/;
+
+const voiceSchema = Joi.object({
+  name: Joi.string().max(200).trim(),
+  type: Joi.string().max(50).trim(),
+  temperature: Joi.number().min(0).max(1)
+    .messages({
+      'number.min': 'Voice temperature must be between 0 and 1',
+      'number.max': 'Voice temperature must be between 0 and 1',
+    }),
+  rate: Joi.string().pattern(/^\d+(\.\d+)?$/)
+    .messages({
+      'string.pattern.base': 'Voice rate must be a number such as "1.0"',
+    }),
+});
+
+const turnDetectionSchema = Joi.object({
+  threshold: Joi.number().min(0).max(1),
+  prefixPaddingMs: Joi.number().integer().min(0).max(5000),
+  silenceDurationMs: Joi.number().integer().min(0).max(5000),
+  removeFillerWords: Joi.boolean(),
+  endOfUtteranceThreshold: Joi.number().min(0).max(1),
+  endOfUtteranceTimeout: Joi.number().min(0).max(10),
+});
+
+export const personaValidationSchemas = {
+  createPersona: Joi.object({
+    name: Joi.string().min(2).max(100).trim().required()
+      .messages({
+        'string.min': 'Persona name must be at least 2 characters long',
+        'any.required': 'Persona name is required',
+      }),
+    description: Joi.string().max(500).trim().optional().allow(''),
+    instructions: Joi.string().min(10).max(20000).required()
+      .messages({
+        'string.min': 'Instructions must be at least 10 characters long',
+        'any.required': 'Instructions are required',
+      }),
+    voice: voiceSchema.optional(),
+    turnDetection: turnDetectionSchema.optional(),
+    notes: Joi.string().max(1000).trim().optional().allow(''),
+    publish: Joi.boolean().optional(),
+    isDefault: Joi.boolean().optional(),
+  }),
+
+  updatePersona: Joi.object({
+    name: Joi.string().min(2).max(100).trim().optional(),
+    description: Joi.string().max(500).trim().optional().allow(''),
+    isActive: Joi.boolean().optional(),
+    isDefault: Joi.boolean().optional(),
+  }).min(1)
+    .messages({
+      'object.min': 'At least one field is required',
+    }),
+
+  createVersion: Joi.object({
+    instructions: Joi.string().min(10).max(20000).optional()
+      .messages({
+        'string.min': 'Instructions must be at least 10 characters long',
+      }),
+    voice: voiceSchema.optional(),
+    turnDetection: turnDetectionSchema.optional(),
+    notes: Joi.string().max(1000).trim().optional().allow(''),
+  }),
+
+  rollback: Joi.object({
+    version: Joi.number().integer().min(1).optional(),
+  }),
+
+  listPersonas: Joi.object({
+    includeInactive: Joi.boolean().optional(),
+  }),
+
+  personaIdParams: Joi.object({
+    personaId: Joi.string().pattern(objectIdRegex).required()
+      .messages({
+        'string.pattern.base': 'personaId must be a valid id',
+        'any.required': 'personaId is required',
+      }),
+  }),
+
+  versionParams: Joi.object({
+    personaId: Joi.string().pattern(objectIdRegex).required()
+      .messages({
+        'string.pattern.base': 'personaId must be a valid id',
+        'any.required': 'personaId is required',
+      }),
+    version: Joi.number().integer().min(1).required()
+      .messages({
+        'number.base': 'version must be a number',
+        'any.required': 'version is required',
+      }),
+  }),
+
+  selectPersona: Joi.object({
+    personaId: Joi.string().pattern(objectIdRegex).allow(null).required()
+      .messages({
+        'string.pattern.base': 'personaId must be a valid id',
+        'any.required': 'personaId is required (use null to clear)',
+      }),
+  }),
+};
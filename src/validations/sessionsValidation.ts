@@ -26,6 +26,15 @@ export const sessionsValidationSchemas = {
       })
   }),
 
+  sendMessage: Joi.object({
+    text: Joi.string().trim().min(1).max(4000).required()
+      .messages({
+        'string.empty': 'text is required',
+        'string.max': 'text must not exceed 4000 characters',
+        'any.required': 'text is required'
+      })
+  }),
+
   messagesCursor: Joi.object({
     limit: Joi.number().integer().min(1).max(100).default(20)
       .messages({
@@ -1,6 +1,59 @@
 import Joi from 'joi';
 
 // Feature validation schemas
+const usageLimit = Joi.number().integer().min(0).optional().messages({
+  'number.base': 'Usage limits must be numbers',
+  'number.integer': 'Usage limits must be whole numbers',
+  'number.min': 'Usage limits cannot be negative',
+});
+
+const usageLimitsSchema = Joi.object({
+  dailyVoiceMinutes: usageLimit,
+  monthlyVoiceMinutes: usageLimit,
+  dailyTurns: usageLimit,
+  monthlyTurns: usageLimit,
+});
+
+const objectId = (label: string) =>
+  Joi.string().pattern(/^[a-fA-F0-9]{24}$/).messages({
+    'string.pattern.base': `Invalid ${label} ID format`,
+  });
+
+const priceSchema = Joi.object({
+  interval: Joi.string().valid('month', 'year').required().messages({
+    'any.only': 'Price interval must be month or year',
+    'any.required': 'Price interval is required',
+  }),
+  currency: Joi.string().lowercase().pattern(/^[a-z]{3}$/).required().messages({
+    'string.pattern.base': 'Currency must be a 3-letter ISO 4217 code',
+    'any.required': 'Currency is required',
+  }),
+  amount: Joi.number().integer().min(0).required().messages({
+    'number.base': 'Amount must be a number',
+    'number.integer': 'Amount must be in minor units (e.g. cents)',
+    'number.min': 'Amount cannot be negative',
+    'any.required': 'Amount is required',
+  }),
+});
+
+// Keyed by locale such as 'de' or 'pt-BR'; null clears all translations
+const localizationsSchema = Joi.object()
+  .pattern(
+    /^[a-z]{2}(-[A-Z]{2})?$/,
+    Joi.object({
+      name: Joi.string().max(100).trim().optional().allow(''),
+      description: Joi.string().max(1000).trim().optional().allow(''),
+    })
+  )
+  .messages({
+    'object.unknown': 'Localization keys must be locales like "de" or "pt-BR"',
+  });
+
+const trialDays = Joi.number().integer().min(0).max(365).messages({
+  'number.base': 'Trial days must be a number',
+  'number.max': 'Trial must not exceed 365 days',
+});
+
 export const subscriptionValidationSchemas = {
   createFeature: Joi.object({
     name: Joi.string().min(2).max(100).trim().required().messages({
@@ -9,9 +62,13 @@ export const subscriptionValidationSchemas = {
       'string.empty': 'Feature name is required',
       'any.required': 'Feature name is required',
     }),
+    displayName: Joi.string().max(100).trim().optional().messages({
+      'string.max': 'Display name must not exceed 100 characters',
+    }),
     description: Joi.string().max(500).trim().optional().allow('').messages({
       'string.max': 'Description must not exceed 500 characters',
     }),
+    localizations: localizationsSchema.optional(),
   }),
 
   updateFeature: Joi.object({
@@ -19,9 +76,13 @@ export const subscriptionValidationSchemas = {
       'string.min': 'Feature name must be at least 2 characters long',
       'string.max': 'Feature name must not exceed 100 characters',
     }),
+    displayName: Joi.string().max(100).trim().optional().allow(null, '').messages({
+      'string.max': 'Display name must not exceed 100 characters',
+    }),
     description: Joi.string().max(500).trim().optional().allow('').messages({
       'string.max': 'Description must not exceed 500 characters',
     }),
+    localizations: localizationsSchema.optional().allow(null),
     isActive: Joi.boolean().optional(),
   }),
 
@@ -32,6 +93,10 @@ export const subscriptionValidationSchemas = {
       'string.empty': 'Plan name is required',
       'any.required': 'Plan name is required',
     }),
+    description: Joi.string().max(1000).trim().optional().allow(''),
+    localizations: localizationsSchema.optional(),
+    sortOrder: Joi.number().integer().optional(),
+    isRecommended: Joi.boolean().optional(),
     monthlyPrice: Joi.number().min(0).required().messages({
       'number.min': 'Monthly price cannot be negative',
       'number.base': 'Monthly price must be a number',
@@ -41,6 +106,12 @@ export const subscriptionValidationSchemas = {
       'array.base': 'Features must be an array',
       'string.guid': 'Invalid feature ID format',
     }),
+    personaId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).optional().allow(null).messages({
+      'string.pattern.base': 'Invalid persona ID format',
+    }),
+    usageLimits: usageLimitsSchema.optional().allow(null),
+    prices: Joi.array().items(priceSchema).optional(),
+    trialDays: trialDays.optional().allow(null),
   }),
 
   updateSubscriptionPlan: Joi.object({
@@ -48,6 +119,10 @@ export const subscriptionValidationSchemas = {
       'string.min': 'Plan name must be at least 2 characters long',
       'string.max': 'Plan name must not exceed 100 characters',
     }),
+    description: Joi.string().max(1000).trim().optional().allow(null, ''),
+    localizations: localizationsSchema.optional().allow(null),
+    sortOrder: Joi.number().integer().optional(),
+    isRecommended: Joi.boolean().optional(),
     monthlyPrice: Joi.number().min(0).optional().messages({
       'number.min': 'Monthly price cannot be negative',
       'number.base': 'Monthly price must be a number',
@@ -57,6 +132,11 @@ export const subscriptionValidationSchemas = {
       'string.guid': 'Invalid feature ID format',
     }),
     isActive: Joi.boolean().optional(),
+    personaId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).optional().allow(null).messages({
+      'string.pattern.base': 'Invalid persona ID format',
+    }),
+    usageLimits: usageLimitsSchema.optional().allow(null),
+    trialDays: trialDays.optional().allow(null),
   }),
 
   addFeaturesToPlan: Joi.object({
@@ -71,6 +151,107 @@ export const subscriptionValidationSchemas = {
         'any.required': 'Feature IDs are required',
       }),
   }),
+
+  // Plan price schemas
+  addPlanPrice: priceSchema,
+
+  planPriceParams: Joi.object({
+    id: objectId('plan').required(),
+    priceId: objectId('price').required(),
+  }),
+
+  updatePlanPrice: Joi.object({
+    isActive: Joi.boolean().required().messages({
+      'any.required': 'isActive is required',
+    }),
+  }),
+
+  // Coupon schemas
+  createCoupon: Joi.object({
+    code: Joi.string().trim().pattern(/^[A-Za-z0-9_-]{3,50}$/).required().messages({
+      'string.pattern.base': 'Coupon code must be 3-50 letters, digits, dashes or underscores',
+      'any.required': 'Coupon code is required',
+    }),
+    description: Joi.string().max(500).trim().optional().allow(''),
+    discountType: Joi.string().valid('percent', 'fixed').required().messages({
+      'any.only': 'Discount type must be percent or fixed',
+      'any.required': 'Discount type is required',
+    }),
+    percentOff: Joi.when('discountType', {
+      is: 'percent',
+      then: Joi.number().integer().min(1).max(100).required(),
+      otherwise: Joi.forbidden(),
+    }).messages({
+      'number.min': 'percentOff must be between 1 and 100',
+      'number.max': 'percentOff must be between 1 and 100',
+      'any.required': 'percentOff is required for percent coupons',
+      'any.unknown': 'percentOff only applies to percent coupons',
+    }),
+    amountOff: Joi.when('discountType', {
+      is: 'fixed',
+      then: Joi.number().integer().min(1).required(),
+      otherwise: Joi.forbidden(),
+    }).messages({
+      'number.min': 'amountOff must be at least 1 (minor units)',
+      'any.required': 'amountOff is required for fixed coupons',
+      'any.unknown': 'amountOff only applies to fixed coupons',
+    }),
+    currency: Joi.when('discountType', {
+      is: 'fixed',
+      then: Joi.string().lowercase().pattern(/^[a-z]{3}$/).required(),
+      otherwise: Joi.forbidden(),
+    }).messages({
+      'string.pattern.base': 'Currency must be a 3-letter ISO 4217 code',
+      'any.required': 'currency is required for fixed coupons',
+      'any.unknown': 'currency only applies to fixed coupons',
+    }),
+    planIds: Joi.array().items(objectId('plan')).optional(),
+    maxRedemptions: Joi.number().integer().min(1).optional(),
+    expiresAt: Joi.date().iso().greater('now').optional().messages({
+      'date.greater': 'expiresAt must be in the future',
+    }),
+  }),
+
+  updateCoupon: Joi.object({
+    description: Joi.string().max(500).trim().optional().allow(''),
+    planIds: Joi.array().items(objectId('plan')).optional(),
+    maxRedemptions: Joi.number().integer().min(1).optional().allow(null),
+    expiresAt: Joi.date().iso().optional().allow(null),
+    isActive: Joi.boolean().optional(),
+  }),
+
+  // User subscription schemas
+  userIdParams: Joi.object({
+    userId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).required().messages({
+      'string.pattern.base': 'Invalid user ID format',
+      'any.required': 'User ID is required',
+    }),
+  }),
+
+  grantSubscription: Joi.object({
+    planId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).required().messages({
+      'string.pattern.base': 'Invalid plan ID format',
+      'any.required': 'Plan ID is required',
+    }),
+    trialDays: Joi.number().integer().min(1).max(365).optional().messages({
+      'number.base': 'Trial days must be a number',
+      'number.min': 'Trial must be at least 1 day',
+      'number.max': 'Trial must not exceed 365 days',
+    }),
+    note: Joi.string().max(500).trim().optional().allow(''),
+  }),
+
+  changeSubscriptionPlan: Joi.object({
+    planId: Joi.string().pattern(/^[a-fA-F0-9]{24}$/).required().messages({
+      'string.pattern.base': 'Invalid plan ID format',
+      'any.required': 'Plan ID is required',
+    }),
+    note: Joi.string().max(500).trim().optional().allow(''),
+  }),
+
+  endSubscription: Joi.object({
+    reason: Joi.string().max(500).trim().optional().allow(''),
+  }),
 };
 
 export type SubscriptionValidationSchema = keyof typeof subscriptionValidationSchemas;
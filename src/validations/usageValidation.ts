@@ -0,0 +1,37 @@
+import Joi from 'joi';
+
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const day = Joi.string().pattern(dayPattern).optional()
+  .messages({
+    'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format',
+  });
+
+export const usageValidationSchemas = {
+  usageReport: Joi.object({
+    from: day,
+    to: day,
+    page: Joi.number().integer().min(1).default(1)
+      .messages({
+        'number.base': 'page must be a number',
+        'number.min': 'page must be at least 1',
+      }),
+    limit: Joi.number().integer().min(1).max(100).default(20)
+      .messages({
+        'number.base': 'limit must be a number',
+        'number.max': 'limit must not exceed 100',
+      }),
+  }),
+
+  userUsageParams: Joi.object({
+    userId: Joi.string().trim().max(100).required()
+      .messages({
+        'any.required': 'userId is required',
+      }),
+  }),
+
+  userUsageQuery: Joi.object({
+    from: day,
+    to: day,
+  }),
+};
@@ -0,0 +1,371 @@
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { Server } from "socket.io";
+import { io as ioClient, Socket as ClientSocket } from "socket.io-client";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import { VoiceLiveGateway } from "../../src/gateways/voiceLive.gateway";
+import { MockVoiceProvider, MockVoiceProviderOptions } from "../../src/services/mockVoiceProvider";
+import { MemorySessionRegistry } from "../../src/services/sessionRegistry";
+import { entitlementCache } from "../../src/services/entitlementCache";
+import { refreshTokenService } from "../../src/services/refreshTokenService";
+import { tokenPolicyService } from "../../src/services/tokenPolicyService";
+import { voiceResumeTokenService } from "../../src/services/voiceResumeTokenService";
+import { Session } from "../../src/models/schemas/Session";
+import { User } from "../../src/models/schemas/User";
+
+// No database in this suite: fail model calls immediately instead of buffering
+mongoose.set("bufferCommands", false);
+
+// Socket auth loads the token's user; answer with an account in good standing
+const stubAccounts = (overrides: Record<string, unknown> = {}) =>
+  jest.spyOn(User, "findById").mockImplementation(((id: string) => {
+    const query: any = Promise.resolve(new User({ _id: id, email: "voice@example.com", emailVerified: true, ...overrides }));
+    return Object.assign(query, { select: () => query, lean: () => query });
+  }) as any);
+
+describe("VoiceLiveGateway with the mock provider", () => {
+  const secret = "voice-gateway-test-secret";
+  const userId = "64b7f0c2a1b2c3d4e5f60718";
+  let httpServer: HttpServer;
+  let io: Server;
+  let gateway: VoiceLiveGateway;
+  let client: ClientSocket;
+  let url: string;
+  let providerOptions: MockVoiceProviderOptions;
+
+  const nextEvent = <T = any>(event: string) =>
+    new Promise<T>((resolve) => client.once(event, (data: T) => resolve(data)));
+
+  beforeAll((done) => {
+    process.env.JWT_SECRET = secret;
+    stubAccounts();
+    httpServer = createServer();
+    io = new Server(httpServer);
+    gateway = new VoiceLiveGateway(io, {
+      providerFactory: () => new MockVoiceProvider(providerOptions),
+    });
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}/voice`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    providerOptions = { mode: "echo", userTranscripts: ["I had a good day"], utteranceSilenceMs: 10 };
+  });
+
+  afterEach(() => {
+    client?.disconnect();
+  });
+
+  afterAll((done) => {
+    jest.restoreAllMocks();
+    io.close();
+    httpServer.close(() => done());
+  });
+
+  const connectClient = (token?: string) => {
+    client = ioClient(url, { auth: token ? { token } : {}, transports: ["websocket"], reconnection: false });
+    return client;
+  };
+
+  test("should reject sockets without a token", async () => {
+    connectClient();
+    const error = await nextEvent<Error>("connect_error");
+
+    expect(error.message).toBe("AUTH_REQUIRED");
+  });
+
+  test("should reject tokens of suspended users and tokens issued before a revocation", async () => {
+    const accounts = stubAccounts({ isSuspended: true, isActive: false });
+    connectClient(jwt.sign({ userId }, secret));
+    expect((await nextEvent<Error>("connect_error")).message).toBe("ACCOUNT_SUSPENDED");
+
+    accounts.mockRestore();
+    stubAccounts({ tokenVersion: 1 });
+    connectClient(jwt.sign({ userId, tv: 0 }, secret));
+    expect((await nextEvent<Error>("connect_error")).message).toBe("AUTH_INVALID");
+
+    stubAccounts();
+  });
+
+  test("should end a live session when the user's tokens are revoked", async () => {
+    jest.spyOn(User, "updateOne").mockResolvedValue({} as any);
+    jest.spyOn(refreshTokenService, "revokeAll").mockResolvedValue(1);
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+    client.emit("voice:connect", { userId });
+    await nextEvent("voice:connected");
+
+    const error = nextEvent<{ code: string; recoverable: boolean }>("voice:error");
+    const disconnected = nextEvent<string>("disconnect");
+    await tokenPolicyService.revokeAllTokens(userId, "suspended");
+
+    expect(await error).toMatchObject({ code: "ACCESS_REVOKED", recoverable: false });
+    expect(await disconnected).toBe("io server disconnect");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(gateway.getActiveSessionCount()).toBe(0);
+  });
+
+  test("should run a full voice turn offline", async () => {
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+
+    client.emit("voice:connect", { userId });
+    const connected = await nextEvent<{ sessionId: string; status: string }>("voice:connected");
+    expect(connected.status).toBe("ready");
+    expect(connected.sessionId).toMatch(/^voice_/);
+    expect(gateway.getActiveSessionCount()).toBe(1);
+
+    const userTranscript = nextEvent<{ transcript: string }>("voice:user-transcript");
+    const emotion = nextEvent<{ emotion: { primary: string } }>("voice:emotion");
+    const audio = nextEvent<{ audio: string }>("voice:audio");
+    const assistantDone = new Promise<string>((resolve) => {
+      let text = "";
+      client.on("voice:assistant-transcript", (data: { transcript: string; isFinal: boolean }) => {
+        if (data.isFinal) resolve(text);
+        else text += data.transcript;
+      });
+    });
+
+    client.emit("voice:audio", {
+      audio: Buffer.alloc(4800).toString("base64"),
+      sessionId: connected.sessionId,
+      timestamp: Date.now(),
+    });
+
+    expect((await userTranscript).transcript).toBe("I had a good day");
+    expect((await emotion).emotion.primary).toBe("happy");
+    expect(Buffer.from((await audio).audio, "base64").length).toBeGreaterThan(0);
+    expect(await assistantDone).toBe("You said: I had a good day");
+
+    client.emit("voice:disconnect", { sessionId: connected.sessionId });
+    const ended = await nextEvent<{ sessionId: string }>("voice:session-ended");
+    expect(ended.sessionId).toBe(connected.sessionId);
+  });
+
+  test("should refuse a voice session once a usage limit is used up", async () => {
+    process.env.VOICE_DEFAULT_DAILY_TURNS = "0";
+    try {
+      connectClient(jwt.sign({ userId }, secret));
+      await nextEvent("connect");
+
+      client.emit("voice:connect", { userId });
+      const error = await nextEvent<{ code: string; recoverable: boolean }>("voice:error");
+
+      expect(error).toMatchObject({ code: "USAGE_LIMIT_REACHED", recoverable: false });
+      expect(gateway.getActiveSessionCount()).toBe(0);
+    } finally {
+      delete process.env.VOICE_DEFAULT_DAILY_TURNS;
+    }
+  });
+
+  test("should refuse a voice session when the plan lacks the voice feature", async () => {
+    process.env.VOICE_SESSION_FEATURE = "voice-sessions";
+    entitlementCache.set(userId, null);
+    try {
+      connectClient(jwt.sign({ userId }, secret));
+      await nextEvent("connect");
+
+      client.emit("voice:connect", { userId });
+      const error = await nextEvent<{ code: string; feature: string }>("voice:error");
+
+      expect(error).toMatchObject({ code: "SUBSCRIPTION_REQUIRED", feature: "voice-sessions", recoverable: false });
+      expect(gateway.getActiveSessionCount()).toBe(0);
+    } finally {
+      delete process.env.VOICE_SESSION_FEATURE;
+      entitlementCache.clear();
+    }
+  });
+
+  test("should reattach a dropped session only with its latest resume token", async () => {
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+    client.emit("voice:connect", { userId });
+    const first = await nextEvent<{ sessionId: string; resumeToken: string }>("voice:connected");
+
+    client.disconnect();
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+
+    client.emit("voice:connect", { userId, sessionId: first.sessionId });
+    expect((await nextEvent<{ code: string }>("voice:error")).code).toBe("RESUME_REJECTED");
+
+    client.emit("voice:connect", { userId, sessionId: first.sessionId, resumeToken: first.resumeToken });
+    const resumed = await nextEvent<{ sessionId: string; resumeToken: string }>("voice:connected");
+    expect(resumed.sessionId).toBe(first.sessionId);
+    expect(resumed.resumeToken).not.toBe(first.resumeToken);
+
+    // The used token was rotated out
+    client.emit("voice:connect", { userId, sessionId: first.sessionId, resumeToken: first.resumeToken });
+    expect((await nextEvent<{ code: string }>("voice:error")).code).toBe("RESUME_REJECTED");
+
+    client.emit("voice:disconnect", { sessionId: first.sessionId });
+    await nextEvent("voice:session-ended");
+  });
+
+  test("should replace the resume token on a heartbeat before it expires", async () => {
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+    client.emit("voice:connect", { userId });
+    const first = await nextEvent<{ sessionId: string; resumeToken: string }>("voice:connected");
+
+    const needsRefresh = jest.spyOn(voiceResumeTokenService, "needsRefresh").mockReturnValue(true);
+    client.emit("voice:heartbeat", { sessionId: first.sessionId });
+    const refreshed = await nextEvent<{ sessionId: string; resumeToken: string }>("voice:session-resume-token");
+    needsRefresh.mockRestore();
+    expect(refreshed.sessionId).toBe(first.sessionId);
+
+    client.disconnect();
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+
+    client.emit("voice:connect", { userId, sessionId: first.sessionId, resumeToken: first.resumeToken });
+    expect((await nextEvent<{ code: string }>("voice:error")).code).toBe("RESUME_REJECTED");
+
+    client.emit("voice:connect", { userId, sessionId: first.sessionId, resumeToken: refreshed.resumeToken });
+    expect((await nextEvent<{ sessionId: string }>("voice:connected")).sessionId).toBe(first.sessionId);
+
+    client.emit("voice:disconnect", { sessionId: first.sessionId });
+    await nextEvent("voice:session-ended");
+  });
+
+  test("should not let another user take over a live session", async () => {
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+    client.emit("voice:connect", { userId });
+    const owner = await nextEvent<{ sessionId: string; resumeToken: string }>("voice:connected");
+    const ownerClient = client;
+
+    const intruderId = "64b7f0c2a1b2c3d4e5f60799";
+    connectClient(jwt.sign({ userId: intruderId }, secret));
+    await nextEvent("connect");
+    client.emit("voice:connect", { userId: intruderId, sessionId: owner.sessionId, resumeToken: owner.resumeToken });
+
+    expect((await nextEvent<{ code: string }>("voice:error")).code).toBe("RESUME_REJECTED");
+    expect(gateway.getActiveSessionCount()).toBe(1);
+
+    client.disconnect();
+    client = ownerClient;
+    client.emit("voice:disconnect", { sessionId: owner.sessionId });
+    await nextEvent("voice:session-ended");
+  });
+
+  test("should flush and truncate a reply the user talks over", async () => {
+    providerOptions = { ...providerOptions, msPerWord: 200, chunkMs: 100, chunkIntervalMs: 50 };
+    connectClient(jwt.sign({ userId }, secret));
+    await nextEvent("connect");
+
+    client.emit("voice:connect", { userId });
+    const connected = await nextEvent<{ sessionId: string }>("voice:connected");
+    const sendAudio = () =>
+      client.emit("voice:audio", {
+        audio: Buffer.alloc(4800).toString("base64"),
+        sessionId: connected.sessionId,
+        timestamp: Date.now(),
+      });
+
+    const started = nextEvent<{ responseId: string }>("voice:response-started");
+    const firstAudio = nextEvent<{ responseId: string }>("voice:audio");
+    sendAudio();
+    const { responseId } = await started;
+    expect((await firstAudio).responseId).toBe(responseId);
+
+    // Barge in while the reply is still streaming
+    const flush = nextEvent<{ responseId: string }>("voice:playback-flush");
+    const truncated = new Promise<{ transcript: string }>((resolve) => {
+      client.on("voice:assistant-transcript", (data: { transcript: string; interrupted?: boolean }) => {
+        if (data.interrupted) resolve(data);
+      });
+    });
+    sendAudio();
+    expect((await flush).responseId).toBe(responseId);
+
+    client.emit("voice:playback-ack", { sessionId: connected.sessionId, responseId, playedMs: 100, flushed: true });
+    expect((await truncated).transcript).toBe("You");
+
+    client.emit("voice:disconnect", { sessionId: connected.sessionId });
+    await nextEvent("voice:session-ended");
+  });
+});
+
+describe("VoiceLiveGateway across nodes", () => {
+  const secret = "voice-gateway-test-secret";
+  const userId = "64b7f0c2a1b2c3d4e5f60718";
+  const registry = new MemorySessionRegistry();
+  const nodes: Array<{ httpServer: HttpServer; io: Server; gateway: VoiceLiveGateway; url: string }> = [];
+  const clients: ClientSocket[] = [];
+
+  const startNode = (nodeId: string) =>
+    new Promise<(typeof nodes)[number]>((resolve) => {
+      const httpServer = createServer();
+      const io = new Server(httpServer);
+      const gateway = new VoiceLiveGateway(io, {
+        registry,
+        nodeId,
+        providerFactory: () => new MockVoiceProvider({ mode: "echo", utteranceSilenceMs: 10 }),
+      });
+      httpServer.listen(0, () => {
+        const node = { httpServer, io, gateway, url: `http://localhost:${(httpServer.address() as AddressInfo).port}/voice` };
+        nodes.push(node);
+        resolve(node);
+      });
+    });
+
+  const connectTo = async (url: string) => {
+    const client = ioClient(url, {
+      auth: { token: jwt.sign({ userId }, secret) },
+      transports: ["websocket"],
+      reconnection: false,
+    });
+    clients.push(client);
+    await new Promise<void>((resolve) => client.once("connect", () => resolve()));
+    return client;
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = secret;
+    stubAccounts();
+    // The resumed session id has no stored session yet
+    jest.spyOn(Session, "findOne").mockReturnValue({ select: () => Promise.resolve(null) } as any);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    clients.forEach((client) => client.disconnect());
+    for (const node of nodes) {
+      node.gateway.cleanup();
+      node.io.close();
+      await new Promise<void>((resolve) => node.httpServer.close(() => resolve()));
+    }
+  });
+
+  test("should hand a reconnecting session over from the owning node", async () => {
+    const nodeA = await startNode("node-a");
+    const nodeB = await startNode("node-b");
+
+    const first = await connectTo(nodeA.url);
+    first.emit("voice:connect", { userId });
+    const { sessionId, resumeToken } = await new Promise<{ sessionId: string; resumeToken: string }>((resolve) =>
+      first.once("voice:connected", resolve)
+    );
+    expect((await registry.get(sessionId))?.nodeId).toBe("node-a");
+
+    // Network drop: node A keeps the session through its grace period
+    first.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect((await registry.get(sessionId))?.connected).toBe(false);
+
+    // The load balancer sends the reconnect to node B
+    const second = await connectTo(nodeB.url);
+    second.emit("voice:connect", { userId, sessionId, resumeToken });
+    const resumed = await new Promise<{ sessionId: string }>((resolve) => second.once("voice:connected", resolve));
+
+    expect(resumed.sessionId).toBe(sessionId);
+    expect(nodeA.gateway.getActiveSessionCount()).toBe(0);
+    expect(nodeB.gateway.getActiveSessionCount()).toBe(1);
+    expect(await registry.get(sessionId)).toMatchObject({ nodeId: "node-b", connected: true });
+    expect(await nodeA.gateway.getClusterSessionCount()).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { Types } from "mongoose";
+import { Message } from "../../src/models/schemas/Message";
+import { Session } from "../../src/models/schemas/Session";
+import { backfillSessionIds } from "../../src/migrations/backfillSessionIds";
+
+const HOUR_MS = 60 * 60 * 1000;
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR_MS);
+
+describe("backfillSessionIds", () => {
+  const alice = new Types.ObjectId();
+  const bob = new Types.ObjectId();
+
+  // Alice has two legacy sessions, the first left "active"; Bob's only one started after his messages
+  const legacySessions = [
+    { _id: new Types.ObjectId(), userId: alice, startTime: hoursAgo(10), status: "active" },
+    { _id: new Types.ObjectId(), userId: alice, startTime: hoursAgo(5), status: "ended" },
+    { _id: new Types.ObjectId(), userId: bob, startTime: hoursAgo(0.5), status: "ended" },
+  ];
+
+  const streams = [
+    { sessionId: "voice_a1", userId: alice.toString(), firstAt: hoursAgo(10), lastAt: hoursAgo(9.5) },
+    { sessionId: "voice_claimed", userId: alice.toString(), firstAt: hoursAgo(7), lastAt: hoursAgo(7) },
+    { sessionId: "voice_a2", userId: alice.toString(), firstAt: hoursAgo(4.9), lastAt: hoursAgo(4) },
+    { sessionId: "voice_orphan", userId: bob.toString(), firstAt: hoursAgo(2), lastAt: hoursAgo(1) },
+    { sessionId: "voice_bad", userId: "not-an-id", firstAt: hoursAgo(2), lastAt: hoursAgo(1) },
+  ];
+
+  let updateOne: jest.SpyInstance;
+  let create: jest.SpyInstance;
+  let syncIndexes: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Session, "distinct").mockResolvedValue(["voice_claimed"] as any);
+    jest.spyOn(Message, "aggregate").mockResolvedValue(streams);
+    jest.spyOn(Session, "find").mockReturnValue({
+      select: () => ({ sort: () => ({ lean: () => Promise.resolve(legacySessions) }) }),
+    } as any);
+    updateOne = jest.spyOn(Session, "updateOne").mockResolvedValue({} as any);
+    create = jest.spyOn(Session, "create").mockResolvedValue({} as any);
+    syncIndexes = jest.spyOn(Session, "syncIndexes").mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should match legacy sessions to their message streams and create sessions for orphans", async () => {
+    const result = await backfillSessionIds();
+
+    expect(result).toEqual({ matched: 2, ended: 1, created: 1, legacy: 1 });
+
+    const updates = updateOne.mock.calls.map(([filter, update]) => [filter._id, update.$set]);
+    expect(updates).toEqual([
+      [
+        legacySessions[0]._id,
+        {
+          sessionId: "voice_a1",
+          status: "ended",
+          endTime: streams[0].lastAt,
+          duration: streams[0].lastAt.getTime() - legacySessions[0].startTime.getTime(),
+        },
+      ],
+      [legacySessions[1]._id, { sessionId: "voice_a2" }],
+      [legacySessions[2]._id, { sessionId: `legacy_${legacySessions[2]._id}` }],
+    ]);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: "voice_orphan", userId: bob.toString(), status: "ended" })
+    );
+    expect(syncIndexes).toHaveBeenCalled();
+  });
+
+  test("should only count changes on a dry run", async () => {
+    const result = await backfillSessionIds(true);
+
+    expect(result).toEqual({ matched: 2, ended: 1, created: 1, legacy: 1 });
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+    expect(syncIndexes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Message } from "../../src/models/schemas/Message";
+import { User } from "../../src/models/schemas/User";
+import { AudioRecordingService, SessionRecorder } from "../../src/services/audioRecordingService";
+import { LocalAudioStorage } from "../../src/services/audioStorage";
+import { encodeWav, parseByteRange, pcmDurationMs } from "../../src/utils/audio";
+
+describe("Audio recording", () => {
+  const chunk = (fill: number, bytes = 4800) => Buffer.alloc(bytes, fill);
+
+  describe("encodeWav", () => {
+    test("should write a 24kHz mono 16-bit header", () => {
+      const wav = encodeWav(Buffer.alloc(48000));
+
+      expect(wav.length).toBe(44 + 48000);
+      expect(wav.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(wav.toString("ascii", 8, 12)).toBe("WAVE");
+      expect(wav.readUInt16LE(22)).toBe(1);
+      expect(wav.readUInt32LE(24)).toBe(24000);
+      expect(wav.readUInt16LE(34)).toBe(16);
+      expect(wav.readUInt32LE(40)).toBe(48000);
+      expect(pcmDurationMs(48000)).toBe(1000);
+    });
+  });
+
+  describe("parseByteRange", () => {
+    test("should handle open, closed and suffix ranges", () => {
+      expect(parseByteRange(undefined, 1000)).toBeNull();
+      expect(parseByteRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+      expect(parseByteRange("bytes=900-", 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseByteRange("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseByteRange("bytes=500-5000", 1000)).toEqual({ start: 500, end: 999 });
+      expect(parseByteRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+      expect(parseByteRange("bytes=0-1,5-9", 1000)).toBeNull();
+    });
+  });
+
+  describe("SessionRecorder", () => {
+    test("should cut user turns at speech boundaries with a short lead-in", () => {
+      const recorder = new SessionRecorder(10 * 48000, 4800);
+
+      recorder.appendInput(chunk(1));
+      recorder.appendInput(chunk(2)); // silence before speech: only the latest chunk is kept
+      recorder.startUserTurn();
+      recorder.appendInput(chunk(3));
+      recorder.endUserTurn();
+      recorder.appendInput(chunk(4)); // next lead-in, not part of the turn
+
+      const turn = recorder.takeUserTurn();
+      expect(turn?.length).toBe(9600);
+      expect(turn?.[0]).toBe(2);
+      expect(turn?.[turn.length - 1]).toBe(3);
+      expect(recorder.takeUserTurn()).toBeNull();
+    });
+
+    test("should release assistant audio once both the audio and the message are done", () => {
+      const recorder = new SessionRecorder();
+
+      recorder.appendOutput("resp_1", chunk(5));
+      expect(recorder.attachAssistantMessage("resp_1", "msg_1")).toBeNull();
+      recorder.appendOutput("resp_1", chunk(6));
+
+      const completed = recorder.endOutput("resp_1");
+      expect(completed?.messageId).toBe("msg_1");
+      expect(completed?.pcm.length).toBe(9600);
+
+      recorder.appendOutput("resp_2", chunk(7));
+      expect(recorder.endOutput("resp_2")).toBeNull();
+      expect(recorder.attachAssistantMessage("resp_2", "msg_2")?.pcm.length).toBe(4800);
+    });
+  });
+
+  describe("LocalAudioStorage", () => {
+    let root: string;
+    let storage: LocalAudioStorage;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "ava-audio-"));
+      storage = new LocalAudioStorage(root);
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test("should save, stat, read a byte range and delete", async () => {
+      await storage.save("user/session/message.wav", Buffer.from("0123456789"), "audio/wav");
+
+      expect(await storage.stat("user/session/message.wav")).toEqual({ size: 10 });
+
+      const parts: Buffer[] = [];
+      for await (const part of storage.createReadStream("user/session/message.wav", { start: 2, end: 5 })) {
+        parts.push(part as Buffer);
+      }
+      expect(Buffer.concat(parts).toString()).toBe("2345");
+
+      await storage.delete("user/session/message.wav");
+      expect(await storage.stat("user/session/message.wav")).toBeNull();
+    });
+
+    test("should reject keys outside the storage root", async () => {
+      await expect(storage.save("../escape.wav", Buffer.alloc(1), "audio/wav")).rejects.toThrow(
+        "Invalid audio storage key"
+      );
+    });
+  });
+
+  describe("AudioRecordingService", () => {
+    let root: string;
+    let storage: LocalAudioStorage;
+    let service: AudioRecordingService;
+
+    const consent = (enabled: boolean) =>
+      jest.spyOn(User, "findById").mockReturnValue({
+        select: () => Promise.resolve({ preferences: { audioRecording: { enabled } } }),
+      } as any);
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "ava-audio-"));
+      storage = new LocalAudioStorage(root);
+      service = new AudioRecordingService(storage);
+      jest.spyOn(Message, "updateOne").mockResolvedValue({} as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test("should stop storing turns once consent is withdrawn mid-session", async () => {
+      const userId = "64b000000000000000000001";
+      const turn = { userId, sessionId: "session-1", pcm: chunk(1) };
+
+      consent(true);
+      expect(await service.storeMessageAudio({ ...turn, messageId: "msg_1" })).toBe(
+        "/api/sessions/session-1/messages/msg_1/audio"
+      );
+
+      consent(false);
+      expect(await service.storeMessageAudio({ ...turn, messageId: "msg_2" })).toBeNull();
+      expect(await storage.stat(`${userId}/session-1/msg_2.wav`)).toBeNull();
+      expect(Message.updateOne).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { Types } from "mongoose";
+import { FakePaymentProvider, FAKE_SIGNATURE_HEADER } from "../../src/services/fakePaymentProvider";
+import { BillingService } from "../../src/services/billingService";
+import { userSubscriptionService } from "../../src/services/userSubscriptionService";
+import { PaymentEventRecord } from "../../src/models/schemas/PaymentEventRecord";
+import { UserSubscription } from "../../src/models/schemas/UserSubscription";
+
+const checkoutParams = (userId: string) => ({
+  userId,
+  planId: new Types.ObjectId().toString(),
+  planName: "Plus",
+  interval: "month" as const,
+  amount: 999,
+  currency: "usd",
+  trialDays: 7,
+  successUrl: "http://localhost:3000/billing/success",
+  cancelUrl: "http://localhost:3000/billing/cancel",
+});
+
+describe("FakePaymentProvider webhooks", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should verify the events it signs", async () => {
+    const provider = new FakePaymentProvider("secret");
+    const checkout = await provider.createCheckoutSession(checkoutParams("user-1"));
+
+    const delivery = provider.simulateCheckoutCompleted(checkout.id, "user-1");
+    const event = provider.verifyWebhook(Buffer.from(delivery.rawBody), delivery.headers);
+
+    expect(event).toMatchObject({ type: "checkout.completed", userId: "user-1", customerId: checkout.customerId, interval: "month" });
+    expect(event.trialEnd!.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+    expect(event.subscriptionId).toMatch(/^sub_fake_/);
+    expect(() => provider.simulateCheckoutCompleted(checkout.id)).toThrow("already completed");
+  });
+
+  test("should reject tampered, foreign and stale deliveries", () => {
+    jest.useFakeTimers({ now: new Date("2026-10-01T12:00:00.000Z") });
+    const provider = new FakePaymentProvider("secret", undefined, 300);
+    const delivery = provider.simulateRenewalFailed("sub_fake_1");
+
+    const tampered = delivery.rawBody.replace("invoice.payment_failed", "invoice.paid");
+    expect(() => provider.verifyWebhook(tampered, delivery.headers)).toThrow("Invalid webhook signature");
+    expect(() => new FakePaymentProvider("other").verifyWebhook(delivery.rawBody, delivery.headers)).toThrow(
+      "Invalid webhook signature"
+    );
+    expect(() => provider.verifyWebhook(delivery.rawBody, {})).toThrow("Invalid webhook signature");
+
+    jest.setSystemTime(new Date("2026-10-01T12:06:00.000Z"));
+    expect(() => provider.verifyWebhook(delivery.rawBody, delivery.headers)).toThrow("tolerance");
+    expect(delivery.headers[FAKE_SIGNATURE_HEADER]).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+  });
+
+  test("should refuse to run without a webhook secret or in production", () => {
+    const nodeEnv = process.env.NODE_ENV;
+    delete process.env.PAYMENT_WEBHOOK_SECRET;
+
+    expect(() => new FakePaymentProvider()).toThrow("PAYMENT_WEBHOOK_SECRET is not set");
+
+    process.env.NODE_ENV = "production";
+    try {
+      expect(() => new FakePaymentProvider("secret")).toThrow("cannot be used in production");
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
+
+describe("BillingService without a payment provider", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should report billing unavailable instead of throwing at startup", async () => {
+    const createProvider = jest.fn(() => {
+      throw new Error("PAYMENT_WEBHOOK_SECRET is not set");
+    });
+    const billing = new BillingService(createProvider);
+
+    expect(billing.isAvailable()).toBe(false);
+    expect(billing.isAvailable()).toBe(false);
+    expect(createProvider).toHaveBeenCalledTimes(1);
+    await expect(billing.handleWebhook("{}", {})).rejects.toThrow("Billing is unavailable");
+  });
+});
+
+describe("BillingService webhook processing", () => {
+  const userId = new Types.ObjectId().toString();
+  let provider: FakePaymentProvider;
+  let billing: BillingService;
+  let processed: Set<string>;
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider("secret");
+    billing = new BillingService(() => provider);
+    processed = new Set();
+
+    // Stand-in for the unique (provider, eventId) index
+    jest.spyOn(PaymentEventRecord, "create").mockImplementation((async (doc: any) => {
+      if (processed.has(doc.eventId)) {
+        throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+      }
+      processed.add(doc.eventId);
+      return { ...doc, save: jest.fn().mockResolvedValue(undefined) };
+    }) as any);
+    jest.spyOn(PaymentEventRecord, "findOneAndUpdate").mockResolvedValue(null as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should activate a subscription once per checkout event", async () => {
+    jest.spyOn(userSubscriptionService, "getCurrentSubscription").mockResolvedValue(null);
+    const start = jest.spyOn(userSubscriptionService, "startPaidSubscription").mockResolvedValue({} as any);
+    const checkout = await provider.createCheckoutSession(checkoutParams(userId));
+    const delivery = provider.simulateCheckoutCompleted(checkout.id);
+
+    const first = await billing.handleWebhook(delivery.rawBody, delivery.headers);
+    const retry = await billing.handleWebhook(delivery.rawBody, delivery.headers);
+
+    expect(first.status).toBe("processed");
+    expect(retry.status).toBe("duplicate");
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(start).toHaveBeenCalledWith(
+      userId,
+      delivery.event.planId,
+      { provider: "fake", customerId: checkout.customerId, subscriptionId: delivery.event.subscriptionId },
+      { interval: "month", trialEnd: expect.any(Date) }
+    );
+  });
+
+  test("should stop the replaced provider subscription renewing on a plan change", async () => {
+    const current = new UserSubscription({
+      userId: new Types.ObjectId(userId),
+      planId: new Types.ObjectId(),
+      status: "past_due",
+      startedAt: new Date(),
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: new Date(),
+      billing: { provider: "fake", subscriptionId: "sub_fake_old" },
+      events: [],
+    });
+    jest.spyOn(userSubscriptionService, "getCurrentSubscription").mockResolvedValue(current);
+    const start = jest.spyOn(userSubscriptionService, "startPaidSubscription").mockResolvedValue({} as any);
+    const cancel = jest.spyOn(provider, "cancelSubscription").mockRejectedValueOnce(new Error("Provider down"));
+
+    const checkout = await provider.createCheckoutSession(checkoutParams(userId));
+    const delivery = provider.simulateCheckoutCompleted(checkout.id);
+
+    // Not replaced until the old subscription is stopped; the provider retries the event
+    await expect(billing.handleWebhook(delivery.rawBody, delivery.headers)).rejects.toThrow("Provider down");
+    expect(start).not.toHaveBeenCalled();
+
+    jest.spyOn(PaymentEventRecord, "findOneAndUpdate").mockResolvedValue({ save: jest.fn() } as any);
+    expect((await billing.handleWebhook(delivery.rawBody, delivery.headers)).status).toBe("processed");
+    expect(cancel).toHaveBeenLastCalledWith("sub_fake_old");
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(start.mock.calls[0][2].subscriptionId).toBe(delivery.event.subscriptionId);
+  });
+
+  test("should mark the current subscription past due when a renewal fails", async () => {
+    const subscription = new UserSubscription({
+      userId: new Types.ObjectId(userId),
+      planId: new Types.ObjectId(),
+      status: "active",
+      startedAt: new Date(),
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: new Date(Date.now() + 86400000),
+      billing: { provider: "fake", subscriptionId: "sub_fake_1" },
+      events: [],
+    });
+    jest.spyOn(userSubscriptionService, "findByBillingSubscription").mockResolvedValue(subscription);
+    jest.spyOn(userSubscriptionService, "getCurrentSubscription").mockResolvedValue(subscription);
+    const markPastDue = jest.spyOn(userSubscriptionService, "markPastDue").mockResolvedValue(subscription);
+
+    const delivery = provider.simulateRenewalFailed("sub_fake_1");
+    const result = await billing.handleWebhook(delivery.rawBody, delivery.headers);
+
+    expect(result.status).toBe("processed");
+    expect(markPastDue).toHaveBeenCalledWith(userId, expect.stringContaining(delivery.event.id));
+
+    const unknown = provider.simulateRenewalFailed("sub_fake_unknown");
+    jest.spyOn(userSubscriptionService, "findByBillingSubscription").mockResolvedValue(null);
+    expect((await billing.handleWebhook(unknown.rawBody, unknown.headers)).status).toBe("ignored");
+  });
+});
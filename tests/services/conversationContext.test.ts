@@ -0,0 +1,90 @@
+import { ConversationContextService } from "../../src/services/conversationContextService";
+import { ConversationContext } from "../../src/types";
+
+describe("ConversationContextService", () => {
+  const baseContext = (overrides: Partial<ConversationContext> = {}): ConversationContext => ({
+    userId: "user-1",
+    sessionId: "voice_current",
+    conversationHistory: [],
+    ...overrides,
+  });
+
+  describe("formatMemory", () => {
+    test("should return empty memory for a first-time user", () => {
+      const service = new ConversationContextService();
+      const memory = service.formatMemory(
+        baseContext({ userProfile: { preferences: {}, crisisHistory: false, supportLevel: "basic" } })
+      );
+
+      expect(memory).toBe("");
+    });
+
+    test("should include profile, previous sessions and recent exchanges", () => {
+      const service = new ConversationContextService();
+      const memory = service.formatMemory(
+        baseContext({
+          userProfile: { name: "Sam", preferences: {}, crisisHistory: true, supportLevel: "intensive" },
+          previousSessions: [
+            {
+              sessionId: "voice_1",
+              startTime: new Date("2026-10-12T09:00:00Z"),
+              duration: 540,
+              topEmotions: ["anxious", "hopeful"],
+              crisisDetected: false,
+            },
+          ],
+          conversationHistory: [
+            { role: "user", content: "Work has been really stressful", timestamp: new Date() },
+            { role: "assistant", content: "That sounds exhausting.", timestamp: new Date() },
+          ],
+        })
+      );
+
+      expect(memory).toContain("Name: Sam");
+      expect(memory).toContain("Support level: intensive");
+      expect(memory).toContain("crisis moments before");
+      expect(memory).toContain("2026-10-12; 9 min; mood: anxious, hopeful");
+      expect(memory).toContain("User: Work has been really stressful");
+      expect(memory).toContain("AVA: That sounds exhausting.");
+    });
+
+    test("should drop the oldest exchanges to stay within the budget", () => {
+      const service = new ConversationContextService({ maxTotalChars: 300, maxMessageChars: 60 });
+      const history = Array.from({ length: 10 }, (_, i) => ({
+        role: "user" as const,
+        content: `message number ${i} ${"x".repeat(40)}`,
+        timestamp: new Date(),
+      }));
+
+      const memory = service.formatMemory(baseContext({ conversationHistory: history }));
+
+      expect(memory.length).toBeLessThanOrEqual(300);
+      expect(memory).toContain("message number 9");
+      expect(memory).not.toContain("message number 0");
+    });
+
+    test("should keep the current session's turns after earlier sessions are trimmed", () => {
+      const service = new ConversationContextService({ maxTotalChars: 300, maxMessageChars: 60 });
+      const history = Array.from({ length: 6 }, (_, i) => ({
+        role: "user" as const,
+        content: `older session ${i} ${"x".repeat(40)}`,
+        timestamp: new Date(),
+      }));
+
+      const memory = service.formatMemory(
+        baseContext({
+          conversationHistory: history,
+          sessionHistory: [
+            { role: "user", content: "I'm on the bus so typing now", timestamp: new Date() },
+            { role: "assistant", content: "No problem, we can keep going here.", timestamp: new Date() },
+          ],
+        })
+      );
+
+      expect(memory.length).toBeLessThanOrEqual(300);
+      expect(memory).toContain("Earlier in this conversation");
+      expect(memory).toContain("User: I'm on the bus so typing now");
+      expect(memory).not.toContain("older session 0");
+    });
+  });
+});
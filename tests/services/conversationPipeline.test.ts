@@ -0,0 +1,32 @@
+import { Types } from "mongoose";
+import { Session } from "../../src/models/schemas/Session";
+import { ConversationPipelineService } from "../../src/services/conversationPipelineService";
+
+describe("ConversationPipelineService.isSessionIdAvailable", () => {
+  const service = new ConversationPipelineService();
+  const userId = new Types.ObjectId().toString();
+
+  const stubSession = (lookup: Promise<unknown>) =>
+    jest.spyOn(Session, "findOne").mockReturnValue({ select: () => lookup } as any);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should allow new ids and the user's own sessions only", async () => {
+    stubSession(Promise.resolve(null));
+    expect(await service.isSessionIdAvailable("voice_new", userId)).toBe(true);
+
+    stubSession(Promise.resolve({ userId: new Types.ObjectId(userId) }));
+    expect(await service.isSessionIdAvailable("voice_mine", userId)).toBe(true);
+
+    stubSession(Promise.resolve({ userId: new Types.ObjectId() }));
+    expect(await service.isSessionIdAvailable("voice_theirs", userId)).toBe(false);
+  });
+
+  test("should refuse the id when ownership can't be checked", async () => {
+    stubSession(Promise.reject(new Error("connection lost")));
+
+    expect(await service.isSessionIdAvailable("voice_unknown", userId)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { Types } from "mongoose";
+import { Coupon } from "../../src/models/schemas/Coupon";
+import { CouponService, applyCouponDiscount } from "../../src/services/couponService";
+
+describe("applyCouponDiscount", () => {
+  test("should round percent discounts and cap fixed ones at the price", () => {
+    expect(applyCouponDiscount({ discountType: "percent", percentOff: 25 }, 999)).toBe(250);
+    expect(applyCouponDiscount({ discountType: "percent", percentOff: 100 }, 9900)).toBe(9900);
+    expect(applyCouponDiscount({ discountType: "fixed", amountOff: 500 }, 999)).toBe(500);
+    expect(applyCouponDiscount({ discountType: "fixed", amountOff: 5000 }, 999)).toBe(999);
+  });
+});
+
+describe("CouponService.validateCoupon", () => {
+  const service = new CouponService();
+  const planId = new Types.ObjectId();
+
+  const stubCoupon = (fields: Record<string, unknown>) =>
+    jest.spyOn(Coupon, "findOne").mockResolvedValue(
+      new Coupon({ code: "SPRING25", discountType: "percent", percentOff: 25, timesRedeemed: 0, isActive: true, ...fields })
+    );
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should price a valid code case-insensitively", async () => {
+    const findOne = stubCoupon({ planIds: [planId] });
+
+    const discount = await service.validateCoupon(" spring25 ", planId.toString(), { amount: 9900, currency: "eur" });
+
+    expect(findOne).toHaveBeenCalledWith({ code: "SPRING25" });
+    expect(discount).toEqual({ code: "SPRING25", discountAmount: 2475, finalAmount: 7425 });
+  });
+
+  test("should reject expired, used up, other-plan and other-currency codes", async () => {
+    const price = { amount: 999, currency: "usd" };
+
+    stubCoupon({ expiresAt: new Date(Date.now() - 1000) });
+    await expect(service.validateCoupon("SPRING25", planId.toString(), price)).rejects.toThrow("expired");
+
+    stubCoupon({ maxRedemptions: 10, timesRedeemed: 10 });
+    await expect(service.validateCoupon("SPRING25", planId.toString(), price)).rejects.toThrow("fully redeemed");
+
+    stubCoupon({ planIds: [new Types.ObjectId()] });
+    await expect(service.validateCoupon("SPRING25", planId.toString(), price)).rejects.toThrow("this plan");
+
+    stubCoupon({ discountType: "fixed", percentOff: undefined, amountOff: 500, currency: "eur" });
+    await expect(service.validateCoupon("SPRING25", planId.toString(), price)).rejects.toThrow("in eur");
+  });
+});
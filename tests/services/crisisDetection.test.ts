@@ -39,6 +39,20 @@ describe("CrisisDetectionService", () => {
       expect(result.recommendedAction).toBe("ENHANCED_SUPPORT_RECOMMENDED");
     });
 
+    test("should need a second signal before everyday low words count", async () => {
+      const tired = await crisisService.detectCrisis("Work this week left me exhausted");
+
+      expect(tired.isCrisis).toBe(false);
+      expect(tired.severity).toBe("low");
+      expect(tired.keywords).toEqual([]);
+
+      const combined = await crisisService.detectCrisis("I'm exhausted and numb, I feel like a burden");
+
+      expect(combined.isCrisis).toBe(true);
+      expect(combined.severity).toBe("medium");
+      expect(combined.keywords).toEqual(expect.arrayContaining(["exhausted", "numb", "burden"]));
+    });
+
     test("should not flag normal conversation as crisis", async () => {
       const text = "I had a good day today, went for a walk";
       const result = await crisisService.detectCrisis(text);
@@ -56,6 +70,32 @@ describe("CrisisDetectionService", () => {
       expect(result.severity).toBe("low");
       expect(result.keywords.length).toBe(0);
     });
+
+    test("should demote negated crisis phrases", async () => {
+      const text = "I would never hurt myself, I'm just tired";
+      const result = await crisisService.detectCrisis(text);
+
+      expect(result.isCrisis).toBe(false);
+      expect(result.severity).toBe("low");
+    });
+
+    test("should ignore figures of speech", async () => {
+      const text = "My band was killing it tonight, I'm dying to see the video";
+      const result = await crisisService.detectCrisis(text);
+
+      expect(result.isCrisis).toBe(false);
+      expect(result.keywords.length).toBe(0);
+    });
+
+    test("should match user-specific crisis keywords", async () => {
+      const text = "The dark cloud is back again";
+      const result = await crisisService.detectCrisis(text, {
+        customKeywords: ["dark cloud"],
+      });
+
+      expect(result.severity).toBe("high");
+      expect(result.keywords).toContain("dark cloud");
+    });
   });
 
   describe("getEmergencyResources", () => {
@@ -0,0 +1,197 @@
+import { Admin } from "../../src/models/schemas/Admin";
+import { CrisisEscalation } from "../../src/models/schemas/CrisisEscalation";
+import { Message } from "../../src/models/schemas/Message";
+import { SmsMessage } from "../../src/models/schemas/SmsMessage";
+import { User } from "../../src/models/schemas/User";
+import { CrisisEscalationService } from "../../src/services/crisisEscalationService";
+import {
+  CrisisNotification,
+  CrisisNotificationChannel,
+  EmailCrisisChannel,
+  SmsCrisisChannel,
+} from "../../src/services/crisisNotificationChannels";
+import { emailService } from "../../src/services/emailService";
+import { smsService } from "../../src/services/smsService";
+import { CrisisDetectionResult } from "../../src/types";
+
+class RecordingChannel implements CrisisNotificationChannel {
+  sent: Array<{ recipient: string; notification: CrisisNotification }> = [];
+
+  constructor(readonly name: string, private failFor: string[] = []) {}
+
+  async send(recipient: string, notification: CrisisNotification) {
+    if (this.failFor.includes(recipient)) throw new Error("Gateway down");
+    this.sent.push({ recipient, notification });
+    return { delivered: true };
+  }
+}
+
+const detection = (
+  severity: CrisisDetectionResult["severity"],
+  keywords: string[] = ["end it"]
+): CrisisDetectionResult => ({
+  isCrisis: true,
+  severity,
+  keywords,
+  confidence: 0.9,
+  recommendedAction: "escalate",
+});
+
+describe("CrisisEscalationService", () => {
+  let service: CrisisEscalationService;
+  let sms: RecordingChannel;
+  let email: RecordingChannel;
+  let user: InstanceType<typeof User>;
+
+  beforeEach(() => {
+    service = new CrisisEscalationService();
+    sms = new RecordingChannel("sms", ["+14155550199"]);
+    email = new RecordingChannel("email");
+    service.registerChannel(sms);
+    service.registerChannel(email);
+
+    user = new User({
+      email: "sam@example.com",
+      name: "Sam",
+      emailVerified: true,
+      preferences: {
+        emergencyContacts: [
+          { name: "Alex", phone: "+14155550123", relationship: "partner", consentGiven: true },
+          { name: "Jo", phone: "+14155550188", relationship: "friend", consentGiven: false },
+          { name: "Kim", phone: "+14155550199", relationship: "sibling", consentGiven: true },
+        ],
+      },
+    });
+    jest.spyOn(User, "findById").mockResolvedValue(user);
+    jest.spyOn(user, "save").mockResolvedValue(user);
+    jest.spyOn(Message, "updateOne").mockResolvedValue({} as any);
+    jest.spyOn(Admin, "find").mockReturnValue({
+      select: () => Promise.resolve([{ email: "oncall@example.com" }]),
+    } as any);
+    jest.spyOn(CrisisEscalation.prototype, "save").mockImplementation(function (this: any) {
+      return Promise.resolve(this);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.CRISIS_ALERT_EMAIL;
+  });
+
+  test("should only escalate high and critical detections", async () => {
+    const findOne = jest.spyOn(CrisisEscalation, "findOne");
+
+    const medium = await service.escalate({
+      userId: user._id.toString(),
+      sessionId: "s1",
+      detection: detection("medium"),
+    });
+
+    expect(medium).toBeNull();
+    expect(findOne).not.toHaveBeenCalled();
+    expect(service.shouldEscalate(detection("high"))).toBe(true);
+  });
+
+  test("should notify consenting contacts and admins and record every step", async () => {
+    jest.spyOn(CrisisEscalation, "findOne").mockResolvedValue(null);
+    process.env.CRISIS_ALERT_EMAIL = "crisis-desk@example.com";
+
+    const escalation = await service.escalate({
+      userId: user._id.toString(),
+      sessionId: "s1",
+      messageId: "64b7f0c2a1b2c3d4e5f60001",
+      detection: detection("high"),
+    });
+
+    // Jo never consented; Kim's message failed
+    expect(sms.sent.map((s) => s.recipient)).toEqual(["+14155550123"]);
+    expect(sms.sent[0].notification).toMatchObject({ audience: "emergency_contact", recipientName: "Alex" });
+    expect(email.sent.map((s) => s.recipient)).toEqual(["oncall@example.com", "crisis-desk@example.com"]);
+    expect(email.sent[0].notification.audience).toBe("admin");
+
+    expect(escalation!.steps.map((s) => [s.type, s.recipient])).toEqual([
+      ["detected", undefined],
+      ["contact_notified", "********0123"],
+      ["notification_failed", "********0199"],
+      ["admin_alerted", "oncall@example.com"],
+      ["admin_alerted", "crisis-desk@example.com"],
+    ]);
+    expect(user.crisisHistory).toBe(true);
+    expect(Message.updateOne).toHaveBeenCalledWith(
+      { _id: "64b7f0c2a1b2c3d4e5f60001" },
+      { $set: expect.objectContaining({ "crisisIndicators.escalated": true }) }
+    );
+  });
+
+  test("should skip emergency contacts when the user turned crisis alerts off", async () => {
+    jest.spyOn(CrisisEscalation, "findOne").mockResolvedValue(null);
+    user.preferences.notificationSettings = { crisisAlerts: false, dailyCheckins: false, wellnessReminders: true };
+
+    await service.escalate({ userId: user._id.toString(), sessionId: "s1", detection: detection("critical") });
+
+    expect(sms.sent).toHaveLength(0);
+    expect(email.sent).toHaveLength(1);
+  });
+
+  test("should fold repeat detections into the open case and re-notify only when severity rises", async () => {
+    const open = new CrisisEscalation({
+      userId: user._id.toString(),
+      sessionId: "s1",
+      severity: "high",
+      keywords: ["end it"],
+      confidence: 0.7,
+      steps: [{ type: "detected", createdAt: new Date() }],
+    });
+    jest.spyOn(CrisisEscalation, "findOne").mockResolvedValue(open);
+
+    const userId = user._id.toString();
+    await service.escalate({ userId, sessionId: "s1", detection: detection("high", ["no way out"]) });
+    expect(open.severity).toBe("high");
+    expect(open.keywords).toEqual(["end it", "no way out"]);
+    expect(open.confidence).toBe(0.9);
+    expect(sms.sent).toHaveLength(0);
+    expect(email.sent).toHaveLength(0);
+
+    await service.escalate({ userId, sessionId: "s1", detection: detection("critical") });
+    expect(open.severity).toBe("critical");
+    expect(sms.sent).toHaveLength(1);
+    expect(email.sent).toHaveLength(1);
+    expect(open.steps.filter((s) => s.type === "repeat_detection")).toHaveLength(2);
+  });
+});
+
+describe("Crisis notification channels", () => {
+  const notification: CrisisNotification = {
+    escalationId: "esc-1",
+    severity: "critical",
+    keywords: ["end it"],
+    userId: "user-1",
+    userName: "Sam",
+    detectedAt: new Date(),
+    audience: "emergency_contact",
+    recipientName: "Alex",
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should never show emergency contacts the matched keywords", async () => {
+    const sendAlert = jest.spyOn(emailService, "sendCrisisAlert").mockResolvedValue(undefined as any);
+    await new EmailCrisisChannel().send("alex@example.com", notification);
+    expect(sendAlert.mock.calls[0][0].keywords).toEqual([]);
+
+    await new EmailCrisisChannel().send("oncall@example.com", { ...notification, audience: "admin" });
+    expect(sendAlert.mock.calls[1][0].keywords).toEqual(["end it"]);
+
+    const sendSms = jest
+      .spyOn(smsService, "send")
+      .mockResolvedValue(new SmsMessage({ status: "sent", to: "+14155550123", template: "crisis_alert" }));
+    const result = await new SmsCrisisChannel().send("+14155550123", notification);
+
+    expect(sendSms).toHaveBeenCalledWith("+14155550123", "crisis_alert", { who: "Sam", greeting: "Hi Alex, " }, {
+      userId: "user-1",
+    });
+    expect(result.delivered).toBe(true);
+  });
+});
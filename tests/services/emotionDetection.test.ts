@@ -53,5 +53,13 @@ describe("EmotionDetectionService", () => {
       expect(result.primary).toBe("calm");
       expect(result.emotions).toBeDefined();
     });
+
+    test("should flip negated emotions towards their opposite", async () => {
+      const text = "I'm not happy at all";
+      const result = await emotionService.analyzeEmotion(text);
+
+      expect(result.primary).toBe("sad");
+      expect(result.emotions.happy).toBe(0);
+    });
   });
 });
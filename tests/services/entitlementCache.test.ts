@@ -0,0 +1,55 @@
+import { EntitlementCache } from "../../src/services/entitlementCache";
+import { UserEntitlements } from "../../src/services/userSubscriptionService";
+
+describe("EntitlementCache", () => {
+  const entitlements = (planId: string, currentPeriodEnd: Date): UserEntitlements => ({
+    subscriptionId: "sub-1",
+    planId,
+    planName: "Plus",
+    status: "active",
+    currentPeriodEnd,
+    features: [{ id: "f1", name: "voice-sessions" }],
+    usageLimits: {},
+  });
+  const nextMonth = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should tell a miss apart from a cached user without a subscription", () => {
+    const cache = new EntitlementCache(60000);
+
+    expect(cache.get("u1")).toBeUndefined();
+    cache.set("u1", null);
+    expect(cache.get("u1")).toBeNull();
+  });
+
+  test("should expire entries after the TTL or at the end of the period", () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T00:00:00.000Z") });
+    const cache = new EntitlementCache(60000);
+
+    cache.set("u1", entitlements("p1", nextMonth()));
+    cache.set("u2", entitlements("p1", new Date(Date.now() + 10000)));
+
+    jest.advanceTimersByTime(10000);
+    expect(cache.get("u1")).not.toBeUndefined();
+    expect(cache.get("u2")).toBeUndefined();
+
+    jest.advanceTimersByTime(50000);
+    expect(cache.get("u1")).toBeUndefined();
+  });
+
+  test("should drop only the users on an invalidated plan", () => {
+    const cache = new EntitlementCache(60000);
+    cache.set("u1", entitlements("p1", nextMonth()));
+    cache.set("u2", entitlements("p2", nextMonth()));
+    cache.set("u3", null);
+
+    cache.invalidatePlan("p1");
+
+    expect(cache.get("u1")).toBeUndefined();
+    expect(cache.get("u2")?.planId).toBe("p2");
+    expect(cache.get("u3")).toBeNull();
+  });
+});
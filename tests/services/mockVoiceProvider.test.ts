@@ -0,0 +1,98 @@
+import { MockVoiceProvider, synthesizePlaceholderPcm, MOCK_SAMPLE_RATE } from "../../src/services/mockVoiceProvider";
+
+describe("MockVoiceProvider", () => {
+  const collect = (provider: MockVoiceProvider) => {
+    const events: Array<{ event: string; data?: any }> = [];
+    for (const event of [
+      "session-ready",
+      "response-started",
+      "speech-started",
+      "speech-stopped",
+      "user-transcript",
+      "transcript-delta",
+      "transcript-done",
+      "audio-delta",
+      "disconnected",
+    ]) {
+      provider.on(event as any, (data?: any) => events.push({ event, data }));
+    }
+    return events;
+  };
+
+  const waitFor = (provider: MockVoiceProvider, event: string) =>
+    new Promise<void>((resolve) => provider.once(event, () => resolve()));
+
+  describe("synthesizePlaceholderPcm", () => {
+    test("should produce 16-bit mono PCM of the requested length", () => {
+      const pcm = synthesizePlaceholderPcm(500);
+
+      expect(pcm.length).toBe(MOCK_SAMPLE_RATE * 0.5 * 2);
+      expect(synthesizePlaceholderPcm(500).equals(pcm)).toBe(true);
+    });
+  });
+
+  test("should echo text input as transcript deltas and audio", async () => {
+    const provider = new MockVoiceProvider({ mode: "echo" });
+    const events = collect(provider);
+
+    await provider.connect("voice_test", "user-1");
+    provider.sendTextInput("hello there");
+    await waitFor(provider, "transcript-done");
+
+    const text = events
+      .filter((e) => e.event === "transcript-delta")
+      .map((e) => e.data.delta)
+      .join("");
+    expect(text).toBe("You said: hello there");
+
+    const audio = events.filter((e) => e.event === "audio-delta");
+    expect(audio[0].data.response_id).toBe("mock_resp_1");
+    expect(audio[audio.length - 1].data).toMatchObject({ delta: null, type: "response.audio.done" });
+    expect(events.some((e) => e.event === "user-transcript")).toBe(false);
+
+    provider.disconnect();
+  });
+
+  test("should turn buffered audio into a scripted user transcript and reply", async () => {
+    const provider = new MockVoiceProvider({
+      mode: "scripted",
+      script: ["First reply.", "Second reply."],
+      userTranscripts: ["I feel anxious today"],
+      utteranceSilenceMs: 0,
+    });
+    const events = collect(provider);
+
+    await provider.connect("voice_test", "user-1");
+    provider.sendAudio(synthesizePlaceholderPcm(100).toString("base64"));
+    provider.sendAudio(synthesizePlaceholderPcm(100));
+    await waitFor(provider, "transcript-done");
+
+    const names = events.map((e) => e.event);
+    expect(names.filter((n) => n === "speech-started")).toHaveLength(1);
+    expect(names.indexOf("speech-stopped")).toBeLessThan(names.indexOf("user-transcript"));
+    expect(events.find((e) => e.event === "user-transcript")?.data.transcript).toBe("I feel anxious today");
+    expect(
+      events.filter((e) => e.event === "transcript-delta").map((e) => e.data.delta).join("")
+    ).toBe("First reply.");
+
+    provider.disconnect();
+  });
+
+  test("should stop emitting after disconnect", async () => {
+    const provider = new MockVoiceProvider({ responseDelayMs: 5 });
+    const events = collect(provider);
+
+    await provider.connect("voice_test", "user-1");
+    provider.sendTextInput("are you there?");
+    provider.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(events.map((e) => e.event)).toEqual(["disconnected"]);
+  });
+
+  test("should reject connect when configured to fail", async () => {
+    const provider = new MockVoiceProvider({ failConnect: true });
+
+    await expect(provider.connect("voice_test", "user-1")).rejects.toThrow("connection refused");
+  });
+});
@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import jwt from "jsonwebtoken";
+import { User } from "../../src/models/schemas/User";
+import { AuthService } from "../../src/services/authService";
+import { OidcService } from "../../src/services/oidcService";
+import { refreshTokenService } from "../../src/services/refreshTokenService";
+
+describe("Sign in with Google / Apple", () => {
+  const clientId = "ava-ios.apps.googleusercontent.com";
+  const jwksFile = path.join(os.tmpdir(), `ava-oidc-jwks-${process.pid}.json`);
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const impostor = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+  const idToken = (claims: Record<string, unknown> = {}, options: jwt.SignOptions = {}, key = privateKey) =>
+    jwt.sign({ email: "sam@example.com", email_verified: true, ...claims }, key, {
+      algorithm: "RS256",
+      keyid: "fixture-key",
+      issuer: "https://accounts.google.com",
+      audience: clientId,
+      subject: "google-sub-1",
+      expiresIn: 300,
+      ...options,
+    });
+
+  const oidc = new OidcService();
+  const auth = new AuthService();
+
+  beforeAll(() => {
+    // Local JWKS fixture in place of Google's published keys
+    const jwk = publicKey.export({ format: "jwk" });
+    fs.writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...jwk, kid: "fixture-key", use: "sig", alg: "RS256" }] }));
+    process.env.GOOGLE_CLIENT_IDS = `web-client-id, ${clientId}`;
+    process.env.GOOGLE_JWKS_FILE = jwksFile;
+  });
+
+  afterAll(() => {
+    fs.rmSync(jwksFile, { force: true });
+    delete process.env.GOOGLE_CLIENT_IDS;
+    delete process.env.GOOGLE_JWKS_FILE;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should verify ID tokens against the configured JWKS", async () => {
+    const nonce = "n-0S6_WzA2Mj";
+    const hashedNonce = crypto.createHash("sha256").update(nonce).digest("hex");
+
+    await expect(oidc.verifyIdToken("google", idToken({ nonce: hashedNonce }), nonce)).resolves.toEqual({
+      provider: "google",
+      subject: "google-sub-1",
+      email: "sam@example.com",
+      emailVerified: true,
+      name: undefined,
+    });
+    expect(oidc.enabledProviders()).toEqual(["google"]);
+
+    const rejected = [
+      idToken({}, { audience: "someone-elses-app" }),
+      idToken({}, { issuer: "https://evil.example.com" }),
+      idToken({}, { expiresIn: -10 }),
+      idToken({}, {}, impostor.privateKey),
+      idToken({}, { keyid: "unknown-key" }),
+    ];
+    for (const token of rejected) {
+      await expect(oidc.verifyIdToken("google", token)).rejects.toThrow("Invalid ID token");
+    }
+    await expect(oidc.verifyIdToken("google", idToken({ nonce: "other" }), nonce)).rejects.toThrow("Invalid ID token");
+    await expect(oidc.verifyIdToken("apple", idToken())).rejects.toThrow("Sign-in with apple is not available");
+  });
+
+  test("should not accept a nonce-bound token without its nonce, nor an Apple token without one", async () => {
+    const nonce = "n-0S6_WzA2Mj";
+
+    // Replaying a captured token without the nonce it was issued for
+    await expect(oidc.verifyIdToken("google", idToken({ nonce }))).rejects.toThrow("Invalid ID token");
+
+    process.env.APPLE_CLIENT_IDS = clientId;
+    process.env.APPLE_JWKS_FILE = jwksFile;
+    try {
+      const appleToken = (claims: Record<string, unknown> = {}) =>
+        idToken(claims, { issuer: "https://appleid.apple.com", subject: "apple-sub-1" });
+
+      await expect(oidc.verifyIdToken("apple", appleToken())).rejects.toThrow("Invalid ID token");
+      await expect(oidc.verifyIdToken("apple", appleToken({ nonce }), nonce)).resolves.toMatchObject({
+        provider: "apple",
+        subject: "apple-sub-1",
+      });
+    } finally {
+      delete process.env.APPLE_CLIENT_IDS;
+      delete process.env.APPLE_JWKS_FILE;
+    }
+  });
+
+  test("should link to the user with the same verified email and sign in with it afterwards", async () => {
+    const user = new User({ email: "sam@example.com", emailVerified: true, password: "hash" });
+    const findOne = jest.spyOn(User, "findOne").mockResolvedValueOnce(null).mockResolvedValueOnce(user);
+    jest.spyOn(user, "save").mockResolvedValue(user);
+    jest.spyOn(refreshTokenService, "startFamily").mockResolvedValue({ familyId: "family", tokenId: "token" });
+
+    const response = await auth.loginWithIdentity("google", idToken());
+    if ("twoFactorRequired" in response) throw new Error("expected tokens");
+
+    expect(response.user.id).toBe(user._id.toString());
+    expect(user.password).toBe("hash");
+    expect(user.identities).toMatchObject([{ provider: "google", subject: "google-sub-1", email: "sam@example.com" }]);
+    expect(findOne).toHaveBeenLastCalledWith({ email: "sam@example.com" });
+
+    // Next time the provider account itself finds the user
+    findOne.mockResolvedValueOnce(user);
+    await auth.loginWithIdentity("google", idToken());
+    expect(findOne).toHaveBeenLastCalledWith({
+      identities: { $elemMatch: { provider: "google", subject: "google-sub-1" } },
+    });
+    expect(user.identities).toHaveLength(1);
+    expect(user.identities[0].lastUsedAt).toBeInstanceOf(Date);
+
+    // An unverified provider email can't be linked or create an account
+    findOne.mockResolvedValue(null);
+    await expect(
+      auth.loginWithIdentity("google", idToken({ email_verified: false }, { subject: "google-sub-2" }))
+    ).rejects.toThrow("Your google account has no verified email address");
+  });
+
+  test("should take over an unverified local account by dropping its password", async () => {
+    const squatter = new User({ email: "sam@example.com", emailVerified: false, password: "attacker-hash" });
+    jest.spyOn(User, "findOne").mockResolvedValueOnce(null).mockResolvedValueOnce(squatter);
+    jest.spyOn(squatter, "save").mockResolvedValue(squatter);
+    jest.spyOn(refreshTokenService, "startFamily").mockResolvedValue({ familyId: "family", tokenId: "token" });
+
+    await auth.loginWithIdentity("google", idToken());
+
+    expect(squatter.password).toBeUndefined();
+    expect(squatter.emailVerified).toBe(true);
+  });
+
+  test("should not disconnect the only way to sign in", async () => {
+    const user = new User({
+      email: "sam@example.com",
+      emailVerified: true,
+      identities: [{ provider: "google", subject: "google-sub-1" }],
+    });
+    jest.spyOn(User, "findById").mockResolvedValue(user);
+    jest.spyOn(user, "save").mockResolvedValue(user);
+
+    await expect(oidc.disconnect(user._id.toString(), "google")).rejects.toThrow(
+      "Cannot disconnect the only way to sign in; set a password first"
+    );
+    await expect(oidc.disconnect(user._id.toString(), "apple")).rejects.toThrow("Connected identity not found");
+
+    user.password = "hash";
+    expect(await oidc.disconnect(user._id.toString(), "google")).toHaveLength(0);
+  });
+});
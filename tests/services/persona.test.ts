@@ -0,0 +1,117 @@
+import { Types } from "mongoose";
+import { Persona, IPersona } from "../../src/models/schemas/Persona";
+import { SubscriptionPlan } from "../../src/models/schemas/SubscriptionPlan";
+import { User } from "../../src/models/schemas/User";
+import { PersonaService } from "../../src/services/personaService";
+
+describe("PersonaService", () => {
+  const service = new PersonaService();
+  const admin = { adminId: "admin-1", email: "admin@example.com" };
+
+  const stubPersonas = (...personas: IPersona[]) => {
+    jest.spyOn(Persona, "findById").mockImplementation(((id: string) =>
+      Promise.resolve(personas.find((p) => p._id.toString() === id.toString()) || null)) as any);
+    jest.spyOn(Persona.prototype, "save").mockImplementation(function (this: any) {
+      return Promise.resolve(this);
+    });
+  };
+
+  const persona = (name: string, fields: Partial<IPersona> = {}) =>
+    new Persona({
+      name,
+      isActive: true,
+      versions: [
+        {
+          version: 1,
+          instructions: `${name} v1`,
+          voice: { name: "en-US-Ava:DragonHDLatestNeural", type: "azure-standard" },
+          createdBy: { adminId: admin.adminId, adminEmail: admin.email },
+        },
+      ],
+      publishHistory: [],
+      ...fields,
+    });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should number new versions and carry over what they don't change", async () => {
+    const calm = persona("Calm");
+    stubPersonas(calm);
+
+    await service.createVersion(calm._id.toString(), { voice: { temperature: 0.4 }, notes: "cooler" }, admin);
+    await service.createVersion(calm._id.toString(), { instructions: "Calm v3" }, admin);
+
+    expect(calm.versions.map((v) => v.version)).toEqual([1, 2, 3]);
+    expect(calm.versions[1]).toMatchObject({ instructions: "Calm v1", voice: { temperature: 0.4 } });
+    expect(calm.versions[2]).toMatchObject({ instructions: "Calm v3", voice: { temperature: 0.4 } });
+    expect(calm.publishedVersion).toBeUndefined();
+
+    await service.publishVersion(calm._id.toString(), 3, admin);
+    expect(calm.publishedVersion).toBe(3);
+    await expect(service.publishVersion(calm._id.toString(), 3, admin)).rejects.toThrow(
+      "Version 3 is already published"
+    );
+    await expect(service.publishVersion(calm._id.toString(), 9, admin)).rejects.toThrow("Persona version not found");
+  });
+
+  test("should roll back through earlier publishes but not past the first", async () => {
+    const calm = persona("Calm");
+    stubPersonas(calm);
+    const id = calm._id.toString();
+
+    await service.createVersion(id, { instructions: "Calm v2" }, admin);
+    await service.createVersion(id, { instructions: "Calm v3" }, admin);
+    await expect(service.rollback(id, admin)).rejects.toThrow("Persona has no published version to roll back");
+
+    await service.publishVersion(id, 1, admin);
+    await service.publishVersion(id, 2, admin);
+    await service.publishVersion(id, 3, admin);
+
+    await service.rollback(id, admin);
+    expect(calm.publishedVersion).toBe(2);
+    await service.rollback(id, admin);
+    expect(calm.publishedVersion).toBe(1);
+    await expect(service.rollback(id, admin)).rejects.toThrow("No previous version to roll back to");
+
+    expect(calm.publishHistory.map((e) => [e.action, e.version])).toEqual([
+      ["publish", 1],
+      ["publish", 2],
+      ["publish", 3],
+      ["rollback", 2],
+      ["rollback", 1],
+    ]);
+  });
+
+  test("should prefer the user's persona over the plan's and the default", async () => {
+    const chosen = persona("Chosen", { publishedVersion: 1 });
+    const forPlan = persona("Plan", { publishedVersion: 1 });
+    const fallback = persona("Default", { publishedVersion: 1, isDefault: true });
+    stubPersonas(chosen, forPlan);
+    const findDefault = jest.spyOn(Persona, "findOne").mockResolvedValue(fallback);
+    const planId = new Types.ObjectId().toString();
+    jest.spyOn(SubscriptionPlan, "findById").mockReturnValue({
+      select: () => Promise.resolve({ personaId: forPlan._id }),
+    } as any);
+
+    const user = (personaId?: string) =>
+      jest.spyOn(User, "findById").mockReturnValue({
+        select: () => Promise.resolve({ preferences: { personaId } }),
+      } as any);
+    const userId = new Types.ObjectId().toString();
+
+    user(chosen._id.toString());
+    expect((await service.resolveForUser(userId, planId))?.name).toBe("Chosen");
+
+    user(undefined);
+    expect((await service.resolveForUser(userId, planId))?.name).toBe("Plan");
+
+    // A chosen persona that was deactivated falls through to the default
+    chosen.isActive = false;
+    user(chosen._id.toString());
+    const resolved = await service.resolveForUser(userId);
+    expect(resolved).toMatchObject({ name: "Default", version: 1, settings: { instructions: "Default v1" } });
+    expect(findDefault).toHaveBeenCalledWith({ isDefault: true, isActive: true });
+  });
+});
@@ -0,0 +1,103 @@
+import { Types } from "mongoose";
+import { Feature } from "../../src/models/schemas/Feature";
+import { SubscriptionPlan } from "../../src/models/schemas/SubscriptionPlan";
+import { UserSubscription } from "../../src/models/schemas/UserSubscription";
+import { SubscriptionService } from "../../src/services/subscriptionService";
+
+describe("SubscriptionService archival", () => {
+  const service = new SubscriptionService();
+  const admin = { adminId: "admin-1", email: "ops@example.com" };
+  const userId = new Types.ObjectId();
+
+  const stubSubscribers = (plan: { _id: Types.ObjectId }, count: number) => {
+    jest
+      .spyOn(UserSubscription, "aggregate")
+      .mockResolvedValue(count > 0 ? [{ _id: plan._id, count }] : ([] as any));
+    jest.spyOn(UserSubscription, "find").mockReturnValue({
+      select: () => ({
+        sort: () => ({
+          limit: jest.fn().mockResolvedValue(
+            count > 0 ? [new UserSubscription({ userId, planId: plan._id, status: "past_due" })] : []
+          ),
+        }),
+      }),
+    } as any);
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should report subscribers on a dry run and refuse to archive while they exist", async () => {
+    const plan = new SubscriptionPlan({ name: "Premium", monthlyPrice: 20, isActive: true });
+    jest.spyOn(SubscriptionPlan, "findById").mockResolvedValue(plan);
+    const save = jest.spyOn(plan, "save").mockResolvedValue(plan);
+    stubSubscribers(plan, 3);
+
+    const report = await service.archiveSubscriptionPlan(plan._id.toString(), admin, true);
+
+    expect(report).toEqual({
+      dryRun: true,
+      impact: {
+        canArchive: false,
+        activeSubscribers: 3,
+        plans: [{ id: plan._id.toString(), name: "Premium", activeSubscribers: 3 }],
+        users: [{ userId: userId.toString(), planId: plan._id.toString(), status: "past_due" }],
+      },
+    });
+    await expect(service.archiveSubscriptionPlan(plan._id.toString(), admin)).rejects.toThrow(
+      "Cannot archive subscription plan. It has 3 active subscriber(s)"
+    );
+    expect(save).not.toHaveBeenCalled();
+    expect(plan.isActive).toBe(true);
+  });
+
+  test("should archive an unused plan and bring it back inactive", async () => {
+    const plan = new SubscriptionPlan({ name: "Legacy", monthlyPrice: 5, isActive: true, isRecommended: true });
+    jest.spyOn(SubscriptionPlan, "findById").mockResolvedValue(plan);
+    jest.spyOn(plan, "save").mockResolvedValue(plan);
+    stubSubscribers(plan, 0);
+
+    const result = await service.archiveSubscriptionPlan(plan._id.toString(), admin);
+
+    expect(result.target).toBe(plan);
+    expect(plan).toMatchObject({ isActive: false, isRecommended: false, archivedBy: { adminId: "admin-1", adminEmail: "ops@example.com" } });
+    expect(plan.archivedAt).toBeInstanceOf(Date);
+    await expect(service.updateSubscriptionPlan(plan._id.toString(), { isActive: true })).rejects.toThrow(
+      "Cannot change an archived plan"
+    );
+    await expect(service.archiveSubscriptionPlan(plan._id.toString(), admin)).rejects.toThrow("already archived");
+
+    await service.unarchiveSubscriptionPlan(plan._id.toString(), admin);
+
+    expect(plan.archivedAt).toBeUndefined();
+    expect(plan.isActive).toBe(false);
+    await expect(service.unarchiveSubscriptionPlan(plan._id.toString(), admin)).rejects.toThrow("not archived");
+  });
+
+  test("should only archive a feature once no subscriber's plan includes it", async () => {
+    const feature = new Feature({ name: "voice_sessions", isActive: true });
+    const plan = new SubscriptionPlan({ name: "Premium", monthlyPrice: 20, features: [feature._id] });
+    jest.spyOn(Feature, "findById").mockResolvedValue(feature);
+    jest.spyOn(feature, "save").mockResolvedValue(feature);
+    const findPlans = jest.spyOn(SubscriptionPlan, "find").mockResolvedValue([plan]);
+
+    stubSubscribers(plan, 1);
+    await expect(service.archiveFeature(feature._id.toString(), admin)).rejects.toThrow(
+      "1 active subscriber(s) have it through 1 plan(s)"
+    );
+    expect(findPlans).toHaveBeenCalledWith({ features: feature._id, archivedAt: { $exists: false } });
+
+    jest.restoreAllMocks();
+    jest.spyOn(Feature, "findById").mockResolvedValue(feature);
+    jest.spyOn(feature, "save").mockResolvedValue(feature);
+    jest.spyOn(SubscriptionPlan, "find").mockResolvedValue([plan]);
+    stubSubscribers(plan, 0);
+
+    const result = await service.archiveFeature(feature._id.toString(), admin);
+
+    expect(result.impact.plans).toEqual([{ id: plan._id.toString(), name: "Premium", activeSubscribers: 0 }]);
+    expect(feature.isActive).toBe(false);
+    expect(feature.archivedBy).toMatchObject({ adminEmail: "ops@example.com" });
+  });
+});
@@ -0,0 +1,88 @@
+import { Feature } from "../../src/models/schemas/Feature";
+import { SubscriptionPlan } from "../../src/models/schemas/SubscriptionPlan";
+import { PlanCatalogService, resolveLocaleChain } from "../../src/services/planCatalogService";
+
+describe("resolveLocaleChain", () => {
+  test("should fall back from region to base language to the default", () => {
+    expect(resolveLocaleChain(["pt_br", "de"])).toEqual(["pt-BR", "pt", "de", "en"]);
+    expect(resolveLocaleChain(["*", "EN-gb"])).toEqual(["en-GB", "en"]);
+    expect(resolveLocaleChain([])).toEqual(["en"]);
+  });
+});
+
+describe("PlanCatalogService.getCatalog", () => {
+  const service = new PlanCatalogService();
+
+  const voice = new Feature({
+    name: "voice_sessions",
+    displayName: "Voice sessions",
+    description: "Talk it through",
+    localizations: { de: { name: "Sprachsitzungen" } },
+    isActive: true,
+  });
+  const retired = new Feature({ name: "legacy_export", isActive: false });
+
+  const plans = [
+    new SubscriptionPlan({
+      name: "Premium",
+      description: "Everything",
+      localizations: { de: { name: "Premium DE", description: "Alles" } },
+      sortOrder: 1,
+      isRecommended: true,
+      monthlyPrice: 20,
+      features: [voice, retired],
+      prices: [
+        { interval: "month", currency: "eur", amount: 2000, isActive: true },
+        { interval: "month", currency: "eur", amount: 1500, isActive: false },
+      ],
+      isActive: true,
+    }),
+    new SubscriptionPlan({ name: "Basic", sortOrder: 1, monthlyPrice: 5, features: [voice], isActive: true }),
+    new SubscriptionPlan({ name: "Starter", sortOrder: 0, monthlyPrice: 50, features: [], isActive: true }),
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(SubscriptionPlan, "find").mockReturnValue({ populate: jest.fn().mockResolvedValue([...plans]) } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should order plans and expose only public, active data", async () => {
+    const catalog = await service.getCatalog();
+
+    expect(SubscriptionPlan.find).toHaveBeenCalledWith({ isActive: true });
+    expect(catalog.locale).toBe("en");
+    expect(catalog.plans.map((p) => p.name)).toEqual(["Starter", "Basic", "Premium"]);
+
+    const premium = catalog.plans[2];
+    expect(premium).toEqual({
+      id: plans[0]._id.toString(),
+      name: "Premium",
+      description: "Everything",
+      recommended: true,
+      monthlyPrice: 20,
+      trialDays: null,
+      prices: [{ id: expect.any(String), interval: "month", currency: "eur", amount: 2000 }],
+      usageLimits: {},
+      features: [{ id: voice._id.toString(), name: "Voice sessions", description: "Talk it through" }],
+    });
+  });
+
+  test("should localize text with fallbacks and change the ETag per locale", async () => {
+    const german = await service.getCatalog(["de-AT"]);
+    const english = await service.getCatalog(["en"]);
+
+    expect(german.locale).toBe("de");
+    expect(german.plans[2]).toMatchObject({
+      name: "Premium DE",
+      description: "Alles",
+      features: [{ name: "Sprachsitzungen", description: "Talk it through" }],
+    });
+    expect(german.plans[1].name).toBe("Basic");
+
+    expect(service.computeEtag(german)).not.toBe(service.computeEtag(english));
+    expect(service.computeEtag(english)).toBe(service.computeEtag(await service.getCatalog([])));
+  });
+});
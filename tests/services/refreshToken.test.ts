@@ -0,0 +1,114 @@
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { RefreshTokenFamily } from "../../src/models/schemas/RefreshTokenFamily";
+import { User } from "../../src/models/schemas/User";
+import { RefreshTokenService, refreshTokenService } from "../../src/services/refreshTokenService";
+import { AuthService } from "../../src/services/authService";
+
+/**
+ * In-memory stand-in for the refresh_token_families collection
+ */
+function stubFamilies() {
+  const families = new Map<string, any>();
+  const matches = (doc: any, filter: any) =>
+    Object.entries(filter).every(([key, value]: [string, any]) => {
+      if (value && typeof value === "object" && "$exists" in value) return (doc[key] !== undefined) === value.$exists;
+      if (value instanceof Types.ObjectId) return value.equals(doc[key]);
+      return doc[key] === value;
+    });
+
+  jest.spyOn(RefreshTokenFamily, "create").mockImplementation((async (doc: any) => {
+    const family = new RefreshTokenFamily(doc);
+    families.set(doc.familyId, family);
+    return family;
+  }) as any);
+  jest.spyOn(RefreshTokenFamily, "findOne").mockImplementation(((filter: any) =>
+    Promise.resolve(families.get(filter.familyId) || null)) as any);
+  jest.spyOn(RefreshTokenFamily, "findOneAndUpdate").mockImplementation((async (filter: any, update: any) => {
+    const family = [...families.values()].find((f) => f._id.equals(filter._id));
+    if (!family || !matches(family, { currentTokenId: filter.currentTokenId, revokedAt: filter.revokedAt })) return null;
+    Object.assign(family, update.$set);
+    family.rotations += update.$inc.rotations;
+    return family;
+  }) as any);
+  jest.spyOn(RefreshTokenFamily, "updateOne").mockImplementation((async (filter: any, update: any) => {
+    const family = families.get(filter.familyId);
+    if (!family || !matches(family, { ...filter, familyId: family.familyId })) return { modifiedCount: 0 };
+    Object.assign(family, update.$set);
+    return { modifiedCount: 1 };
+  }) as any);
+
+  return families;
+}
+
+describe("RefreshTokenService", () => {
+  const service = new RefreshTokenService(7);
+  const userId = new Types.ObjectId().toString();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should rotate the current token and revoke the family when an old one is replayed", async () => {
+    const families = stubFamilies();
+    const first = await service.startFamily(userId, { userAgent: "jest", ip: "127.0.0.1" });
+
+    const second = await service.rotate(userId, first);
+    expect(second.familyId).toBe(first.familyId);
+    expect(second.tokenId).not.toBe(first.tokenId);
+    expect(families.get(first.familyId).rotations).toBe(1);
+
+    await expect(service.rotate(userId, first)).rejects.toThrow("reuse detected");
+    expect(families.get(first.familyId).revokedReason).toBe("reuse_detected");
+
+    // The legitimate holder is logged out too
+    await expect(service.rotate(userId, second)).rejects.toThrow("Invalid refresh token");
+  });
+
+  test("should only revoke a family for its owner", async () => {
+    stubFamilies();
+    const { familyId } = await service.startFamily(userId);
+
+    expect(await service.revoke(familyId, "revoked", new Types.ObjectId().toString())).toBe(false);
+    expect(await service.revoke(familyId, "revoked", userId)).toBe(true);
+    expect(await service.revoke(familyId, "revoked", userId)).toBe(false);
+  });
+});
+
+describe("AuthService refresh and logout", () => {
+  const auth = new AuthService();
+  const user = new User({ email: "sam@example.com", emailVerified: true });
+
+  beforeEach(() => {
+    stubFamilies();
+    jest.spyOn(User, "findById").mockResolvedValue(user);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const login = async () => {
+    const ids = await refreshTokenService.startFamily(user._id.toString());
+    return (auth as any).generateTokens(user, ids);
+  };
+
+  test("should issue single-use refresh tokens tied to the login", async () => {
+    const tokens = await login();
+    const refreshed = await auth.refreshToken(tokens.refreshToken);
+
+    const access = jwt.decode(refreshed.accessToken) as any;
+    expect(access.sid).toBe((jwt.decode(tokens.refreshToken) as any).sid);
+    await expect(auth.refreshToken(tokens.refreshToken)).rejects.toThrow("Invalid refresh token");
+    await expect(auth.refreshToken(refreshed.refreshToken)).rejects.toThrow("Invalid refresh token");
+  });
+
+  test("should make the refresh token unusable after logout", async () => {
+    const tokens = await login();
+
+    await auth.logout(tokens.refreshToken);
+    await auth.logout("not-a-token");
+
+    await expect(auth.refreshToken(tokens.refreshToken)).rejects.toThrow("Invalid refresh token");
+  });
+});
@@ -0,0 +1,70 @@
+import { ResponsePlayback } from "../../src/services/responsePlayback";
+
+// 100 ms of 24kHz 16-bit mono PCM
+const CHUNK_BYTES = 4800;
+
+describe("ResponsePlayback", () => {
+  const streamReply = (playback: ResponsePlayback, start: number) => {
+    playback.addText("Take a slow ");
+    playback.addAudio(CHUNK_BYTES, start);
+    playback.addText("breath with ");
+    playback.addAudio(CHUNK_BYTES, start + 10);
+    playback.addText("me.");
+    playback.addAudio(CHUNK_BYTES, start + 20);
+  };
+
+  test("should map acknowledged playback to whole words of the transcript", () => {
+    const playback = new ResponsePlayback("resp_1");
+    streamReply(playback, 0);
+
+    playback.ack(150);
+    expect(playback.playedMs()).toBe(150);
+    expect(playback.playedText()).toBe("Take a slow");
+
+    playback.ack(200);
+    expect(playback.playedText()).toBe("Take a slow breath with");
+  });
+
+  test("should only move the acknowledged position forward and clamp to the audio sent", () => {
+    const playback = new ResponsePlayback("resp_1");
+    streamReply(playback, 0);
+
+    playback.ack(250);
+    playback.ack(120);
+    expect(playback.playedMs()).toBe(250);
+
+    playback.ack(10_000);
+    expect(playback.playedMs()).toBe(300);
+  });
+
+  test("should return the full transcript once a finished response has fully played", () => {
+    const playback = new ResponsePlayback("resp_1");
+    streamReply(playback, 0);
+    playback.generating = false;
+
+    playback.ack(300);
+    expect(playback.playedText()).toBe("Take a slow breath with me.");
+  });
+
+  test("should estimate playback from elapsed time when the client never acked", () => {
+    const playback = new ResponsePlayback("resp_1");
+    streamReply(playback, 1000);
+
+    expect(playback.playedMs(1120)).toBe(120);
+    expect(playback.playedText(1120)).toBe("Take a slow");
+    expect(playback.playedMs(5000)).toBe(300);
+  });
+
+  test("should stay audible until its audio could have finished playing", () => {
+    const playback = new ResponsePlayback("resp_1");
+    streamReply(playback, 1000);
+    expect(playback.isAudible(1000)).toBe(true);
+
+    playback.generating = false;
+    expect(playback.isAudible(1200)).toBe(true);
+    expect(playback.isAudible(1900)).toBe(false);
+
+    playback.ack(300);
+    expect(playback.isAudible(1200)).toBe(false);
+  });
+});
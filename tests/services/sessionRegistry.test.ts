@@ -0,0 +1,131 @@
+import { EventEmitter } from "events";
+import {
+  SessionRegistry,
+  SessionRegistryMessage,
+  MemorySessionRegistry,
+  RedisSessionRegistry,
+  RedisRegistryClient,
+} from "../../src/services/sessionRegistry";
+
+/**
+ * Local stand-in for a Redis server: the commands the registry uses, with key expiry and pub/sub.
+ * Clients created from the same server share its data, like separate connections would.
+ */
+class FakeRedisServer {
+  hashes = new Map<string, Record<string, string>>();
+  sets = new Map<string, Set<string>>();
+  strings = new Map<string, { value: string; expiresAt?: number }>();
+  channels = new EventEmitter();
+
+  client(): RedisRegistryClient {
+    return {
+      hSet: async (key, values) => {
+        this.hashes.set(key, { ...this.hashes.get(key), ...values });
+        return Object.keys(values).length;
+      },
+      hGetAll: async (key) => ({ ...this.hashes.get(key) }),
+      del: async (key) => {
+        const existed = this.hashes.delete(key) || this.strings.delete(key);
+        return existed ? 1 : 0;
+      },
+      sAdd: async (key, member) => {
+        const set = this.sets.get(key) || new Set<string>();
+        this.sets.set(key, set.add(member));
+        return 1;
+      },
+      sRem: async (key, member) => (this.sets.get(key)?.delete(member) ? 1 : 0),
+      sMembers: async (key) => Array.from(this.sets.get(key) || []),
+      set: async (key, value, options) => {
+        this.strings.set(key, { value, expiresAt: options?.PX ? Date.now() + options.PX : undefined });
+        return "OK";
+      },
+      exists: async (key) => {
+        const entry = this.strings.get(key);
+        return entry && (!entry.expiresAt || entry.expiresAt > Date.now()) ? 1 : 0;
+      },
+      publish: async (channel, message) => {
+        setImmediate(() => this.channels.emit(channel, message));
+        return this.channels.listenerCount(channel);
+      },
+      subscribe: async (channel, listener) => {
+        this.channels.on(channel, listener);
+      },
+      quit: async () => "OK",
+    };
+  }
+}
+
+const drivers: Array<[string, () => SessionRegistry]> = [
+  ["memory", () => new MemorySessionRegistry()],
+  [
+    "redis",
+    () => {
+      const server = new FakeRedisServer();
+      return new RedisSessionRegistry(server.client(), server.client(), "test:voice");
+    },
+  ],
+];
+
+describe.each(drivers)("SessionRegistry (%s)", (_driver, createRegistry) => {
+  let registry: SessionRegistry;
+
+  const record = (sessionId: string, nodeId: string) => ({
+    sessionId,
+    userId: "user-1",
+    nodeId,
+    connected: true,
+    updatedAt: 1700000000000,
+  });
+
+  beforeEach(() => {
+    registry = createRegistry();
+  });
+
+  afterEach(async () => {
+    await registry.close();
+  });
+
+  test("should store and return session records", async () => {
+    await registry.register(record("s1", "node-a"));
+    await registry.register({ ...record("s1", "node-a"), connected: false });
+    await registry.register(record("s2", "node-b"));
+
+    expect(await registry.get("s1")).toEqual({ ...record("s1", "node-a"), connected: false });
+    expect(await registry.get("missing")).toBeNull();
+    expect((await registry.list()).map((r) => r.sessionId).sort()).toEqual(["s1", "s2"]);
+  });
+
+  test("should only let the owning node remove a session", async () => {
+    await registry.register(record("s1", "node-b"));
+
+    await registry.remove("s1", "node-a");
+    expect(await registry.get("s1")).not.toBeNull();
+
+    await registry.remove("s1", "node-b");
+    expect(await registry.get("s1")).toBeNull();
+    expect(await registry.list()).toEqual([]);
+  });
+
+  test("should consider a node alive until its heartbeat expires", async () => {
+    await registry.heartbeat("node-a", 30);
+
+    expect(await registry.isNodeAlive("node-a")).toBe(true);
+    expect(await registry.isNodeAlive("node-b")).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await registry.isNodeAlive("node-a")).toBe(false);
+  });
+
+  test("should deliver messages only to the addressed node", async () => {
+    const received: SessionRegistryMessage[] = [];
+    await registry.subscribe("node-a", (message) => received.push(message));
+    await registry.subscribe("node-b", () => {
+      throw new Error("node-b should not receive this");
+    });
+
+    await registry.publish("node-a", { type: "release", sessionId: "s1", from: "node-b" });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(received).toEqual([{ type: "release", sessionId: "s1", from: "node-b" }]);
+  });
+});
@@ -0,0 +1,82 @@
+import { Types } from "mongoose";
+import { Message } from "../../src/models/schemas/Message";
+import { Session } from "../../src/models/schemas/Session";
+import { SessionSummaryService } from "../../src/services/sessionSummaryService";
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 2, 1, 12, 0, seconds));
+
+const stubMessages = (messages: unknown[]) =>
+  jest.spyOn(Message, "find").mockReturnValue({
+    select: () => ({ sort: () => ({ lean: () => Promise.resolve(messages) }) }),
+  } as any);
+
+describe("SessionSummaryService", () => {
+  const service = new SessionSummaryService();
+
+  const messages = [
+    { role: "user", timestamp: at(0), emotionData: { emotions: { sad: 0.8, anxious: 0.4 } } },
+    { role: "assistant", timestamp: at(5) },
+    {
+      role: "user",
+      timestamp: at(20),
+      emotionData: { emotions: new Map([["sad", 0.4], ["anxious", 0.6], ["hopeful", 0.2]]) },
+      crisisIndicators: { severity: "medium" },
+    },
+    { role: "user", timestamp: at(30), crisisIndicators: { severity: "low" } },
+    { role: "assistant", timestamp: at(35) },
+  ];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should count turns, rank averaged emotions and collect crisis levels", async () => {
+    stubMessages(messages);
+
+    const summary = await service.buildSummary("voice_1", undefined, at(90));
+
+    expect(summary).toMatchObject({
+      duration: 90,
+      messageCount: 5,
+      userMessageCount: 3,
+      assistantMessageCount: 2,
+      averageEmotion: "sad",
+      topEmotions: ["sad", "anxious", "hopeful"],
+      crisisDetected: true,
+      crisisLevels: ["low", "medium"],
+    });
+  });
+
+  test("should call a quiet session calm and not flag low-only crisis levels", async () => {
+    stubMessages([{ role: "user", timestamp: at(0), crisisIndicators: { severity: "low" } }]);
+
+    const summary = await service.buildSummary("voice_1", at(0), at(10));
+
+    expect(summary.averageEmotion).toBe("calm");
+    expect(summary.crisisDetected).toBe(false);
+  });
+
+  test("should end and summarize a session once", async () => {
+    stubMessages(messages);
+    const session = new Session({ sessionId: "voice_1", userId: new Types.ObjectId(), startTime: at(0) });
+    jest.spyOn(Session, "findOne").mockResolvedValue(session);
+    const save = jest.spyOn(session, "save").mockResolvedValue(session);
+
+    const summary = await service.finalizeSession("voice_1", at(60));
+
+    expect(session.status).toBe("ended");
+    expect(session.duration).toBe(60_000);
+    expect(summary).toMatchObject({ duration: 60, messageCount: 5 });
+    expect(session.summary).toMatchObject({ duration: 60, messageCount: 5 });
+
+    // A second finalize (e.g. a provider disconnect after the session ended) keeps the stored summary
+    expect(await service.finalizeSession("voice_1", at(120))).toMatchObject({ duration: 60 });
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  test("should report failures as no summary", async () => {
+    jest.spyOn(Session, "findOne").mockRejectedValue(new Error("connection lost"));
+
+    expect(await service.finalizeSession("voice_1")).toBeNull();
+  });
+});
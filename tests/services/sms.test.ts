@@ -0,0 +1,170 @@
+import { SmsMessage } from "../../src/models/schemas/SmsMessage";
+import { User } from "../../src/models/schemas/User";
+import { AuthService } from "../../src/services/authService";
+import { CaptureSmsProvider } from "../../src/services/captureSmsProvider";
+import { refreshTokenService } from "../../src/services/refreshTokenService";
+import { SmsService, normalizePhone, renderSmsTemplate, smsService } from "../../src/services/smsService";
+import * as logger from "../../src/utils/logger";
+
+const stubSmsStore = (recent: Array<{ createdAt: Date }> = []) => {
+  const find = jest.spyOn(SmsMessage, "find").mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve(recent) }),
+  } as any);
+  jest.spyOn(SmsMessage, "create").mockImplementation((async (doc: any) => new SmsMessage(doc)) as any);
+  jest.spyOn(SmsMessage.prototype, "save").mockImplementation(function (this: any) {
+    return Promise.resolve(this);
+  });
+  return { find };
+};
+
+describe("SMS templates", () => {
+  test("should fill every placeholder and refuse missing values", () => {
+    expect(renderSmsTemplate("login_code", { code: "123456", minutes: 5 })).toMatch(
+      /^123456 is your AVA login code\. It expires in 5 minutes\./
+    );
+    expect(() => renderSmsTemplate("phone_verification", { minutes: 5 })).toThrow(
+      "Missing SMS template variable: code"
+    );
+  });
+
+  test("should normalize numbers to E.164", () => {
+    expect(normalizePhone("+1 (415) 555-0123")).toBe("+14155550123");
+    expect(normalizePhone("447700900123")).toBe("+447700900123");
+    expect(() => normalizePhone("+0123")).toThrow("Invalid phone number");
+  });
+});
+
+describe("SmsService", () => {
+  let provider: CaptureSmsProvider;
+  let service: SmsService;
+
+  beforeEach(() => {
+    provider = new CaptureSmsProvider(undefined, "callback-token");
+    service = new SmsService(() => provider);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should send through the provider and track delivery from its callback", async () => {
+    stubSmsStore();
+
+    const message = await service.send("+14155550123", "phone_verification", { code: "482913", minutes: 5 });
+
+    expect(message.status).toBe("sent");
+    expect(provider.lastMessageTo("+14155550123")?.body).toContain("482913");
+    expect(message.toObject()).not.toHaveProperty("body");
+
+    jest.spyOn(SmsMessage, "findOne").mockResolvedValue(message);
+    const callback = provider.simulateStatus(message.providerMessageId!, "delivered");
+    await service.handleStatusCallback(callback.body, callback.headers);
+    expect(message.status).toBe("delivered");
+    expect(message.deliveredAt).toBeInstanceOf(Date);
+
+    // A late receipt doesn't undo a final status
+    const late = provider.simulateStatus(message.providerMessageId!, "sent");
+    await service.handleStatusCallback(late.body, late.headers);
+    expect(message.status).toBe("delivered");
+
+    await expect(service.handleStatusCallback(callback.body, {})).rejects.toThrow("Invalid status callback");
+  });
+
+  test("should rate limit code messages per number but never crisis alerts", async () => {
+    const justNow = [{ createdAt: new Date(Date.now() - 5_000) }];
+    const { find } = stubSmsStore(justNow);
+
+    await expect(service.send("+14155550123", "login_code", { code: "111111", minutes: 5 })).rejects.toThrow(
+      "Too many SMS messages to this number"
+    );
+
+    find.mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve(Array(5).fill({ createdAt: new Date(Date.now() - 600_000) })) }),
+    } as any);
+    await expect(service.send("+14155550123", "login_code", { code: "111111", minutes: 5 })).rejects.toThrow(
+      "Too many SMS messages to this number"
+    );
+
+    await service.send("+14155550123", "crisis_alert", { greeting: "", who: "Sam" });
+    expect(provider.outbox("+14155550123")).toHaveLength(1);
+  });
+
+  test("should keep codes out of the log and refuse to run in production", async () => {
+    const logInfo = jest.spyOn(logger, "logInfo");
+
+    await provider.send({ to: "+14155550123", body: "482913 is your AVA login code.", reference: "ref" });
+    expect(logInfo.mock.calls[0][0]).toBe("[CaptureSmsProvider] To +14155550123: •••••• is your AVA login code.");
+
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      expect(() => new CaptureSmsProvider()).toThrow("cannot be used in production");
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  test("should record a provider failure", async () => {
+    stubSmsStore();
+    jest.spyOn(provider, "send").mockRejectedValue(new Error("Carrier unavailable"));
+    const save = jest.spyOn(SmsMessage.prototype, "save");
+
+    await expect(service.send("+14155550123", "login_code", { code: "111111", minutes: 5 })).rejects.toThrow(
+      "Failed to send SMS"
+    );
+    expect(save.mock.contexts[0]).toMatchObject({ status: "failed", error: "Carrier unavailable" });
+  });
+});
+
+describe("AuthService phone codes", () => {
+  const auth = new AuthService();
+  const capture = smsService.provider as CaptureSmsProvider;
+  const phone = "+14155550123";
+
+  const texted = () => capture.lastMessageTo(phone)!.body.slice(0, 6);
+
+  beforeEach(() => {
+    capture.clear();
+    stubSmsStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should verify a phone number with the texted code", async () => {
+    const user = new User({ email: "sam@example.com", emailVerified: true });
+    jest.spyOn(User, "findById").mockResolvedValue(user);
+    jest.spyOn(User, "findOne").mockReturnValue({ select: () => Promise.resolve(null) } as any);
+    jest.spyOn(user, "save").mockResolvedValue(user);
+
+    await auth.sendOTP(user._id.toString(), "+1 415 555 0123");
+    expect(user.phoneCode?.codeHash).not.toContain(texted());
+
+    expect(await auth.verifyOTP(user._id.toString(), "000000")).toBe(false);
+    expect(await auth.verifyOTP(user._id.toString(), texted())).toBe(true);
+    expect(user.phone).toBe(phone);
+    expect(user.phoneCode).toBeUndefined();
+  });
+
+  test("should log in with a texted code and count wrong codes as failed logins", async () => {
+    const user = new User({ email: "sam@example.com", emailVerified: true, phone });
+    jest.spyOn(User, "findOne").mockResolvedValue(user);
+    jest.spyOn(user, "save").mockResolvedValue(user);
+    jest.spyOn(refreshTokenService, "startFamily").mockResolvedValue({ familyId: "family", tokenId: "token" });
+
+    await auth.requestPhoneLoginCode(phone);
+    expect(capture.lastMessageTo(phone)?.body).toContain("login code");
+
+    await expect(auth.loginWithPhoneCode(phone, "000000")).rejects.toThrow("Invalid or expired code");
+    expect(user.loginAttempts).toBe(1);
+
+    const response = await auth.loginWithPhoneCode(phone, texted());
+    if ("twoFactorRequired" in response) throw new Error("expected tokens");
+    expect(response.tokens.accessToken).toEqual(expect.any(String));
+    expect(user.loginAttempts).toBe(0);
+
+    // Codes are single use
+    await expect(auth.loginWithPhoneCode(phone, texted())).rejects.toThrow("Invalid or expired code");
+  });
+});
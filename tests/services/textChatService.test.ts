@@ -0,0 +1,89 @@
+import mongoose from "mongoose";
+import { Session } from "../../src/models/schemas/Session";
+import { TextChatService } from "../../src/services/textChatService";
+import { MockVoiceProvider } from "../../src/services/mockVoiceProvider";
+
+// No database in this suite: persistence fails fast and is logged, the chat still runs
+mongoose.set("bufferCommands", false);
+
+describe("TextChatService", () => {
+  const userId = "64b7f0c2a1b2c3d4e5f60718";
+  let service: TextChatService;
+  let providers: MockVoiceProvider[];
+  let audio: jest.Mock;
+
+  beforeEach(() => {
+    // Session ids are refused when ownership can't be checked; these are new
+    jest.spyOn(Session, "findOne").mockReturnValue({ select: () => Promise.resolve(null) } as any);
+    providers = [];
+    audio = jest.fn();
+    service = new TextChatService({
+      providerFactory: () => {
+        const provider = new MockVoiceProvider({ mode: "echo" });
+        provider.on("audio-delta", audio);
+        providers.push(provider);
+        return provider;
+      },
+    });
+  });
+
+  afterEach(() => {
+    service.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  test("should stream a text reply without audio", async () => {
+    const deltas: string[] = [];
+    const userMessage = jest.fn();
+
+    const result = await service.sendMessage(userId, "chat_test", "I feel happy today", {
+      onUserMessage: userMessage,
+      onDelta: (delta) => deltas.push(delta),
+    });
+
+    expect(result.reply).toBe("You said: I feel happy today");
+    expect(deltas.join("")).toBe(result.reply);
+    expect(result.emotion?.primary).toBe("happy");
+    expect(userMessage).toHaveBeenCalledWith(expect.objectContaining({ emotion: result.emotion }));
+    expect(audio).not.toHaveBeenCalled();
+  });
+
+  test("should flag crisis messages before replying", async () => {
+    const result = await service.sendMessage(userId, "chat_test", "I want to kill myself");
+
+    expect(result.crisis?.severity).toBe("critical");
+    expect(result.crisis?.message).toBeTruthy();
+  });
+
+  test("should keep one provider per session and run turns in order", async () => {
+    const [first, second] = await Promise.all([
+      service.sendMessage(userId, "chat_test", "one"),
+      service.sendMessage(userId, "chat_test", "two"),
+    ]);
+
+    expect(first.reply).toBe("You said: one");
+    expect(second.reply).toBe("You said: two");
+    expect(providers).toHaveLength(1);
+    expect(service.getActiveConversationCount()).toBe(1);
+  });
+
+  test("should close the provider when it fails to connect", async () => {
+    const failing = new MockVoiceProvider({ mode: "echo" });
+    jest.spyOn(failing, "connect").mockRejectedValue(new Error("Upstream refused"));
+    const disconnect = jest.spyOn(failing, "disconnect");
+    service = new TextChatService({ providerFactory: () => failing });
+
+    await expect(service.sendMessage(userId, "chat_test", "hello")).rejects.toThrow("Upstream refused");
+    expect(disconnect).toHaveBeenCalled();
+    expect(failing.listenerCount("error")).toBe(1);
+    expect(service.getActiveConversationCount()).toBe(0);
+  });
+
+  test("should not let another user write to a live session", async () => {
+    await service.sendMessage(userId, "chat_test", "hello");
+
+    await expect(service.sendMessage("64b7f0c2a1b2c3d4e5f60719", "chat_test", "hi")).rejects.toThrow(
+      "Session not found"
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { User } from "../../src/models/schemas/User";
+import { refreshTokenService } from "../../src/services/refreshTokenService";
+import { TokenPolicyService } from "../../src/services/tokenPolicyService";
+
+describe("TokenPolicyService", () => {
+  const policy = new TokenPolicyService();
+  const secret = "token-policy-test-secret";
+  const userId = new Types.ObjectId().toString();
+  const now = new Date("2026-03-01T12:00:00Z");
+  const iat = (date: Date) => Math.floor(date.getTime() / 1000);
+
+  const account = (overrides: Record<string, unknown> = {}) =>
+    new User({ _id: userId, email: "policy@example.com", emailVerified: true, ...overrides });
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = secret;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should accept a current token of an account in good standing", () => {
+    expect(policy.evaluate(account({ tokenVersion: 2 }), { userId, tv: 2, iat: iat(now) }, now)).toBeNull();
+    // Tokens from before versioning count as version 0
+    expect(policy.evaluate(account(), { userId, iat: iat(now) }, now)).toBeNull();
+  });
+
+  test("should refuse suspended, deactivated, unverified and locked accounts", () => {
+    const claims = { userId, iat: iat(now) };
+
+    expect(policy.evaluate(null, claims, now)).toBe("USER_NOT_FOUND");
+    expect(policy.evaluate(account({ isSuspended: true, isActive: false }), claims, now)).toBe("ACCOUNT_SUSPENDED");
+    expect(policy.evaluate(account({ isActive: false }), claims, now)).toBe("ACCOUNT_DEACTIVATED");
+    expect(policy.evaluate(account({ emailVerified: false }), claims, now)).toBe("EMAIL_NOT_VERIFIED");
+    expect(policy.evaluate(account({ lockUntil: new Date(now.getTime() + 60_000) }), claims, now)).toBe(
+      "ACCOUNT_LOCKED"
+    );
+  });
+
+  test("should refuse tokens issued before a password change or from an older token version", () => {
+    const changed = account({ passwordChangedAt: now });
+
+    expect(policy.evaluate(changed, { userId, iat: iat(now) - 1 }, now)).toBe("TOKEN_REVOKED");
+    expect(policy.evaluate(changed, { userId, iat: iat(now) }, now)).toBeNull();
+    expect(policy.evaluate(account({ tokenVersion: 1 }), { userId, tv: 0, iat: iat(now) }, now)).toBe("TOKEN_REVOKED");
+  });
+
+  test("should report expired and foreign tokens without loading the user", async () => {
+    const findById = jest.spyOn(User, "findById");
+
+    const expired = await policy.authenticate(jwt.sign({ userId, exp: iat(new Date()) - 10 }, secret));
+    const foreign = await policy.authenticate(jwt.sign({ userId }, "someone-else"));
+    const notAnId = await policy.authenticate(jwt.sign({ userId: "policy@example.com" }, secret));
+
+    expect(expired).toEqual({ ok: false, code: "TOKEN_EXPIRED", message: "Token expired" });
+    expect(foreign).toMatchObject({ ok: false, code: "TOKEN_INVALID" });
+    expect(notAnId).toMatchObject({ ok: false, code: "TOKEN_INVALID" });
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  test("should bump the token version, end logins and notify listeners on revocation", async () => {
+    const updateOne = jest.spyOn(User, "updateOne").mockResolvedValue({} as any);
+    const revokeAll = jest.spyOn(refreshTokenService, "revokeAll").mockResolvedValue(3);
+    const listener = jest.fn();
+    const unsubscribe = policy.onAccessRevoked(listener);
+
+    expect(await policy.revokeAllTokens(userId, "suspended")).toBe(3);
+    unsubscribe();
+    await policy.revokeAllTokens(userId, "deactivated");
+
+    expect(updateOne).toHaveBeenCalledWith({ _id: userId }, { $inc: { tokenVersion: 1 } });
+    expect(revokeAll).toHaveBeenCalledWith(userId, "suspended");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ userId, reason: "suspended" });
+  });
+});
@@ -0,0 +1,132 @@
+import bcrypt from "bcrypt";
+import { Admin } from "../../src/models/schemas/Admin";
+import { User } from "../../src/models/schemas/User";
+import { AuthService } from "../../src/services/authService";
+import { TwoFactorService } from "../../src/services/twoFactorService";
+import { base32Decode, base32Encode, matchTotpStep, totpCode, totpStep } from "../../src/utils/totp";
+
+describe("TOTP", () => {
+  // RFC 6238 appendix B, SHA1 seed "12345678901234567890"
+  const rfcSecret = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+
+  test("should match the RFC 6238 test vectors", () => {
+    expect(rfcSecret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(totpCode(rfcSecret, totpStep(59 * 1000), 8)).toBe("94287082");
+    expect(totpCode(rfcSecret, totpStep(1111111109 * 1000), 8)).toBe("07081804");
+    expect(totpCode(rfcSecret, totpStep(2000000000 * 1000), 8)).toBe("69279037");
+    expect(base32Decode(rfcSecret).toString("ascii")).toBe("12345678901234567890");
+  });
+
+  test("should accept codes within the drift window only", () => {
+    const now = 1111111109 * 1000;
+    const previous = totpCode(rfcSecret, totpStep(now) - 1);
+    const stale = totpCode(rfcSecret, totpStep(now) - 2);
+
+    expect(matchTotpStep(rfcSecret, previous, { now, window: 1 })).toBe(totpStep(now) - 1);
+    expect(matchTotpStep(rfcSecret, stale, { now, window: 1 })).toBeNull();
+    expect(matchTotpStep(rfcSecret, "12345", { now })).toBeNull();
+  });
+});
+
+describe("TwoFactorService", () => {
+  const service = new TwoFactorService();
+  const currentCode = (secret: string) => totpCode(secret, totpStep());
+
+  const enroll = async (account: any) => {
+    jest.spyOn(account, "save").mockResolvedValue(account);
+    const enrollment = await service.beginEnrollment(account);
+    const confirmationCode = currentCode(enrollment.secret);
+    const recoveryCodes = await service.confirmEnrollment(account, confirmationCode);
+    return { enrollment, confirmationCode, recoveryCodes };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS;
+  });
+
+  test("should enroll with a QR URI and store only encrypted secrets and hashed recovery codes", async () => {
+    const user = new User({ email: "sam@example.com", emailVerified: true });
+
+    const { enrollment, recoveryCodes } = await enroll(user);
+
+    expect(enrollment.otpauthUri).toMatch(/^otpauth:\/\/totp\/AVA%3Asam%40example\.com\?secret=[A-Z2-7]+&issuer=AVA/);
+    expect(user.twoFactor.enabled).toBe(true);
+    expect(user.twoFactor.pendingSecret).toBeUndefined();
+    expect(user.twoFactor.secret).not.toContain(enrollment.secret);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(user.twoFactor.recoveryCodes.map((c) => c.hash)).not.toContain(recoveryCodes[0]);
+    expect(service.getStatus(user, "user")).toMatchObject({ enabled: true, required: false, recoveryCodesRemaining: 10 });
+  });
+
+  test("should accept each code once", async () => {
+    const user = new User({ email: "sam@example.com", emailVerified: true });
+    const { confirmationCode, recoveryCodes } = await enroll(user);
+
+    expect(await service.verify(user, confirmationCode)).toBeNull();
+
+    expect(await service.verify(user, recoveryCodes[0].toUpperCase())).toBe("recovery_code");
+    expect(await service.verify(user, recoveryCodes[0])).toBeNull();
+    expect(service.getStatus(user, "user").recoveryCodesRemaining).toBe(9);
+  });
+
+  test("should not let admins turn 2FA off while the policy requires it", async () => {
+    const admin = new Admin({ email: "ops@example.com", name: "Ops", password: "x" });
+    const { recoveryCodes } = await enroll(admin);
+
+    await expect(service.disable(admin, "admin", recoveryCodes[0])).rejects.toThrow(
+      "Cannot disable two-factor authentication: it is required for admin accounts"
+    );
+
+    process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS = "false";
+    await expect(service.disable(admin, "admin", "00000-00000")).rejects.toThrow("Invalid two-factor code");
+    await service.disable(admin, "admin", recoveryCodes[1]);
+    expect(admin.twoFactor.enabled).toBe(false);
+  });
+});
+
+describe("AuthService admin login with mandatory 2FA", () => {
+  const auth = new AuthService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should make an admin without 2FA enroll before issuing tokens", async () => {
+    const admin = new Admin({
+      email: "ops@example.com",
+      name: "Ops",
+      password: await bcrypt.hash("Secret123", 4),
+      emailVerified: true,
+    });
+    jest.spyOn(Admin, "findOne").mockResolvedValue(admin);
+    jest.spyOn(Admin, "findById").mockResolvedValue(admin);
+    jest.spyOn(admin, "save").mockResolvedValue(admin);
+
+    const challenge = await auth.adminLogin({ email: "ops@example.com", password: "Secret123" });
+    if (!("twoFactorRequired" in challenge)) throw new Error("expected a two-factor challenge");
+
+    expect(challenge.setupRequired).toBe(true);
+    expect(challenge).not.toHaveProperty("tokens");
+
+    await expect(auth.verifyAdminTwoFactorLogin(challenge.challengeToken, "000000")).rejects.toThrow(
+      "Invalid two-factor code"
+    );
+    expect(admin.loginAttempts).toBe(1);
+
+    const code = totpCode(challenge.enrollment!.secret, totpStep());
+    const response = await auth.verifyAdminTwoFactorLogin(challenge.challengeToken, code);
+
+    expect(response.tokens.accessToken).toEqual(expect.any(String));
+    expect(response.recoveryCodes).toHaveLength(10);
+    expect(admin.twoFactor.enabled).toBe(true);
+
+    // An admin challenge can't complete a user login
+    const next = await auth.adminLogin({ email: "ops@example.com", password: "Secret123" });
+    if (!("twoFactorRequired" in next)) throw new Error("expected a two-factor challenge");
+    expect(next.setupRequired).toBe(false);
+    await expect(auth.verifyTwoFactorLogin(next.challengeToken, response.recoveryCodes![0])).rejects.toThrow(
+      "Invalid or expired two-factor challenge"
+    );
+  });
+});
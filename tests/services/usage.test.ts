@@ -0,0 +1,105 @@
+import { evaluateQuota, SessionUsageTracker, UsageTotals } from "../../src/services/usageService";
+import { pcmBytesForMs } from "../../src/utils/audio";
+
+const totals = (audioInSeconds: number, audioOutSeconds: number, turns: number): UsageTotals => ({
+  audioInSeconds,
+  audioOutSeconds,
+  turns,
+});
+
+describe("evaluateQuota", () => {
+  test("should count audio in both directions as voice minutes", () => {
+    const status = evaluateQuota({ dailyVoiceMinutes: 10 }, totals(180, 240, 0), totals(180, 240, 0), 0.8);
+
+    expect(status.exceeded).toBeNull();
+    expect(status.warnings).toEqual([]);
+    expect(status.remaining).toEqual({ dailyVoiceMinutes: 3 });
+  });
+
+  test("should warn past the ratio and report the first limit reached", () => {
+    const status = evaluateQuota(
+      { dailyVoiceMinutes: 10, monthlyVoiceMinutes: 100, dailyTurns: 5, monthlyTurns: 50 },
+      totals(300, 210, 5),
+      totals(3000, 3000, 40),
+      0.8
+    );
+
+    expect(status.exceeded).toBe("monthlyVoiceMinutes");
+    expect(status.warnings).toEqual(["dailyVoiceMinutes", "monthlyTurns"]);
+    expect(status.remaining).toEqual({ dailyVoiceMinutes: 1.5, monthlyVoiceMinutes: 0, dailyTurns: 0, monthlyTurns: 10 });
+  });
+
+  test("should treat missing limits as unlimited", () => {
+    expect(evaluateQuota({}, totals(1e6, 1e6, 1e6), totals(1e6, 1e6, 1e6))).toEqual({
+      exceeded: null,
+      warnings: [],
+      remaining: {},
+    });
+  });
+});
+
+describe("SessionUsageTracker", () => {
+  const ledger = () => {
+    const recorded: UsageTotals[] = [];
+    let stored = { daily: totals(0, 0, 0), monthly: totals(0, 0, 0) };
+    const service = {
+      record: jest.fn(async (_userId: string, _sessionId: string, usage: UsageTotals) => {
+        recorded.push(usage);
+        const add = (t: UsageTotals) => totals(t.audioInSeconds + usage.audioInSeconds, t.audioOutSeconds + usage.audioOutSeconds, t.turns + usage.turns);
+        stored = { daily: add(stored.daily), monthly: add(stored.monthly) };
+      }),
+      getTotals: jest.fn(async () => stored),
+    };
+    return { service, recorded, setStored: (value: typeof stored) => (stored = value) };
+  };
+
+  test("should convert metered PCM bytes to seconds when flushing", async () => {
+    const { service, recorded } = ledger();
+    const tracker = new SessionUsageTracker("user-1", "voice_1", {}, service);
+
+    tracker.addAudioIn(pcmBytesForMs(1500));
+    tracker.addAudioOut(pcmBytesForMs(2500));
+    tracker.addTurn();
+    await tracker.flush();
+
+    expect(recorded).toEqual([totals(1.5, 2.5, 1)]);
+
+    // Nothing new: no ledger write
+    await tracker.flush();
+    expect(service.record).toHaveBeenCalledTimes(1);
+  });
+
+  test("should include usage from other sessions and warn only once per limit", async () => {
+    const { service, setStored } = ledger();
+    const tracker = new SessionUsageTracker("user-1", "voice_1", { dailyTurns: 10 }, service);
+
+    setStored({ daily: totals(0, 0, 7), monthly: totals(0, 0, 7) });
+    await tracker.refresh();
+    tracker.addTurn();
+
+    expect(tracker.check()).toMatchObject({ exceeded: null, newWarnings: ["dailyTurns"] });
+    expect(tracker.check().newWarnings).toEqual([]);
+
+    tracker.addTurn();
+    tracker.addTurn();
+    await tracker.flush();
+    expect(tracker.check()).toMatchObject({ exceeded: "dailyTurns", remaining: { dailyTurns: 0 } });
+  });
+
+  test("should keep usage and local totals when the ledger is unavailable", async () => {
+    const { service } = ledger();
+    service.record.mockRejectedValueOnce(new Error("db down"));
+    service.getTotals.mockRejectedValue(new Error("db down"));
+    const tracker = new SessionUsageTracker("user-1", "voice_1", { dailyTurns: 2 }, service);
+
+    tracker.addTurn();
+    tracker.addTurn();
+    await tracker.flush();
+    expect(tracker.check().exceeded).toBe("dailyTurns");
+
+    // Retried on the next flush
+    await tracker.flush();
+    expect(service.record).toHaveBeenLastCalledWith("user-1", "voice_1", totals(0, 0, 2));
+    expect(tracker.check().exceeded).toBe("dailyTurns");
+  });
+});
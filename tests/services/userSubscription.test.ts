@@ -0,0 +1,126 @@
+import { Types } from "mongoose";
+import { UserSubscription, IUserSubscription } from "../../src/models/schemas/UserSubscription";
+import { UserSubscriptionService, addMonths } from "../../src/services/userSubscriptionService";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe("addMonths", () => {
+  test("should clamp to the end of shorter months", () => {
+    expect(addMonths(day("2026-01-31"), 1)).toEqual(day("2026-02-28"));
+    expect(addMonths(day("2026-03-15"), 1)).toEqual(day("2026-04-15"));
+    expect(addMonths(day("2026-12-31"), 2)).toEqual(day("2027-02-28"));
+  });
+});
+
+describe("UserSubscriptionService lifecycle", () => {
+  const service = new UserSubscriptionService(7);
+
+  const subscription = (fields: Partial<IUserSubscription>) =>
+    new UserSubscription({
+      userId: new Types.ObjectId(),
+      planId: new Types.ObjectId(),
+      startedAt: day("2026-01-10"),
+      currentPeriodStart: day("2026-01-10"),
+      currentPeriodEnd: day("2026-02-10"),
+      events: [],
+      ...fields,
+    });
+
+  test("should leave a subscription alone until something is due", () => {
+    const active = subscription({ status: "active" });
+
+    expect(service.applyLifecycle(active, day("2026-02-09"))).toBe(false);
+    expect(active.events).toHaveLength(0);
+  });
+
+  test("should start a paid period when the trial ends and renew monthly after that", () => {
+    const trial = subscription({ status: "trialing", trialEndsAt: day("2026-01-24"), currentPeriodEnd: day("2026-01-24") });
+
+    expect(service.applyLifecycle(trial, day("2026-03-01"))).toBe(true);
+    expect(trial.status).toBe("active");
+    expect(trial.currentPeriodStart).toEqual(day("2026-02-24"));
+    expect(trial.currentPeriodEnd).toEqual(day("2026-03-24"));
+    expect(trial.events.map((e) => e.type)).toEqual(["trial_ended", "renewed"]);
+  });
+
+  test("should expire canceled subscriptions at the end of the period", () => {
+    const canceled = subscription({ status: "canceled", canceledAt: day("2026-01-20") });
+
+    expect(service.applyLifecycle(canceled, day("2026-02-01"))).toBe(false);
+    expect(service.applyLifecycle(canceled, day("2026-02-10"))).toBe(true);
+    expect(canceled.status).toBe("expired");
+    expect(canceled.endedAt).toEqual(day("2026-02-10"));
+  });
+
+  test("should expire past due subscriptions after the grace period", () => {
+    const pastDue = subscription({ status: "past_due", pastDueAt: day("2026-02-10") });
+
+    expect(service.applyLifecycle(pastDue, day("2026-02-16"))).toBe(false);
+    expect(pastDue.status).toBe("past_due");
+
+    expect(service.applyLifecycle(pastDue, day("2026-02-17"))).toBe(true);
+    expect(pastDue.status).toBe("expired");
+    expect(pastDue.events.map((e) => e.type)).toEqual(["expired"]);
+  });
+
+  test("should renew annual subscriptions a year at a time", () => {
+    const annual = subscription({ status: "active", interval: "year", currentPeriodEnd: day("2027-01-10") });
+
+    expect(service.applyLifecycle(annual, day("2027-01-10"))).toBe(true);
+    expect(annual.currentPeriodStart).toEqual(day("2027-01-10"));
+    expect(annual.currentPeriodEnd).toEqual(day("2028-01-10"));
+  });
+
+  test("should only renew provider-billed subscriptions from a paid invoice", () => {
+    const billing = { provider: "stripe", customerId: "cus_1", subscriptionId: "sub_1" };
+    const billed = subscription({ status: "active", billing });
+
+    expect(service.applyLifecycle(billed, day("2026-02-16"))).toBe(false);
+    expect(billed.currentPeriodEnd).toEqual(day("2026-02-10"));
+
+    // No invoice within the grace period
+    expect(service.applyLifecycle(billed, day("2026-02-17"))).toBe(true);
+    expect(billed.status).toBe("expired");
+    expect(billed.events.map((e) => e.type)).toEqual(["expired"]);
+
+    const trial = subscription({ status: "trialing", billing, currentPeriodEnd: day("2026-01-24") });
+    expect(service.applyLifecycle(trial, day("2026-01-25"))).toBe(true);
+    expect(trial.status).toBe("active");
+    expect(trial.currentPeriodEnd).toEqual(day("2026-01-24"));
+  });
+});
+
+describe("UserSubscriptionService.getCurrentSubscription", () => {
+  const service = new UserSubscriptionService(7);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should store due transitions only if no other read stored them first", async () => {
+    const userId = new Types.ObjectId();
+    const read = () =>
+      new UserSubscription({
+        userId,
+        planId: new Types.ObjectId(),
+        status: "canceled",
+        startedAt: day("2026-01-10"),
+        currentPeriodStart: day("2026-01-10"),
+        currentPeriodEnd: day("2026-02-10"),
+        events: [],
+      });
+    const stored = read();
+    stored.status = "expired";
+
+    jest.spyOn(UserSubscription, "findOne").mockReturnValue({ sort: () => Promise.resolve(read()) } as any);
+    const update = jest.spyOn(UserSubscription, "findOneAndUpdate").mockResolvedValueOnce(null);
+    jest.spyOn(UserSubscription, "findById").mockResolvedValue(stored);
+
+    await expect(service.getCurrentSubscription(userId.toString())).resolves.toBeNull();
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "canceled", currentPeriodEnd: day("2026-02-10") }),
+      expect.objectContaining({ $set: expect.objectContaining({ status: "expired" }) }),
+      { new: true }
+    );
+  });
+});
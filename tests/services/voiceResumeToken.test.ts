@@ -0,0 +1,60 @@
+import jwt from "jsonwebtoken";
+import { VoiceResumeTokenService } from "../../src/services/voiceResumeTokenService";
+
+describe("VoiceResumeTokenService", () => {
+  const session = { sessionId: "voice_1", userId: "user-1" };
+  let service: VoiceResumeTokenService;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = "resume-token-test-secret";
+    service = new VoiceResumeTokenService(60, 3, 60_000);
+  });
+
+  test("should accept the latest token for its own session and user", () => {
+    const issued = service.issue(session.sessionId, session.userId);
+
+    expect(service.verify(issued.token, { ...session, currentTokenId: issued.tokenId })).toEqual({ valid: true });
+  });
+
+  test("should reject tokens for another session, another user or after rotation", () => {
+    const first = service.issue(session.sessionId, session.userId);
+    const second = service.issue(session.sessionId, session.userId);
+
+    expect(service.verify(first.token, { ...session, currentTokenId: second.tokenId })).toEqual({ valid: false, reason: "superseded" });
+    expect(service.verify(second.token, { sessionId: "voice_2", userId: "user-1", currentTokenId: second.tokenId }))
+      .toEqual({ valid: false, reason: "wrong_session" });
+    expect(service.verify(second.token, { sessionId: "voice_1", userId: "user-2", currentTokenId: second.tokenId }))
+      .toEqual({ valid: false, reason: "wrong_user" });
+    expect(service.verify(undefined, { ...session, currentTokenId: second.tokenId })).toEqual({ valid: false, reason: "missing" });
+  });
+
+  test("should not accept access tokens or expired resume tokens", () => {
+    const issued = service.issue(session.sessionId, session.userId);
+    const accessToken = jwt.sign({ userId: "user-1", sid: "voice_1" }, "resume-token-test-secret");
+    const expired = new VoiceResumeTokenService(-10).issue(session.sessionId, session.userId);
+
+    expect(service.verify(accessToken, { ...session, currentTokenId: issued.tokenId })).toEqual({ valid: false, reason: "invalid" });
+    expect(service.verify(expired.token, { ...session, currentTokenId: expired.tokenId })).toEqual({ valid: false, reason: "expired" });
+  });
+
+  test("should ask for a new token in the last third of its lifetime", () => {
+    const issued = service.issue(session.sessionId, session.userId);
+    const issuedAt = new Date(issued.expiresAt).getTime() - 60_000;
+
+    expect(service.needsRefresh(issued.expiresAt, issuedAt + 39_000)).toBe(false);
+    expect(service.needsRefresh(issued.expiresAt, issuedAt + 40_000)).toBe(true);
+  });
+
+  test("should block a user after repeated failures until cleared", () => {
+    service.recordFailure("user-1");
+    service.recordFailure("user-1");
+    expect(service.isBlocked("user-1")).toBe(false);
+
+    service.recordFailure("user-1");
+    expect(service.isBlocked("user-1")).toBe(true);
+    expect(service.isBlocked("user-2")).toBe(false);
+
+    service.clearFailures("user-1");
+    expect(service.isBlocked("user-1")).toBe(false);
+  });
+});